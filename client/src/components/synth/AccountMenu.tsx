@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { LogIn, LogOut, User } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+
+// Sign in to share presets; anyone can browse and load without an account
+export function AccountMenu() {
+  const { user, loginMutation, registerMutation, logoutMutation } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  const isPending = loginMutation.isPending || registerMutation.isPending;
+  const canSubmit = username.trim().length >= 3 && password.length >= 8 && !isPending;
+
+  const submit = (mode: "login" | "register") => {
+    if (!canSubmit) return;
+    const mutation = mode === "login" ? loginMutation : registerMutation;
+    mutation.mutate({ username: username.trim(), password }, {
+      onSuccess: () => {
+        setPassword("");
+        setOpen(false);
+      },
+    });
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          size="icon"
+          variant="ghost"
+          className={`h-7 w-7 ${user ? "text-primary" : ""}`}
+          title={user ? `Signed in as ${user.username}` : "Sign in to share presets"}
+          data-testid="button-account"
+        >
+          <User className="w-3.5 h-3.5" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-56 p-2 space-y-2" data-testid="account-menu">
+        {user ? (
+          <div className="flex items-center justify-between gap-2 text-[10px]">
+            <span className="truncate" data-testid="text-account-username">{user.username}</span>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-6 text-[10px] px-2"
+              onClick={() => logoutMutation.mutate(undefined, { onSuccess: () => setOpen(false) })}
+              disabled={logoutMutation.isPending}
+              data-testid="button-logout"
+            >
+              <LogOut className="w-3 h-3 mr-1" />
+              Sign out
+            </Button>
+          </div>
+        ) : (
+          <>
+            <div className="text-[10px] text-muted-foreground">
+              Sign in to save shared presets and edit the ones you own.
+            </div>
+            <Input
+              placeholder="Username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              className="h-6 text-[10px]"
+              autoComplete="username"
+              data-testid="input-username"
+            />
+            <Input
+              type="password"
+              placeholder="Password (8+ characters)"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && submit("login")}
+              className="h-6 text-[10px]"
+              autoComplete="current-password"
+              data-testid="input-password"
+            />
+            <div className="flex gap-1">
+              <Button
+                size="sm"
+                className="h-6 text-[10px] px-2 flex-1"
+                onClick={() => submit("login")}
+                disabled={!canSubmit}
+                data-testid="button-login"
+              >
+                <LogIn className="w-3 h-3 mr-1" />
+                Sign in
+              </Button>
+              <Button
+                size="sm"
+                variant="secondary"
+                className="h-6 text-[10px] px-2 flex-1"
+                onClick={() => submit("register")}
+                disabled={!canSubmit}
+                data-testid="button-register"
+              >
+                Register
+              </Button>
+            </div>
+          </>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,316 @@
+import { useRef, useEffect, useMemo, useState } from "react";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  type Spectrogram,
+  type Spectrum,
+  type StereoImage,
+  computeSpectrogram,
+  computeAverageSpectrum,
+  analyzeStereo,
+  binFrequency,
+} from "@/lib/spectralAnalysis";
+import { getChannels } from "@/lib/tailDetection";
+import { frequencyToMidi, midiToNoteName } from "@/lib/noteTrigger";
+
+type AnalysisMode = "spectrogram" | "spectrum" | "stereo";
+
+interface AnalysisDisplayProps {
+  audioBuffer: AudioBuffer | null;
+  className?: string;
+}
+
+const MIN_FREQ = 20;
+const MAX_FREQ = 20000;
+const DB_FLOOR = -100;
+const SPECTROGRAM_ROWS = 256;
+const METER_HEIGHT = 14;
+
+const gridColor = "hsl(150, 6%, 16%)";
+const labelColor = "hsl(145, 15%, 45%)";
+const traceColor = "hsl(145, 45%, 55%)";
+
+// Heat map from the panel background through the waveform green to pale yellow
+const HEAT_STOPS: [number, number, number, number][] = [
+  [0, 14, 17, 16],
+  [0.35, 28, 78, 52],
+  [0.7, 89, 192, 130],
+  [1, 235, 250, 200],
+];
+
+function heatColor(t: number): [number, number, number] {
+  const clamped = Math.max(0, Math.min(1, t));
+  for (let i = 1; i < HEAT_STOPS.length; i++) {
+    const [pos, r, g, b] = HEAT_STOPS[i];
+    if (clamped <= pos) {
+      const [prevPos, pr, pg, pb] = HEAT_STOPS[i - 1];
+      const f = (clamped - prevPos) / (pos - prevPos);
+      return [pr + (r - pr) * f, pg + (g - pg) * f, pb + (b - pb) * f];
+    }
+  }
+  return [235, 250, 200];
+}
+
+// Log-frequency axis shared by the spectrogram and spectrum
+function frequencyScale(sampleRate: number) {
+  const maxFreq = Math.min(MAX_FREQ, sampleRate / 2);
+  const span = Math.log(maxFreq / MIN_FREQ);
+  return {
+    maxFreq,
+    toPosition: (freq: number) => Math.log(freq / MIN_FREQ) / span,
+    fromPosition: (position: number) => MIN_FREQ * Math.exp(position * span),
+  };
+}
+
+// Linear interpolation between the bins either side of a frequency
+function magnitudeAt(magnitudes: Float32Array, freq: number, fftSize: number, sampleRate: number): number {
+  const bin = (freq * fftSize) / sampleRate;
+  const low = Math.min(magnitudes.length - 1, Math.floor(bin));
+  const high = Math.min(magnitudes.length - 1, low + 1);
+  return magnitudes[low] + (magnitudes[high] - magnitudes[low]) * (bin - low);
+}
+
+function formatFrequency(freq: number): string {
+  return freq >= 1000 ? `${(freq / 1000).toFixed(freq >= 10000 ? 0 : 1)}k` : `${Math.round(freq)}`;
+}
+
+function drawSpectrogram(ctx: CanvasRenderingContext2D, width: number, height: number, spectrogram: Spectrogram) {
+  const { frames, fftSize, sampleRate } = spectrogram;
+  if (frames.length === 0) return;
+  const scale = frequencyScale(sampleRate);
+
+  // Paint one pixel per frame and row, then let drawImage stretch it
+  const image = new ImageData(frames.length, SPECTROGRAM_ROWS);
+  for (let row = 0; row < SPECTROGRAM_ROWS; row++) {
+    const freq = scale.fromPosition(1 - (row + 0.5) / SPECTROGRAM_ROWS);
+    for (let col = 0; col < frames.length; col++) {
+      const db = magnitudeAt(frames[col], freq, fftSize, sampleRate);
+      const [r, g, b] = heatColor(1 - db / DB_FLOOR);
+      const offset = (row * frames.length + col) * 4;
+      image.data[offset] = r;
+      image.data[offset + 1] = g;
+      image.data[offset + 2] = b;
+      image.data[offset + 3] = 255;
+    }
+  }
+  const offscreen = document.createElement("canvas");
+  offscreen.width = frames.length;
+  offscreen.height = SPECTROGRAM_ROWS;
+  offscreen.getContext("2d")?.putImageData(image, 0, 0);
+  ctx.imageSmoothingEnabled = true;
+  ctx.drawImage(offscreen, 0, 0, width, height);
+
+  ctx.font = "9px monospace";
+  ctx.fillStyle = labelColor;
+  for (const freq of [100, 1000, 10000]) {
+    if (freq > scale.maxFreq) continue;
+    const y = (1 - scale.toPosition(freq)) * height;
+    ctx.fillText(formatFrequency(freq), 3, y - 2);
+  }
+  const duration = (frames.length * spectrogram.hopSize) / sampleRate;
+  ctx.textAlign = "right";
+  ctx.fillText(`${duration.toFixed(2)}s`, width - 3, height - 3);
+  ctx.textAlign = "left";
+}
+
+function drawSpectrum(ctx: CanvasRenderingContext2D, width: number, height: number, spectrum: Spectrum) {
+  const { magnitudes, fftSize, sampleRate } = spectrum;
+  const scale = frequencyScale(sampleRate);
+  const dbToY = (db: number) => (Math.max(DB_FLOOR, db) / DB_FLOOR) * height;
+
+  // dB grid every 20 dB, note grid at every C
+  ctx.strokeStyle = gridColor;
+  ctx.lineWidth = 1;
+  ctx.font = "9px monospace";
+  ctx.fillStyle = labelColor;
+  for (let db = -20; db > DB_FLOOR; db -= 20) {
+    const y = Math.round(dbToY(db)) + 0.5;
+    ctx.beginPath();
+    ctx.moveTo(0, y);
+    ctx.lineTo(width, y);
+    ctx.stroke();
+    ctx.fillText(`${db}`, 3, y - 2);
+  }
+  for (let note = 24; note <= 127; note += 12) {
+    const freq = 440 * Math.pow(2, (note - 69) / 12);
+    if (freq > scale.maxFreq) break;
+    const x = Math.round(scale.toPosition(freq) * width) + 0.5;
+    ctx.beginPath();
+    ctx.moveTo(x, 0);
+    ctx.lineTo(x, height);
+    ctx.stroke();
+    ctx.fillText(midiToNoteName(note), x + 2, height - 3);
+  }
+
+  // Loudest bin in each pixel column, so narrow peaks survive at high frequencies
+  ctx.beginPath();
+  ctx.moveTo(0, height);
+  for (let x = 0; x < width; x++) {
+    const lowFreq = scale.fromPosition(x / width);
+    const highFreq = scale.fromPosition((x + 1) / width);
+    const lowBin = Math.ceil((lowFreq * fftSize) / sampleRate);
+    const highBin = Math.min(magnitudes.length - 1, Math.floor((highFreq * fftSize) / sampleRate));
+    let db = magnitudeAt(magnitudes, lowFreq, fftSize, sampleRate);
+    for (let bin = lowBin; bin <= highBin; bin++) db = Math.max(db, magnitudes[bin]);
+    ctx.lineTo(x, dbToY(db));
+  }
+  ctx.lineTo(width, height);
+  ctx.closePath();
+  ctx.fillStyle = "hsla(145, 45%, 55%, 0.15)";
+  ctx.fill();
+  ctx.strokeStyle = traceColor;
+  ctx.stroke();
+
+  // Peak readout, refined by parabolic interpolation around the loudest bin
+  let peak = 1;
+  for (let bin = 1; bin < magnitudes.length - 1; bin++) {
+    if (binFrequency(bin, fftSize, sampleRate) < MIN_FREQ) continue;
+    if (magnitudes[bin] > magnitudes[peak]) peak = bin;
+  }
+  if (magnitudes[peak] > DB_FLOOR) {
+    const [a, b, c] = [magnitudes[peak - 1], magnitudes[peak], magnitudes[Math.min(peak + 1, magnitudes.length - 1)]];
+    const denominator = a - 2 * b + c;
+    const offset = denominator !== 0 ? (0.5 * (a - c)) / denominator : 0;
+    const peakFreq = binFrequency(peak + offset, fftSize, sampleRate);
+    ctx.textAlign = "right";
+    ctx.fillStyle = traceColor;
+    ctx.fillText(`${formatFrequency(peakFreq)} Hz  ${midiToNoteName(frequencyToMidi(peakFreq))}`, width - 3, 10);
+    ctx.textAlign = "left";
+  }
+}
+
+function drawStereo(ctx: CanvasRenderingContext2D, width: number, height: number, image: StereoImage, mono: boolean) {
+  const plotHeight = height - METER_HEIGHT;
+  const radius = Math.max(1, Math.min(width, plotHeight * 2) / 2 - 4);
+  const centerX = width / 2;
+  const centerY = plotHeight - 2;
+
+  // Upper half-plane goniometer: L and R diagonals, M vertical
+  ctx.strokeStyle = gridColor;
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.moveTo(centerX - radius * Math.SQRT1_2, centerY - radius * Math.SQRT1_2);
+  ctx.lineTo(centerX, centerY);
+  ctx.lineTo(centerX + radius * Math.SQRT1_2, centerY - radius * Math.SQRT1_2);
+  ctx.moveTo(centerX, centerY);
+  ctx.lineTo(centerX, centerY - radius);
+  ctx.moveTo(centerX - radius, centerY);
+  ctx.lineTo(centerX + radius, centerY);
+  ctx.stroke();
+  ctx.font = "9px monospace";
+  ctx.fillStyle = labelColor;
+  ctx.fillText("L", centerX - radius * Math.SQRT1_2 - 8, centerY - radius * Math.SQRT1_2 + 4);
+  ctx.fillText("R", centerX + radius * Math.SQRT1_2 + 3, centerY - radius * Math.SQRT1_2 + 4);
+  ctx.fillText("M", centerX + 3, centerY - radius + 8);
+
+  // Points mirrored through the origin into the upper half, scaled to the peak
+  const { points } = image;
+  let peak = 0;
+  for (let i = 0; i < points.length; i++) peak = Math.max(peak, Math.abs(points[i]));
+  if (peak > 0) {
+    ctx.fillStyle = "hsla(145, 45%, 60%, 0.35)";
+    for (let i = 0; i < points.length; i += 2) {
+      const sign = points[i + 1] < 0 ? -1 : 1;
+      ctx.fillRect(centerX + (sign * points[i] / peak) * radius, centerY - (sign * points[i + 1] / peak) * radius, 1.5, 1.5);
+    }
+  }
+
+  // Correlation meter, -1 at the left edge to +1 at the right
+  const meterY = height - METER_HEIGHT + 4;
+  ctx.fillStyle = gridColor;
+  ctx.fillRect(4, meterY, width - 8, 4);
+  const markerX = 4 + ((image.correlation + 1) / 2) * (width - 8);
+  ctx.fillStyle = image.correlation < 0 ? "hsl(0, 60%, 60%)" : traceColor;
+  ctx.fillRect(markerX - 1.5, meterY - 2, 3, 8);
+  ctx.fillStyle = labelColor;
+  ctx.fillText(mono ? "Mono" : `Corr ${image.correlation >= 0 ? "+" : ""}${image.correlation.toFixed(2)}`, 4, meterY - 3);
+}
+
+export function AnalysisDisplay({ audioBuffer, className = "" }: AnalysisDisplayProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [mode, setMode] = useState<AnalysisMode>("spectrogram");
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  // Only the visible view is computed
+  const analysis = useMemo(() => {
+    if (!audioBuffer) return null;
+    const channels = getChannels(audioBuffer);
+    switch (mode) {
+      case "spectrogram":
+        return { mode, spectrogram: computeSpectrogram(channels, audioBuffer.sampleRate) };
+      case "spectrum":
+        return { mode, spectrum: computeAverageSpectrum(channels, audioBuffer.sampleRate) };
+      case "stereo":
+        return { mode, stereo: analyzeStereo(channels), mono: channels.length === 1 };
+    }
+  }, [audioBuffer, mode]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const resizeObserver = new ResizeObserver((entries) => {
+      for (const entry of entries) {
+        const { width, height } = entry.contentRect;
+        if (width > 0 && height > 0) setSize({ width, height });
+      }
+    });
+
+    resizeObserver.observe(canvas.parentElement!);
+
+    return () => resizeObserver.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx || size.width === 0) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = size.width * dpr;
+    canvas.height = size.height * dpr;
+    canvas.style.width = `${size.width}px`;
+    canvas.style.height = `${size.height}px`;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, size.width, size.height);
+
+    if (analysis?.mode === "spectrogram") {
+      drawSpectrogram(ctx, size.width, size.height, analysis.spectrogram);
+    } else if (analysis?.mode === "spectrum") {
+      drawSpectrum(ctx, size.width, size.height, analysis.spectrum);
+    } else if (analysis?.mode === "stereo") {
+      drawStereo(ctx, size.width, size.height, analysis.stereo, analysis.mono);
+    }
+  }, [analysis, size]);
+
+  return (
+    <div className={`flex flex-col gap-1 ${className}`} data-testid="analysis-display">
+      <Tabs value={mode} onValueChange={(value) => setMode(value as AnalysisMode)} className="w-full">
+        <TabsList className="w-full h-6 grid grid-cols-3 bg-muted/50">
+          <TabsTrigger value="spectrogram" className="text-[10px]" data-testid="tab-analysis-spectrogram">
+            Spectrogram
+          </TabsTrigger>
+          <TabsTrigger value="spectrum" className="text-[10px]" data-testid="tab-analysis-spectrum">
+            Spectrum
+          </TabsTrigger>
+          <TabsTrigger value="stereo" className="text-[10px]" data-testid="tab-analysis-stereo">
+            Phase
+          </TabsTrigger>
+        </TabsList>
+      </Tabs>
+      <div
+        className="relative w-full flex-1 min-h-0 rounded-lg overflow-hidden"
+        style={{
+          background: 'hsl(150, 8%, 6%)',
+          border: '1px solid hsl(150, 6%, 12%)',
+        }}
+      >
+        <canvas ref={canvasRef} className="absolute inset-0" data-testid="canvas-analysis" />
+        {!audioBuffer && (
+          <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+            <span className="text-muted-foreground/80 text-sm font-medium">Trigger to analyze</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
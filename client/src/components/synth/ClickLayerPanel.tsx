@@ -40,6 +40,7 @@ export function ClickLayerPanel({ clickLayer, onChange }: ClickLayerPanelProps)
             step={1}
             label="Level"
             unit="%"
+            lockKey="level"
             onChange={(v) => update("level", v)}
             accentColor="accent"
             size="xs"
@@ -52,6 +53,7 @@ export function ClickLayerPanel({ clickLayer, onChange }: ClickLayerPanelProps)
             step={0.5}
             label="Decay"
             unit="ms"
+            lockKey="decay"
             onChange={(v) => update("decay", v)}
             accentColor="accent"
             size="xs"
@@ -96,6 +98,7 @@ export function ClickLayerPanel({ clickLayer, onChange }: ClickLayerPanelProps)
             step={100}
             label="Freq"
             unit="Hz"
+            lockKey="filterFreq"
             onChange={(v) => update("filterFreq", v)}
             logarithmic
             accentColor="accent"
@@ -107,6 +110,7 @@ export function ClickLayerPanel({ clickLayer, onChange }: ClickLayerPanelProps)
             max={10}
             step={0.5}
             label="Q"
+            lockKey="filterQ"
             onChange={(v) => update("filterQ", v)}
             accentColor="accent"
             size="xs"
@@ -130,6 +134,7 @@ export function ClickLayerPanel({ clickLayer, onChange }: ClickLayerPanelProps)
               max={16}
               step={1}
               label="Bits"
+              lockKey="srrAmount"
               onChange={(v) => update("srrAmount", v)}
               accentColor="accent"
               size="xs"
@@ -0,0 +1,171 @@
+import { useState } from "react";
+import { CollapsiblePanel } from "./CollapsiblePanel";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Columns2, Play, Save, RotateCcw, X, Copy } from "lucide-react";
+import { type SlotId, type CompareSlots, SLOT_IDS, getMatchedGain } from "@/lib/compareSlots";
+import { linearToDb } from "@/lib/loudness";
+
+interface ComparePanelProps {
+  slots: CompareSlots;
+  activeSlot: SlotId | null; // Last auditioned
+  levelMatch: boolean;
+  isStoring: boolean;
+  onLevelMatchChange: (levelMatch: boolean) => void;
+  onStore: (id: SlotId) => void;
+  onRecall: (id: SlotId) => void;
+  onPlay: (id: SlotId) => void;
+  onCopy: (from: SlotId, to: SlotId) => void;
+  onClear: (id: SlotId) => void;
+}
+
+function formatLoudness(lufs: number): string {
+  return isFinite(lufs) ? `${lufs.toFixed(1)} LUFS` : "silent";
+}
+
+export function ComparePanel({
+  slots,
+  activeSlot,
+  levelMatch,
+  isStoring,
+  onLevelMatchChange,
+  onStore,
+  onRecall,
+  onPlay,
+  onCopy,
+  onClear,
+}: ComparePanelProps) {
+  const [copyFrom, setCopyFrom] = useState<SlotId>("A");
+  const [copyTo, setCopyTo] = useState<SlotId>("B");
+
+  return (
+    <CollapsiblePanel
+      title="A/B Compare"
+      icon={<Columns2 className="w-3 h-3 text-primary" />}
+      defaultOpen={true}
+      data-testid="panel-compare"
+      headerExtra={
+        <div className="flex items-center gap-1">
+          <Label htmlFor="compare-level-match" className="text-[10px] text-muted-foreground">
+            Match
+          </Label>
+          <Switch
+            id="compare-level-match"
+            checked={levelMatch}
+            onCheckedChange={onLevelMatchChange}
+            className="scale-75"
+            data-testid="switch-compare-level-match"
+          />
+        </div>
+      }
+    >
+      <div className="space-y-1.5">
+        {/* Audition toggle: one button per slot */}
+        <div className="grid grid-cols-4 gap-1">
+          {SLOT_IDS.map(id => (
+            <Button
+              key={id}
+              size="sm"
+              variant={activeSlot === id ? "default" : "outline"}
+              className="h-7 text-xs"
+              disabled={!slots[id]}
+              onClick={() => onPlay(id)}
+              data-testid={`button-compare-play-${id}`}
+            >
+              <Play className="w-3 h-3 mr-1" />
+              {id}
+            </Button>
+          ))}
+        </div>
+
+        {SLOT_IDS.map(id => {
+          const slot = slots[id];
+          const gainDb = slot && levelMatch ? linearToDb(getMatchedGain(slots, id)) : 0;
+          return (
+            <div key={id} className="flex items-center gap-1 text-[10px]" data-testid={`compare-slot-${id}`}>
+              <span className={`w-3 font-medium ${activeSlot === id ? "text-primary" : ""}`}>{id}</span>
+              <div className="flex-1 min-w-0 truncate text-muted-foreground">
+                {slot ? (
+                  <>
+                    <span className="text-foreground">{slot.name}</span>
+                    {" · "}{formatLoudness(slot.loudness)}
+                    {gainDb < -0.05 && ` · ${gainDb.toFixed(1)} dB`}
+                  </>
+                ) : (
+                  "Empty"
+                )}
+              </div>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-5 w-5"
+                disabled={isStoring}
+                onClick={() => onStore(id)}
+                title="Store current sound"
+                data-testid={`button-compare-store-${id}`}
+              >
+                <Save className="w-3 h-3" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-5 w-5"
+                disabled={!slot}
+                onClick={() => onRecall(id)}
+                title="Recall settings"
+                data-testid={`button-compare-recall-${id}`}
+              >
+                <RotateCcw className="w-3 h-3" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-5 w-5"
+                disabled={!slot}
+                onClick={() => onClear(id)}
+                title="Clear slot"
+                data-testid={`button-compare-clear-${id}`}
+              >
+                <X className="w-3 h-3" />
+              </Button>
+            </div>
+          );
+        })}
+
+        <div className="flex items-center gap-1 pt-1">
+          <Label className="text-[10px] text-muted-foreground">Copy</Label>
+          <Select value={copyFrom} onValueChange={(value) => setCopyFrom(value as SlotId)}>
+            <SelectTrigger className="h-6 text-[10px] w-12" data-testid="select-compare-copy-from">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SLOT_IDS.map(id => <SelectItem key={id} value={id}>{id}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Label className="text-[10px] text-muted-foreground">to</Label>
+          <Select value={copyTo} onValueChange={(value) => setCopyTo(value as SlotId)}>
+            <SelectTrigger className="h-6 text-[10px] w-12" data-testid="select-compare-copy-to">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SLOT_IDS.map(id => <SelectItem key={id} value={id}>{id}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-6 text-[10px] px-2"
+            disabled={!slots[copyFrom] || copyFrom === copyTo}
+            onClick={() => onCopy(copyFrom, copyTo)}
+            data-testid="button-compare-copy"
+          >
+            <Copy className="w-3 h-3 mr-1" />
+            Copy
+          </Button>
+        </div>
+      </div>
+    </CollapsiblePanel>
+  );
+}
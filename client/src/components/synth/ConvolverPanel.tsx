@@ -2,28 +2,23 @@ import { useState, useRef, useCallback, useEffect } from "react";
 import { Switch } from "@/components/ui/switch";
 import { Button } from "@/components/ui/button";
 import { Knob } from "./Knob";
+import { LockScope } from "@/contexts/ParameterLockContext";
 import { CollapsiblePanel } from "./CollapsiblePanel";
 import type { Convolver } from "@shared/schema";
 import { Radio, Upload, Trash2, RotateCcw, Disc, ChevronDown } from "lucide-react";
 import { BUILTIN_IRS, generateBuiltinIR, type BuiltinIR } from "@/lib/builtinIRs";
+import {
+  type ConvolverSettings,
+  type StoredIR,
+  defaultConvolverSettings,
+  getStoredIRs,
+  saveIRs,
+  loadConvolverSettings,
+  saveConvolverSettings,
+} from "@/lib/convolverSettings";
 
-export interface ConvolverSettings {
-  predelay: number;
-  decay: number;
-  lowCut: number;
-  highCut: number;
-  reverse: boolean;
-  stretch: number;
-}
-
-export const defaultConvolverSettings: ConvolverSettings = {
-  predelay: 0,
-  decay: 100,
-  lowCut: 20,
-  highCut: 20000,
-  reverse: false,
-  stretch: 1.0,
-};
+export type { ConvolverSettings, StoredIR };
+export { defaultConvolverSettings, getStoredIRs, saveIRs, loadConvolverSettings, saveConvolverSettings };
 
 interface ConvolverPanelProps {
   convolver: Convolver;
@@ -33,43 +28,6 @@ interface ConvolverPanelProps {
   onSettingsChange?: (settings: ConvolverSettings) => void;
 }
 
-const IR_STORAGE_KEY = "synth-custom-irs";
-const CONVOLVER_SETTINGS_KEY = "synth-convolver-settings";
-
-interface StoredIR {
-  name: string;
-  data: string;
-}
-
-function getStoredIRs(): StoredIR[] {
-  try {
-    const stored = localStorage.getItem(IR_STORAGE_KEY);
-    return stored ? JSON.parse(stored) : [];
-  } catch {
-    return [];
-  }
-}
-
-function saveIRs(irs: StoredIR[]) {
-  localStorage.setItem(IR_STORAGE_KEY, JSON.stringify(irs));
-}
-
-export function loadConvolverSettings(): ConvolverSettings {
-  try {
-    const stored = localStorage.getItem(CONVOLVER_SETTINGS_KEY);
-    if (stored) {
-      return { ...defaultConvolverSettings, ...JSON.parse(stored) };
-    }
-  } catch {
-    // Fall through to default
-  }
-  return { ...defaultConvolverSettings };
-}
-
-export function saveConvolverSettings(settings: ConvolverSettings) {
-  localStorage.setItem(CONVOLVER_SETTINGS_KEY, JSON.stringify(settings));
-}
-
 const categoryIcons: Record<string, string> = {
   plate: "🔲",
   spring: "〰️",
@@ -267,71 +225,81 @@ export function ConvolverPanel({ convolver, onChange, onIRLoaded, settings, onSe
               step={1}
               label="Mix"
               unit="%"
+              lockKey="mix"
               onChange={(v) => updateConvolver("mix", v)}
               accentColor="accent"
               size="xs"
             />
-            <Knob
-              value={currentSettings.predelay}
-              min={0}
-              max={500}
-              step={1}
-              label="Pre"
-              unit="ms"
-              onChange={(v) => updateSettings("predelay", v)}
-              accentColor="accent"
-              size="xs"
-            />
-            <Knob
-              value={currentSettings.decay}
-              min={10}
-              max={100}
-              step={1}
-              label="Size"
-              unit="%"
-              onChange={(v) => updateSettings("decay", v)}
-              accentColor="accent"
-              size="xs"
-            />
+            <LockScope path="convolverSettings">
+              <Knob
+                value={currentSettings.predelay}
+                min={0}
+                max={500}
+                step={1}
+                label="Pre"
+                unit="ms"
+                lockKey="predelay"
+                onChange={(v) => updateSettings("predelay", v)}
+                accentColor="accent"
+                size="xs"
+              />
+              <Knob
+                value={currentSettings.decay}
+                min={10}
+                max={100}
+                step={1}
+                label="Size"
+                unit="%"
+                lockKey="decay"
+                onChange={(v) => updateSettings("decay", v)}
+                accentColor="accent"
+                size="xs"
+              />
+            </LockScope>
           </div>
           
-          <div className="grid grid-cols-3 gap-1">
-            <Knob
-              value={currentSettings.lowCut}
-              min={20}
-              max={2000}
-              step={1}
-              label="Lo Cut"
-              unit="Hz"
-              onChange={(v) => updateSettings("lowCut", v)}
-              accentColor="accent"
-              size="xs"
-              logarithmic
-            />
-            <Knob
-              value={currentSettings.highCut}
-              min={1000}
-              max={20000}
-              step={100}
-              label="Hi Cut"
-              unit="Hz"
-              onChange={(v) => updateSettings("highCut", v)}
-              accentColor="accent"
-              size="xs"
-              logarithmic
-            />
-            <Knob
-              value={currentSettings.stretch}
-              min={0.5}
-              max={2.0}
-              step={0.01}
-              label="Stretch"
-              unit="x"
-              onChange={(v) => updateSettings("stretch", v)}
-              accentColor="accent"
-              size="xs"
-            />
-          </div>
+          <LockScope path="convolverSettings">
+            <div className="grid grid-cols-3 gap-1">
+              <Knob
+                value={currentSettings.lowCut}
+                min={20}
+                max={2000}
+                step={1}
+                label="Lo Cut"
+                unit="Hz"
+                lockKey="lowCut"
+                onChange={(v) => updateSettings("lowCut", v)}
+                accentColor="accent"
+                size="xs"
+                logarithmic
+              />
+              <Knob
+                value={currentSettings.highCut}
+                min={1000}
+                max={20000}
+                step={100}
+                label="Hi Cut"
+                unit="Hz"
+                lockKey="highCut"
+                onChange={(v) => updateSettings("highCut", v)}
+                accentColor="accent"
+                size="xs"
+                logarithmic
+              />
+              <Knob
+                value={currentSettings.stretch}
+                min={0.5}
+                max={2.0}
+                step={0.01}
+                label="Stretch"
+                unit="x"
+                lockKey="stretch"
+                onChange={(v) => updateSettings("stretch", v)}
+                accentColor="accent"
+                size="xs"
+              />
+            </div>
+          </LockScope>
           
           <div className="flex items-center justify-between px-1">
             <div className="flex items-center gap-1.5">
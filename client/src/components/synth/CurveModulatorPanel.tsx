@@ -11,6 +11,7 @@ import {
 } from "@/lib/curveModulatorSettings";
 import { useRef, useEffect, useState, useCallback } from "react";
 import { Shuffle, RotateCcw, Plus, Minus } from "lucide-react";
+import { useApplyLocks } from "@/contexts/ParameterLockContext";
 
 interface CurveModulatorPanelProps {
   settings: CurveModulatorSettings;
@@ -237,8 +238,10 @@ export function CurveModulatorPanel({ settings, onChange }: CurveModulatorPanelP
     setSelectedPoint(null);
   };
 
+  const withLocks = useApplyLocks();
+
   const randomize = () => {
-    onChange(randomizeCurveModulatorSettings());
+    onChange(withLocks(randomizeCurveModulatorSettings(), settings));
     setSelectedPoint(null);
   };
 
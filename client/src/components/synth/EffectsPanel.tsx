@@ -4,91 +4,21 @@ import { Switch } from "@/components/ui/switch";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Knob } from "./Knob";
+import { LockScope, useApplyLocks } from "@/contexts/ParameterLockContext";
 import { CollapsiblePanel } from "./CollapsiblePanel";
 import type { SynthParameters, DelayDivision } from "@shared/schema";
 import { Sparkles, ChevronDown, ChevronRight, Shuffle } from "lucide-react";
+import {
+  type ReverbType,
+  type ReverbSettings,
+  defaultReverbSettings,
+  reverbTypePresets,
+  loadReverbSettings,
+  saveReverbSettings,
+} from "@/lib/reverbSettings";
 
-// Reverb type definitions - stored separately from schema
-export type ReverbType = "hall" | "plate" | "room";
-
-export interface ReverbSettings {
-  type: ReverbType;
-  damping: number;
-  diffusion: number;
-  modulation: number;
-  predelay: number;
-  stereoWidth: number;
-
-  /** Optional deterministic seed for IR generation (stabilizes reverb character across rebuilds). */
-  seed?: number;
-}
-
-export const defaultReverbSettings: ReverbSettings = {
-  type: "plate",
-  damping: 50,
-  diffusion: 70,
-  modulation: 20,
-  predelay: 10,
-  stereoWidth: 80,
-};
-
-// Presets for each reverb type with enhanced characteristics
-export const reverbTypePresets: Record<ReverbType, { 
-  size: number; 
-  decay: number; 
-  damping: number; 
-  diffusion: number; 
-  modulation: number;
-  predelay: number;
-  stereoWidth: number;
-}> = {
-  hall: { size: 80, decay: 3.5, damping: 40, diffusion: 85, modulation: 25, predelay: 25, stereoWidth: 90 },
-  plate: { size: 60, decay: 1.8, damping: 55, diffusion: 90, modulation: 15, predelay: 5, stereoWidth: 75 },
-  room: { size: 35, decay: 0.6, damping: 65, diffusion: 60, modulation: 10, predelay: 10, stereoWidth: 60 },
-};
-
-
-const REVERB_SETTINGS_KEY = "synth-reverb-settings";
-
-const clamp = (v: number, min: number, max: number) => Math.min(max, Math.max(min, v));
-
-function isReverbType(v: unknown): v is ReverbType {
-  return v === "hall" || v === "plate" || v === "room";
-}
-
-function sanitizeReverbSettings(input: unknown): ReverbSettings {
-  const obj = (input && typeof input === "object") ? (input as Partial<ReverbSettings>) : {};
-  return {
-    type: isReverbType(obj.type) ? obj.type : defaultReverbSettings.type,
-    seed: obj.seed === undefined ? undefined : Number(obj.seed),
-    damping: clamp(Number(obj.damping ?? defaultReverbSettings.damping), 0, 100),
-    diffusion: clamp(Number(obj.diffusion ?? defaultReverbSettings.diffusion), 0, 100),
-    modulation: clamp(Number(obj.modulation ?? defaultReverbSettings.modulation), 0, 100),
-    predelay: clamp(Number(obj.predelay ?? defaultReverbSettings.predelay), 0, 200),
-    stereoWidth: clamp(Number(obj.stereoWidth ?? defaultReverbSettings.stereoWidth), 0, 100),
-  };
-}
-
-export function loadReverbSettings(): ReverbSettings {
-  try {
-    const stored = localStorage.getItem(REVERB_SETTINGS_KEY);
-    if (stored) {
-      const parsed = JSON.parse(stored);
-      return sanitizeReverbSettings({ ...defaultReverbSettings, ...parsed });
-    }
-  } catch {
-    // Fall through to default
-  }
-  return { ...defaultReverbSettings };
-}
-
-export function saveReverbSettings(settings: ReverbSettings) {
-  try {
-    localStorage.setItem(REVERB_SETTINGS_KEY, JSON.stringify(sanitizeReverbSettings(settings)));
-  } catch {
-    // Ignore storage failures (quota, private mode, etc.)
-  }
-}
+export type { ReverbType, ReverbSettings };
+export { defaultReverbSettings, reverbTypePresets, loadReverbSettings, saveReverbSettings };
 
 const DELAY_DIVISIONS: { value: DelayDivision; label: string }[] = [
   { value: "1/1", label: "1/1" },
@@ -220,8 +150,10 @@ export function EffectsPanel({ effects, onChange, reverbSettings, onReverbSettin
   }
 };
 
+  const withLocks = useApplyLocks();
+
   const handleRandomize = () => {
-    onChange({ ...effects, ...randomizeEffects() });
+    onChange(withLocks({ ...effects, ...randomizeEffects() }, effects));
   };
 
   return (
@@ -252,6 +184,7 @@ export function EffectsPanel({ effects, onChange, reverbSettings, onReverbSettin
               step={1}
               label="Sat"
               unit="%"
+              lockKey="saturation"
               onChange={(v) => updateEffects("saturation", v)}
               accentColor="primary"
               size="xs"
@@ -263,6 +196,7 @@ export function EffectsPanel({ effects, onChange, reverbSettings, onReverbSettin
               step={1}
               label="Bit"
               unit="b"
+              lockKey="bitcrusher"
               onChange={(v) => updateEffects("bitcrusher", v)}
               accentColor="accent"
               size="xs"
@@ -306,7 +240,7 @@ export function EffectsPanel({ effects, onChange, reverbSettings, onReverbSettin
             </div>
             <div className="flex justify-center gap-1">
               {effects.delaySyncMode === "ms" ? (
-                <Knob value={effects.delayTime} min={0} max={2000} step={1} label="T" unit="ms" onChange={(v) => updateEffects("delayTime", v)} size="xs" />
+                <Knob value={effects.delayTime} min={0} max={2000} step={1} label="T" unit="ms" lockKey="delayTime" onChange={(v) => updateEffects("delayTime", v)} size="xs" />
               ) : (
                 <div className="flex flex-col items-center">
                   <Select
@@ -347,8 +281,8 @@ export function EffectsPanel({ effects, onChange, reverbSettings, onReverbSettin
                   <span className="text-[8px] text-muted-foreground mt-0.5">Div</span>
                 </div>
               )}
-              <Knob value={effects.delayFeedback} min={0} max={95} step={1} label="FB" unit="%" onChange={(v) => updateEffects("delayFeedback", v)} size="xs" modulationPath="effects.delay.feedback" />
-              <Knob value={effects.delayMix} min={0} max={100} step={1} label="Mix" unit="%" onChange={(v) => updateEffects("delayMix", v)} size="xs" modulationPath="effects.delay.mix" />
+              <Knob value={effects.delayFeedback} min={0} max={95} step={1} label="FB" unit="%" lockKey="delayFeedback" onChange={(v) => updateEffects("delayFeedback", v)} size="xs" modulationPath="effects.delay.feedback" />
+              <Knob value={effects.delayMix} min={0} max={100} step={1} label="Mix" unit="%" lockKey="delayMix" onChange={(v) => updateEffects("delayMix", v)} size="xs" modulationPath="effects.delay.mix" />
             </div>
           </div>
         </EffectSection>
@@ -381,18 +315,20 @@ export function EffectsPanel({ effects, onChange, reverbSettings, onReverbSettin
             </div>
             {/* Main Reverb Controls */}
             <div className="flex justify-center gap-1">
-              <Knob value={effects.reverbSize} min={0} max={100} step={1} label="Sz" unit="%" onChange={(v) => updateEffects("reverbSize", v)} size="xs" />
-              <Knob value={effects.reverbDecay} min={0.1} max={10} step={0.1} label="Dc" unit="s" onChange={(v) => updateEffects("reverbDecay", v)} size="xs" modulationPath="effects.reverb.decay" />
-              <Knob value={effects.reverbMix} min={0} max={100} step={1} label="Mix" unit="%" onChange={(v) => updateEffects("reverbMix", v)} size="xs" modulationPath="effects.reverb.mix" />
+              <Knob value={effects.reverbSize} min={0} max={100} step={1} label="Sz" unit="%" lockKey="reverbSize" onChange={(v) => updateEffects("reverbSize", v)} size="xs" />
+              <Knob value={effects.reverbDecay} min={0.1} max={10} step={0.1} label="Dc" unit="s" lockKey="reverbDecay" onChange={(v) => updateEffects("reverbDecay", v)} size="xs" modulationPath="effects.reverb.decay" />
+              <Knob value={effects.reverbMix} min={0} max={100} step={1} label="Mix" unit="%" lockKey="reverbMix" onChange={(v) => updateEffects("reverbMix", v)} size="xs" modulationPath="effects.reverb.mix" />
             </div>
             {/* Advanced Reverb Controls */}
-            <div className="flex justify-center gap-1">
-              <Knob value={currentReverbSettings.predelay} min={0} max={200} step={1} label="Pre" unit="ms" onChange={(v) => updateReverbSettings("predelay", v)} size="xs" modulationPath="effects.reverb.predelay" />
-              <Knob value={currentReverbSettings.damping} min={0} max={100} step={1} label="Dmp" unit="%" onChange={(v) => updateReverbSettings("damping", v)} size="xs" modulationPath="effects.reverb.damping" />
-              <Knob value={currentReverbSettings.diffusion} min={0} max={100} step={1} label="Dif" unit="%" onChange={(v) => updateReverbSettings("diffusion", v)} size="xs" modulationPath="effects.reverb.diffusion" />
-              <Knob value={currentReverbSettings.modulation} min={0} max={100} step={1} label="Mod" unit="%" onChange={(v) => updateReverbSettings("modulation", v)} size="xs" modulationPath="effects.reverb.modulation" />
-              <Knob value={currentReverbSettings.stereoWidth} min={0} max={100} step={1} label="Wid" unit="%" onChange={(v) => updateReverbSettings("stereoWidth", v)} size="xs" modulationPath="effects.reverb.stereoWidth" />
-            </div>
+            <LockScope path="reverbSettings">
+              <div className="flex justify-center gap-1">
+                <Knob value={currentReverbSettings.predelay} min={0} max={200} step={1} label="Pre" unit="ms" lockKey="predelay" onChange={(v) => updateReverbSettings("predelay", v)} size="xs" modulationPath="effects.reverb.predelay" />
+                <Knob value={currentReverbSettings.damping} min={0} max={100} step={1} label="Dmp" unit="%" lockKey="damping" onChange={(v) => updateReverbSettings("damping", v)} size="xs" modulationPath="effects.reverb.damping" />
+                <Knob value={currentReverbSettings.diffusion} min={0} max={100} step={1} label="Dif" unit="%" lockKey="diffusion" onChange={(v) => updateReverbSettings("diffusion", v)} size="xs" modulationPath="effects.reverb.diffusion" />
+                <Knob value={currentReverbSettings.modulation} min={0} max={100} step={1} label="Mod" unit="%" lockKey="modulation" onChange={(v) => updateReverbSettings("modulation", v)} size="xs" modulationPath="effects.reverb.modulation" />
+                <Knob value={currentReverbSettings.stereoWidth} min={0} max={100} step={1} label="Wid" unit="%" lockKey="stereoWidth" onChange={(v) => updateReverbSettings("stereoWidth", v)} size="xs" modulationPath="effects.reverb.stereoWidth" />
+              </div>
+            </LockScope>
           </div>
         </EffectSection>
 
@@ -403,9 +339,9 @@ export function EffectsPanel({ effects, onChange, reverbSettings, onReverbSettin
           testId="switch-chorus"
         >
           <div className="flex justify-center gap-1">
-            <Knob value={effects.chorusRate} min={0.1} max={10} step={0.1} label="Rt" unit="Hz" onChange={(v) => updateEffects("chorusRate", v)} size="xs" modulationPath="effects.chorus.rate" />
-            <Knob value={effects.chorusDepth} min={0} max={100} step={1} label="Dp" unit="%" onChange={(v) => updateEffects("chorusDepth", v)} size="xs" modulationPath="effects.chorus.depth" />
-            <Knob value={effects.chorusMix} min={0} max={100} step={1} label="Mix" unit="%" onChange={(v) => updateEffects("chorusMix", v)} size="xs" />
+            <Knob value={effects.chorusRate} min={0.1} max={10} step={0.1} label="Rt" unit="Hz" lockKey="chorusRate" onChange={(v) => updateEffects("chorusRate", v)} size="xs" modulationPath="effects.chorus.rate" />
+            <Knob value={effects.chorusDepth} min={0} max={100} step={1} label="Dp" unit="%" lockKey="chorusDepth" onChange={(v) => updateEffects("chorusDepth", v)} size="xs" modulationPath="effects.chorus.depth" />
+            <Knob value={effects.chorusMix} min={0} max={100} step={1} label="Mix" unit="%" lockKey="chorusMix" onChange={(v) => updateEffects("chorusMix", v)} size="xs" />
           </div>
         </EffectSection>
 
@@ -416,8 +352,8 @@ export function EffectsPanel({ effects, onChange, reverbSettings, onReverbSettin
           testId="switch-transient"
         >
           <div className="flex justify-center gap-1">
-            <Knob value={effects.transientAttack} min={-100} max={100} step={1} label="Atk" unit="%" onChange={(v) => updateEffects("transientAttack", v)} size="xs" />
-            <Knob value={effects.transientSustain} min={-100} max={100} step={1} label="Sus" unit="%" onChange={(v) => updateEffects("transientSustain", v)} size="xs" />
+            <Knob value={effects.transientAttack} min={-100} max={100} step={1} label="Atk" unit="%" lockKey="transientAttack" onChange={(v) => updateEffects("transientAttack", v)} size="xs" />
+            <Knob value={effects.transientSustain} min={-100} max={100} step={1} label="Sus" unit="%" lockKey="transientSustain" onChange={(v) => updateEffects("transientSustain", v)} size="xs" />
           </div>
         </EffectSection>
 
@@ -428,8 +364,8 @@ export function EffectsPanel({ effects, onChange, reverbSettings, onReverbSettin
           testId="switch-limiter"
         >
           <div className="flex justify-center gap-1">
-            <Knob value={effects.limiterThreshold} min={-30} max={0} step={1} label="Thr" unit="dB" onChange={(v) => updateEffects("limiterThreshold", v)} size="xs" />
-            <Knob value={effects.limiterRelease} min={10} max={500} step={1} label="Rel" unit="ms" onChange={(v) => updateEffects("limiterRelease", v)} size="xs" />
+            <Knob value={effects.limiterThreshold} min={-30} max={0} step={1} label="Thr" unit="dB" lockKey="limiterThreshold" onChange={(v) => updateEffects("limiterThreshold", v)} size="xs" />
+            <Knob value={effects.limiterRelease} min={10} max={500} step={1} label="Rel" unit="ms" lockKey="limiterRelease" onChange={(v) => updateEffects("limiterRelease", v)} size="xs" />
           </div>
         </EffectSection>
 
@@ -441,13 +377,13 @@ export function EffectsPanel({ effects, onChange, reverbSettings, onReverbSettin
         >
           <div className="flex flex-col gap-1">
             <div className="flex justify-center gap-1">
-              <Knob value={effects.multibandLowFreq} min={80} max={400} step={1} label="Lo" unit="Hz" onChange={(v) => updateEffects("multibandLowFreq", v)} size="xs" logarithmic />
-              <Knob value={effects.multibandHighFreq} min={2000} max={10000} step={100} label="Hi" unit="Hz" onChange={(v) => updateEffects("multibandHighFreq", v)} size="xs" logarithmic />
+              <Knob value={effects.multibandLowFreq} min={80} max={400} step={1} label="Lo" unit="Hz" lockKey="multibandLowFreq" onChange={(v) => updateEffects("multibandLowFreq", v)} size="xs" logarithmic />
+              <Knob value={effects.multibandHighFreq} min={2000} max={10000} step={100} label="Hi" unit="Hz" lockKey="multibandHighFreq" onChange={(v) => updateEffects("multibandHighFreq", v)} size="xs" logarithmic />
             </div>
             <div className="flex justify-center gap-1">
-              <Knob value={effects.multibandLowDrive} min={0} max={100} step={1} label="LoD" unit="%" onChange={(v) => updateEffects("multibandLowDrive", v)} size="xs" />
-              <Knob value={effects.multibandMidDrive} min={0} max={100} step={1} label="MdD" unit="%" onChange={(v) => updateEffects("multibandMidDrive", v)} size="xs" />
-              <Knob value={effects.multibandHighDrive} min={0} max={100} step={1} label="HiD" unit="%" onChange={(v) => updateEffects("multibandHighDrive", v)} size="xs" />
+              <Knob value={effects.multibandLowDrive} min={0} max={100} step={1} label="LoD" unit="%" lockKey="multibandLowDrive" onChange={(v) => updateEffects("multibandLowDrive", v)} size="xs" />
+              <Knob value={effects.multibandMidDrive} min={0} max={100} step={1} label="MdD" unit="%" lockKey="multibandMidDrive" onChange={(v) => updateEffects("multibandMidDrive", v)} size="xs" />
+              <Knob value={effects.multibandHighDrive} min={0} max={100} step={1} label="HiD" unit="%" lockKey="multibandHighDrive" onChange={(v) => updateEffects("multibandHighDrive", v)} size="xs" />
             </div>
           </div>
         </EffectSection>
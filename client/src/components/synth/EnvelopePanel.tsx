@@ -5,6 +5,7 @@ import { Knob } from "./Knob";
 import { CollapsiblePanel } from "./CollapsiblePanel";
 import type { Envelope, EnvelopeCurve } from "@shared/schema";
 import { Clock, Shuffle, Filter, Music, Volume2 } from "lucide-react";
+import { useApplyLocks } from "@/contexts/ParameterLockContext";
 
 function randomizeEnvelope(): Partial<Envelope> {
   const curves: EnvelopeCurve[] = ["linear", "exponential", "logarithmic"];
@@ -31,8 +32,10 @@ export function EnvelopePanel({ envelope, onChange, type }: EnvelopePanelProps)
     onChange({ ...envelope, [key]: value });
   };
 
+  const withLocks = useApplyLocks();
+
   const handleRandomize = () => {
-    onChange({ ...envelope, ...randomizeEnvelope() });
+    onChange(withLocks({ ...envelope, ...randomizeEnvelope() }, envelope));
   };
 
   const totalDuration = envelope.attack + envelope.hold + envelope.decay;
@@ -155,6 +158,7 @@ export function EnvelopePanel({ envelope, onChange, type }: EnvelopePanelProps)
             step={1}
             label="Attack"
             unit="ms"
+            lockKey="attack"
             onChange={(v) => updateEnvelope("attack", v)}
             accentColor="primary"
             size="xs"
@@ -168,6 +172,7 @@ export function EnvelopePanel({ envelope, onChange, type }: EnvelopePanelProps)
             step={1}
             label="Hold"
             unit="ms"
+            lockKey="hold"
             onChange={(v) => updateEnvelope("hold", v)}
             size="xs"
             defaultValue={0}
@@ -179,6 +184,7 @@ export function EnvelopePanel({ envelope, onChange, type }: EnvelopePanelProps)
             step={1}
             label="Decay"
             unit="ms"
+            lockKey="decay"
             onChange={(v) => updateEnvelope("decay", v)}
             accentColor="accent"
             size="xs"
@@ -193,6 +199,7 @@ export function EnvelopePanel({ envelope, onChange, type }: EnvelopePanelProps)
               step={1}
               label={config.amountLabel}
               unit={config.amountUnit}
+              lockKey="amount"
               onChange={(v) => updateEnvelope("amount", v)}
               size="xs"
             />
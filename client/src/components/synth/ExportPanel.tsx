@@ -5,8 +5,11 @@ import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Slider } from "@/components/ui/slider";
 import type { ExportSettings } from "@shared/schema";
-import { Download, FileAudio, Share2, Check, X } from "lucide-react";
+import { Download, FileAudio, Share2, Check, X, Piano } from "lucide-react";
 import { useEffect, useState, useRef, useMemo } from "react";
+import { KeySelector, type KeyState, noteToMidi, midiToFrequency, frequencyToNearestKey } from "./KeySelector";
+import { getRangeNotes } from "@/lib/packExport";
+import type { LoudnessAnalysis } from "@/lib/loudness";
 
 export interface ExportResult {
   blob: Blob;
@@ -14,6 +17,25 @@ export interface ExportResult {
   filename: string;
 }
 
+const RANGE_STEPS = [1, 2, 3, 4, 6, 12];
+const MP3_QUALITIES = [0, 2, 4, 6, 9]; // LAME V presets
+
+const SHARE_MIME_TYPES: Record<string, string> = {
+  zip: "application/zip",
+  mp3: "audio/mpeg",
+  flac: "audio/flac",
+  ogg: "audio/ogg",
+  wav: "audio/wav",
+};
+
+function formatDb(value: number): string {
+  return Number.isFinite(value) ? value.toFixed(1) : "-∞";
+}
+
+function midiToKey(midi: number): KeyState {
+  return frequencyToNearestKey(midiToFrequency(midi));
+}
+
 interface ExportPanelProps {
   settings: ExportSettings;
   onChange: (settings: ExportSettings) => void;
@@ -21,9 +43,10 @@ interface ExportPanelProps {
   isExporting: boolean;
   exportResult: ExportResult | null;
   onClearResult: () => void;
+  analysis: LoudnessAnalysis | null; // Measured on the current preview
 }
 
-export function ExportPanel({ settings, onChange, onExport, isExporting, exportResult, onClearResult }: ExportPanelProps) {
+export function ExportPanel({ settings, onChange, onExport, isExporting, exportResult, onClearResult, analysis }: ExportPanelProps) {
   const audioRef = useRef<HTMLAudioElement>(null);
   const [canShare, setCanShare] = useState(false);
   
@@ -37,6 +60,14 @@ export function ExportPanel({ settings, onChange, onExport, isExporting, exportR
     setCanShare(typeof navigator !== "undefined" && "share" in navigator && "canShare" in navigator);
   }, []);
 
+  const isMultiSample = settings.mode === "multisample";
+  const multiSampleCount = getRangeNotes(settings).length;
+  const isWav = isMultiSample || settings.format === "wav";
+  const isFlac = !isMultiSample && settings.format === "flac";
+  const isMp3 = !isMultiSample && settings.format === "mp3";
+  // FLAC is integer only, so 32-bit float falls back to 24-bit
+  const bitDepth = isFlac && settings.bitDepth === "32f" ? "24" : settings.bitDepth;
+
   const updateSettings = <K extends keyof ExportSettings>(
     key: K,
     value: ExportSettings[K]
@@ -48,7 +79,8 @@ export function ExportPanel({ settings, onChange, onExport, isExporting, exportR
     if (!exportResult || !canShare) return;
     
     try {
-      const mimeType = exportResult.filename.endsWith(".mp3") ? "audio/mp3" : "audio/wav";
+      const extension = exportResult.filename.split(".").pop() ?? "wav";
+      const mimeType = SHARE_MIME_TYPES[extension] ?? "audio/wav";
       const file = new File([exportResult.blob], exportResult.filename, { type: mimeType });
       if (navigator.canShare && navigator.canShare({ files: [file] })) {
         await navigator.share({
@@ -167,19 +199,78 @@ export function ExportPanel({ settings, onChange, onExport, isExporting, exportR
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-2 px-2 pb-2 pt-0">
+        <div className="space-y-0.5">
+          <Label className="text-[10px] text-muted-foreground">Mode</Label>
+          <Select
+            value={settings.mode}
+            onValueChange={(v) => updateSettings("mode", v as ExportSettings["mode"])}
+          >
+            <SelectTrigger className="h-6 text-[10px]" data-testid="select-export-mode">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="oneshot">One-shot</SelectItem>
+              <SelectItem value="multisample">Multi-sample (SFZ + Decent Sampler)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isMultiSample && (
+          <div className="space-y-1.5 p-1.5 rounded bg-muted/30 border border-border/50">
+            <div className="flex items-center justify-between">
+              <Label className="text-[10px] text-muted-foreground">Low</Label>
+              <KeySelector
+                value={midiToKey(settings.rangeLow)}
+                onChange={(key) => updateSettings("rangeLow", noteToMidi(key.note, key.octave))}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label className="text-[10px] text-muted-foreground">High</Label>
+              <KeySelector
+                value={midiToKey(settings.rangeHigh)}
+                onChange={(key) => updateSettings("rangeHigh", noteToMidi(key.note, key.octave))}
+              />
+            </div>
+            <div className="flex items-center justify-between gap-2">
+              <Label className="text-[10px] text-muted-foreground">Every</Label>
+              <Select
+                value={String(settings.rangeStep)}
+                onValueChange={(v) => updateSettings("rangeStep", parseInt(v))}
+              >
+                <SelectTrigger className="h-6 w-24 text-[10px]" data-testid="select-range-step">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RANGE_STEPS.map(step => (
+                    <SelectItem key={step} value={String(step)}>
+                      {step === 1 ? "Semitone" : `${step} semitones`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <p className="text-[9px] text-muted-foreground">
+              {multiSampleCount} WAV notes, zipped with mapping files
+            </p>
+          </div>
+        )}
+
         <div className="grid grid-cols-2 gap-1.5">
           <div className="space-y-0.5">
             <Label className="text-[10px] text-muted-foreground">Format</Label>
             <Select
-              value={settings.format}
+              value={isMultiSample ? "wav" : settings.format}
               onValueChange={(v) => updateSettings("format", v as ExportSettings["format"])}
+              disabled={isMultiSample}
             >
               <SelectTrigger className="h-6 text-[10px]" data-testid="select-format">
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="wav">WAV</SelectItem>
+                <SelectItem value="flac">FLAC</SelectItem>
                 <SelectItem value="mp3">MP3</SelectItem>
+                <SelectItem value="ogg">Ogg Vorbis</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -220,22 +311,180 @@ export function ExportPanel({ settings, onChange, onExport, isExporting, exportR
           </div>
         </div>
 
-        <div className="space-y-1">
-          <div className="flex items-center justify-between">
-            <Label className="text-[10px] text-muted-foreground">Tail</Label>
-            <span className="text-[10px] font-mono text-foreground">+{settings.tailExtension}ms</span>
+        {isMp3 && (
+          <div className="grid grid-cols-2 gap-1.5">
+            <div className="space-y-0.5">
+              <Label className="text-[10px] text-muted-foreground">Mode</Label>
+              <Select
+                value={settings.mp3Mode}
+                onValueChange={(v) => updateSettings("mp3Mode", v as ExportSettings["mp3Mode"])}
+              >
+                <SelectTrigger className="h-6 text-[10px]" data-testid="select-mp3-mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="cbr">CBR</SelectItem>
+                  <SelectItem value="vbr">VBR</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {settings.mp3Mode === "cbr" ? (
+              <div className="space-y-0.5">
+                <Label className="text-[10px] text-muted-foreground">Bitrate</Label>
+                <Select
+                  value={settings.mp3Bitrate}
+                  onValueChange={(v) => updateSettings("mp3Bitrate", v as ExportSettings["mp3Bitrate"])}
+                >
+                  <SelectTrigger className="h-6 text-[10px]" data-testid="select-mp3-bitrate">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="128">128 kbps</SelectItem>
+                    <SelectItem value="192">192 kbps</SelectItem>
+                    <SelectItem value="256">256 kbps</SelectItem>
+                    <SelectItem value="320">320 kbps</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : (
+              <div className="space-y-0.5">
+                <Label className="text-[10px] text-muted-foreground">Quality</Label>
+                <Select
+                  value={String(settings.mp3Quality)}
+                  onValueChange={(v) => updateSettings("mp3Quality", parseInt(v))}
+                >
+                  <SelectTrigger className="h-6 text-[10px]" data-testid="select-mp3-quality">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MP3_QUALITIES.map(quality => (
+                      <SelectItem key={quality} value={String(quality)}>
+                        V{quality}{quality === 0 ? " (best)" : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
           </div>
-          <Slider
-            value={[settings.tailExtension]}
-            onValueChange={([v]) => updateSettings("tailExtension", v)}
-            min={0}
-            max={5000}
-            step={100}
-            className="w-full"
-            data-testid="slider-tail-extension"
+        )}
+
+        {(isWav || isFlac) && (
+          <div className="grid grid-cols-2 gap-1.5">
+            <div className="space-y-0.5">
+              <Label className="text-[10px] text-muted-foreground">Bits</Label>
+              <Select
+                value={bitDepth}
+                onValueChange={(v) => updateSettings("bitDepth", v as ExportSettings["bitDepth"])}
+              >
+                <SelectTrigger className="h-6 text-[10px]" data-testid="select-bit-depth">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="16">16-bit</SelectItem>
+                  <SelectItem value="24">24-bit</SelectItem>
+                  <SelectItem value="32f" disabled={isFlac}>32-bit float</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-0.5">
+              <Label className="text-[10px] text-muted-foreground">Dither</Label>
+              <Select
+                value={bitDepth === "16" ? settings.dither : "none"}
+                onValueChange={(v) => updateSettings("dither", v as ExportSettings["dither"])}
+                disabled={bitDepth !== "16"}
+              >
+                <SelectTrigger className="h-6 text-[10px]" data-testid="select-dither">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">None</SelectItem>
+                  <SelectItem value="tpdf">TPDF</SelectItem>
+                  <SelectItem value="noise-shaped">Shaped</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between py-1 px-2 rounded bg-muted/30 border border-border/50">
+          <Label className="text-[10px] text-foreground">Auto Trim</Label>
+          <Switch
+            checked={settings.autoTrim}
+            onCheckedChange={(v) => updateSettings("autoTrim", v)}
+            className="scale-75"
+            data-testid="switch-auto-trim"
           />
         </div>
 
+        {settings.autoTrim ? (
+          <div className="space-y-1.5">
+            <div className="space-y-1">
+              <div className="flex items-center justify-between">
+                <Label className="text-[10px] text-muted-foreground">Start</Label>
+                <span className="text-[10px] font-mono text-foreground">{settings.trimThreshold} dB</span>
+              </div>
+              <Slider
+                value={[settings.trimThreshold]}
+                onValueChange={([v]) => updateSettings("trimThreshold", v)}
+                min={-80}
+                max={-20}
+                step={1}
+                className="w-full"
+                data-testid="slider-trim-threshold"
+              />
+            </div>
+            <div className="space-y-1">
+              <div className="flex items-center justify-between">
+                <Label className="text-[10px] text-muted-foreground">Tail Floor</Label>
+                <span className="text-[10px] font-mono text-foreground">{settings.tailFloor} dB</span>
+              </div>
+              <Slider
+                value={[settings.tailFloor]}
+                onValueChange={([v]) => updateSettings("tailFloor", v)}
+                min={-100}
+                max={-30}
+                step={1}
+                className="w-full"
+                data-testid="slider-tail-floor"
+              />
+            </div>
+            <div className="space-y-1">
+              <div className="flex items-center justify-between">
+                <Label className="text-[10px] text-muted-foreground">Fade</Label>
+                <span className="text-[10px] font-mono text-foreground">{settings.fadeOut}ms</span>
+              </div>
+              <Slider
+                value={[settings.fadeOut]}
+                onValueChange={([v]) => updateSettings("fadeOut", v)}
+                min={0}
+                max={1000}
+                step={10}
+                className="w-full"
+                data-testid="slider-fade-out"
+              />
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-1">
+            <div className="flex items-center justify-between">
+              <Label className="text-[10px] text-muted-foreground">Tail</Label>
+              <span className="text-[10px] font-mono text-foreground">+{settings.tailExtension}ms</span>
+            </div>
+            <Slider
+              value={[settings.tailExtension]}
+              onValueChange={([v]) => updateSettings("tailExtension", v)}
+              min={0}
+              max={5000}
+              step={100}
+              className="w-full"
+              data-testid="slider-tail-extension"
+            />
+          </div>
+        )}
+
         <div className="flex items-center justify-between py-1 px-2 rounded bg-muted/30 border border-border/50">
           <Label className="text-[10px] text-foreground">Norm</Label>
           <Switch
@@ -246,6 +495,76 @@ export function ExportPanel({ settings, onChange, onExport, isExporting, exportR
           />
         </div>
 
+        {settings.normalize && (
+          <div className="space-y-1.5">
+            <Select
+              value={settings.normalizeMode}
+              onValueChange={(v) => updateSettings("normalizeMode", v as ExportSettings["normalizeMode"])}
+            >
+              <SelectTrigger className="h-6 text-[10px]" data-testid="select-normalize-mode">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="peak">Peak (-0.4 dBFS)</SelectItem>
+                <SelectItem value="integrated">Integrated LUFS</SelectItem>
+                <SelectItem value="short-term">Short-term LUFS</SelectItem>
+              </SelectContent>
+            </Select>
+
+            {settings.normalizeMode !== "peak" && (
+              <>
+                <div className="space-y-1">
+                  <div className="flex items-center justify-between">
+                    <Label className="text-[10px] text-muted-foreground">Target</Label>
+                    <span className="text-[10px] font-mono text-foreground">{settings.loudnessTarget} LUFS</span>
+                  </div>
+                  <Slider
+                    value={[settings.loudnessTarget]}
+                    onValueChange={([v]) => updateSettings("loudnessTarget", v)}
+                    min={-40}
+                    max={0}
+                    step={1}
+                    className="w-full"
+                    data-testid="slider-loudness-target"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <div className="flex items-center justify-between">
+                    <Label className="text-[10px] text-muted-foreground">TP Ceiling</Label>
+                    <span className="text-[10px] font-mono text-foreground">{settings.truePeakCeiling.toFixed(1)} dBTP</span>
+                  </div>
+                  <Slider
+                    value={[settings.truePeakCeiling]}
+                    onValueChange={([v]) => updateSettings("truePeakCeiling", v)}
+                    min={-12}
+                    max={0}
+                    step={0.5}
+                    className="w-full"
+                    data-testid="slider-true-peak-ceiling"
+                  />
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        {analysis && (
+          <div className="grid grid-cols-4 gap-1 text-center" data-testid="loudness-readout">
+            {[
+              { label: "Int", value: formatDb(analysis.integrated), unit: "LUFS" },
+              { label: "ST", value: formatDb(analysis.shortTermMax), unit: "LUFS" },
+              { label: "TP", value: formatDb(analysis.truePeak), unit: "dBTP" },
+              { label: "Crest", value: formatDb(analysis.crestFactor), unit: "dB" },
+            ].map(({ label, value, unit }) => (
+              <div key={label} className="rounded bg-muted/30 border border-border/50 py-0.5">
+                <div className="text-[8px] text-muted-foreground">{label}</div>
+                <div className="text-[10px] font-mono text-foreground">{value}</div>
+                <div className="text-[8px] text-muted-foreground">{unit}</div>
+              </div>
+            ))}
+          </div>
+        )}
+
         <Button
           onClick={onExport}
           disabled={isExporting}
@@ -258,6 +577,11 @@ export function ExportPanel({ settings, onChange, onExport, isExporting, exportR
               <div className="w-3 h-3 mr-1 border-2 border-current border-t-transparent rounded-full animate-spin" />
               ...
             </>
+          ) : isMultiSample ? (
+            <>
+              <Piano className="w-3 h-3 mr-1" />
+              Export Instrument
+            </>
           ) : (
             <>
               <Download className="w-3 h-3 mr-1" />
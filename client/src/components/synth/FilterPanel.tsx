@@ -3,6 +3,7 @@ import { Switch } from "@/components/ui/switch";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Knob } from "./Knob";
+import { LockScope, useApplyLocks } from "@/contexts/ParameterLockContext";
 import { CollapsiblePanel } from "./CollapsiblePanel";
 import type { SynthParameters, FilterType } from "@shared/schema";
 import { SlidersHorizontal, Shuffle, ChevronDown, ChevronUp } from "lucide-react";
@@ -64,11 +65,13 @@ export function FilterPanel({ filter, onChange, advancedFilterSettings, onAdvanc
     onAdvancedChange?.(newSettings);
   };
 
+  const withLocks = useApplyLocks();
+
   const handleRandomize = () => {
     const randomFilter = randomizeFilter();
     const randomAdvanced = randomizeAdvancedFilterSettings(50);
-    onChange({ ...filter, ...randomFilter });
-    const newAdvanced = { ...localAdvanced, ...randomAdvanced };
+    onChange(withLocks({ ...filter, ...randomFilter }, filter));
+    const newAdvanced = withLocks({ ...localAdvanced, ...randomAdvanced }, localAdvanced, "advancedFilterSettings");
     setLocalAdvanced(newAdvanced);
     saveAdvancedFilterSettings(newAdvanced);
     onAdvancedChange?.(newAdvanced);
@@ -133,6 +136,7 @@ export function FilterPanel({ filter, onChange, advancedFilterSettings, onAdvanc
             step={1}
             label="Frq"
             unit="Hz"
+            lockKey="frequency"
             onChange={(v) => updateFilter("frequency", v)}
             logarithmic
             accentColor="accent"
@@ -146,6 +150,7 @@ export function FilterPanel({ filter, onChange, advancedFilterSettings, onAdvanc
             step={0.1}
             label="Res"
             unit="Q"
+            lockKey="resonance"
             onChange={(v) => updateFilter("resonance", v)}
             accentColor="primary"
             size="xs"
@@ -159,6 +164,7 @@ export function FilterPanel({ filter, onChange, advancedFilterSettings, onAdvanc
               step={0.1}
               label="Dly"
               unit="ms"
+              lockKey="combDelay"
               onChange={(v) => updateFilter("combDelay", v)}
               size="xs"
             />
@@ -171,6 +177,7 @@ export function FilterPanel({ filter, onChange, advancedFilterSettings, onAdvanc
               step={0.5}
               label="Gn"
               unit="dB"
+              lockKey="gain"
               onChange={(v) => updateFilter("gain", v)}
               size="xs"
               modulationPath="filter.gain"
@@ -189,254 +196,256 @@ export function FilterPanel({ filter, onChange, advancedFilterSettings, onAdvanc
         </Button>
 
         {showAdvanced && (
-          <div className="space-y-2 pt-1 border-t border-border/50">
-            <div className="space-y-1">
-              <div className="flex items-center justify-between">
-                <span className="text-[9px] text-muted-foreground font-medium">Drive</span>
-                <Switch
-                  checked={localAdvanced.driveEnabled}
-                  onCheckedChange={(v) => updateAdvanced("driveEnabled", v)}
-                  className="scale-50"
-                  data-testid="switch-filter-drive"
-                />
+          <LockScope path="advancedFilterSettings">
+            <div className="space-y-2 pt-1 border-t border-border/50">
+              <div className="space-y-1">
+                <div className="flex items-center justify-between">
+                  <span className="text-[9px] text-muted-foreground font-medium">Drive</span>
+                  <Switch
+                    checked={localAdvanced.driveEnabled}
+                    onCheckedChange={(v) => updateAdvanced("driveEnabled", v)}
+                    className="scale-50"
+                    data-testid="switch-filter-drive"
+                  />
+                </div>
+                {localAdvanced.driveEnabled && (
+                  <div className="space-y-1">
+                    <div className="flex gap-1">
+                      <Select
+                        value={localAdvanced.driveType}
+                        onValueChange={(v) => updateAdvanced("driveType", v as FilterDriveType)}
+                      >
+                        <SelectTrigger className="h-5 text-[9px] flex-1" data-testid="select-filter-drive-type">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="soft">Soft</SelectItem>
+                          <SelectItem value="hard">Hard</SelectItem>
+                          <SelectItem value="tube">Tube</SelectItem>
+                          <SelectItem value="tape">Tape</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Select
+                        value={localAdvanced.drivePosition}
+                        onValueChange={(v) => updateAdvanced("drivePosition", v as "pre" | "post")}
+                      >
+                        <SelectTrigger className="h-5 text-[9px] w-16" data-testid="select-filter-drive-pos">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="pre">Pre</SelectItem>
+                          <SelectItem value="post">Post</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="flex justify-center">
+                      <Knob
+                        value={localAdvanced.driveAmount}
+                        min={0}
+                        max={100}
+                        step={1}
+                        label="Amt"
+                        unit="%"
+                        lockKey="driveAmount"
+                        onChange={(v) => updateAdvanced("driveAmount", v)}
+                        size="xs"
+                      />
+                    </div>
+                  </div>
+                )}
               </div>
-              {localAdvanced.driveEnabled && (
-                <div className="space-y-1">
-                  <div className="flex gap-1">
+
+              <div className="space-y-1">
+                <div className="flex items-center justify-between">
+                  <span className="text-[9px] text-muted-foreground font-medium">Dual Filter</span>
+                  <Select
+                    value={localAdvanced.dualMode}
+                    onValueChange={(v) => updateAdvanced("dualMode", v as DualFilterRouting)}
+                  >
+                    <SelectTrigger className="h-5 text-[9px] w-20" data-testid="select-dual-filter-mode">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="off">Off</SelectItem>
+                      <SelectItem value="series">Series</SelectItem>
+                      <SelectItem value="parallel">Parallel</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {localAdvanced.dualMode !== "off" && (
+                  <div className="space-y-1">
                     <Select
-                      value={localAdvanced.driveType}
-                      onValueChange={(v) => updateAdvanced("driveType", v as FilterDriveType)}
+                      value={localAdvanced.filter2Type}
+                      onValueChange={(v) => updateAdvanced("filter2Type", v as "lowpass" | "highpass" | "bandpass" | "notch")}
                     >
-                      <SelectTrigger className="h-5 text-[9px] flex-1" data-testid="select-filter-drive-type">
+                      <SelectTrigger className="h-5 text-[9px]" data-testid="select-filter2-type">
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="soft">Soft</SelectItem>
-                        <SelectItem value="hard">Hard</SelectItem>
-                        <SelectItem value="tube">Tube</SelectItem>
-                        <SelectItem value="tape">Tape</SelectItem>
+                        <SelectItem value="lowpass">LP</SelectItem>
+                        <SelectItem value="highpass">HP</SelectItem>
+                        <SelectItem value="bandpass">BP</SelectItem>
+                        <SelectItem value="notch">Notch</SelectItem>
                       </SelectContent>
                     </Select>
+                    <div className="flex justify-center gap-1">
+                      <Knob
+                        value={localAdvanced.filter2Frequency}
+                        min={20}
+                        max={20000}
+                        step={1}
+                        label="Frq2"
+                        unit="Hz"
+                        lockKey="filter2Frequency"
+                        onChange={(v) => updateAdvanced("filter2Frequency", v)}
+                        logarithmic
+                        size="xs"
+                      />
+                      <Knob
+                        value={localAdvanced.filter2Resonance}
+                        min={0}
+                        max={30}
+                        step={0.1}
+                        label="Res2"
+                        unit="Q"
+                        lockKey="filter2Resonance"
+                        onChange={(v) => updateAdvanced("filter2Resonance", v)}
+                        size="xs"
+                      />
+                      <Knob
+                        value={localAdvanced.dualMix}
+                        min={0}
+                        max={100}
+                        step={1}
+                        label="Mix"
+                        unit="%"
+                        lockKey="dualMix"
+                        onChange={(v) => updateAdvanced("dualMix", v)}
+                        size="xs"
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-1">
+                <div className="flex items-center justify-between">
+                  <span className="text-[9px] text-muted-foreground font-medium">Formant</span>
+                  <Switch
+                    checked={localAdvanced.formantEnabled}
+                    onCheckedChange={(v) => updateAdvanced("formantEnabled", v)}
+                    className="scale-50"
+                    data-testid="switch-formant"
+                  />
+                </div>
+                {localAdvanced.formantEnabled && (
+                  <div className="flex gap-1 items-center">
+                    <div className="flex gap-0.5">
+                      {(["A", "E", "I", "O", "U"] as FormantVowel[]).map((vowel) => (
+                        <Button
+                          key={vowel}
+                          size="sm"
+                          variant={localAdvanced.formantVowel === vowel ? "default" : "outline"}
+                          className="h-5 w-5 text-[9px] p-0"
+                          onClick={() => updateAdvanced("formantVowel", vowel)}
+                          data-testid={`btn-vowel-${vowel.toLowerCase()}`}
+                        >
+                          {vowel}
+                        </Button>
+                      ))}
+                    </div>
+                    <Knob
+                      value={localAdvanced.formantMix}
+                      min={0}
+                      max={100}
+                      step={1}
+                      label="Mix"
+                      unit="%"
+                      lockKey="formantMix"
+                      onChange={(v) => updateAdvanced("formantMix", v)}
+                      size="xs"
+                    />
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-1">
+                <div className="flex items-center justify-between">
+                  <span className="text-[9px] text-muted-foreground font-medium">Filter FM</span>
+                  <Switch
+                    checked={localAdvanced.fmEnabled}
+                    onCheckedChange={(v) => updateAdvanced("fmEnabled", v)}
+                    className="scale-50"
+                    data-testid="switch-filter-fm"
+                  />
+                </div>
+                {localAdvanced.fmEnabled && (
+                  <div className="flex gap-1 items-center">
                     <Select
-                      value={localAdvanced.drivePosition}
-                      onValueChange={(v) => updateAdvanced("drivePosition", v as "pre" | "post")}
+                      value={localAdvanced.fmSource}
+                      onValueChange={(v) => updateAdvanced("fmSource", v as "osc1" | "osc2" | "osc3" | "lfo")}
                     >
-                      <SelectTrigger className="h-5 text-[9px] w-16" data-testid="select-filter-drive-pos">
+                      <SelectTrigger className="h-5 text-[9px] flex-1" data-testid="select-filter-fm-source">
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="pre">Pre</SelectItem>
-                        <SelectItem value="post">Post</SelectItem>
+                        <SelectItem value="osc1">OSC1</SelectItem>
+                        <SelectItem value="osc2">OSC2</SelectItem>
+                        <SelectItem value="osc3">OSC3</SelectItem>
+                        <SelectItem value="lfo">LFO</SelectItem>
                       </SelectContent>
                     </Select>
-                  </div>
-                  <div className="flex justify-center">
                     <Knob
-                      value={localAdvanced.driveAmount}
+                      value={localAdvanced.fmDepth}
                       min={0}
                       max={100}
                       step={1}
-                      label="Amt"
+                      label="Depth"
                       unit="%"
-                      onChange={(v) => updateAdvanced("driveAmount", v)}
+                      lockKey="fmDepth"
+                      onChange={(v) => updateAdvanced("fmDepth", v)}
                       size="xs"
-                      modulationPath="filter.driveAmount"
                     />
                   </div>
-                </div>
-              )}
-            </div>
+                )}
+              </div>
 
-            <div className="space-y-1">
               <div className="flex items-center justify-between">
-                <span className="text-[9px] text-muted-foreground font-medium">Dual Filter</span>
-                <Select
-                  value={localAdvanced.dualMode}
-                  onValueChange={(v) => updateAdvanced("dualMode", v as DualFilterRouting)}
-                >
-                  <SelectTrigger className="h-5 text-[9px] w-20" data-testid="select-dual-filter-mode">
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="off">Off</SelectItem>
-                    <SelectItem value="series">Series</SelectItem>
-                    <SelectItem value="parallel">Parallel</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-              {localAdvanced.dualMode !== "off" && (
-                <div className="space-y-1">
-                  <Select
-                    value={localAdvanced.filter2Type}
-                    onValueChange={(v) => updateAdvanced("filter2Type", v as "lowpass" | "highpass" | "bandpass" | "notch")}
-                  >
-                    <SelectTrigger className="h-5 text-[9px]" data-testid="select-filter2-type">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="lowpass">LP</SelectItem>
-                      <SelectItem value="highpass">HP</SelectItem>
-                      <SelectItem value="bandpass">BP</SelectItem>
-                      <SelectItem value="notch">Notch</SelectItem>
-                    </SelectContent>
-                  </Select>
-                  <div className="flex justify-center gap-1">
-                    <Knob
-                      value={localAdvanced.filter2Frequency}
-                      min={20}
-                      max={20000}
-                      step={1}
-                      label="Frq2"
-                      unit="Hz"
-                      onChange={(v) => updateAdvanced("filter2Frequency", v)}
-                      logarithmic
-                      size="xs"
-                      modulationPath="filter.filter2Frequency"
-                    />
-                    <Knob
-                      value={localAdvanced.filter2Resonance}
-                      min={0}
-                      max={30}
-                      step={0.1}
-                      label="Res2"
-                      unit="Q"
-                      onChange={(v) => updateAdvanced("filter2Resonance", v)}
-                      size="xs"
-                      modulationPath="filter.filter2Resonance"
-                    />
+                <span className="text-[9px] text-muted-foreground font-medium">Keytrack</span>
+                <div className="flex items-center gap-1">
+                  <Switch
+                    checked={localAdvanced.keytrackEnabled}
+                    onCheckedChange={(v) => updateAdvanced("keytrackEnabled", v)}
+                    className="scale-50"
+                    data-testid="switch-keytrack"
+                  />
+                  {localAdvanced.keytrackEnabled && (
                     <Knob
-                      value={localAdvanced.dualMix}
-                      min={0}
+                      value={localAdvanced.keytrackAmount}
+                      min={-100}
                       max={100}
                       step={1}
-                      label="Mix"
+                      label=""
                       unit="%"
-                      onChange={(v) => updateAdvanced("dualMix", v)}
+                      lockKey="keytrackAmount"
+                      onChange={(v) => updateAdvanced("keytrackAmount", v)}
                       size="xs"
-                      modulationPath="filter.dualMix"
                     />
-                  </div>
+                  )}
                 </div>
-              )}
-            </div>
-
-            <div className="space-y-1">
-              <div className="flex items-center justify-between">
-                <span className="text-[9px] text-muted-foreground font-medium">Formant</span>
-                <Switch
-                  checked={localAdvanced.formantEnabled}
-                  onCheckedChange={(v) => updateAdvanced("formantEnabled", v)}
-                  className="scale-50"
-                  data-testid="switch-formant"
-                />
               </div>
-              {localAdvanced.formantEnabled && (
-                <div className="flex gap-1 items-center">
-                  <div className="flex gap-0.5">
-                    {(["A", "E", "I", "O", "U"] as FormantVowel[]).map((vowel) => (
-                      <Button
-                        key={vowel}
-                        size="sm"
-                        variant={localAdvanced.formantVowel === vowel ? "default" : "outline"}
-                        className="h-5 w-5 text-[9px] p-0"
-                        onClick={() => updateAdvanced("formantVowel", vowel)}
-                        data-testid={`btn-vowel-${vowel.toLowerCase()}`}
-                      >
-                        {vowel}
-                      </Button>
-                    ))}
-                  </div>
-                  <Knob
-                    value={localAdvanced.formantMix}
-                    min={0}
-                    max={100}
-                    step={1}
-                    label="Mix"
-                    unit="%"
-                    onChange={(v) => updateAdvanced("formantMix", v)}
-                    size="xs"
-                    modulationPath="filter.formantMix"
-                  />
-                </div>
-              )}
-            </div>
 
-            <div className="space-y-1">
               <div className="flex items-center justify-between">
-                <span className="text-[9px] text-muted-foreground font-medium">Filter FM</span>
+                <span className="text-[9px] text-muted-foreground font-medium">Self-Osc</span>
                 <Switch
-                  checked={localAdvanced.fmEnabled}
-                  onCheckedChange={(v) => updateAdvanced("fmEnabled", v)}
+                  checked={localAdvanced.selfOscillation}
+                  onCheckedChange={(v) => updateAdvanced("selfOscillation", v)}
                   className="scale-50"
-                  data-testid="switch-filter-fm"
+                  data-testid="switch-self-osc"
                 />
               </div>
-              {localAdvanced.fmEnabled && (
-                <div className="flex gap-1 items-center">
-                  <Select
-                    value={localAdvanced.fmSource}
-                    onValueChange={(v) => updateAdvanced("fmSource", v as "osc1" | "osc2" | "osc3" | "lfo")}
-                  >
-                    <SelectTrigger className="h-5 text-[9px] flex-1" data-testid="select-filter-fm-source">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="osc1">OSC1</SelectItem>
-                      <SelectItem value="osc2">OSC2</SelectItem>
-                      <SelectItem value="osc3">OSC3</SelectItem>
-                      <SelectItem value="lfo">LFO</SelectItem>
-                    </SelectContent>
-                  </Select>
-                  <Knob
-                    value={localAdvanced.fmDepth}
-                    min={0}
-                    max={100}
-                    step={1}
-                    label="Depth"
-                    unit="%"
-                    onChange={(v) => updateAdvanced("fmDepth", v)}
-                    size="xs"
-                    modulationPath="filter.fmDepth"
-                  />
-                </div>
-              )}
-            </div>
-
-            <div className="flex items-center justify-between">
-              <span className="text-[9px] text-muted-foreground font-medium">Keytrack</span>
-              <div className="flex items-center gap-1">
-                <Switch
-                  checked={localAdvanced.keytrackEnabled}
-                  onCheckedChange={(v) => updateAdvanced("keytrackEnabled", v)}
-                  className="scale-50"
-                  data-testid="switch-keytrack"
-                />
-                {localAdvanced.keytrackEnabled && (
-                  <Knob
-                    value={localAdvanced.keytrackAmount}
-                    min={-100}
-                    max={100}
-                    step={1}
-                    label=""
-                    unit="%"
-                    onChange={(v) => updateAdvanced("keytrackAmount", v)}
-                    size="xs"
-                    modulationPath="filter.keytrackAmount"
-                  />
-                )}
-              </div>
-            </div>
-
-            <div className="flex items-center justify-between">
-              <span className="text-[9px] text-muted-foreground font-medium">Self-Osc</span>
-              <Switch
-                checked={localAdvanced.selfOscillation}
-                onCheckedChange={(v) => updateAdvanced("selfOscillation", v)}
-                className="scale-50"
-                data-testid="switch-self-osc"
-              />
             </div>
-          </div>
+          </LockScope>
         )}
       </div>
     </CollapsiblePanel>
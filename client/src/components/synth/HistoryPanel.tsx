@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { History, Bookmark, Trash2 } from "lucide-react";
+import type { HistoryEntry } from "@/lib/undoHistory";
+
+export type HistoryItem = Omit<HistoryEntry<unknown>, "state">;
+
+interface HistoryPanelProps {
+  items: HistoryItem[];
+  currentIndex: number;
+  onSelect: (index: number) => void;
+  onCheckpoint: (name: string) => void;
+  onClear: () => void;
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+}
+
+export function HistoryPanel({ items, currentIndex, onSelect, onCheckpoint, onClear }: HistoryPanelProps) {
+  const [checkpointName, setCheckpointName] = useState("");
+
+  const addCheckpoint = () => {
+    if (!checkpointName.trim()) return;
+    onCheckpoint(checkpointName);
+    setCheckpointName("");
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button size="icon" variant="ghost" title="History" data-testid="button-history">
+          <History className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-72 p-2 space-y-2" data-testid="history-panel">
+        <div className="flex items-center gap-1">
+          <Input
+            placeholder="Checkpoint name..."
+            value={checkpointName}
+            onChange={(e) => setCheckpointName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && addCheckpoint()}
+            className="h-7 text-xs"
+            data-testid="input-checkpoint-name"
+          />
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-7 w-7 shrink-0"
+            disabled={!checkpointName.trim()}
+            onClick={addCheckpoint}
+            title="Name the current state"
+            data-testid="button-add-checkpoint"
+          >
+            <Bookmark className="w-3.5 h-3.5" />
+          </Button>
+        </div>
+
+        {/* Newest first; entries past the current one can still be redone */}
+        <div className="max-h-64 overflow-y-auto space-y-0.5" data-testid="history-list">
+          {items.map((item, index) => ({ item, index })).reverse().map(({ item, index }) => (
+            <button
+              key={index}
+              type="button"
+              onClick={() => onSelect(index)}
+              className={`w-full flex items-center gap-1.5 rounded px-1.5 py-1 text-left text-[10px] hover:bg-muted/50 ${
+                index === currentIndex ? "bg-primary/15 text-primary" : index > currentIndex ? "text-muted-foreground/60" : ""
+              }`}
+              data-testid={`history-entry-${index}`}
+            >
+              {item.checkpoint && <Bookmark className="w-3 h-3 shrink-0 text-primary" />}
+              <span className="flex-1 min-w-0 truncate">
+                {item.checkpoint ? (
+                  <>
+                    <span className="font-medium">{item.checkpoint}</span>
+                    {item.label && <span className="text-muted-foreground"> · {item.label}</span>}
+                  </>
+                ) : (
+                  item.label ?? "Start"
+                )}
+              </span>
+              <span className="shrink-0 font-mono text-muted-foreground">{formatTime(item.timestamp)}</span>
+            </button>
+          ))}
+        </div>
+
+        <Button
+          size="sm"
+          variant="ghost"
+          className="w-full h-6 text-[10px]"
+          disabled={items.length <= 1}
+          onClick={onClear}
+          data-testid="button-clear-history"
+        >
+          <Trash2 className="w-3 h-3 mr-1" />
+          Clear History
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1,5 +1,7 @@
 import { useRef, useCallback, useEffect, useState } from "react";
+import { Lock } from "lucide-react";
 import { useModulationsForPath } from "@/contexts/ModulationContext";
+import { useParameterLock } from "@/contexts/ParameterLockContext";
 
 interface ModulationIndicator {
   color: string;
@@ -23,6 +25,8 @@ interface KnobProps {
   defaultValue?: number;
   modulationPath?: string;
   modulations?: ModulationIndicator[];
+  /** Settings key under the enclosing LockScope; enables right-click locking. */
+  lockKey?: string;
   disabled?: boolean;
   "data-testid"?: string;
 }
@@ -43,12 +47,14 @@ export function Knob({
   defaultValue,
   modulationPath,
   modulations: externalModulations,
+  lockKey,
   disabled = false,
   "data-testid": testId,
 }: KnobProps) {
   // Get modulations from context if a path is provided, or use external modulations
   const contextModulations = useModulationsForPath(modulationPath || "");
   const modulations = externalModulations || contextModulations;
+  const lock = useParameterLock(lockKey);
   const knobRef = useRef<HTMLDivElement>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [isHovering, setIsHovering] = useState(false);
@@ -241,6 +247,11 @@ export function Knob({
       data-testid={testId || `knob-${label.toLowerCase().replace(/\s/g, '-')}`}
       onMouseEnter={() => !disabled && setIsHovering(true)}
       onMouseLeave={() => setIsHovering(false)}
+      onContextMenu={lock ? (e) => {
+        // Right-click locks the value against Randomize and Mutate
+        e.preventDefault();
+        lock.toggle();
+      } : undefined}
     >
       <div className="relative">
         {/* Modulation indicator ring - positioned around the knob */}
@@ -306,7 +317,13 @@ export function Knob({
         </svg>
         </div>
       </div>
-      <span className="text-[10px] font-medium text-muted-foreground truncate max-w-full">{label}</span>
+      <span
+        className={`flex items-center gap-0.5 text-[10px] font-medium truncate max-w-full ${lock?.locked ? "text-yellow-500" : "text-muted-foreground"}`}
+        title={lock ? (lock.locked ? "Locked: right-click to unlock" : "Right-click to lock") : undefined}
+      >
+        {lock?.locked && <Lock className="w-2 h-2 shrink-0" />}
+        <span className="truncate">{label}</span>
+      </span>
       <div className="h-3 flex items-center justify-center">
         {showValue ? (
           <span className="text-[10px] font-mono text-primary animate-in fade-in duration-150">
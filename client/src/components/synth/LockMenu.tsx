@@ -0,0 +1,90 @@
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { Lock, Unlock, X } from "lucide-react";
+import { useParameterLocks, useSetParameterLocks, useLockSettings } from "@/contexts/ParameterLockContext";
+import { LOCK_SECTIONS, isSectionLocked, toggleSectionLock, toggleLock } from "@/lib/parameterLocks";
+
+const SECTION_PATHS = new Set(LOCK_SECTIONS.flatMap(section => section.paths));
+
+export function LockMenu() {
+  const locks = useParameterLocks();
+  const setLocks = useSetParameterLocks();
+  const getSettings = useLockSettings();
+  if (!setLocks) return null;
+
+  // Single-knob locks, i.e. anything the section toggles don't cover exactly
+  const parameterLocks = locks.filter(lock => !SECTION_PATHS.has(lock));
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={`h-6 text-[10px] px-2 ${locks.length > 0 ? "text-yellow-500" : "text-muted-foreground"}`}
+          title="Locked parameters are kept by Rand and Mutate"
+          data-testid="button-locks"
+        >
+          <Lock className="w-3 h-3 mr-1" />
+          {locks.length > 0 ? locks.length : "Locks"}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-64 p-2 space-y-2" data-testid="lock-menu">
+        <div className="text-[10px] text-muted-foreground">
+          Lock whole sections here, or right-click any knob to lock it.
+        </div>
+        <div className="grid grid-cols-2 gap-0.5">
+          {LOCK_SECTIONS.map(section => {
+            const locked = isSectionLocked(locks, section);
+            return (
+              <button
+                key={section.label}
+                type="button"
+                onClick={() => setLocks(toggleSectionLock(locks, section, getSettings()))}
+                className={`flex items-center gap-1 rounded px-1.5 py-0.5 text-left text-[10px] hover:bg-muted/50 ${
+                  locked ? "text-yellow-500" : ""
+                }`}
+                data-testid={`lock-section-${section.label.toLowerCase().replace(/[^a-z0-9]+/g, "-")}`}
+              >
+                {locked ? <Lock className="w-2.5 h-2.5 shrink-0" /> : <Unlock className="w-2.5 h-2.5 shrink-0 text-muted-foreground" />}
+                <span className="truncate">{section.label}</span>
+              </button>
+            );
+          })}
+        </div>
+
+        {parameterLocks.length > 0 && (
+          <div className="border-t border-border/50 pt-1 max-h-32 overflow-y-auto space-y-0.5" data-testid="lock-parameter-list">
+            {parameterLocks.map(lock => (
+              <div key={lock} className="flex items-center gap-1 px-1.5 text-[10px]">
+                <Lock className="w-2.5 h-2.5 shrink-0 text-yellow-500" />
+                <span className="flex-1 min-w-0 truncate font-mono">{lock}</span>
+                <button
+                  type="button"
+                  onClick={() => setLocks(toggleLock(locks, lock, getSettings()))}
+                  className="text-muted-foreground hover:text-foreground"
+                  title="Unlock"
+                  data-testid={`button-unlock-${lock}`}
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Button
+          size="sm"
+          variant="ghost"
+          className="w-full h-6 text-[10px]"
+          disabled={locks.length === 0}
+          onClick={() => setLocks([])}
+          data-testid="button-clear-locks"
+        >
+          <Unlock className="w-3 h-3 mr-1" />
+          Clear Locks
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1,5 +1,6 @@
 import { Switch } from "@/components/ui/switch";
 import { Knob } from "./Knob";
+import { LockScope } from "@/contexts/ParameterLockContext";
 import { CollapsiblePanel } from "./CollapsiblePanel";
 import type { LowEndSettings, OscPhaseSettings } from "@/lib/advancedSynthSettings";
 import { Waves, Volume2, Radio, Gauge } from "lucide-react";
@@ -63,63 +64,69 @@ export function LowEndPanel({
       data-testid="panel-low-end"
     >
       <div className="space-y-1.5">
-        <div className="rounded border border-border/50 p-1.5">
-          <div className="flex items-center justify-between mb-1">
-            <span className="text-[10px] text-muted-foreground flex items-center gap-1">
-              <Radio className="w-2.5 h-2.5" /> Phase Alignment
-            </span>
-          </div>
-          <div className="flex justify-center gap-1 flex-wrap">
-            <Knob
-              value={phaseSettings.osc1Phase}
-              min={0}
-              max={360}
-              step={1}
-              label="Osc1"
-              unit="°"
-              onChange={(v) => updatePhase("osc1Phase", v)}
-              accentColor="accent"
-              size="xs"
-              data-testid="knob-osc1-phase"
-            />
-            <Knob
-              value={phaseSettings.osc2Phase}
-              min={0}
-              max={360}
-              step={1}
-              label="Osc2"
-              unit="°"
-              onChange={(v) => updatePhase("osc2Phase", v)}
-              accentColor="accent"
-              size="xs"
-              data-testid="knob-osc2-phase"
-            />
-            <Knob
-              value={phaseSettings.osc3Phase}
-              min={0}
-              max={360}
-              step={1}
-              label="Osc3"
-              unit="°"
-              onChange={(v) => updatePhase("osc3Phase", v)}
-              accentColor="accent"
-              size="xs"
-              data-testid="knob-osc3-phase"
-            />
-            <Knob
-              value={phaseSettings.subPhase}
-              min={0}
-              max={360}
-              step={1}
-              label="Sub"
-              unit="°"
-              onChange={(v) => updatePhase("subPhase", v)}
-              accentColor="primary"
-              size="xs"
-              data-testid="knob-sub-phase"
-            />
+        <LockScope path="phaseSettings">
+          <div className="rounded border border-border/50 p-1.5">
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-[10px] text-muted-foreground flex items-center gap-1">
+                <Radio className="w-2.5 h-2.5" /> Phase Alignment
+              </span>
+            </div>
+            <div className="flex justify-center gap-1 flex-wrap">
+              <Knob
+                value={phaseSettings.osc1Phase}
+                min={0}
+                max={360}
+                step={1}
+                label="Osc1"
+                unit="°"
+                lockKey="osc1Phase"
+                onChange={(v) => updatePhase("osc1Phase", v)}
+                accentColor="accent"
+                size="xs"
+                data-testid="knob-osc1-phase"
+              />
+              <Knob
+                value={phaseSettings.osc2Phase}
+                min={0}
+                max={360}
+                step={1}
+                label="Osc2"
+                unit="°"
+                lockKey="osc2Phase"
+                onChange={(v) => updatePhase("osc2Phase", v)}
+                accentColor="accent"
+                size="xs"
+                data-testid="knob-osc2-phase"
+              />
+              <Knob
+                value={phaseSettings.osc3Phase}
+                min={0}
+                max={360}
+                step={1}
+                label="Osc3"
+                unit="°"
+                lockKey="osc3Phase"
+                onChange={(v) => updatePhase("osc3Phase", v)}
+                accentColor="accent"
+                size="xs"
+                data-testid="knob-osc3-phase"
+              />
+              <Knob
+                value={phaseSettings.subPhase}
+                min={0}
+                max={360}
+                step={1}
+                label="Sub"
+                unit="°"
+                lockKey="subPhase"
+                onChange={(v) => updatePhase("subPhase", v)}
+                accentColor="primary"
+                size="xs"
+                data-testid="knob-sub-phase"
+              />
+            </div>
           </div>
-        </div>
+        </LockScope>
 
         <div className={`rounded border border-border/50 p-1.5 ${!lowEndSettings.dcFilterEnabled ? 'opacity-50' : ''}`}>
           <div className="flex items-center justify-between mb-1">
@@ -139,6 +146,7 @@ export function LowEndPanel({
               step={0.5}
               label="Freq"
               unit="Hz"
+              lockKey="dcFilterFreq"
               onChange={(v) => updateLowEnd("dcFilterFreq", v)}
               accentColor="primary"
               size="xs"
@@ -165,6 +173,7 @@ export function LowEndPanel({
               step={5}
               label="Crossover"
               unit="Hz"
+              lockKey="monoSumFreq"
               onChange={(v) => updateLowEnd("monoSumFreq", v)}
               accentColor="primary"
               size="xs"
@@ -177,6 +186,7 @@ export function LowEndPanel({
               step={5}
               label="Width"
               unit="%"
+              lockKey="monoSumWidth"
               onChange={(v) => updateLowEnd("monoSumWidth", v)}
               accentColor="primary"
               size="xs"
@@ -205,6 +215,7 @@ export function LowEndPanel({
               step={1}
               label="-1 Oct"
               unit="%"
+              lockKey="subHarmonic.octaveDown1"
               onChange={(v) => updateSubHarmonic("octaveDown1", v)}
               accentColor="primary"
               size="xs"
@@ -217,6 +228,7 @@ export function LowEndPanel({
               step={1}
               label="-2 Oct"
               unit="%"
+              lockKey="subHarmonic.octaveDown2"
               onChange={(v) => updateSubHarmonic("octaveDown2", v)}
               accentColor="primary"
               size="xs"
@@ -229,6 +241,7 @@ export function LowEndPanel({
               step={5}
               label="Filter"
               unit="Hz"
+              lockKey="subHarmonic.filterFreq"
               onChange={(v) => updateSubHarmonic("filterFreq", v)}
               accentColor="accent"
               size="xs"
@@ -241,6 +254,7 @@ export function LowEndPanel({
               step={1}
               label="Drive"
               unit="%"
+              lockKey="subHarmonic.drive"
               onChange={(v) => updateSubHarmonic("drive", v)}
               accentColor="accent"
               size="xs"
@@ -269,6 +283,7 @@ export function LowEndPanel({
               step={5}
               label="Freq"
               unit="Hz"
+              lockKey="bassExciter.frequency"
               onChange={(v) => updateBassExciter("frequency", v)}
               accentColor="primary"
               size="xs"
@@ -281,6 +296,7 @@ export function LowEndPanel({
               step={1}
               label="Harm"
               unit="%"
+              lockKey="bassExciter.harmonics"
               onChange={(v) => updateBassExciter("harmonics", v)}
               accentColor="primary"
               size="xs"
@@ -293,6 +309,7 @@ export function LowEndPanel({
               step={1}
               label="SubOct"
               unit="%"
+              lockKey="bassExciter.subOctave"
               onChange={(v) => updateBassExciter("subOctave", v)}
               accentColor="accent"
               size="xs"
@@ -305,6 +322,7 @@ export function LowEndPanel({
               step={1}
               label="Edge"
               unit="%"
+              lockKey="bassExciter.presence"
               onChange={(v) => updateBassExciter("presence", v)}
               accentColor="accent"
               size="xs"
@@ -317,6 +335,7 @@ export function LowEndPanel({
               step={1}
               label="Mix"
               unit="%"
+              lockKey="bassExciter.mix"
               onChange={(v) => updateBassExciter("mix", v)}
               accentColor="primary"
               size="xs"
@@ -343,6 +362,7 @@ export function LowEndPanel({
               step={5}
               label="LoFreq"
               unit="Hz"
+              lockKey="subEQ.lowShelfFreq"
               onChange={(v) => updateSubEQ("lowShelfFreq", v)}
               accentColor="primary"
               size="xs"
@@ -355,6 +375,7 @@ export function LowEndPanel({
               step={0.5}
               label="LoGain"
               unit="dB"
+              lockKey="subEQ.lowShelfGain"
               onChange={(v) => updateSubEQ("lowShelfGain", v)}
               accentColor="primary"
               size="xs"
@@ -367,6 +388,7 @@ export function LowEndPanel({
               step={0.1}
               label="LoQ"
               unit=""
+              lockKey="subEQ.lowShelfQ"
               onChange={(v) => updateSubEQ("lowShelfQ", v)}
               accentColor="accent"
               size="xs"
@@ -381,6 +403,7 @@ export function LowEndPanel({
               step={1}
               label="SubFreq"
               unit="Hz"
+              lockKey="subEQ.subBoostFreq"
               onChange={(v) => updateSubEQ("subBoostFreq", v)}
               accentColor="accent"
               size="xs"
@@ -393,6 +416,7 @@ export function LowEndPanel({
               step={0.5}
               label="SubGain"
               unit="dB"
+              lockKey="subEQ.subBoostGain"
               onChange={(v) => updateSubEQ("subBoostGain", v)}
               accentColor="accent"
               size="xs"
@@ -405,6 +429,7 @@ export function LowEndPanel({
               step={0.5}
               label="SubQ"
               unit=""
+              lockKey="subEQ.subBoostQ"
               onChange={(v) => updateSubEQ("subBoostQ", v)}
               accentColor="primary"
               size="xs"
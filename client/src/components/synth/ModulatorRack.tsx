@@ -4,7 +4,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue, SelectGr
 import { Knob } from "./Knob";
 import { Switch } from "@/components/ui/switch";
 import { CollapsiblePanel } from "./CollapsiblePanel";
-import { Plus, X, Waves, TrendingUp, Shuffle, Sliders } from "lucide-react";
+import { Plus, X, Waves, TrendingUp, Shuffle, Sliders, AlertTriangle } from "lucide-react";
 import type { 
   Modulator, 
   ModulationRoute, 
@@ -16,6 +16,8 @@ import type {
   DelayDivision,
   ModulatorType 
 } from "@shared/schema";
+import { VELOCITY_MODULATOR_ID } from "@/lib/noteTrigger";
+import { isNoteStartTarget, isConstantSource } from "@/lib/renderModulation";
 
 interface ModulatorRackProps {
   modulators: Modulator[];
@@ -25,6 +27,7 @@ interface ModulatorRackProps {
   onUpdateRoutes: (routes: ModulationRoute[]) => void;
   curveEnabled?: boolean;
   stepSequencerEnabled?: boolean;
+  velocityEnabled?: boolean;
 }
 
 const LFO_SHAPES: { value: LfoShape; label: string }[] = [
@@ -100,6 +103,9 @@ const MODULATION_TARGETS: ModulationTarget[] = [
   { path: "oscillators.osc3.detune", label: "OSC3 Detune", category: "Oscillators" },
   { path: "oscillators.osc3.fmDepth", label: "OSC3 FM Depth", category: "Oscillators" },
   { path: "oscillators.osc3.drift", label: "OSC3 Drift", category: "Oscillators" },
+  { path: "wavetable.osc1.position", label: "OSC1 WT Pos", category: "Oscillators" },
+  { path: "wavetable.osc2.position", label: "OSC2 WT Pos", category: "Oscillators" },
+  { path: "wavetable.osc3.position", label: "OSC3 WT Pos", category: "Oscillators" },
   
   // Effects - Delay
   { path: "effects.delay.time", label: "Delay Time", category: "Effects" },
@@ -164,29 +170,9 @@ const MODULATION_TARGETS: ModulationTarget[] = [
   { path: "envelopes.pitch.amount", label: "Pitch Env Amt", category: "Envelopes" },
   { path: "envelopes.filter.amount", label: "Filter Env Amt", category: "Envelopes" },
   
-  // Advanced Filter
-  { path: "filter.driveAmount", label: "Filter Drive", category: "Filter" },
-  { path: "filter.filter2Frequency", label: "Filter 2 Freq", category: "Filter" },
-  { path: "filter.filter2Resonance", label: "Filter 2 Res", category: "Filter" },
-  { path: "filter.dualMix", label: "Dual Mix", category: "Filter" },
-  { path: "filter.formantMix", label: "Formant Mix", category: "Filter" },
-  { path: "filter.fmDepth", label: "Filter FM", category: "Filter" },
-  { path: "filter.keytrackAmount", label: "Keytrack Amt", category: "Filter" },
-  
   // Advanced Waveshaper
-  { path: "waveshaper.positiveAmount", label: "WS +Amt", category: "Shaping" },
-  { path: "waveshaper.negativeAmount", label: "WS -Amt", category: "Shaping" },
-  { path: "waveshaper.dcOffset", label: "WS DC", category: "Shaping" },
-  { path: "waveshaper.dynamicSensitivity", label: "WS Dynamic", category: "Shaping" },
-  { path: "waveshaper.chebyshevOrder", label: "WS ChebOrd", category: "Shaping" },
-  { path: "waveshaper.foldbackIterations", label: "WS FoldItr", category: "Shaping" },
   { path: "waveshaper.preFilterFreq", label: "WS PreFilt", category: "Shaping" },
   { path: "waveshaper.postFilterFreq", label: "WS PostFilt", category: "Shaping" },
-  { path: "waveshaper.multiband.lowCrossover", label: "WS Lo Cross", category: "Shaping" },
-  { path: "waveshaper.multiband.highCrossover", label: "WS Hi Cross", category: "Shaping" },
-  { path: "waveshaper.multiband.lowDrive", label: "WS Lo Drive", category: "Shaping" },
-  { path: "waveshaper.multiband.midDrive", label: "WS Mid Drive", category: "Shaping" },
-  { path: "waveshaper.multiband.highDrive", label: "WS Hi Drive", category: "Shaping" },
   
   // Granular Synthesis
   { path: "granular.grainSizeMs", label: "Grain Size", category: "Granular" },
@@ -214,6 +200,34 @@ const MODULATION_TARGETS: ModulationTarget[] = [
   { path: "granular.envDecay", label: "Grain Env Dec", category: "Granular" },
 ];
 
+const TARGET_PATHS = new Set(MODULATION_TARGETS.map(target => target.path));
+
+// Targets a modulator is offered: note-start targets only to sources that hold
+// one value for the note, plus whatever the route already points at
+function targetsFor(constantSource: boolean, currentPath: string, category: string): ModulationTarget[] {
+  return MODULATION_TARGETS.filter(target =>
+    target.category === category &&
+    (constantSource || !isNoteStartTarget(target.path) || target.path === currentPath)
+  );
+}
+
+// Routes loaded with a target the render can't follow are kept, but marked:
+// paths it doesn't read at all, and note-start targets driven by a modulator
+// that moves during the note
+function RouteRenderWarning({ route, constantSource }: { route: ModulationRoute; constantSource: boolean }) {
+  const message = route.targetPath && !TARGET_PATHS.has(route.targetPath)
+    ? "This target isn't applied to the render"
+    : isNoteStartTarget(route.targetPath) && !constantSource
+      ? "Set once at note start: the render holds this modulator's starting value"
+      : null;
+  if (!message) return null;
+  return (
+    <span title={message} className="shrink-0 text-amber-500" data-testid={`warning-route-${route.id}`}>
+      <AlertTriangle className="w-2.5 h-2.5" />
+    </span>
+  );
+}
+
 function generateId(): string {
   return Math.random().toString(36).substring(2, 9);
 }
@@ -448,7 +462,7 @@ function ModulatorCard({
                   {["Filter", "Oscillators", "Effects", "Layers", "Shaping", "Saturation", "Granular"].map((category) => (
                     <SelectGroup key={category}>
                       <SelectLabel className="text-[9px] font-semibold">{category}</SelectLabel>
-                      {MODULATION_TARGETS.filter(t => t.category === category).map((target) => (
+                      {targetsFor(isConstantSource(mod.id, [mod]), route.targetPath, category).map((target) => (
                         <SelectItem key={target.path} value={target.path} className="text-[9px]">
                           {target.label}
                         </SelectItem>
@@ -457,6 +471,7 @@ function ModulatorCard({
                   ))}
                 </SelectContent>
               </Select>
+              <RouteRenderWarning route={route} constantSource={isConstantSource(mod.id, [mod])} />
               <input
                 type="number"
                 value={route.depth}
@@ -544,7 +559,7 @@ function VirtualModulatorCard({
                     {["Filter", "Oscillators", "Effects", "Layers", "Shaping", "Saturation", "Mastering", "Envelopes", "Granular"].map((category) => (
                       <SelectGroup key={category}>
                         <SelectLabel className="text-[9px] font-semibold">{category}</SelectLabel>
-                        {MODULATION_TARGETS.filter(t => t.category === category).map((target) => (
+                        {targetsFor(isConstantSource(id, []), route.targetPath, category).map((target) => (
                           <SelectItem key={target.path} value={target.path} className="text-[9px]">
                             {target.label}
                           </SelectItem>
@@ -553,6 +568,7 @@ function VirtualModulatorCard({
                     ))}
                   </SelectContent>
                 </Select>
+                <RouteRenderWarning route={route} constantSource={isConstantSource(id, [])} />
                 <Knob
                   value={route.depth}
                   min={-100}
@@ -581,7 +597,7 @@ function VirtualModulatorCard({
   );
 }
 
-export function ModulatorRack({ modulators, routes, tempo, onUpdateModulators, onUpdateRoutes, curveEnabled, stepSequencerEnabled }: ModulatorRackProps) {
+export function ModulatorRack({ modulators, routes, tempo, onUpdateModulators, onUpdateRoutes, curveEnabled, stepSequencerEnabled, velocityEnabled }: ModulatorRackProps) {
   const [addMenuOpen, setAddMenuOpen] = useState(false);
 
   const addModulator = (type: ModulatorType) => {
@@ -655,7 +671,7 @@ export function ModulatorRack({ modulators, routes, tempo, onUpdateModulators, o
         </div>
       }
     >
-      {modulators.length === 0 && !curveEnabled && !stepSequencerEnabled ? (
+      {modulators.length === 0 && !curveEnabled && !stepSequencerEnabled && !velocityEnabled ? (
         <div className="text-center py-4 text-[10px] text-muted-foreground">
           No modulators added. Click "Add" to create LFOs, envelopes, or macros.
         </div>
@@ -695,6 +711,17 @@ export function ModulatorRack({ modulators, routes, tempo, onUpdateModulators, o
               onDeleteRoute={deleteRoute}
             />
           )}
+          {velocityEnabled && (
+            <VirtualModulatorCard
+              id={VELOCITY_MODULATOR_ID}
+              name="Velocity"
+              color="bg-amber-500/20 border-amber-500/50"
+              routes={routes}
+              onAddRoute={() => addRoute(VELOCITY_MODULATOR_ID)}
+              onUpdateRoute={updateRoute}
+              onDeleteRoute={deleteRoute}
+            />
+          )}
         </div>
       )}
     </CollapsiblePanel>
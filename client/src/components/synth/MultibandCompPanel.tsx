@@ -14,9 +14,10 @@ interface BandControlsProps {
   band: BandCompSettings;
   onChange: (band: BandCompSettings) => void;
   label: string;
+  bandKey: "lowBand" | "midBand" | "highBand";
 }
 
-function BandControls({ band, onChange, label }: BandControlsProps) {
+function BandControls({ band, onChange, label, bandKey }: BandControlsProps) {
   return (
     <div className="space-y-2">
       <div className="flex items-center justify-between">
@@ -30,6 +31,7 @@ function BandControls({ band, onChange, label }: BandControlsProps) {
       <div className="grid grid-cols-5 gap-1">
         <Knob
           value={band.threshold}
+          lockKey={`${bandKey}.threshold`}
           onChange={(threshold) => onChange({ ...band, threshold })}
           min={-60}
           max={0}
@@ -41,6 +43,7 @@ function BandControls({ band, onChange, label }: BandControlsProps) {
         />
         <Knob
           value={band.ratio}
+          lockKey={`${bandKey}.ratio`}
           onChange={(ratio) => onChange({ ...band, ratio })}
           min={1}
           max={20}
@@ -52,6 +55,7 @@ function BandControls({ band, onChange, label }: BandControlsProps) {
         />
         <Knob
           value={band.attack}
+          lockKey={`${bandKey}.attack`}
           onChange={(attack) => onChange({ ...band, attack })}
           min={0.1}
           max={100}
@@ -63,6 +67,7 @@ function BandControls({ band, onChange, label }: BandControlsProps) {
         />
         <Knob
           value={band.release}
+          lockKey={`${bandKey}.release`}
           onChange={(release) => onChange({ ...band, release })}
           min={10}
           max={1000}
@@ -74,6 +79,7 @@ function BandControls({ band, onChange, label }: BandControlsProps) {
         />
         <Knob
           value={band.gain}
+          lockKey={`${bandKey}.gain`}
           onChange={(gain) => onChange({ ...band, gain })}
           min={-12}
           max={12}
@@ -112,6 +118,7 @@ export function MultibandCompPanel({ settings, onChange }: MultibandCompPanelPro
         <div className="grid grid-cols-3 gap-2">
           <Knob
             value={settings.lowCrossover}
+            lockKey="lowCrossover"
             onChange={(lowCrossover) => onChange({ ...settings, lowCrossover })}
             min={20}
             max={500}
@@ -123,6 +130,7 @@ export function MultibandCompPanel({ settings, onChange }: MultibandCompPanelPro
           />
           <Knob
             value={settings.highCrossover}
+            lockKey="highCrossover"
             onChange={(highCrossover) => onChange({ ...settings, highCrossover })}
             min={2000}
             max={10000}
@@ -134,6 +142,7 @@ export function MultibandCompPanel({ settings, onChange }: MultibandCompPanelPro
           />
           <Knob
             value={settings.mix * 100}
+            lockKey="mix"
             onChange={(v) => onChange({ ...settings, mix: v / 100 })}
             min={0}
             max={100}
@@ -163,6 +172,7 @@ export function MultibandCompPanel({ settings, onChange }: MultibandCompPanelPro
               <BandControls
                 band={settings.lowBand}
                 onChange={(lowBand) => onChange({ ...settings, lowBand })}
+                bandKey="lowBand"
                 label="Low Band"
               />
             </TabsContent>
@@ -170,6 +180,7 @@ export function MultibandCompPanel({ settings, onChange }: MultibandCompPanelPro
               <BandControls
                 band={settings.midBand}
                 onChange={(midBand) => onChange({ ...settings, midBand })}
+                bandKey="midBand"
                 label="Mid Band"
               />
             </TabsContent>
@@ -177,6 +188,7 @@ export function MultibandCompPanel({ settings, onChange }: MultibandCompPanelPro
               <BandControls
                 band={settings.highBand}
                 onChange={(highBand) => onChange({ ...settings, highBand })}
+                bandKey="highBand"
                 label="High Band"
               />
             </TabsContent>
@@ -3,6 +3,7 @@ import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
 import { Knob } from "./Knob";
+import { LockScope, useApplyLocks } from "@/contexts/ParameterLockContext";
 import { CollapsiblePanel } from "./CollapsiblePanel";
 import { WavetableSelector } from "./WavetableSelector";
 import type { Oscillator, WaveformType, ModRatioPreset, PitchState, PitchModeType, EnvelopeCurve } from "@shared/schema";
@@ -117,8 +118,10 @@ export function OscillatorPanel({
     onChange({ ...oscillator, [key]: value });
   };
 
+  const withLocks = useApplyLocks();
+
   const handleRandomize = () => {
-    onChange({ ...oscillator, ...randomizeOscillator() });
+    onChange(withLocks({ ...oscillator, ...randomizeOscillator() }, oscillator));
   };
 
   const handlePitchModeChange = (mode: PitchModeType) => {
@@ -303,6 +306,7 @@ export function OscillatorPanel({
                     max={16}
                     step={0.25}
                     label="Ratio"
+                    lockKey="fmRatio"
                     onChange={(v) => updateOscillator("fmRatio", v)}
                     accentColor="primary"
                     size="xs"
@@ -315,6 +319,7 @@ export function OscillatorPanel({
                   step={10}
                   label="Depth"
                   unit="Hz"
+                  lockKey="fmDepth"
                   onChange={(v) => updateOscillator("fmDepth", v)}
                   accentColor="accent"
                   size="xs"
@@ -327,6 +332,7 @@ export function OscillatorPanel({
                   step={1}
                   label="FB"
                   unit="%"
+                  lockKey="fmFeedback"
                   onChange={(v) => updateOscillator("fmFeedback", v / 100)}
                   accentColor="primary"
                   size="xs"
@@ -335,95 +341,30 @@ export function OscillatorPanel({
               
               {/* Advanced FM Section */}
               {advancedFM && onAdvancedFMChange && (
-                <div className="border-t border-border/30 pt-1 mt-1">
-                  <button
-                    type="button"
-                    onClick={() => setFmAdvancedOpen(!fmAdvancedOpen)}
-                    className="flex items-center gap-0.5 text-[9px] text-muted-foreground hover-elevate w-full rounded px-1 py-0.5"
-                    data-testid={`button-fm-advanced-toggle-${index}`}
-                  >
-                    {fmAdvancedOpen ? <ChevronDown className="w-2 h-2" /> : <ChevronRight className="w-2 h-2" />}
-                    <Layers className="w-2 h-2" />
-                    <span>Advanced</span>
-                  </button>
-                  
-                  {fmAdvancedOpen && (
-                    <div className="space-y-1 mt-1">
-                      {/* Carrier Waveform - FM mode bypasses main osc waveform */}
-                      <div className="flex items-center gap-1">
-                        <span className="text-[9px] text-muted-foreground shrink-0">Carrier</span>
-                        <Select
-                          value={advancedFM.carrierWaveform || "sine"}
-                          onValueChange={(v) => onAdvancedFMChange({ ...advancedFM, carrierWaveform: v as "sine" | "triangle" | "sawtooth" | "square" })}
-                          disabled={!oscillator.fmEnabled}
-                        >
-                          <SelectTrigger className="h-5 text-[9px] flex-1" data-testid={`select-fm-carrier-${index}`}>
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="sine">Sine</SelectItem>
-                            <SelectItem value="triangle">Triangle</SelectItem>
-                            <SelectItem value="sawtooth">Saw</SelectItem>
-                            <SelectItem value="square">Square</SelectItem>
-                          </SelectContent>
-                        </Select>
-                      </div>
-                      
-                      {/* Algorithm Selector */}
-                      <Select
-                        value={advancedFM.algorithm}
-                        onValueChange={(v) => onAdvancedFMChange({ ...advancedFM, algorithm: v as FMAlgorithm })}
-                        disabled={!oscillator.fmEnabled}
-                      >
-                        <SelectTrigger className="h-5 text-[9px]" data-testid={`select-fm-algorithm-${index}`}>
-                          <SelectValue placeholder="Algorithm" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="series">Series (Op2→Op1→C)</SelectItem>
-                          <SelectItem value="parallel">Parallel (Op1+Op2→C)</SelectItem>
-                          <SelectItem value="feedback">Cross-Mod (Op1↔Op2)</SelectItem>
-                          <SelectItem value="mixed">Mixed (Both→C)</SelectItem>
-                        </SelectContent>
-                      </Select>
-                      
-                      {/* Op1 Fine Tune */}
-                      <div className="flex justify-center gap-1">
-                        <Knob
-                          value={advancedFM.operator1Detune}
-                          min={-100}
-                          max={100}
-                          step={1}
-                          label="Op1 Dt"
-                          unit="¢"
-                          onChange={(v) => onAdvancedFMChange({ ...advancedFM, operator1Detune: v })}
-                          size="xs"
-                        />
-                      </div>
-                      
-                      {/* Operator 2 */}
-                      <div className="flex items-center gap-1 mt-1">
-                        <span className="text-[9px] text-muted-foreground">Op2</span>
-                        <Switch
-                          checked={advancedFM.operator2.enabled}
-                          onCheckedChange={(v) => onAdvancedFMChange({
-                            ...advancedFM,
-                            operator2: { ...advancedFM.operator2, enabled: v }
-                          })}
-                          className="scale-50"
-                          data-testid={`switch-fm-op2-${index}`}
-                        />
-                      </div>
-                      
-                      {advancedFM.operator2.enabled && (
-                        <div className="space-y-1 pl-1 border-l border-primary/30">
+                <LockScope path={`advancedFMSettings.osc${index}`}>
+                  <div className="border-t border-border/30 pt-1 mt-1">
+                    <button
+                      type="button"
+                      onClick={() => setFmAdvancedOpen(!fmAdvancedOpen)}
+                      className="flex items-center gap-0.5 text-[9px] text-muted-foreground hover-elevate w-full rounded px-1 py-0.5"
+                      data-testid={`button-fm-advanced-toggle-${index}`}
+                    >
+                      {fmAdvancedOpen ? <ChevronDown className="w-2 h-2" /> : <ChevronRight className="w-2 h-2" />}
+                      <Layers className="w-2 h-2" />
+                      <span>Advanced</span>
+                    </button>
+                    
+                    {fmAdvancedOpen && (
+                      <div className="space-y-1 mt-1">
+                        {/* Carrier Waveform - FM mode bypasses main osc waveform */}
+                        <div className="flex items-center gap-1">
+                          <span className="text-[9px] text-muted-foreground shrink-0">Carrier</span>
                           <Select
-                            value={advancedFM.operator2.waveform}
-                            onValueChange={(v) => onAdvancedFMChange({
-                              ...advancedFM,
-                              operator2: { ...advancedFM.operator2, waveform: v as "sine" | "triangle" | "sawtooth" | "square" }
-                            })}
+                            value={advancedFM.carrierWaveform || "sine"}
+                            onValueChange={(v) => onAdvancedFMChange({ ...advancedFM, carrierWaveform: v as "sine" | "triangle" | "sawtooth" | "square" })}
+                            disabled={!oscillator.fmEnabled}
                           >
-                            <SelectTrigger className="h-5 text-[9px]" data-testid={`select-fm-op2-wave-${index}`}>
+                            <SelectTrigger className="h-5 text-[9px] flex-1" data-testid={`select-fm-carrier-${index}`}>
                               <SelectValue />
                             </SelectTrigger>
                             <SelectContent>
@@ -433,66 +374,138 @@ export function OscillatorPanel({
                               <SelectItem value="square">Square</SelectItem>
                             </SelectContent>
                           </Select>
-                          <div className="flex justify-center gap-1">
-                            <Knob
-                              value={advancedFM.operator2.ratio}
-                              min={0.25}
-                              max={16}
-                              step={0.25}
-                              label="Ratio"
-                              onChange={(v) => onAdvancedFMChange({
-                                ...advancedFM,
-                                operator2: { ...advancedFM.operator2, ratio: v }
-                              })}
-                              size="xs"
-                            />
-                            <Knob
-                              value={advancedFM.operator2.ratioDetune}
-                              min={-100}
-                              max={100}
-                              step={1}
-                              label="Dt"
-                              unit="¢"
-                              onChange={(v) => onAdvancedFMChange({
-                                ...advancedFM,
-                                operator2: { ...advancedFM.operator2, ratioDetune: v }
-                              })}
-                              size="xs"
-                            />
-                          </div>
-                          <div className="flex justify-center gap-1">
-                            <Knob
-                              value={advancedFM.operator2.depth}
-                              min={0}
-                              max={1000}
-                              step={10}
-                              label="Index"
-                              onChange={(v) => onAdvancedFMChange({
-                                ...advancedFM,
-                                operator2: { ...advancedFM.operator2, depth: v }
-                              })}
-                              accentColor="accent"
-                              size="xs"
-                            />
-                            <Knob
-                              value={advancedFM.operator2.feedback * 100}
-                              min={0}
-                              max={100}
-                              step={1}
-                              label="FB"
-                              unit="%"
-                              onChange={(v) => onAdvancedFMChange({
+                        </div>
+                        
+                        {/* Algorithm Selector */}
+                        <Select
+                          value={advancedFM.algorithm}
+                          onValueChange={(v) => onAdvancedFMChange({ ...advancedFM, algorithm: v as FMAlgorithm })}
+                          disabled={!oscillator.fmEnabled}
+                        >
+                          <SelectTrigger className="h-5 text-[9px]" data-testid={`select-fm-algorithm-${index}`}>
+                            <SelectValue placeholder="Algorithm" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="series">Series (Op2→Op1→C)</SelectItem>
+                            <SelectItem value="parallel">Parallel (Op1+Op2→C)</SelectItem>
+                            <SelectItem value="feedback">Cross-Mod (Op1↔Op2)</SelectItem>
+                            <SelectItem value="mixed">Mixed (Both→C)</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        
+                        {/* Op1 Fine Tune */}
+                        <div className="flex justify-center gap-1">
+                          <Knob
+                            value={advancedFM.operator1Detune}
+                            min={-100}
+                            max={100}
+                            step={1}
+                            label="Op1 Dt"
+                            unit="¢"
+                            lockKey="operator1Detune"
+                            onChange={(v) => onAdvancedFMChange({ ...advancedFM, operator1Detune: v })}
+                            size="xs"
+                          />
+                        </div>
+                        
+                        {/* Operator 2 */}
+                        <div className="flex items-center gap-1 mt-1">
+                          <span className="text-[9px] text-muted-foreground">Op2</span>
+                          <Switch
+                            checked={advancedFM.operator2.enabled}
+                            onCheckedChange={(v) => onAdvancedFMChange({
+                              ...advancedFM,
+                              operator2: { ...advancedFM.operator2, enabled: v }
+                            })}
+                            className="scale-50"
+                            data-testid={`switch-fm-op2-${index}`}
+                          />
+                        </div>
+                        
+                        {advancedFM.operator2.enabled && (
+                          <div className="space-y-1 pl-1 border-l border-primary/30">
+                            <Select
+                              value={advancedFM.operator2.waveform}
+                              onValueChange={(v) => onAdvancedFMChange({
                                 ...advancedFM,
-                                operator2: { ...advancedFM.operator2, feedback: v / 100 }
+                                operator2: { ...advancedFM.operator2, waveform: v as "sine" | "triangle" | "sawtooth" | "square" }
                               })}
-                              size="xs"
-                            />
+                            >
+                              <SelectTrigger className="h-5 text-[9px]" data-testid={`select-fm-op2-wave-${index}`}>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="sine">Sine</SelectItem>
+                                <SelectItem value="triangle">Triangle</SelectItem>
+                                <SelectItem value="sawtooth">Saw</SelectItem>
+                                <SelectItem value="square">Square</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <div className="flex justify-center gap-1">
+                              <Knob
+                                value={advancedFM.operator2.ratio}
+                                min={0.25}
+                                max={16}
+                                step={0.25}
+                                label="Ratio"
+                                lockKey="operator2.ratio"
+                                onChange={(v) => onAdvancedFMChange({
+                                  ...advancedFM,
+                                  operator2: { ...advancedFM.operator2, ratio: v }
+                                })}
+                                size="xs"
+                              />
+                              <Knob
+                                value={advancedFM.operator2.ratioDetune}
+                                min={-100}
+                                max={100}
+                                step={1}
+                                label="Dt"
+                                unit="¢"
+                                lockKey="operator2.ratioDetune"
+                                onChange={(v) => onAdvancedFMChange({
+                                  ...advancedFM,
+                                  operator2: { ...advancedFM.operator2, ratioDetune: v }
+                                })}
+                                size="xs"
+                              />
+                            </div>
+                            <div className="flex justify-center gap-1">
+                              <Knob
+                                value={advancedFM.operator2.depth}
+                                min={0}
+                                max={1000}
+                                step={10}
+                                label="Index"
+                                lockKey="operator2.depth"
+                                onChange={(v) => onAdvancedFMChange({
+                                  ...advancedFM,
+                                  operator2: { ...advancedFM.operator2, depth: v }
+                                })}
+                                accentColor="accent"
+                                size="xs"
+                              />
+                              <Knob
+                                value={advancedFM.operator2.feedback * 100}
+                                min={0}
+                                max={100}
+                                step={1}
+                                label="FB"
+                                unit="%"
+                                lockKey="operator2.feedback"
+                                onChange={(v) => onAdvancedFMChange({
+                                  ...advancedFM,
+                                  operator2: { ...advancedFM.operator2, feedback: v / 100 }
+                                })}
+                                size="xs"
+                              />
+                            </div>
                           </div>
-                        </div>
-                      )}
-                    </div>
-                  )}
-                </div>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                </LockScope>
               )}
             </div>
           )}
@@ -526,6 +539,7 @@ export function OscillatorPanel({
                   step={1}
                   label="Decay"
                   unit="ms"
+                  lockKey="indexEnvDecay"
                   onChange={(v) => updateOscillator("indexEnvDecay", v)}
                   accentColor="primary"
                   size="xs"
@@ -536,6 +550,7 @@ export function OscillatorPanel({
                   max={60}
                   step={1}
                   label="Depth"
+                  lockKey="indexEnvDepth"
                   onChange={(v) => updateOscillator("indexEnvDepth", v)}
                   accentColor="primary"
                   size="xs"
@@ -591,6 +606,7 @@ export function OscillatorPanel({
                   max={16}
                   step={0.25}
                   label="Ratio"
+                  lockKey="amRatio"
                   onChange={(v) => updateOscillator("amRatio", v)}
                   accentColor="accent"
                   size="xs"
@@ -602,6 +618,7 @@ export function OscillatorPanel({
                   step={1}
                   label="Depth"
                   unit="%"
+                  lockKey="amDepth"
                   onChange={(v) => updateOscillator("amDepth", v)}
                   accentColor="primary"
                   size="xs"
@@ -612,86 +629,91 @@ export function OscillatorPanel({
         </div>
 
         {envelope && onEnvelopeChange && (
-          <div className={`rounded border border-border/50 transition-opacity ${!envelope.enabled ? 'opacity-50 bg-muted/10' : 'bg-muted/30'}`}>
-            <div className="flex items-center justify-between px-1.5 py-0.5">
-              <button
-                type="button"
-                onClick={() => setOscEnvOpen(!oscEnvOpen)}
-                className="flex items-center gap-0.5 text-[10px] text-muted-foreground hover:text-foreground"
-              >
-                {oscEnvOpen ? <ChevronDown className="w-2.5 h-2.5" /> : <ChevronRight className="w-2.5 h-2.5" />}
-                <Volume2 className="w-2.5 h-2.5 text-primary" />
-                AHD
-              </button>
-              <Switch
-                checked={envelope.enabled}
-                onCheckedChange={(v) => updateEnvelope("enabled", v)}
-                className="scale-50"
-                data-testid={`switch-osc-env-${index}`}
-              />
-            </div>
-            {oscEnvOpen && (
-              <div className="px-1.5 pb-1.5 space-y-1">
-                <div className="flex justify-center gap-1">
-                  <Knob
-                    value={envelope.attack}
-                    min={0}
-                    max={2000}
-                    step={1}
-                    label="A"
-                    unit="ms"
-                    onChange={(v) => updateEnvelope("attack", v)}
-                    accentColor="primary"
-                    size="xs"
-                    logarithmic
-                    defaultValue={0}
-                  />
-                  <Knob
-                    value={envelope.hold}
-                    min={0}
-                    max={2000}
-                    step={1}
-                    label="H"
-                    unit="ms"
-                    onChange={(v) => updateEnvelope("hold", v)}
-                    size="xs"
-                    defaultValue={0}
-                  />
-                  <Knob
-                    value={envelope.decay}
-                    min={0}
-                    max={5000}
-                    step={1}
-                    label="D"
-                    unit="ms"
-                    onChange={(v) => updateEnvelope("decay", v)}
-                    accentColor="accent"
-                    size="xs"
-                    logarithmic
-                    defaultValue={200}
-                  />
-                </div>
-                <Select
-                  value={envelope.curve}
-                  onValueChange={(v) => {
-                    if (v === "linear" || v === "exponential" || v === "logarithmic") {
-                      updateEnvelope("curve", v);
-                    }
-                  }}
-                  disabled={!envelope.enabled}
+          <LockScope path={`oscEnvelopes.osc${index}`}>
+            <div className={`rounded border border-border/50 transition-opacity ${!envelope.enabled ? 'opacity-50 bg-muted/10' : 'bg-muted/30'}`}>
+              <div className="flex items-center justify-between px-1.5 py-0.5">
+                <button
+                  type="button"
+                  onClick={() => setOscEnvOpen(!oscEnvOpen)}
+                  className="flex items-center gap-0.5 text-[10px] text-muted-foreground hover:text-foreground"
                 >
-                  <SelectTrigger className="h-5 text-[10px]" data-testid={`select-osc-env-curve-${index}`}>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="linear">Linear</SelectItem>
-                    <SelectItem value="exponential">Exp</SelectItem>
-                    <SelectItem value="logarithmic">Log</SelectItem>
-                  </SelectContent>
-                </Select>
+                  {oscEnvOpen ? <ChevronDown className="w-2.5 h-2.5" /> : <ChevronRight className="w-2.5 h-2.5" />}
+                  <Volume2 className="w-2.5 h-2.5 text-primary" />
+                  AHD
+                </button>
+                <Switch
+                  checked={envelope.enabled}
+                  onCheckedChange={(v) => updateEnvelope("enabled", v)}
+                  className="scale-50"
+                  data-testid={`switch-osc-env-${index}`}
+                />
               </div>
-            )}
-          </div>
+              {oscEnvOpen && (
+                <div className="px-1.5 pb-1.5 space-y-1">
+                  <div className="flex justify-center gap-1">
+                    <Knob
+                      value={envelope.attack}
+                      min={0}
+                      max={2000}
+                      step={1}
+                      label="A"
+                      unit="ms"
+                      lockKey="attack"
+                      onChange={(v) => updateEnvelope("attack", v)}
+                      accentColor="primary"
+                      size="xs"
+                      logarithmic
+                      defaultValue={0}
+                    />
+                    <Knob
+                      value={envelope.hold}
+                      min={0}
+                      max={2000}
+                      step={1}
+                      label="H"
+                      unit="ms"
+                      lockKey="hold"
+                      onChange={(v) => updateEnvelope("hold", v)}
+                      size="xs"
+                      defaultValue={0}
+                    />
+                    <Knob
+                      value={envelope.decay}
+                      min={0}
+                      max={5000}
+                      step={1}
+                      label="D"
+                      unit="ms"
+                      lockKey="decay"
+                      onChange={(v) => updateEnvelope("decay", v)}
+                      accentColor="accent"
+                      size="xs"
+                      logarithmic
+                      defaultValue={200}
+                    />
+                  </div>
+                  <Select
+                    value={envelope.curve}
+                    onValueChange={(v) => {
+                      if (v === "linear" || v === "exponential" || v === "logarithmic") {
+                        updateEnvelope("curve", v);
+                      }
+                    }}
+                    disabled={!envelope.enabled}
+                  >
+                    <SelectTrigger className="h-5 text-[10px]" data-testid={`select-osc-env-curve-${index}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="linear">Linear</SelectItem>
+                      <SelectItem value="exponential">Exp</SelectItem>
+                      <SelectItem value="logarithmic">Log</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          </LockScope>
         )}
 
         <div className="flex items-center gap-1 mb-1">
@@ -719,6 +741,7 @@ export function OscillatorPanel({
             step={pitchConfig.step}
             label="Pitch"
             unit={pitch.mode === "hz" ? "Hz" : pitch.mode === "st" ? "st" : "oct"}
+            lockKey="pitch"
             onChange={onPitchKnobChange}
             logarithmic={pitchConfig.logarithmic}
             accentColor="accent"
@@ -731,6 +754,7 @@ export function OscillatorPanel({
             step={1}
             label="Cents"
             unit="ct"
+            lockKey="pitch"
             onChange={onCentsChange}
             size="xs"
           />
@@ -741,6 +765,7 @@ export function OscillatorPanel({
             step={1}
             label="Det"
             unit="ct"
+            lockKey="detune"
             onChange={(v) => updateOscillator("detune", v)}
             size="xs"
             modulationPath={`oscillators.osc${index}.detune`}
@@ -752,6 +777,7 @@ export function OscillatorPanel({
             step={1}
             label="Dft"
             unit="%"
+            lockKey="drift"
             onChange={(v) => updateOscillator("drift", v)}
             size="xs"
           />
@@ -762,6 +788,7 @@ export function OscillatorPanel({
             step={1}
             label="Lvl"
             unit="%"
+            lockKey="level"
             onChange={(v) => updateOscillator("level", v)}
             accentColor="primary"
             size="xs"
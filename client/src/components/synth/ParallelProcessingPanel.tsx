@@ -36,6 +36,7 @@ export function ParallelProcessingPanel({ settings, onChange }: ParallelProcessi
         <div className="grid grid-cols-3 gap-2">
           <Knob
             value={settings.dryWetMix * 100}
+            lockKey="dryWetMix"
             onChange={(v) => onChange({ ...settings, dryWetMix: v / 100 })}
             min={0}
             max={100}
@@ -47,6 +48,7 @@ export function ParallelProcessingPanel({ settings, onChange }: ParallelProcessi
           />
           <Knob
             value={settings.dryGain}
+            lockKey="dryGain"
             onChange={(dryGain) => onChange({ ...settings, dryGain })}
             min={-12}
             max={12}
@@ -58,6 +60,7 @@ export function ParallelProcessingPanel({ settings, onChange }: ParallelProcessi
           />
           <Knob
             value={settings.wetGain}
+            lockKey="wetGain"
             onChange={(wetGain) => onChange({ ...settings, wetGain })}
             min={-12}
             max={12}
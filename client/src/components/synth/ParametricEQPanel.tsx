@@ -58,6 +58,7 @@ export function ParametricEQPanel({ settings, onChange }: ParametricEQPanelProps
             <div className="grid grid-cols-3 gap-2">
               <Knob
                 value={settings.lowBand.frequency}
+                lockKey="lowBand.frequency"
                 onChange={(frequency) =>
                   onChange({ ...settings, lowBand: { ...settings.lowBand, frequency } })
                 }
@@ -71,6 +72,7 @@ export function ParametricEQPanel({ settings, onChange }: ParametricEQPanelProps
               />
               <Knob
                 value={settings.lowBand.gain}
+                lockKey="lowBand.gain"
                 onChange={(gain) =>
                   onChange({ ...settings, lowBand: { ...settings.lowBand, gain } })
                 }
@@ -84,6 +86,7 @@ export function ParametricEQPanel({ settings, onChange }: ParametricEQPanelProps
               />
               <Knob
                 value={settings.lowBand.q}
+                lockKey="lowBand.q"
                 onChange={(q) =>
                   onChange({ ...settings, lowBand: { ...settings.lowBand, q } })
                 }
@@ -112,6 +115,7 @@ export function ParametricEQPanel({ settings, onChange }: ParametricEQPanelProps
             <div className="grid grid-cols-3 gap-2">
               <Knob
                 value={settings.midBand.frequency}
+                lockKey="midBand.frequency"
                 onChange={(frequency) =>
                   onChange({ ...settings, midBand: { ...settings.midBand, frequency } })
                 }
@@ -126,6 +130,7 @@ export function ParametricEQPanel({ settings, onChange }: ParametricEQPanelProps
               />
               <Knob
                 value={settings.midBand.gain}
+                lockKey="midBand.gain"
                 onChange={(gain) =>
                   onChange({ ...settings, midBand: { ...settings.midBand, gain } })
                 }
@@ -139,6 +144,7 @@ export function ParametricEQPanel({ settings, onChange }: ParametricEQPanelProps
               />
               <Knob
                 value={settings.midBand.q}
+                lockKey="midBand.q"
                 onChange={(q) =>
                   onChange({ ...settings, midBand: { ...settings.midBand, q } })
                 }
@@ -167,6 +173,7 @@ export function ParametricEQPanel({ settings, onChange }: ParametricEQPanelProps
             <div className="grid grid-cols-3 gap-2">
               <Knob
                 value={settings.highBand.frequency}
+                lockKey="highBand.frequency"
                 onChange={(frequency) =>
                   onChange({ ...settings, highBand: { ...settings.highBand, frequency } })
                 }
@@ -180,6 +187,7 @@ export function ParametricEQPanel({ settings, onChange }: ParametricEQPanelProps
               />
               <Knob
                 value={settings.highBand.gain}
+                lockKey="highBand.gain"
                 onChange={(gain) =>
                   onChange({ ...settings, highBand: { ...settings.highBand, gain } })
                 }
@@ -193,6 +201,7 @@ export function ParametricEQPanel({ settings, onChange }: ParametricEQPanelProps
               />
               <Knob
                 value={settings.highBand.q}
+                lockKey="highBand.q"
                 onChange={(q) =>
                   onChange({ ...settings, highBand: { ...settings.highBand, q } })
                 }
@@ -44,6 +44,7 @@ export function PhaserFlangerPanel({ settings, onChange }: PhaserFlangerPanelPro
                 <div className="grid grid-cols-5 gap-1">
                   <Knob
                     value={settings.phaser.rate}
+                    lockKey="phaser.rate"
                     onChange={(rate) =>
                       onChange({ ...settings, phaser: { ...settings.phaser, rate } })
                     }
@@ -56,6 +57,7 @@ export function PhaserFlangerPanel({ settings, onChange }: PhaserFlangerPanelPro
                   />
                   <Knob
                     value={settings.phaser.depth * 100}
+                    lockKey="phaser.depth"
                     onChange={(v) =>
                       onChange({ ...settings, phaser: { ...settings.phaser, depth: v / 100 } })
                     }
@@ -68,6 +70,7 @@ export function PhaserFlangerPanel({ settings, onChange }: PhaserFlangerPanelPro
                   />
                   <Knob
                     value={settings.phaser.feedback * 100}
+                    lockKey="phaser.feedback"
                     onChange={(v) =>
                       onChange({ ...settings, phaser: { ...settings.phaser, feedback: v / 100 } })
                     }
@@ -80,6 +83,7 @@ export function PhaserFlangerPanel({ settings, onChange }: PhaserFlangerPanelPro
                   />
                   <Knob
                     value={settings.phaser.mix * 100}
+                    lockKey="phaser.mix"
                     onChange={(v) =>
                       onChange({ ...settings, phaser: { ...settings.phaser, mix: v / 100 } })
                     }
@@ -130,6 +134,7 @@ export function PhaserFlangerPanel({ settings, onChange }: PhaserFlangerPanelPro
               <div className="grid grid-cols-5 gap-1">
                 <Knob
                   value={settings.flanger.rate}
+                  lockKey="flanger.rate"
                   onChange={(rate) =>
                     onChange({ ...settings, flanger: { ...settings.flanger, rate } })
                   }
@@ -142,6 +147,7 @@ export function PhaserFlangerPanel({ settings, onChange }: PhaserFlangerPanelPro
                 />
                 <Knob
                   value={settings.flanger.depth * 100}
+                  lockKey="flanger.depth"
                   onChange={(v) =>
                     onChange({ ...settings, flanger: { ...settings.flanger, depth: v / 100 } })
                   }
@@ -154,6 +160,7 @@ export function PhaserFlangerPanel({ settings, onChange }: PhaserFlangerPanelPro
                 />
                 <Knob
                   value={settings.flanger.feedback * 100}
+                  lockKey="flanger.feedback"
                   onChange={(v) =>
                     onChange({ ...settings, flanger: { ...settings.flanger, feedback: v / 100 } })
                   }
@@ -166,6 +173,7 @@ export function PhaserFlangerPanel({ settings, onChange }: PhaserFlangerPanelPro
                 />
                 <Knob
                   value={settings.flanger.delay}
+                  lockKey="flanger.delay"
                   onChange={(delay) =>
                     onChange({ ...settings, flanger: { ...settings.flanger, delay } })
                   }
@@ -178,6 +186,7 @@ export function PhaserFlangerPanel({ settings, onChange }: PhaserFlangerPanelPro
                 />
                 <Knob
                   value={settings.flanger.mix * 100}
+                  lockKey="flanger.mix"
                   onChange={(v) =>
                     onChange({ ...settings, flanger: { ...settings.flanger, mix: v / 100 } })
                   }
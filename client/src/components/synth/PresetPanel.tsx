@@ -1,53 +1,248 @@
-import { useState, useEffect } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useState, useEffect, useRef } from "react";
+import { useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogFooter, DialogClose } from "@/components/ui/dialog";
-import type { Preset, SynthParameters, DbPreset } from "@shared/schema";
-import { factoryPresets } from "@shared/schema";
-import { Save, FolderOpen, Trash2, Plus, Music, RotateCcw, Download, RefreshCw, Pencil, Check, X } from "lucide-react";
+import type { DbPreset, PresetMetadata, PresetSort } from "@shared/schema";
+import { factoryPresets, PresetCategory, normalizeTags } from "@shared/schema";
+import { Save, FolderOpen, Trash2, Plus, Music, RotateCcw, Download, RefreshCw, Pencil, Check, X, Search, Tag, History, Heart, Star, Play, AudioLines } from "lucide-react";
 import type { FullSynthSettings, FullPreset } from "@/lib/fullPreset";
-import { FULL_PRESET_VERSION } from "@/lib/fullPreset";
+import { FULL_PRESET_VERSION, embedPresetAssets, restorePresetAssets } from "@/lib/fullPreset";
+import { migratePresetSettings } from "@/lib/presetMigration";
+import { uploadPresetPreview, getPresetPreviewUrl } from "@/lib/presetPreview";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { usePresetSearch, usePresetTags, recordPresetUsage } from "@/hooks/use-presets";
+import { AccountMenu } from "./AccountMenu";
+import { PresetRevisionsDialog } from "./PresetRevisionsDialog";
+
+const SEARCH_DEBOUNCE_MS = 250;
+const VISIBLE_TAG_CHIPS = 10;
+const ALL_CATEGORIES = "all";
+const PREVIEW_HOVER_DELAY_MS = 250;
+
+type SortMode = PresetSort | "favorites";
+
+const SORT_MODES: { value: SortMode; label: string }[] = [
+  { value: "newest", label: "Newest" },
+  { value: "mostUsed", label: "Most used" },
+  { value: "topRated", label: "Top rated" },
+  { value: "favorites", label: "My favorites" },
+];
+
+interface PresetDetails {
+  description: string;
+  category: PresetCategory | null;
+  tags: string; // Comma-separated while editing
+}
 
-interface PresetPanelProps {
-  currentSettings: FullSynthSettings;
-  onLoadPreset: (settings: FullSynthSettings) => void;
+const emptyDetails: PresetDetails = { description: "", category: null, tags: "" };
+
+function detailsFromPreset(preset: DbPreset): PresetDetails {
+  return { description: preset.description, category: preset.category, tags: preset.tags.join(", ") };
+}
+
+function detailsToMetadata(details: PresetDetails) {
+  return {
+    description: details.description.trim(),
+    category: details.category,
+    tags: normalizeTags(details.tags.split(",")),
+  };
+}
+
+function categoryLabel(category: string): string {
+  return category === "fx" ? "FX" : category.charAt(0).toUpperCase() + category.slice(1);
 }
 
-function isValidV2Preset(params: unknown): params is SynthParameters {
-  if (!params || typeof params !== 'object') return false;
-  const p = params as Record<string, unknown>;
-  return 'oscillators' in p && 'envelopes' in p && typeof p.oscillators === 'object';
+// Description, category and tags, shared by the save and edit-details dialogs
+function PresetDetailsFields({ details, onChange }: { details: PresetDetails; onChange: (details: PresetDetails) => void }) {
+  return (
+    <>
+      <Select
+        value={details.category ?? "none"}
+        onValueChange={(value) => onChange({ ...details, category: value === "none" ? null : value as PresetCategory })}
+      >
+        <SelectTrigger data-testid="select-preset-category">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">No category</SelectItem>
+          {PresetCategory.options.map(category => (
+            <SelectItem key={category} value={category}>{categoryLabel(category)}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Input
+        placeholder="Tags, comma separated (e.g. punchy, 808, dark)"
+        value={details.tags}
+        onChange={(e) => onChange({ ...details, tags: e.target.value })}
+        data-testid="input-preset-tags"
+      />
+      <Textarea
+        placeholder="Description (optional)"
+        value={details.description}
+        onChange={(e) => onChange({ ...details, description: e.target.value })}
+        maxLength={500}
+        rows={2}
+        data-testid="input-preset-description"
+      />
+    </>
+  );
+}
+
+// Average rating; signed-in users click it to give their own 1-5 rating
+function PresetRatingControl({ ratingTotal, ratingCount, myRating, canRate, onRate, testId }: {
+  ratingTotal: number;
+  ratingCount: number;
+  myRating: number | null;
+  canRate: boolean;
+  onRate: (rating: number | null) => void;
+  testId: string;
+}) {
+  const average = ratingCount > 0 ? ratingTotal / ratingCount : null;
+  const label = (
+    <span className={`flex items-center gap-0.5 text-[9px] ${myRating !== null ? "text-yellow-500" : "text-muted-foreground"}`}>
+      <Star className="w-2.5 h-2.5" />
+      {average !== null ? average.toFixed(1) : "–"}
+    </span>
+  );
+  const title = average !== null ? `${average.toFixed(1)} from ${ratingCount} rating(s)` : "Not rated yet";
+
+  if (!canRate) {
+    return <span className="shrink-0" title={title} data-testid={testId}>{label}</span>;
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button type="button" className="shrink-0 rounded px-0.5 hover:bg-muted" title={title} data-testid={testId}>
+          {label}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-auto p-1 flex items-center gap-0.5">
+        {[1, 2, 3, 4, 5].map(value => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => onRate(value)}
+            className="p-0.5"
+            title={`Rate ${value}`}
+            data-testid={`${testId}-${value}`}
+          >
+            <Star className={`w-3.5 h-3.5 ${myRating !== null && value <= myRating ? "fill-yellow-500 text-yellow-500" : "text-muted-foreground"}`} />
+          </button>
+        ))}
+        {myRating !== null && (
+          <button type="button" onClick={() => onRate(null)} className="p-0.5" title="Clear my rating" data-testid={`${testId}-clear`}>
+            <X className="w-3 h-3 text-muted-foreground" />
+          </button>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
 }
 
-function isValidFullPreset(preset: unknown): preset is FullPreset {
-  if (!preset || typeof preset !== 'object') return false;
-  const p = preset as Record<string, unknown>;
-  if (!('settings' in p) || !p.settings || typeof p.settings !== 'object') return false;
-  const s = p.settings as Record<string, unknown>;
-  return 'params' in s && isValidV2Preset(s.params);
+interface PresetPanelProps {
+  currentSettings: FullSynthSettings;
+  onLoadPreset: (settings: FullSynthSettings, name: string, sharedId?: number) => void;
 }
 
 export function PresetPanel({ currentSettings, onLoadPreset }: PresetPanelProps) {
   const { toast } = useToast();
+  const { user } = useAuth();
+
+  // Previews: rendered and uploaded after saves; one plays at a time
+  const [regeneratingId, setRegeneratingId] = useState<number | null>(null);
+  const previewAudioRef = useRef<HTMLAudioElement | null>(null);
+  const hoverTimerRef = useRef<number | null>(null);
+
+  const savePreview = (id: number, settings: unknown) => {
+    setRegeneratingId(id);
+    uploadPresetPreview(id, settings)
+      .then(() => queryClient.invalidateQueries({ queryKey: ["/api/presets"] }))
+      .catch((error: Error) => {
+        toast({ title: "Failed to save preview", description: error.message, variant: "destructive" });
+      })
+      .finally(() => setRegeneratingId(current => (current === id ? null : current)));
+  };
+
+  const cancelHoverPreview = () => {
+    if (hoverTimerRef.current !== null) window.clearTimeout(hoverTimerRef.current);
+    hoverTimerRef.current = null;
+  };
+
+  const playPreview = (url: string) => {
+    cancelHoverPreview();
+    previewAudioRef.current?.pause();
+    const audio = new Audio(url);
+    previewAudioRef.current = audio;
+    audio.play().catch(error => console.error("Failed to play preview:", error));
+  };
+
+  const startHoverPreview = (url: string) => {
+    cancelHoverPreview();
+    hoverTimerRef.current = window.setTimeout(() => playPreview(url), PREVIEW_HOVER_DELAY_MS);
+  };
+
+  useEffect(() => () => {
+    cancelHoverPreview();
+    previewAudioRef.current?.pause();
+  }, []);
+
+  // Library search; typing is debounced before it hits the server
+  const [searchText, setSearchText] = useState("");
+  const [searchQuery, setSearchQuery] = useState("");
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [categoryFilter, setCategoryFilter] = useState<PresetCategory | null>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSearchQuery(searchText), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchText]);
+
+  const [sortMode, setSortMode] = useState<SortMode>("newest");
+  const showFavorites = sortMode === "favorites" && user !== null;
+
+  const isFiltering = Boolean(searchQuery.trim() || tagFilter || categoryFilter || showFavorites);
 
   // Fetch presets from the database
-  const { data: dbPresets = [], isLoading, refetch } = useQuery<DbPreset[]>({
-    queryKey: ["/api/presets"],
+  const {
+    presets: dbPresets,
+    isLoading,
+    refetch,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+  } = usePresetSearch({
+    q: searchQuery,
+    tag: tagFilter ?? undefined,
+    category: categoryFilter ?? undefined,
+    sort: sortMode === "favorites" ? "newest" : sortMode,
+    favorites: showFavorites,
   });
+  const { data: presetTags = [] } = usePresetTags();
+
+  const invalidatePresets = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/presets"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/presets/tags"] });
+  };
 
   // Save preset mutation
   const savePresetMutation = useMutation({
-    mutationFn: async (preset: { name: string; settings: unknown; createdAt: number }) => {
+    mutationFn: async (preset: { name: string; settings: unknown; createdAt: number } & PresetMetadata & { author?: string }) => {
       return apiRequest("POST", "/api/presets", preset);
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/presets"] });
+    onSuccess: async (res, variables) => {
+      invalidatePresets();
       toast({ title: "Preset saved", description: "Your preset is now available globally" });
+      const created = (await res.json()) as DbPreset;
+      savePreview(created.id, variables.settings);
     },
     onError: (error) => {
       toast({ title: "Failed to save preset", description: error.message, variant: "destructive" });
@@ -60,7 +255,7 @@ export function PresetPanel({ currentSettings, onLoadPreset }: PresetPanelProps)
       return apiRequest("DELETE", `/api/presets/${id}`);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/presets"] });
+      invalidatePresets();
       toast({ title: "Preset deleted" });
     },
     onError: (error) => {
@@ -68,15 +263,44 @@ export function PresetPanel({ currentSettings, onLoadPreset }: PresetPanelProps)
     },
   });
 
-  // Update preset mutation (rename or overwrite)
+  const favoriteMutation = useMutation({
+    mutationFn: async ({ id, favorite }: { id: number; favorite: boolean }) => {
+      return apiRequest(favorite ? "PUT" : "DELETE", `/api/presets/${id}/favorite`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/presets"] });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to update favorites", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const ratingMutation = useMutation({
+    mutationFn: async ({ id, rating }: { id: number; rating: number | null }) => {
+      return rating === null
+        ? apiRequest("DELETE", `/api/presets/${id}/rating`)
+        : apiRequest("PUT", `/api/presets/${id}/rating`, { rating });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/presets"] });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to rate preset", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Update preset mutation (rename, overwrite or edit details)
   const updatePresetMutation = useMutation({
-    mutationFn: async ({ id, name, settings }: { id: number; name?: string; settings?: unknown }) => {
-      return apiRequest("PATCH", `/api/presets/${id}`, { name, settings });
+    mutationFn: async ({ id, ...updates }: { id: number; name?: string; settings?: unknown } & PresetMetadata) => {
+      return apiRequest("PATCH", `/api/presets/${id}`, updates);
     },
     onSuccess: (_, variables) => {
-      queryClient.invalidateQueries({ queryKey: ["/api/presets"] });
+      invalidatePresets();
       if (variables.settings) {
         toast({ title: "Preset updated", description: "Settings saved to existing preset" });
+        savePreview(variables.id, variables.settings);
+      } else if (variables.tags) {
+        toast({ title: "Preset details saved" });
       } else {
         toast({ title: "Preset renamed" });
       }
@@ -103,6 +327,9 @@ export function PresetPanel({ currentSettings, onLoadPreset }: PresetPanelProps)
   }, []);
 
   const [newPresetName, setNewPresetName] = useState("");
+  const [newPresetDetails, setNewPresetDetails] = useState<PresetDetails>(emptyDetails);
+  const [historyPreset, setHistoryPreset] = useState<{ id: number; name: string; isOwn: boolean } | null>(null);
+  const [detailsPreset, setDetailsPreset] = useState<{ id: number; name: string; details: PresetDetails } | null>(null);
   const [saveDialogOpen, setSaveDialogOpen] = useState(false);
   const [editingPresetId, setEditingPresetId] = useState<number | null>(null);
   const [editingName, setEditingName] = useState("");
@@ -114,14 +341,34 @@ export function PresetPanel({ currentSettings, onLoadPreset }: PresetPanelProps)
 
     savePresetMutation.mutate({
       name: newPresetName.trim(),
-      settings: currentSettings,
+      settings: embedPresetAssets(currentSettings),
       createdAt: Date.now(),
+      ...detailsToMetadata(newPresetDetails),
     });
     
     setNewPresetName("");
+    setNewPresetDetails(emptyDetails);
     setSaveDialogOpen(false);
   };
 
+  // Older presets are upgraded on load; embedded IRs/wavetables are installed first
+  const loadPreset = (settings: FullSynthSettings, name: string, sharedId?: number) => {
+    const migration = migratePresetSettings(settings);
+    if (!migration) {
+      toast({ title: "Failed to load preset", description: "Preset data is unreadable", variant: "destructive" });
+      return;
+    }
+    if (migration.repaired.length > 0) {
+      console.warn("Repaired preset fields:", migration.repaired);
+      toast({
+        title: "Preset repaired",
+        description: `${migration.repaired.length} missing or invalid field(s) reset or removed`,
+      });
+    }
+    restorePresetAssets(migration.settings);
+    onLoadPreset(migration.settings, name, sharedId);
+  };
+
   const deletePreset = (id: number) => {
     deletePresetMutation.mutate(id);
   };
@@ -153,13 +400,28 @@ export function PresetPanel({ currentSettings, onLoadPreset }: PresetPanelProps)
     if (selectedPresetForOverwrite) {
       updatePresetMutation.mutate({ 
         id: selectedPresetForOverwrite.id, 
-        settings: currentSettings 
+        settings: embedPresetAssets(currentSettings)
       });
     }
     setOverwriteDialogOpen(false);
     setSelectedPresetForOverwrite(null);
   };
 
+  const confirmDetails = () => {
+    if (detailsPreset) {
+      updatePresetMutation.mutate({ id: detailsPreset.id, ...detailsToMetadata(detailsPreset.details) });
+    }
+    setDetailsPreset(null);
+  };
+
+  const clearFilters = () => {
+    setSearchText("");
+    setSearchQuery("");
+    setTagFilter(null);
+    setCategoryFilter(null);
+    if (sortMode === "favorites") setSortMode("newest");
+  };
+
   const hideFactoryPreset = (id: string) => {
     const updated = [...hiddenFactoryPresets, id];
     setHiddenFactoryPresets(updated);
@@ -176,6 +438,10 @@ export function PresetPanel({ currentSettings, onLoadPreset }: PresetPanelProps)
       name: p.name,
       settings: p.settings,
       createdAt: p.createdAt,
+      description: p.description,
+      category: p.category,
+      tags: p.tags,
+      author: p.author,
       version: FULL_PRESET_VERSION,
     }));
     const blob = new Blob([JSON.stringify(exportData, null, 2)], { type: "application/json" });
@@ -197,20 +463,19 @@ export function PresetPanel({ currentSettings, onLoadPreset }: PresetPanelProps)
         const imported = JSON.parse(reader.result as string);
         if (Array.isArray(imported)) {
           for (const item of imported) {
-            if (isValidFullPreset(item)) {
-              await savePresetMutation.mutateAsync({
-                name: (item as FullPreset).name,
-                settings: (item as FullPreset).settings,
-                createdAt: (item as FullPreset).createdAt || Date.now(),
-              });
-            } else if (isValidV2Preset((item as Preset).parameters)) {
-              const v2 = item as Preset;
-              await savePresetMutation.mutateAsync({
-                name: v2.name,
-                settings: { params: v2.parameters },
-                createdAt: v2.createdAt || Date.now(),
-              });
-            }
+            if (!item || typeof item !== "object") continue;
+            // Full presets wrap their settings, legacy presets carry parameters directly
+            const migration = migratePresetSettings("settings" in item ? item.settings : item);
+            if (!migration) continue;
+            await savePresetMutation.mutateAsync({
+              name: typeof item.name === "string" && item.name ? item.name : "Imported Preset",
+              settings: migration.settings,
+              createdAt: item.createdAt || Date.now(),
+              description: typeof item.description === "string" ? item.description.slice(0, 500) : "",
+              category: PresetCategory.safeParse(item.category).success ? item.category : null,
+              tags: Array.isArray(item.tags) ? normalizeTags(item.tags.filter((tag: unknown) => typeof tag === "string")) : [],
+              author: typeof item.author === "string" ? item.author.slice(0, 64) : undefined,
+            });
           }
         }
       } catch (err) {
@@ -230,7 +495,11 @@ export function PresetPanel({ currentSettings, onLoadPreset }: PresetPanelProps)
     version: FULL_PRESET_VERSION,
   }));
 
-  const visibleFactoryPresets = fullFactoryPresets.filter(p => !hiddenFactoryPresets.includes(p.id));
+  // Factory presets have no tags or category, so only a text search can match them
+  const factorySearch = searchQuery.trim().toLowerCase();
+  const visibleFactoryPresets = tagFilter || categoryFilter
+    ? []
+    : fullFactoryPresets.filter(p => !hiddenFactoryPresets.includes(p.id) && p.name.toLowerCase().includes(factorySearch));
 
   // Convert DB presets to FullPreset format for loading
   const userPresets = dbPresets.map(p => ({
@@ -238,6 +507,20 @@ export function PresetPanel({ currentSettings, onLoadPreset }: PresetPanelProps)
     name: p.name,
     settings: p.settings as FullSynthSettings,
     createdAt: p.createdAt,
+    isOwn: user !== null && p.ownerId === user.id,
+    category: p.category,
+    tags: p.tags,
+    isFavorite: p.isFavorite,
+    previewUrl: p.previewUpdatedAt !== null ? getPresetPreviewUrl(p.id, p.previewUpdatedAt) : null,
+    summary: [
+      p.author && `by ${p.author}`,
+      p.description,
+      p.tags.length > 0 && p.tags.map(t => `#${t}`).join(" "),
+      `${p.loadCount} load(s), ${p.exportCount} export(s)`,
+    ]
+      .filter(Boolean)
+      .join("\n"),
+    source: p,
   }));
 
   return (
@@ -263,7 +546,14 @@ export function PresetPanel({ currentSettings, onLoadPreset }: PresetPanelProps)
 
             <Dialog open={saveDialogOpen} onOpenChange={setSaveDialogOpen}>
               <DialogTrigger asChild>
-                <Button size="icon" variant="ghost" className="h-7 w-7" data-testid="button-save-preset">
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7"
+                  disabled={!user}
+                  title={user ? "Save preset" : "Sign in to save presets"}
+                  data-testid="button-save-preset"
+                >
                   <Save className="w-3.5 h-3.5" />
                 </Button>
               </DialogTrigger>
@@ -271,7 +561,7 @@ export function PresetPanel({ currentSettings, onLoadPreset }: PresetPanelProps)
                 <DialogHeader>
                   <DialogTitle>Save Preset</DialogTitle>
                 </DialogHeader>
-                <div className="space-y-4 py-4">
+                <div className="space-y-2 py-4">
                   <Input
                     placeholder="Preset name..."
                     value={newPresetName}
@@ -279,6 +569,7 @@ export function PresetPanel({ currentSettings, onLoadPreset }: PresetPanelProps)
                     onKeyDown={(e) => e.key === "Enter" && savePreset()}
                     data-testid="input-preset-name"
                   />
+                  <PresetDetailsFields details={newPresetDetails} onChange={setNewPresetDetails} />
                 </div>
                 <DialogFooter>
                   <DialogClose asChild>
@@ -300,6 +591,8 @@ export function PresetPanel({ currentSettings, onLoadPreset }: PresetPanelProps)
               size="icon" 
               variant="ghost" 
               className="h-7 w-7 relative overflow-hidden"
+              disabled={!user}
+              title={user ? "Import presets" : "Sign in to import presets"}
               data-testid="button-import-presets"
             >
               <FolderOpen className="w-3.5 h-3.5" />
@@ -307,6 +600,7 @@ export function PresetPanel({ currentSettings, onLoadPreset }: PresetPanelProps)
                 type="file"
                 accept=".json"
                 onChange={importPresets}
+                disabled={!user}
                 className="absolute inset-0 opacity-0 cursor-pointer"
               />
             </Button>
@@ -322,59 +616,136 @@ export function PresetPanel({ currentSettings, onLoadPreset }: PresetPanelProps)
                 <Download className="w-3.5 h-3.5" />
               </Button>
             )}
+
+            <AccountMenu />
           </div>
         </CardTitle>
       </CardHeader>
       <CardContent className="p-0">
+        <div className="px-2 pb-1 space-y-1">
+          <div className="flex items-center gap-1">
+            <div className="relative flex-1">
+              <Search className="absolute left-1.5 top-1/2 -translate-y-1/2 w-3 h-3 text-muted-foreground" />
+              <Input
+                placeholder="Search presets..."
+                value={searchText}
+                onChange={(e) => setSearchText(e.target.value)}
+                className="h-6 text-[10px] pl-6"
+                data-testid="input-preset-search"
+              />
+            </div>
+            <Select
+              value={categoryFilter ?? ALL_CATEGORIES}
+              onValueChange={(value) => setCategoryFilter(value === ALL_CATEGORIES ? null : value as PresetCategory)}
+            >
+              <SelectTrigger className="h-6 text-[10px] w-20" data-testid="select-preset-category-filter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_CATEGORIES} className="text-[10px]">All</SelectItem>
+                {PresetCategory.options.map(category => (
+                  <SelectItem key={category} value={category} className="text-[10px]">{categoryLabel(category)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={sortMode} onValueChange={(value) => setSortMode(value as SortMode)}>
+              <SelectTrigger className="h-6 text-[10px] w-24" data-testid="select-preset-sort">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SORT_MODES.filter(mode => mode.value !== "favorites" || user).map(mode => (
+                  <SelectItem key={mode.value} value={mode.value} className="text-[10px]">{mode.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {presetTags.length > 0 && (
+            <div className="flex flex-wrap gap-0.5" data-testid="preset-tag-filters">
+              {presetTags.slice(0, VISIBLE_TAG_CHIPS).map(({ tag, count }) => (
+                <button
+                  key={tag}
+                  type="button"
+                  onClick={() => setTagFilter(tagFilter === tag ? null : tag)}
+                  className={`rounded px-1 text-[9px] border ${
+                    tagFilter === tag ? "border-primary text-primary" : "border-border/50 text-muted-foreground hover:text-foreground"
+                  }`}
+                  title={`${count} preset(s)`}
+                  data-testid={`button-tag-filter-${tag}`}
+                >
+                  #{tag}
+                </button>
+              ))}
+              {isFiltering && (
+                <button
+                  type="button"
+                  onClick={clearFilters}
+                  className="px-1 text-[9px] text-muted-foreground hover:text-foreground flex items-center"
+                  data-testid="button-clear-preset-filters"
+                >
+                  <X className="w-2.5 h-2.5" />
+                  Clear
+                </button>
+              )}
+            </div>
+          )}
+        </div>
         <ScrollArea className="h-[180px] px-2 pb-2">
           <div className="space-y-2">
-            <div>
-              <div className="flex items-center justify-between mb-1 px-1">
-                <h4 className="text-[10px] font-medium text-muted-foreground">Factory</h4>
-                {hiddenFactoryPresets.length > 0 && (
-                  <button
-                    type="button"
-                    onClick={restoreFactoryPresets}
-                    className="text-[9px] text-muted-foreground hover:text-foreground flex items-center gap-0.5"
-                    data-testid="button-restore-factory-presets"
-                  >
-                    <RotateCcw className="w-2.5 h-2.5" />
-                    Restore
-                  </button>
-                )}
-              </div>
-              <div className="space-y-0.5">
-                {visibleFactoryPresets.map((preset) => (
-                  <div
-                    key={preset.id}
-                    className="flex items-center gap-1 px-2 py-1 rounded text-[10px] hover-elevate bg-muted/30 border border-border/50"
-                  >
+            {(visibleFactoryPresets.length > 0 || !isFiltering) && (
+              <div>
+                <div className="flex items-center justify-between mb-1 px-1">
+                  <h4 className="text-[10px] font-medium text-muted-foreground">Factory</h4>
+                  {hiddenFactoryPresets.length > 0 && (
                     <button
                       type="button"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        onLoadPreset(preset.settings);
-                      }}
-                      className="flex-1 text-left"
-                      data-testid={`preset-factory-${preset.name.toLowerCase().replace(/\s/g, '-')}`}
+                      onClick={restoreFactoryPresets}
+                      className="text-[9px] text-muted-foreground hover:text-foreground flex items-center gap-0.5"
+                      data-testid="button-restore-factory-presets"
                     >
-                      {preset.name}
+                      <RotateCcw className="w-2.5 h-2.5" />
+                      Restore
                     </button>
-                    <button
-                      type="button"
-                      className="h-5 w-5 p-0 rounded flex items-center justify-center opacity-50 hover:opacity-100 hover:bg-destructive/20 transition-opacity"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        hideFactoryPreset(preset.id);
-                      }}
-                      data-testid={`button-hide-${preset.id}`}
+                  )}
+                </div>
+                <div className="space-y-0.5">
+                  {visibleFactoryPresets.map((preset) => (
+                    <div
+                      key={preset.id}
+                      className="flex items-center gap-1 px-2 py-1 rounded text-[10px] hover-elevate bg-muted/30 border border-border/50"
                     >
-                      <Trash2 className="w-3 h-3 text-destructive" />
-                    </button>
-                  </div>
-                ))}
+                      <button
+                        type="button"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          loadPreset(preset.settings, preset.name);
+                        }}
+                        className="flex-1 text-left"
+                        data-testid={`preset-factory-${preset.name.toLowerCase().replace(/\s/g, '-')}`}
+                      >
+                        {preset.name}
+                      </button>
+                      <button
+                        type="button"
+                        className="h-5 w-5 p-0 rounded flex items-center justify-center opacity-50 hover:opacity-100 hover:bg-destructive/20 transition-opacity"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          hideFactoryPreset(preset.id);
+                        }}
+                        data-testid={`button-hide-${preset.id}`}
+                      >
+                        <Trash2 className="w-3 h-3 text-destructive" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
               </div>
-            </div>
+            )}
+
+            {isFiltering && userPresets.length === 0 && visibleFactoryPresets.length === 0 && !isLoading && (
+              <div className="text-[10px] text-muted-foreground px-1" data-testid="text-no-preset-matches">
+                No presets match
+              </div>
+            )}
 
             {userPresets.length > 0 && (
               <div>
@@ -417,61 +788,195 @@ export function PresetPanel({ currentSettings, onLoadPreset }: PresetPanelProps)
                         </>
                       ) : (
                         <>
+                          {preset.previewUrl ? (
+                            <button
+                              type="button"
+                              className="h-5 w-5 p-0 rounded flex items-center justify-center opacity-50 hover:opacity-100 transition-opacity hover:bg-primary/20"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                playPreview(preset.previewUrl!);
+                              }}
+                              onMouseEnter={() => startHoverPreview(preset.previewUrl!)}
+                              onMouseLeave={cancelHoverPreview}
+                              title="Hover or click to audition"
+                              data-testid={`button-preview-${preset.id}`}
+                            >
+                              <Play className="w-3 h-3 text-primary" />
+                            </button>
+                          ) : (
+                            <span className="h-5 w-5 shrink-0" />
+                          )}
                           <button
                             type="button"
                             onClick={(e) => {
                               e.stopPropagation();
-                              onLoadPreset(preset.settings);
+                              loadPreset(preset.settings, preset.name, preset.id);
+                              recordPresetUsage(preset.id, "load");
                             }}
-                            className="flex-1 text-left truncate"
+                            className="flex-1 min-w-0 text-left truncate"
+                            title={preset.summary || undefined}
                             data-testid={`preset-user-${preset.name.toLowerCase().replace(/\s/g, '-')}`}
                           >
                             {preset.name}
                           </button>
+                          {preset.category && (
+                            <span className="shrink-0 text-[9px] text-muted-foreground">{categoryLabel(preset.category)}</span>
+                          )}
+                          <PresetRatingControl
+                            ratingTotal={preset.source.ratingTotal}
+                            ratingCount={preset.source.ratingCount}
+                            myRating={preset.source.myRating}
+                            canRate={user !== null}
+                            onRate={(rating) => ratingMutation.mutate({ id: preset.id, rating })}
+                            testId={`button-rating-${preset.id}`}
+                          />
+                          {user && (
+                            <button
+                              type="button"
+                              className="h-5 w-5 p-0 rounded flex items-center justify-center opacity-50 hover:opacity-100 transition-opacity hover:bg-muted"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                favoriteMutation.mutate({ id: preset.id, favorite: !preset.isFavorite });
+                              }}
+                              title={preset.isFavorite ? "Remove from favorites" : "Add to favorites"}
+                              data-testid={`button-favorite-${preset.id}`}
+                            >
+                              <Heart className={`w-3 h-3 ${preset.isFavorite ? "fill-primary text-primary" : ""}`} />
+                            </button>
+                          )}
                           <button
                             type="button"
-                            className="h-5 w-5 p-0 rounded flex items-center justify-center opacity-50 hover:opacity-100 transition-opacity hover:bg-accent/20"
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              openOverwriteDialog(preset.id, preset.name);
-                            }}
-                            title="Save current settings to this preset"
-                            data-testid={`button-overwrite-${preset.id}`}
-                          >
-                            <Save className="w-3 h-3 text-accent" />
-                          </button>
-                          <button
-                            type="button"
-                            className="h-5 w-5 p-0 rounded flex items-center justify-center opacity-50 hover:opacity-100 transition-opacity hover:bg-primary/20"
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              startRename(preset.id, preset.name);
-                            }}
-                            title="Rename preset"
-                            data-testid={`button-rename-${preset.id}`}
-                          >
-                            <Pencil className="w-3 h-3 text-primary" />
-                          </button>
-                          <button
-                            type="button"
-                            className="h-5 w-5 p-0 rounded flex items-center justify-center opacity-50 hover:opacity-100 transition-opacity hover:bg-destructive/20 disabled:opacity-30"
+                            className="h-5 w-5 p-0 rounded flex items-center justify-center opacity-50 hover:opacity-100 transition-opacity hover:bg-muted"
                             onClick={(e) => {
                               e.stopPropagation();
-                              deletePreset(preset.id);
+                              setHistoryPreset({ id: preset.id, name: preset.name, isOwn: preset.isOwn });
                             }}
-                            disabled={deletePresetMutation.isPending}
-                            data-testid={`button-delete-${preset.id}`}
+                            title="Revision history"
+                            data-testid={`button-history-${preset.id}`}
                           >
-                            <Trash2 className="w-3 h-3 text-destructive" />
+                            <History className="w-3 h-3" />
                           </button>
+                          {preset.isOwn && (
+                            <>
+                              <button
+                                type="button"
+                                className="h-5 w-5 p-0 rounded flex items-center justify-center opacity-50 hover:opacity-100 transition-opacity hover:bg-primary/20 disabled:opacity-30"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  savePreview(preset.id, preset.settings);
+                                }}
+                                disabled={regeneratingId === preset.id}
+                                title={preset.previewUrl ? "Regenerate preview" : "Render preview"}
+                                data-testid={`button-regenerate-preview-${preset.id}`}
+                              >
+                                <AudioLines className={`w-3 h-3 text-primary ${regeneratingId === preset.id ? "animate-pulse" : ""}`} />
+                              </button>
+                              <button
+                                type="button"
+                                className="h-5 w-5 p-0 rounded flex items-center justify-center opacity-50 hover:opacity-100 transition-opacity hover:bg-accent/20"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  openOverwriteDialog(preset.id, preset.name);
+                                }}
+                                title="Save current settings to this preset"
+                                data-testid={`button-overwrite-${preset.id}`}
+                              >
+                                <Save className="w-3 h-3 text-accent" />
+                              </button>
+                              <button
+                                type="button"
+                                className="h-5 w-5 p-0 rounded flex items-center justify-center opacity-50 hover:opacity-100 transition-opacity hover:bg-primary/20"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  setDetailsPreset({ id: preset.id, name: preset.name, details: detailsFromPreset(preset.source) });
+                                }}
+                                title="Edit category, tags and description"
+                                data-testid={`button-details-${preset.id}`}
+                              >
+                                <Tag className="w-3 h-3 text-primary" />
+                              </button>
+                              <button
+                                type="button"
+                                className="h-5 w-5 p-0 rounded flex items-center justify-center opacity-50 hover:opacity-100 transition-opacity hover:bg-primary/20"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  startRename(preset.id, preset.name);
+                                }}
+                                title="Rename preset"
+                                data-testid={`button-rename-${preset.id}`}
+                              >
+                                <Pencil className="w-3 h-3 text-primary" />
+                              </button>
+                              <button
+                                type="button"
+                                className="h-5 w-5 p-0 rounded flex items-center justify-center opacity-50 hover:opacity-100 transition-opacity hover:bg-destructive/20 disabled:opacity-30"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  deletePreset(preset.id);
+                                }}
+                                disabled={deletePresetMutation.isPending}
+                                data-testid={`button-delete-${preset.id}`}
+                              >
+                                <Trash2 className="w-3 h-3 text-destructive" />
+                              </button>
+                            </>
+                          )}
                         </>
                       )}
                     </div>
                   ))}
                 </div>
+                {hasNextPage && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-full text-[10px] mt-1 text-muted-foreground"
+                    onClick={() => fetchNextPage()}
+                    disabled={isFetchingNextPage}
+                    data-testid="button-load-more-presets"
+                  >
+                    {isFetchingNextPage ? "Loading..." : "Load more"}
+                  </Button>
+                )}
               </div>
             )}
 
+            <PresetRevisionsDialog
+              preset={historyPreset}
+              onClose={() => setHistoryPreset(null)}
+              onLoad={loadPreset}
+              onRestored={(restored) => savePreview(restored.id, restored.settings)}
+            />
+
+            {/* Edit details dialog */}
+            <Dialog open={detailsPreset !== null} onOpenChange={(open) => !open && setDetailsPreset(null)}>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Details for "{detailsPreset?.name}"</DialogTitle>
+                </DialogHeader>
+                {detailsPreset && (
+                  <div className="space-y-2 py-4">
+                    <PresetDetailsFields
+                      details={detailsPreset.details}
+                      onChange={(details) => setDetailsPreset({ ...detailsPreset, details })}
+                    />
+                  </div>
+                )}
+                <DialogFooter>
+                  <DialogClose asChild>
+                    <Button variant="secondary">Cancel</Button>
+                  </DialogClose>
+                  <Button
+                    onClick={confirmDetails}
+                    disabled={updatePresetMutation.isPending}
+                    data-testid="button-confirm-details"
+                  >
+                    Save Details
+                  </Button>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
+
             {/* Overwrite confirmation dialog */}
             <Dialog open={overwriteDialogOpen} onOpenChange={setOverwriteDialogOpen}>
               <DialogContent>
@@ -479,7 +984,7 @@ export function PresetPanel({ currentSettings, onLoadPreset }: PresetPanelProps)
                   <DialogTitle>Overwrite Preset?</DialogTitle>
                 </DialogHeader>
                 <p className="text-sm text-muted-foreground py-4">
-                  Save current settings to "{selectedPresetForOverwrite?.name}"? This will replace the existing preset data.
+                  Save current settings to "{selectedPresetForOverwrite?.name}"? The previous version stays available in the preset's history.
                 </p>
                 <DialogFooter>
                   <DialogClose asChild>
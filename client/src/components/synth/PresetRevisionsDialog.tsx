@@ -0,0 +1,195 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { FolderOpen, RotateCcw } from "lucide-react";
+import type { DbPreset, PresetRevision, PresetRevisionDiff, PresetRevisionSummary } from "@shared/schema";
+import type { FullSynthSettings } from "@/lib/fullPreset";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface PresetRevisionsDialogProps {
+  preset: { id: number; name: string; isOwn: boolean } | null;
+  onClose: () => void;
+  onLoad: (settings: FullSynthSettings, name: string) => void;
+  onRestored?: (preset: DbPreset) => void; // The preset as restored, e.g. to refresh its preview
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleString([], { dateStyle: "short", timeStyle: "short" });
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return "—";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+// Saved versions of a shared preset: what each save changed, loading an old
+// version, and (for the owner) rolling back to it
+export function PresetRevisionsDialog({ preset, onClose, onLoad, onRestored }: PresetRevisionsDialogProps) {
+  const { toast } = useToast();
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [compareToCurrent, setCompareToCurrent] = useState(false);
+
+  const { data: revisions = [], isLoading } = useQuery<PresetRevisionSummary[]>({
+    queryKey: ["/api/presets", preset?.id, "revisions"],
+    enabled: preset !== null,
+  });
+
+  const latest = revisions[revisions.length - 1];
+  const selected = revisions.find(r => r.id === selectedId) ?? latest;
+  const numberOf = (id: number) => revisions.findIndex(r => r.id === id) + 1;
+
+  const { data: diff } = useQuery<PresetRevisionDiff>({
+    queryKey: ["/api/presets", preset?.id, "revisions", selected?.id, compareToCurrent ? "diff?against=current" : "diff"],
+    enabled: preset !== null && selected !== undefined,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (revisionId: number) => {
+      return apiRequest("POST", `/api/presets/${preset?.id}/revisions/${revisionId}/restore`);
+    },
+    onSuccess: async (res, revisionId) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/presets"] });
+      setSelectedId(null);
+      toast({ title: "Preset restored", description: `Revision #${numberOf(revisionId)} is now the current version` });
+      onRestored?.((await res.json()) as DbPreset);
+    },
+    onError: (error) => {
+      toast({ title: "Failed to restore preset", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const loadRevision = async (revisionId: number) => {
+    try {
+      const res = await apiRequest("GET", `/api/presets/${preset?.id}/revisions/${revisionId}`);
+      const revision = (await res.json()) as PresetRevision;
+      onLoad(revision.settings as FullSynthSettings, revision.name);
+    } catch (error) {
+      toast({ title: "Failed to load revision", description: (error as Error).message, variant: "destructive" });
+    }
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) return;
+    setSelectedId(null);
+    setCompareToCurrent(false);
+    onClose();
+  };
+
+  return (
+    <Dialog open={preset !== null} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>History of "{preset?.name}"</DialogTitle>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="text-xs text-muted-foreground">Loading...</div>
+        ) : revisions.length === 0 ? (
+          <div className="text-xs text-muted-foreground" data-testid="text-no-revisions">
+            No revisions yet. The next overwrite or rename will start the history.
+          </div>
+        ) : (
+          <div className="grid grid-cols-[10rem_1fr] gap-2">
+            <ScrollArea className="h-64 rounded border border-border/50">
+              <div className="p-1 space-y-0.5" data-testid="list-preset-revisions">
+                {revisions.slice().reverse().map(revision => (
+                  <button
+                    key={revision.id}
+                    type="button"
+                    onClick={() => setSelectedId(revision.id)}
+                    className={`w-full text-left rounded px-1.5 py-1 text-[10px] hover:bg-muted/50 ${
+                      revision.id === selected?.id ? "bg-muted" : ""
+                    }`}
+                    data-testid={`button-revision-${revision.id}`}
+                  >
+                    <div className="flex items-center justify-between gap-1">
+                      <span className="font-medium">#{numberOf(revision.id)}</span>
+                      {revision.id === latest?.id && <span className="text-primary">current</span>}
+                    </div>
+                    <div className="text-muted-foreground truncate">{formatDate(revision.createdAt)}</div>
+                    <div className="text-muted-foreground truncate">
+                      {revision.author ?? "unknown"}
+                      {revision.restoredFrom !== null && ` · restored #${numberOf(revision.restoredFrom)}`}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+
+            {selected && (
+              <div className="flex flex-col gap-2 min-w-0">
+                <div className="flex items-center gap-1">
+                  <Button
+                    size="sm"
+                    variant={compareToCurrent ? "ghost" : "secondary"}
+                    className="h-6 text-[10px] px-2"
+                    onClick={() => setCompareToCurrent(false)}
+                    data-testid="button-diff-previous"
+                  >
+                    vs previous
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant={compareToCurrent ? "secondary" : "ghost"}
+                    className="h-6 text-[10px] px-2"
+                    onClick={() => setCompareToCurrent(true)}
+                    data-testid="button-diff-current"
+                  >
+                    vs current
+                  </Button>
+                </div>
+
+                <ScrollArea className="h-48 rounded border border-border/50">
+                  <div className="p-1.5 space-y-0.5 font-mono text-[10px]" data-testid="list-revision-changes">
+                    {diff?.nameChanged && (
+                      <div className="text-primary">name: {selected.name}</div>
+                    )}
+                    {diff && diff.changes.length === 0 && !diff.nameChanged && (
+                      <div className="text-muted-foreground font-sans">No changes</div>
+                    )}
+                    {diff?.changes.map(change => (
+                      <div key={change.path} className="break-all">
+                        <span className="text-muted-foreground">{change.path}</span>{" "}
+                        <span className="text-destructive">{formatValue(change.before)}</span>
+                        {" → "}
+                        <span className="text-primary">{formatValue(change.after)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </ScrollArea>
+
+                <div className="flex items-center gap-1 justify-end">
+                  <Button
+                    size="sm"
+                    variant="secondary"
+                    className="h-6 text-[10px] px-2"
+                    onClick={() => loadRevision(selected.id)}
+                    data-testid="button-load-revision"
+                  >
+                    <FolderOpen className="w-3 h-3 mr-1" />
+                    Load
+                  </Button>
+                  {preset?.isOwn && selected.id !== latest?.id && (
+                    <Button
+                      size="sm"
+                      className="h-6 text-[10px] px-2"
+                      onClick={() => restoreMutation.mutate(selected.id)}
+                      disabled={restoreMutation.isPending}
+                      data-testid="button-restore-revision"
+                    >
+                      <RotateCcw className="w-3 h-3 mr-1" />
+                      Restore
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,6 @@
 import { Button } from "@/components/ui/button";
 import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dices, Shuffle } from "lucide-react";
 import { useState } from "react";
 import type { SynthParameters, Oscillator, Envelope, WaveformType, EnvelopeCurve, FilterType, EnvelopeTarget, WaveshaperCurve, ModRatioPreset, PitchState, SpectralScrambler } from "@shared/schema";
@@ -25,7 +26,8 @@ import {
   randomizeLowEndSettings,
   randomizeAdvancedSpectralSettings,
   defaultLowEndSettings,
-  defaultOscPhaseSettings
+  defaultOscPhaseSettings,
+  defaultAdvancedSpectralSettings
 } from "@/lib/advancedSynthSettings";
 import type { RingModSettings } from "@/lib/ringModSettings";
 import { randomizeRingModSettings } from "@/lib/ringModSettings";
@@ -41,6 +43,24 @@ import type { CurveModulatorSettings } from "@/lib/curveModulatorSettings";
 import { randomizeCurveModulatorSettings } from "@/lib/curveModulatorSettings";
 import type { StepSequencerSettings } from "@/lib/stepSequencerSettings";
 import { randomizeStepSequencerSettings } from "@/lib/stepSequencerSettings";
+import { applyLocks } from "@/lib/parameterLocks";
+import {
+  type RandomizeProfile,
+  type RandomizeProfileId,
+  type RandomizedSettings,
+  type ProfileCheck,
+  RANDOMIZE_PROFILES,
+  MAX_PROFILE_ATTEMPTS,
+  getRandomizeProfile,
+  applyRandomizeProfile,
+  applyProfileToBlocks,
+  checkRandomizeResult,
+  loadRandomizeProfile,
+  saveRandomizeProfile,
+} from "@/lib/randomizeProfiles";
+import { getChannels } from "@/lib/tailDetection";
+import { useParameterLocks } from "@/contexts/ParameterLockContext";
+import { LockMenu } from "./LockMenu";
 
 function randomRatioPreset(): ModRatioPreset {
   return (["0.5", "1", "2", "3", "4", "6", "8", "custom"] as const)[Math.floor(Math.random() * 8)];
@@ -101,6 +121,8 @@ interface RandomizeControlsProps {
   onCurveModulatorSettingsRandomize?: (settings: CurveModulatorSettings) => void;
   stepSequencerSettings?: StepSequencerSettings;
   onStepSequencerSettingsRandomize?: (settings: StepSequencerSettings) => void;
+  // Renders a candidate so profile-targeted results can be checked before applying
+  renderCandidate?: (settings: RandomizedSettings) => Promise<AudioBuffer>;
 }
 
 function randomizeOscEnvelope(chaos: number): OscEnvelope {
@@ -251,8 +273,13 @@ export function RandomizeControls({
   curveModulatorSettings,
   onCurveModulatorSettingsRandomize,
   stepSequencerSettings,
-  onStepSequencerSettingsRandomize
+  onStepSequencerSettingsRandomize,
+  renderCandidate
 }: RandomizeControlsProps) {
+  const locks = useParameterLocks();
+  const [profileId, setProfileId] = useState<RandomizeProfileId>(loadRandomizeProfile);
+  const [isSearching, setIsSearching] = useState(false);
+  const [lastCheck, setLastCheck] = useState<string | null>(null);
   const [chaosAmount, setChaosAmount] = useState(50);
   const [variationAmount, setVariationAmount] = useState(15); // 5-50% range for subtle to moderate variations
 
@@ -331,7 +358,50 @@ export function RandomizeControls({
     };
   };
 
-  const randomizeAll = () => {
+
+  // Locked values are put back before a result is auditioned or applied
+  const withLocks = (result: RandomizedSettings): RandomizedSettings => applyLocks(result, {
+    params: currentParams,
+    oscEnvelopes,
+    convolverSettings,
+    reverbSettings,
+    advancedFMSettings,
+    advancedFilterSettings,
+    advancedWaveshaperSettings,
+    lowEndSettings,
+    phaseSettings,
+    advancedSpectralSettings,
+    ringModSettings,
+    multibandCompSettings,
+    phaserFlangerSettings,
+    parametricEQSettings: eqSettings,
+    parallelProcessingSettings,
+    curveModulatorSettings,
+    stepSequencerSettings,
+  }, locks);
+
+  const applyResult = (unlocked: RandomizedSettings) => {
+    const result = withLocks(unlocked);
+    onRandomize(result.params);
+    if (result.oscEnvelopes) onOscEnvelopesRandomize?.(result.oscEnvelopes);
+    if (result.convolverSettings) onConvolverSettingsRandomize?.(result.convolverSettings);
+    if (result.reverbSettings) onReverbSettingsRandomize?.(result.reverbSettings);
+    if (result.advancedFMSettings) onAdvancedFMSettingsRandomize?.(result.advancedFMSettings);
+    if (result.advancedFilterSettings) onAdvancedFilterSettingsRandomize?.(result.advancedFilterSettings);
+    if (result.advancedWaveshaperSettings) onAdvancedWaveshaperSettingsRandomize?.(result.advancedWaveshaperSettings);
+    if (result.lowEndSettings) onLowEndSettingsRandomize?.(result.lowEndSettings);
+    if (result.phaseSettings) onPhaseSettingsRandomize?.(result.phaseSettings);
+    if (result.advancedSpectralSettings) onAdvancedSpectralSettingsRandomize?.(result.advancedSpectralSettings);
+    if (result.ringModSettings) onRingModSettingsRandomize?.(result.ringModSettings);
+    if (result.multibandCompSettings) onMultibandCompSettingsRandomize?.(result.multibandCompSettings);
+    if (result.phaserFlangerSettings) onPhaserFlangerSettingsRandomize?.(result.phaserFlangerSettings);
+    if (result.parametricEQSettings) onEqSettingsRandomize?.(result.parametricEQSettings);
+    if (result.parallelProcessingSettings) onParallelProcessingSettingsRandomize?.(result.parallelProcessingSettings);
+    if (result.curveModulatorSettings) onCurveModulatorSettingsRandomize?.(result.curveModulatorSettings);
+    if (result.stepSequencerSettings) onStepSequencerSettingsRandomize?.(result.stepSequencerSettings);
+  };
+
+  const generateRandomSettings = (profile: RandomizeProfile): RandomizedSettings => {
     const chaos = chaosAmount / 100;
     // Percussive bias: keep transients clean at lower chaos, allow wetter results only at high chaos
     const wetChanceScale = 0.25 + 0.75 * chaos; // 0.25..1.0
@@ -501,26 +571,26 @@ export function RandomizeControls({
       output: currentParams.output,
     };
 
-    onRandomize(params);
+    const result: RandomizedSettings = { params: applyRandomizeProfile(params, profile) };
     
     if (onOscEnvelopesRandomize) {
-      onOscEnvelopesRandomize({
+      result.oscEnvelopes = {
         osc1: randomizeOscEnvelope(chaos),
         osc2: randomizeOscEnvelope(chaos),
         osc3: randomizeOscEnvelope(chaos),
-      });
+      };
     }
     
     if (onConvolverSettingsRandomize) {
       // One-shot convolver settings: short pre-delay, tight filtering, no extreme stretch
-      onConvolverSettingsRandomize({
+      result.convolverSettings = {
         predelay: Math.round(randExp(0, 10, 2.0)), // 0-10ms: preserve transient snap
         decay: Math.round(randomInRange(60, 100)), // 60-100%: built-in IRs are already short (50-300ms)
         lowCut: Math.round(randomInRange(150, 600, true)), // 150-600Hz: prevent low-end smearing
         highCut: Math.round(randomInRange(3000, 8000, true)), // 3-8kHz: avoid fizzy tails
         reverse: Math.random() > 0.92, // Rare: ~8% chance for micro-swell effect
         stretch: Math.round(randomInRange(0.8, 1.2) * 100) / 100, // 0.8-1.2x: keep IR character intact
-      });
+      };
     }
     
     // Randomize reverb settings (type, damping, diffusion, modulation, predelay, stereoWidth)
@@ -530,14 +600,14 @@ export function RandomizeControls({
       const typeWeights = [0.4, 0.4, 0.2]; // 40% room, 40% plate, 20% hall
       const rand = Math.random();
       const type = rand < typeWeights[0] ? "room" : rand < typeWeights[0] + typeWeights[1] ? "plate" : "hall";
-      onReverbSettingsRandomize({
+      result.reverbSettings = {
         type,
         damping: Math.round(randomInRange(45, 90)), // 45-90%: faster HF decay for cleaner one-shot tails
         diffusion: Math.round(randomInRange(50, 95)), // 50-95%: good density without smearing
         modulation: Math.round(randomInRange(5, 30)), // 5-30%: subtle modulation
         predelay: Math.round(randomInRange(0, 40 * chaos)), // 0-40ms max: keep reverb tight to transient
         stereoWidth: Math.round(randomInRange(40, 90)), // 40-90%: moderate width for focused sound
-      });
+      };
     }
     
     // Randomize advanced FM settings (algorithm, operator 2)
@@ -557,39 +627,39 @@ export function RandomizeControls({
           feedback: Math.round(Math.random() * 50) / 100,
         },
       });
-      onAdvancedFMSettingsRandomize({
+      result.advancedFMSettings = {
         osc1: randomAdvancedFM(),
         osc2: randomAdvancedFM(),
         osc3: randomAdvancedFM(),
-      });
+      };
     }
     
     // Randomize advanced filter settings
     if (onAdvancedFilterSettingsRandomize && advancedFilterSettings) {
       const randomFilter = randomizeAdvancedFilterSettings(chaosAmount);
-      onAdvancedFilterSettingsRandomize({ ...advancedFilterSettings, ...randomFilter });
+      result.advancedFilterSettings = { ...advancedFilterSettings, ...randomFilter };
     }
     
     // Randomize advanced waveshaper settings
     if (onAdvancedWaveshaperSettingsRandomize && advancedWaveshaperSettings) {
       const randomWaveshaper = randomizeAdvancedWaveshaperSettings(chaosAmount);
-      onAdvancedWaveshaperSettingsRandomize({ 
+      result.advancedWaveshaperSettings = { 
         ...advancedWaveshaperSettings, 
         ...randomWaveshaper,
         multiband: { ...advancedWaveshaperSettings.multiband, ...randomWaveshaper.multiband }
-      });
+      };
     }
     
     // Randomize low-end settings (sub-harmonic generator, bass exciter, sub EQ, mono sum, DC filter)
     if (onLowEndSettingsRandomize) {
       const randomLowEnd = randomizeLowEndSettings(chaosAmount);
-      onLowEndSettingsRandomize({
+      result.lowEndSettings = {
         ...defaultLowEndSettings,
         ...randomLowEnd,
         subHarmonic: { ...defaultLowEndSettings.subHarmonic, ...randomLowEnd.subHarmonic },
         bassExciter: { ...defaultLowEndSettings.bassExciter, ...randomLowEnd.bassExciter },
         subEQ: { ...defaultLowEndSettings.subEQ, ...randomLowEnd.subEQ },
-      });
+      };
     }
     
     // Randomize phase settings (0-360° for each oscillator, focused on constructive alignment)
@@ -600,63 +670,95 @@ export function RandomizeControls({
         const alignments = [0, 0, 0, 90, 180, 180, 270]; // Bias toward 0° and 180°
         return alignments[Math.floor(Math.random() * alignments.length)] + Math.round(randomInRange(-15, 15) * chaos);
       };
-      onPhaseSettingsRandomize({
+      result.phaseSettings = {
         osc1Phase: 0, // Keep osc1 at 0 as reference
         osc2Phase: Math.round(randomPhaseAlignment()) % 360,
         osc3Phase: Math.round(randomPhaseAlignment()) % 360,
         subPhase: Math.round(randomPhaseAlignment()) % 360,
-      });
+      };
     }
     
     // Randomize advanced spectral settings
     if (onAdvancedSpectralSettingsRandomize) {
-      onAdvancedSpectralSettingsRandomize(randomizeAdvancedSpectralSettings(chaosAmount));
+      result.advancedSpectralSettings = { ...(advancedSpectralSettings ?? defaultAdvancedSpectralSettings), ...randomizeAdvancedSpectralSettings(chaosAmount) };
     }
     
     // Randomize ring modulation (metallic/inharmonic textures)
     if (onRingModSettingsRandomize) {
-      onRingModSettingsRandomize(randomizeRingModSettings());
+      result.ringModSettings = randomizeRingModSettings();
     }
     
     // Randomize multiband compression (one-shot safe ranges)
     if (onMultibandCompSettingsRandomize) {
-      onMultibandCompSettingsRandomize(
-        randomizeMultibandCompSettings(multibandCompSettings || defaultMultibandCompSettings, chaos)
-      );
+      result.multibandCompSettings = randomizeMultibandCompSettings(multibandCompSettings || defaultMultibandCompSettings, chaos);
     }
     
     // Randomize phaser/flanger (subtle modulation effects)
     if (onPhaserFlangerSettingsRandomize) {
-      onPhaserFlangerSettingsRandomize(
-        randomizePhaserFlangerSettings(phaserFlangerSettings || defaultPhaserFlangerSettings, chaos)
-      );
+      result.phaserFlangerSettings = randomizePhaserFlangerSettings(phaserFlangerSettings || defaultPhaserFlangerSettings, chaos);
     }
     
     // Randomize parametric EQ (subtle tonal shaping)
     if (onEqSettingsRandomize) {
-      onEqSettingsRandomize(
-        randomizeParametricEQSettings(eqSettings || defaultParametricEQSettings, chaos)
-      );
+      result.parametricEQSettings = randomizeParametricEQSettings(eqSettings || defaultParametricEQSettings, chaos);
     }
     
     // Randomize parallel processing (dry/wet blend)
     if (onParallelProcessingSettingsRandomize) {
-      onParallelProcessingSettingsRandomize(
-        randomizeParallelProcessingSettings(parallelProcessingSettings || defaultParallelProcessingSettings, chaos)
-      );
+      result.parallelProcessingSettings = randomizeParallelProcessingSettings(parallelProcessingSettings || defaultParallelProcessingSettings, chaos);
     }
     
     // Randomize curve modulator (drawable envelope shapes)
     if (onCurveModulatorSettingsRandomize) {
-      onCurveModulatorSettingsRandomize(randomizeCurveModulatorSettings());
+      result.curveModulatorSettings = randomizeCurveModulatorSettings();
     }
     
     // Randomize step sequencer (rhythmic modulation)
     if (onStepSequencerSettingsRandomize) {
-      onStepSequencerSettingsRandomize(randomizeStepSequencerSettings());
+      result.stepSequencerSettings = randomizeStepSequencerSettings();
+    }
+
+    return applyProfileToBlocks(result, profile);
+  };
+
+  // Without a profile, apply straight away; with one, render candidates until
+  // one passes the profile's checks, falling back to the closest miss
+  const randomizeAll = async () => {
+    const profile = getRandomizeProfile(profileId);
+    if (profile.id === "any" || !renderCandidate) {
+      applyResult(generateRandomSettings(profile));
+      setLastCheck(null);
+      return;
+    }
+
+    setIsSearching(true);
+    try {
+      let best: { settings: RandomizedSettings; check: ProfileCheck } | null = null;
+      for (let attempt = 1; attempt <= MAX_PROFILE_ATTEMPTS; attempt++) {
+        const settings = withLocks(generateRandomSettings(profile));
+        const buffer = await renderCandidate(settings);
+        const check = checkRandomizeResult(getChannels(buffer), buffer.sampleRate, profile);
+        if (!best || check.score < best.check.score) best = { settings, check };
+        if (check.passed) break;
+      }
+      if (best) {
+        applyResult(best.settings);
+        setLastCheck(best.check.passed ? null : `Closest ${profile.label.toLowerCase()}: ${best.check.reason ?? "out of range"}`);
+      }
+    } catch (e) {
+      console.error("Failed to audition random patch:", e);
+      applyResult(generateRandomSettings(profile));
+    } finally {
+      setIsSearching(false);
     }
   };
 
+  const handleProfileChange = (id: RandomizeProfileId) => {
+    setProfileId(id);
+    saveRandomizeProfile(id);
+    setLastCheck(null);
+  };
+
   const mutate = () => {
     // Use variationAmount directly (5-50% maps to 0.05-0.50 strength)
     const strength = variationAmount / 100;
@@ -893,38 +995,38 @@ export function RandomizeControls({
       output: currentParams.output,
     };
 
-    onRandomize(params);
+    const result: RandomizedSettings = { params };
     
     if (onOscEnvelopesRandomize && oscEnvelopes) {
-      onOscEnvelopesRandomize({
+      result.oscEnvelopes = {
         osc1: mutateOscEnvelope(oscEnvelopes.osc1, strength),
         osc2: mutateOscEnvelope(oscEnvelopes.osc2, strength),
         osc3: mutateOscEnvelope(oscEnvelopes.osc3, strength),
-      });
+      };
     }
     
     if (onConvolverSettingsRandomize && convolverSettings) {
       // One-shot convolver settings mutation: keep within safe ranges
-      onConvolverSettingsRandomize({
+      result.convolverSettings = {
         predelay: Math.round(mutateValue(convolverSettings.predelay, 0, 10)), // 0-10ms max
         decay: Math.round(mutateValue(convolverSettings.decay, 60, 100)), // Keep full decay
         lowCut: Math.round(mutateValue(convolverSettings.lowCut, 150, 600, true)), // 150-600Hz
         highCut: Math.round(mutateValue(convolverSettings.highCut, 3000, 8000, true)), // 3-8kHz
         reverse: convolverSettings.reverse,
         stretch: Math.round(mutateValue(convolverSettings.stretch, 0.8, 1.2) * 100) / 100, // 0.8-1.2x
-      });
+      };
     }
     
     // Mutate reverb settings with one-shot safe ranges (keep type)
     if (onReverbSettingsRandomize && reverbSettings) {
-      onReverbSettingsRandomize({
+      result.reverbSettings = {
         type: reverbSettings.type, // Keep current type
         damping: Math.round(mutateValue(reverbSettings.damping, 40, 95)), // 40-95%: faster HF decay for clean tails
         diffusion: Math.round(mutateValue(reverbSettings.diffusion, 45, 95)), // 45-95%: good density
         modulation: Math.round(mutateValue(reverbSettings.modulation, 0, 35)), // 0-35%: subtle modulation
         predelay: Math.round(mutateValue(reverbSettings.predelay, 0, 50)), // 0-50ms: tight to transient
         stereoWidth: Math.round(mutateValue(reverbSettings.stereoWidth, 35, 95)), // 35-95%: moderate width
-      });
+      };
     }
     
     // Mutate advanced FM settings
@@ -942,16 +1044,16 @@ export function RandomizeControls({
           feedback: Math.round(mutateValue(fm.operator2.feedback * 100, 0, 60)) / 100,
         },
       });
-      onAdvancedFMSettingsRandomize({
+      result.advancedFMSettings = {
         osc1: mutateAdvancedFM(advancedFMSettings.osc1),
         osc2: mutateAdvancedFM(advancedFMSettings.osc2),
         osc3: mutateAdvancedFM(advancedFMSettings.osc3),
-      });
+      };
     }
     
     // Mutate advanced filter settings (subtle changes)
     if (onAdvancedFilterSettingsRandomize && advancedFilterSettings) {
-      onAdvancedFilterSettingsRandomize({
+      result.advancedFilterSettings = {
         ...advancedFilterSettings,
         driveAmount: Math.round(mutateValue(advancedFilterSettings.driveAmount, 0, 100)),
         filter2Frequency: Math.round(mutateValue(advancedFilterSettings.filter2Frequency, 100, 10000, true)),
@@ -960,12 +1062,12 @@ export function RandomizeControls({
         formantMix: Math.round(mutateValue(advancedFilterSettings.formantMix, 20, 80)),
         fmDepth: Math.round(mutateValue(advancedFilterSettings.fmDepth, 0, 80)),
         keytrackAmount: Math.round(mutateValue(advancedFilterSettings.keytrackAmount, -80, 80)),
-      });
+      };
     }
     
     // Mutate advanced waveshaper settings (subtle changes)
     if (onAdvancedWaveshaperSettingsRandomize && advancedWaveshaperSettings) {
-      onAdvancedWaveshaperSettingsRandomize({
+      result.advancedWaveshaperSettings = {
         ...advancedWaveshaperSettings,
         positiveAmount: Math.round(mutateValue(advancedWaveshaperSettings.positiveAmount, 20, 90)),
         negativeAmount: Math.round(mutateValue(advancedWaveshaperSettings.negativeAmount, 20, 90)),
@@ -979,12 +1081,12 @@ export function RandomizeControls({
           midDrive: Math.round(mutateValue(advancedWaveshaperSettings.multiband.midDrive, 10, 80)),
           highDrive: Math.round(mutateValue(advancedWaveshaperSettings.multiband.highDrive, 10, 80)),
         },
-      });
+      };
     }
     
     // Mutate low-end settings
     if (onLowEndSettingsRandomize && lowEndSettings) {
-      onLowEndSettingsRandomize({
+      result.lowEndSettings = {
         ...lowEndSettings,
         dcFilterFreq: Math.round(mutateValue(lowEndSettings.dcFilterFreq, 3, 15)),
         monoSumFreq: Math.round(mutateValue(lowEndSettings.monoSumFreq, 80, 200)),
@@ -1013,7 +1115,7 @@ export function RandomizeControls({
           subBoostGain: Math.round(mutateValue(lowEndSettings.subEQ.subBoostGain, 0, 10) * 2) / 2,
           subBoostQ: Math.round(mutateValue(lowEndSettings.subEQ.subBoostQ, 1.5, 6) * 2) / 2,
         },
-      });
+      };
     }
     
     // Mutate phase settings (small adjustments for fine-tuning)
@@ -1022,12 +1124,12 @@ export function RandomizeControls({
         const mutation = Math.round((Math.random() - 0.5) * 30 * strength);
         return ((current + mutation) % 360 + 360) % 360;
       };
-      onPhaseSettingsRandomize({
+      result.phaseSettings = {
         osc1Phase: phaseSettings.osc1Phase, // Keep osc1 stable as reference
         osc2Phase: mutatePhase(phaseSettings.osc2Phase),
         osc3Phase: mutatePhase(phaseSettings.osc3Phase),
         subPhase: mutatePhase(phaseSettings.subPhase),
-      });
+      };
     }
     
     // Mutate advanced spectral settings
@@ -1037,7 +1139,7 @@ export function RandomizeControls({
         return Math.round(Math.max(min, Math.min(max, current + mutation)));
       };
       
-      onAdvancedSpectralSettingsRandomize({
+      result.advancedSpectralSettings = {
         tilt: {
           ...advancedSpectralSettings.tilt,
           amount: mutateSpectralValue(advancedSpectralSettings.tilt.amount, -100, 100),
@@ -1055,19 +1157,19 @@ export function RandomizeControls({
           inharmonicCut: Math.round(mutateValue(advancedSpectralSettings.harmonicResynth.inharmonicCut, -48, 0) * 2) / 2,
           harmonicDecay: mutateSpectralValue(advancedSpectralSettings.harmonicResynth.harmonicDecay, 0, 100),
         },
-      });
+      };
     }
     
     // Mutate ring modulation (keep structure, adjust key parameters)
     if (onRingModSettingsRandomize && ringModSettings) {
-      onRingModSettingsRandomize({
+      result.ringModSettings = {
         ...ringModSettings,
         freqHz: Math.round(mutateValue(ringModSettings.freqHz, 100, 1000)),
         depth: Math.round(mutateValue(ringModSettings.depth, 20, 80)),
         mix: Math.round(mutateValue(ringModSettings.mix, 15, 65)),
         envDecay: Math.round(mutateValue(ringModSettings.envDecay, 30, 300)),
         outputLevel: Math.round(mutateValue(ringModSettings.outputLevel, 60, 100)),
-      });
+      };
     }
     
     // Mutate multiband compression
@@ -1080,7 +1182,7 @@ export function RandomizeControls({
         release: Math.round(mutateValue(band.release, 20, 200)),
         gain: Math.round(mutateValue(band.gain, -6, 6)),
       });
-      onMultibandCompSettingsRandomize({
+      result.multibandCompSettings = {
         ...multibandCompSettings,
         lowCrossover: Math.round(mutateValue(multibandCompSettings.lowCrossover, 80, 300)),
         highCrossover: Math.round(mutateValue(multibandCompSettings.highCrossover, 2000, 6000)),
@@ -1088,12 +1190,12 @@ export function RandomizeControls({
         midBand: mutateBand(multibandCompSettings.midBand),
         highBand: mutateBand(multibandCompSettings.highBand),
         mix: Math.round(mutateValue(multibandCompSettings.mix, 0.5, 1) * 100) / 100,
-      });
+      };
     }
     
     // Mutate phaser/flanger
     if (onPhaserFlangerSettingsRandomize && phaserFlangerSettings) {
-      onPhaserFlangerSettingsRandomize({
+      result.phaserFlangerSettings = {
         phaser: {
           ...phaserFlangerSettings.phaser,
           rate: Math.round(mutateValue(phaserFlangerSettings.phaser.rate, 0.1, 3) * 10) / 10,
@@ -1109,12 +1211,12 @@ export function RandomizeControls({
           delay: Math.round(mutateValue(phaserFlangerSettings.flanger.delay, 0.5, 5) * 10) / 10,
           mix: Math.round(mutateValue(phaserFlangerSettings.flanger.mix, 0.3, 0.8) * 100) / 100,
         },
-      });
+      };
     }
     
     // Mutate parametric EQ (subtle tonal adjustments)
     if (onEqSettingsRandomize && eqSettings) {
-      onEqSettingsRandomize({
+      result.parametricEQSettings = {
         ...eqSettings,
         lowBand: {
           ...eqSettings.lowBand,
@@ -1134,17 +1236,17 @@ export function RandomizeControls({
           gain: Math.round(mutateValue(eqSettings.highBand.gain, -6, 6) * 10) / 10,
           q: Math.round(mutateValue(eqSettings.highBand.q, 0.3, 1.5) * 10) / 10,
         },
-      });
+      };
     }
     
     // Mutate parallel processing (dry/wet balance)
     if (onParallelProcessingSettingsRandomize && parallelProcessingSettings) {
-      onParallelProcessingSettingsRandomize({
+      result.parallelProcessingSettings = {
         ...parallelProcessingSettings,
         dryWetMix: Math.round(mutateValue(parallelProcessingSettings.dryWetMix, 0.3, 0.7) * 100) / 100,
         dryGain: Math.round(mutateValue(parallelProcessingSettings.dryGain, -6, 6) * 10) / 10,
         wetGain: Math.round(mutateValue(parallelProcessingSettings.wetGain, -6, 6) * 10) / 10,
-      });
+      };
     }
     
     // Mutate curve modulator (subtle shape changes, keep structure)
@@ -1155,12 +1257,12 @@ export function RandomizeControls({
           ? p.y // Keep endpoints
           : Math.max(0, Math.min(1, p.y + (Math.random() - 0.5) * strength)),
       }));
-      onCurveModulatorSettingsRandomize({
+      result.curveModulatorSettings = {
         ...curveModulatorSettings,
         points: mutatedPoints,
         duration: Math.round(mutateValue(curveModulatorSettings.duration, 0.1, 2) * 100) / 100,
         smoothing: Math.round(mutateValue(curveModulatorSettings.smoothing, 0.2, 0.8) * 100) / 100,
-      });
+      };
     }
     
     // Mutate step sequencer (subtle step value changes)
@@ -1168,13 +1270,15 @@ export function RandomizeControls({
       const mutatedSteps = stepSequencerSettings.steps.map(s =>
         Math.max(0, Math.min(1, s + (Math.random() - 0.5) * strength * 0.5))
       );
-      onStepSequencerSettingsRandomize({
+      result.stepSequencerSettings = {
         ...stepSequencerSettings,
         steps: mutatedSteps,
         smoothing: Math.round(mutateValue(stepSequencerSettings.smoothing, 0, 0.5) * 100) / 100,
         swing: Math.round(mutateValue(stepSequencerSettings.swing, 0, 0.3) * 100) / 100,
-      });
+      };
     }
+
+    applyResult(result);
   };
 
   const reset = () => {
@@ -1184,15 +1288,27 @@ export function RandomizeControls({
   return (
     <div className="flex items-center gap-1 flex-wrap" data-testid="randomize-controls">
       <div className="flex items-center gap-1">
+        <Select value={profileId} onValueChange={(v) => handleProfileChange(v as RandomizeProfileId)}>
+          <SelectTrigger className="h-6 text-[10px] w-16" title={lastCheck ?? "Randomize target"} data-testid="select-randomize-profile">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RANDOMIZE_PROFILES.map(profile => (
+              <SelectItem key={profile.id} value={profile.id} className="text-[10px]">{profile.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
         <Button
           onClick={randomizeAll}
+          disabled={isSearching}
           variant="secondary"
           size="sm"
           className="h-6 text-[10px] px-2"
+          title={lastCheck ?? undefined}
           data-testid="button-randomize"
         >
           <Dices className="w-3 h-3 mr-1" />
-          Rand
+          {isSearching ? "..." : "Rand"}
         </Button>
         <div className="flex items-center gap-1 px-1">
           <span className="text-[9px] text-muted-foreground whitespace-nowrap">Chaos</span>
@@ -1233,6 +1349,7 @@ export function RandomizeControls({
           <span className="text-[9px] text-muted-foreground w-6">{variationAmount}%</span>
         </div>
       </div>
+      <LockMenu />
       <Button
         onClick={reset}
         variant="ghost"
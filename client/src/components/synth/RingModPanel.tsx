@@ -40,6 +40,7 @@ export function RingModPanel({ settings, onChange }: RingModPanelProps) {
             step={10}
             label="Freq"
             unit="Hz"
+            lockKey="freqHz"
             onChange={(v) => update("freqHz", v)}
             accentColor="primary"
             size="xs"
@@ -52,6 +53,7 @@ export function RingModPanel({ settings, onChange }: RingModPanelProps) {
             step={1}
             label="Depth"
             unit="%"
+            lockKey="depth"
             onChange={(v) => update("depth", v)}
             accentColor="accent"
             size="xs"
@@ -64,6 +66,7 @@ export function RingModPanel({ settings, onChange }: RingModPanelProps) {
             step={1}
             label="Mix"
             unit="%"
+            lockKey="mix"
             onChange={(v) => update("mix", v)}
             accentColor="accent"
             size="xs"
@@ -100,6 +103,7 @@ export function RingModPanel({ settings, onChange }: RingModPanelProps) {
               step={1}
               label="A"
               unit="ms"
+              lockKey="envAttack"
               onChange={(v) => update("envAttack", v)}
               accentColor="primary"
               size="xs"
@@ -112,6 +116,7 @@ export function RingModPanel({ settings, onChange }: RingModPanelProps) {
               step={1}
               label="H"
               unit="ms"
+              lockKey="envHold"
               onChange={(v) => update("envHold", v)}
               accentColor="primary"
               size="xs"
@@ -124,6 +129,7 @@ export function RingModPanel({ settings, onChange }: RingModPanelProps) {
               step={10}
               label="D"
               unit="ms"
+              lockKey="envDecay"
               onChange={(v) => update("envDecay", v)}
               accentColor="primary"
               size="xs"
@@ -140,6 +146,7 @@ export function RingModPanel({ settings, onChange }: RingModPanelProps) {
             step={10}
             label="HP"
             unit="Hz"
+            lockKey="hpHz"
             onChange={(v) => update("hpHz", v)}
             accentColor="accent"
             size="xs"
@@ -152,6 +159,7 @@ export function RingModPanel({ settings, onChange }: RingModPanelProps) {
             step={100}
             label="LP"
             unit="Hz"
+            lockKey="lpHz"
             onChange={(v) => update("lpHz", v)}
             accentColor="accent"
             size="xs"
@@ -164,6 +172,7 @@ export function RingModPanel({ settings, onChange }: RingModPanelProps) {
             step={1}
             label="Level"
             unit="%"
+            lockKey="outputLevel"
             onChange={(v) => update("outputLevel", v)}
             accentColor="primary"
             size="xs"
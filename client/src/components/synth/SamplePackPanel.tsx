@@ -0,0 +1,222 @@
+import { useState, useMemo } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { factoryPresets } from "@shared/schema";
+import { Package } from "lucide-react";
+import type { FullSynthSettings } from "@/lib/fullPreset";
+import { restorePresetAssets } from "@/lib/fullPreset";
+import { usePresetSearch, recordPresetUsage } from "@/hooks/use-presets";
+import { migratePresetSettings } from "@/lib/presetMigration";
+import { midiToNoteName } from "@/lib/noteTrigger";
+import type { PackPreset } from "@/lib/packExport";
+
+interface SamplePackPanelProps {
+  currentSettings: FullSynthSettings;
+  takesPerNote: number; // Round-robin variations per note
+  onExportPack: (presets: PackPreset[], notes: number[], packName: string, samplerMapping: boolean) => void;
+  isExporting: boolean;
+  progress: { done: number; total: number } | null;
+}
+
+const CURRENT_ID = "current";
+const NOTE_OPTIONS = Array.from({ length: 73 }, (_, i) => 24 + i); // C1-C7
+const STEP_OPTIONS = [
+  { value: "1", label: "Chromatic" },
+  { value: "2", label: "Whole tone" },
+  { value: "3", label: "Minor 3rd" },
+  { value: "4", label: "Major 3rd" },
+  { value: "6", label: "Tritone" },
+  { value: "12", label: "Octave" },
+];
+
+interface PackSource {
+  id: string;
+  name: string;
+  settings: unknown;
+  sharedId?: number; // Shared presets count pack exports toward their usage
+}
+
+export function SamplePackPanel({ currentSettings, takesPerNote, onExportPack, isExporting, progress }: SamplePackPanelProps) {
+  const { presets: dbPresets, hasNextPage, fetchNextPage, isFetchingNextPage } = usePresetSearch();
+
+  const [packName, setPackName] = useState("OneShot Pack");
+  const [selected, setSelected] = useState<string[]>([CURRENT_ID]);
+  const [lowNote, setLowNote] = useState(48); // C3
+  const [highNote, setHighNote] = useState(60); // C4
+  const [step, setStep] = useState(12);
+  const [samplerMapping, setSamplerMapping] = useState(false);
+
+  const sources = useMemo<PackSource[]>(() => [
+    { id: CURRENT_ID, name: "Current Patch", settings: currentSettings },
+    ...factoryPresets.map((p, i) => ({ id: `factory-${i}`, name: p.name, settings: { params: p.parameters } })),
+    ...dbPresets.map(p => ({ id: `user-${p.id}`, name: p.name, settings: p.settings, sharedId: p.id })),
+  ], [currentSettings, dbPresets]);
+
+  const notes = useMemo(() => {
+    const result: number[] = [];
+    for (let note = Math.min(lowNote, highNote); note <= Math.max(lowNote, highNote); note += step) {
+      result.push(note);
+    }
+    return result;
+  }, [lowNote, highNote, step]);
+
+  const fileCount = selected.length * notes.length * takesPerNote;
+
+  const toggle = (id: string, checked: boolean) => {
+    setSelected(prev => checked ? [...prev, id] : prev.filter(s => s !== id));
+  };
+
+  // Presets are upgraded and their embedded assets installed the same way loading does
+  const handleExport = () => {
+    const presets: PackPreset[] = [];
+    const sharedIds: number[] = [];
+    for (const source of sources) {
+      if (!selected.includes(source.id)) continue;
+      const migration = migratePresetSettings(source.settings);
+      if (!migration) {
+        console.warn(`Skipping unreadable preset "${source.name}"`);
+        continue;
+      }
+      restorePresetAssets(migration.settings);
+      presets.push({ name: source.name, settings: migration.settings });
+      if (source.sharedId !== undefined) sharedIds.push(source.sharedId);
+    }
+    if (presets.length > 0 && notes.length > 0) {
+      onExportPack(presets, notes, packName.trim() || "OneShot Pack", samplerMapping);
+      sharedIds.forEach(id => recordPresetUsage(id, "export"));
+    }
+  };
+
+  const noteSelect = (value: number, onChange: (note: number) => void, testId: string) => (
+    <Select value={String(value)} onValueChange={(v) => onChange(parseInt(v))}>
+      <SelectTrigger className="h-6 text-[10px]" data-testid={testId}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {NOTE_OPTIONS.map(note => (
+          <SelectItem key={note} value={String(note)}>{midiToNoteName(note)}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Card className="synth-panel" data-testid="panel-sample-pack">
+      <CardHeader className="pb-1 pt-2 px-2">
+        <CardTitle className="flex items-center gap-1 text-xs font-medium">
+          <Package className="w-3 h-3 text-accent" />
+          Sample Pack
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2 px-2 pb-2 pt-0">
+        <Input
+          value={packName}
+          onChange={(e) => setPackName(e.target.value)}
+          placeholder="Pack name..."
+          className="h-6 text-[10px]"
+          data-testid="input-pack-name"
+        />
+
+        <ScrollArea className="h-[120px] rounded border border-border/50">
+          <div className="space-y-1 p-1.5">
+            {sources.map(source => (
+              <div key={source.id} className="flex items-center gap-2">
+                <Checkbox
+                  id={`pack-${source.id}`}
+                  checked={selected.includes(source.id)}
+                  onCheckedChange={(checked) => toggle(source.id, checked === true)}
+                  data-testid={`checkbox-pack-${source.id}`}
+                />
+                <Label htmlFor={`pack-${source.id}`} className="text-[10px] cursor-pointer truncate">
+                  {source.name}
+                </Label>
+              </div>
+            ))}
+            {hasNextPage && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-5 w-full text-[10px] text-muted-foreground"
+                onClick={() => fetchNextPage()}
+                disabled={isFetchingNextPage}
+                data-testid="button-pack-load-more"
+              >
+                {isFetchingNextPage ? "Loading..." : "Load more presets"}
+              </Button>
+            )}
+          </div>
+        </ScrollArea>
+
+        <div className="grid grid-cols-3 gap-1.5">
+          <div className="space-y-0.5">
+            <Label className="text-[10px] text-muted-foreground">From</Label>
+            {noteSelect(lowNote, setLowNote, "select-pack-low-note")}
+          </div>
+          <div className="space-y-0.5">
+            <Label className="text-[10px] text-muted-foreground">To</Label>
+            {noteSelect(highNote, setHighNote, "select-pack-high-note")}
+          </div>
+          <div className="space-y-0.5">
+            <Label className="text-[10px] text-muted-foreground">Step</Label>
+            <Select value={String(step)} onValueChange={(v) => setStep(parseInt(v))}>
+              <SelectTrigger className="h-6 text-[10px]" data-testid="select-pack-step">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {STEP_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="pack-sampler-mapping"
+            checked={samplerMapping}
+            onCheckedChange={(checked) => setSamplerMapping(checked === true)}
+            data-testid="checkbox-pack-sampler-mapping"
+          />
+          <Label htmlFor="pack-sampler-mapping" className="text-[10px] cursor-pointer">
+            SFZ + Decent Sampler mapping
+          </Label>
+        </div>
+
+        <p className="text-[10px] text-muted-foreground">
+          {selected.length} preset{selected.length === 1 ? "" : "s"} × {notes.length} note{notes.length === 1 ? "" : "s"} × {takesPerNote} RR = {fileCount} files
+        </p>
+
+        {isExporting && progress && (
+          <Progress value={progress.total > 0 ? (progress.done / progress.total) * 100 : 0} className="h-1" />
+        )}
+
+        <Button
+          onClick={handleExport}
+          disabled={isExporting || fileCount === 0}
+          size="sm"
+          className="w-full h-6 text-[10px] glow-accent"
+          data-testid="button-export-pack"
+        >
+          {isExporting ? (
+            <>
+              <div className="w-3 h-3 mr-1 border-2 border-current border-t-transparent rounded-full animate-spin" />
+              {progress ? `${progress.done}/${progress.total}` : "..."}
+            </>
+          ) : (
+            <>
+              <Package className="w-3 h-3 mr-1" />
+              Export ZIP
+            </>
+          )}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -49,6 +49,7 @@ export function SaturationChainPanel({ saturation, onChange }: SaturationChainPa
               step={1}
               label="Drive"
               unit="%"
+              lockKey="tapeDrive"
               onChange={(v) => update("tapeDrive", v)}
               accentColor="primary"
               size="xs"
@@ -61,6 +62,7 @@ export function SaturationChainPanel({ saturation, onChange }: SaturationChainPa
               step={1}
               label="Warmth"
               unit="%"
+              lockKey="tapeWarmth"
               onChange={(v) => update("tapeWarmth", v)}
               accentColor="primary"
               size="xs"
@@ -86,6 +88,7 @@ export function SaturationChainPanel({ saturation, onChange }: SaturationChainPa
               step={1}
               label="Drive"
               unit="%"
+              lockKey="tubeDrive"
               onChange={(v) => update("tubeDrive", v)}
               accentColor="primary"
               size="xs"
@@ -98,6 +101,7 @@ export function SaturationChainPanel({ saturation, onChange }: SaturationChainPa
               step={1}
               label="Bias"
               unit="%"
+              lockKey="tubeBias"
               onChange={(v) => update("tubeBias", v)}
               accentColor="primary"
               size="xs"
@@ -123,6 +127,7 @@ export function SaturationChainPanel({ saturation, onChange }: SaturationChainPa
               step={1}
               label="Drive"
               unit="%"
+              lockKey="transistorDrive"
               onChange={(v) => update("transistorDrive", v)}
               accentColor="accent"
               size="xs"
@@ -135,6 +140,7 @@ export function SaturationChainPanel({ saturation, onChange }: SaturationChainPa
               step={1}
               label="Asym"
               unit="%"
+              lockKey="transistorAsymmetry"
               onChange={(v) => update("transistorAsymmetry", v)}
               accentColor="accent"
               size="xs"
@@ -150,6 +156,7 @@ export function SaturationChainPanel({ saturation, onChange }: SaturationChainPa
             step={1}
             label="Mix"
             unit="%"
+            lockKey="mix"
             onChange={(v) => update("mix", v)}
             accentColor="primary"
             size="xs"
@@ -15,6 +15,7 @@ import {
   randomizeStepSequencerSettings,
 } from "@/lib/stepSequencerSettings";
 import { Shuffle, RotateCcw } from "lucide-react";
+import { useApplyLocks } from "@/contexts/ParameterLockContext";
 
 interface StepSequencerPanelProps {
   settings: StepSequencerSettings;
@@ -39,8 +40,10 @@ export function StepSequencerPanel({ settings, onChange }: StepSequencerPanelPro
     onChange({ ...settings, steps });
   };
 
+  const withLocks = useApplyLocks();
+
   const randomize = () => {
-    onChange(randomizeStepSequencerSettings());
+    onChange(withLocks(randomizeStepSequencerSettings(), settings));
   };
 
   const rates = [
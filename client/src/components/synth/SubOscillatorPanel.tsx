@@ -82,6 +82,7 @@ export function SubOscillatorPanel({ subOsc, onChange }: SubOscillatorPanelProps
             step={1}
             label="Level"
             unit="%"
+            lockKey="level"
             onChange={(v) => update("level", v)}
             accentColor="accent"
             size="xs"
@@ -94,6 +95,7 @@ export function SubOscillatorPanel({ subOsc, onChange }: SubOscillatorPanelProps
             step={1}
             label="Attack"
             unit="ms"
+            lockKey="attack"
             onChange={(v) => update("attack", v)}
             accentColor="accent"
             size="xs"
@@ -105,6 +107,7 @@ export function SubOscillatorPanel({ subOsc, onChange }: SubOscillatorPanelProps
             step={10}
             label="Decay"
             unit="ms"
+            lockKey="decay"
             onChange={(v) => update("decay", v)}
             accentColor="accent"
             size="xs"
@@ -117,6 +120,7 @@ export function SubOscillatorPanel({ subOsc, onChange }: SubOscillatorPanelProps
             step={1}
             label="Drive"
             unit="%"
+            lockKey="drive"
             onChange={(v) => update("drive", v)}
             accentColor="accent"
             size="xs"
@@ -151,6 +155,7 @@ export function SubOscillatorPanel({ subOsc, onChange }: SubOscillatorPanelProps
               step={1}
               label="HP"
               unit="Hz"
+              lockKey="hpFreq"
               onChange={(v) => update("hpFreq", v)}
               accentColor="accent"
               size="xs"
@@ -162,6 +167,7 @@ export function SubOscillatorPanel({ subOsc, onChange }: SubOscillatorPanelProps
               step={5}
               label="LP"
               unit="Hz"
+              lockKey="filterFreq"
               onChange={(v) => update("filterFreq", v)}
               accentColor="accent"
               size="xs"
@@ -3,6 +3,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Switch } from "@/components/ui/switch";
 import { Knob } from "./Knob";
+import { LockScope } from "@/contexts/ParameterLockContext";
 import type { SynthParameters, ModalExciterType } from "@shared/schema";
 import { Sparkles } from "lucide-react";
 
@@ -89,10 +90,14 @@ export function SynthEngineSelector({
       <CardContent className="px-2 pb-2 pt-0">
         <div className={`transition-opacity ${!isCurrentEngineEnabled ? 'opacity-50 pointer-events-none' : ''}`}>
           {selectedEngine === "modal" && (
-            <ModalPanelContent modal={modal} onChange={onModalChange} />
+            <LockScope path="params.modal">
+              <ModalPanelContent modal={modal} onChange={onModalChange} />
+            </LockScope>
           )}
           {selectedEngine === "additive" && (
-            <AdditivePanelContent additive={additive} onChange={onAdditiveChange} />
+            <LockScope path="params.additive">
+              <AdditivePanelContent additive={additive} onChange={onAdditiveChange} />
+            </LockScope>
           )}
         </div>
       </CardContent>
@@ -104,13 +109,13 @@ function ModalPanelContent({ modal, onChange }: { modal: SynthParameters["modal"
   return (
     <div className="space-y-1.5">
       <div className="flex justify-center gap-1">
-        <Knob value={modal.basePitch} min={20} max={2000} step={1} label="Pit" unit="Hz" onChange={(v) => onChange({ ...modal, basePitch: v })} logarithmic accentColor="accent" size="xs" data-testid="knob-modal-pitch" />
-        <Knob value={modal.modeCount} min={1} max={4} step={1} label="Mds" onChange={(v) => onChange({ ...modal, modeCount: v })} size="xs" data-testid="knob-modal-count" />
-        <Knob value={modal.inharmonicity} min={0} max={100} step={1} label="Inh" unit="%" onChange={(v) => onChange({ ...modal, inharmonicity: v })} size="xs" data-testid="knob-modal-inharmonicity" />
+        <Knob value={modal.basePitch} min={20} max={2000} step={1} label="Pit" unit="Hz" lockKey="basePitch" onChange={(v) => onChange({ ...modal, basePitch: v })} logarithmic accentColor="accent" size="xs" data-testid="knob-modal-pitch" />
+        <Knob value={modal.modeCount} min={1} max={4} step={1} label="Mds" lockKey="modeCount" onChange={(v) => onChange({ ...modal, modeCount: v })} size="xs" data-testid="knob-modal-count" />
+        <Knob value={modal.inharmonicity} min={0} max={100} step={1} label="Inh" unit="%" lockKey="inharmonicity" onChange={(v) => onChange({ ...modal, inharmonicity: v })} size="xs" data-testid="knob-modal-inharmonicity" />
       </div>
       <div className="flex justify-center gap-1">
-        <Knob value={modal.impactNoise} min={0} max={100} step={1} label="Nse" unit="%" onChange={(v) => onChange({ ...modal, impactNoise: v })} size="xs" data-testid="knob-modal-noise" />
-        <Knob value={modal.impactDecay} min={1} max={100} step={1} label="Imp" unit="ms" onChange={(v) => onChange({ ...modal, impactDecay: v })} size="xs" data-testid="knob-modal-impact" />
+        <Knob value={modal.impactNoise} min={0} max={100} step={1} label="Nse" unit="%" lockKey="impactNoise" onChange={(v) => onChange({ ...modal, impactNoise: v })} size="xs" data-testid="knob-modal-noise" />
+        <Knob value={modal.impactDecay} min={1} max={100} step={1} label="Imp" unit="ms" lockKey="impactDecay" onChange={(v) => onChange({ ...modal, impactDecay: v })} size="xs" data-testid="knob-modal-impact" />
       </div>
       <Select
         value={modal.exciterType}
@@ -134,8 +139,8 @@ function ModalPanelContent({ modal, onChange }: { modal: SynthParameters["modal"
           return (
             <div key={modeKey} className={`flex flex-col items-center gap-0.5 p-0.5 rounded bg-muted/30 ${!isActive ? 'opacity-30' : ''}`}>
               <span className="text-[8px] text-muted-foreground">M{i + 1}</span>
-              <Knob value={mode.ratio} min={0.5} max={16} step={0.1} label="R" onChange={(v) => onChange({ ...modal, modes: { ...modal.modes, [modeKey]: { ...mode, ratio: v } } })} size="xs" />
-              <Knob value={mode.level} min={0} max={100} step={1} label="L" unit="%" onChange={(v) => onChange({ ...modal, modes: { ...modal.modes, [modeKey]: { ...mode, level: v } } })} size="xs" />
+              <Knob value={mode.ratio} min={0.5} max={16} step={0.1} label="R" lockKey={`modes.${modeKey}.ratio`} onChange={(v) => onChange({ ...modal, modes: { ...modal.modes, [modeKey]: { ...mode, ratio: v } } })} size="xs" />
+              <Knob value={mode.level} min={0} max={100} step={1} label="L" unit="%" lockKey={`modes.${modeKey}.ratio`} onChange={(v) => onChange({ ...modal, modes: { ...modal.modes, [modeKey]: { ...mode, level: v } } })} size="xs" />
             </div>
           );
         })}
@@ -148,13 +153,13 @@ function AdditivePanelContent({ additive, onChange }: { additive: SynthParameter
   return (
     <div className="space-y-1.5">
       <div className="flex justify-center gap-1">
-        <Knob value={additive.basePitch} min={20} max={2000} step={1} label="Pit" unit="Hz" onChange={(v) => onChange({ ...additive, basePitch: v })} logarithmic accentColor="accent" size="xs" data-testid="knob-additive-pitch" />
-        <Knob value={additive.partialCount} min={1} max={8} step={1} label="Cnt" onChange={(v) => onChange({ ...additive, partialCount: v })} size="xs" data-testid="knob-additive-count" />
-        <Knob value={additive.randomness} min={0} max={100} step={1} label="Rnd" unit="%" onChange={(v) => onChange({ ...additive, randomness: v })} size="xs" data-testid="knob-additive-random" />
+        <Knob value={additive.basePitch} min={20} max={2000} step={1} label="Pit" unit="Hz" lockKey="basePitch" onChange={(v) => onChange({ ...additive, basePitch: v })} logarithmic accentColor="accent" size="xs" data-testid="knob-additive-pitch" />
+        <Knob value={additive.partialCount} min={1} max={8} step={1} label="Cnt" lockKey="partialCount" onChange={(v) => onChange({ ...additive, partialCount: v })} size="xs" data-testid="knob-additive-count" />
+        <Knob value={additive.randomness} min={0} max={100} step={1} label="Rnd" unit="%" lockKey="randomness" onChange={(v) => onChange({ ...additive, randomness: v })} size="xs" data-testid="knob-additive-random" />
       </div>
       <div className="flex justify-center gap-1">
-        <Knob value={additive.spread} min={0} max={100} step={1} label="Str" unit="%" onChange={(v) => onChange({ ...additive, spread: v })} size="xs" data-testid="knob-additive-spread" />
-        <Knob value={additive.decaySlope} min={0} max={100} step={1} label="Dec" unit="%" onChange={(v) => onChange({ ...additive, decaySlope: v })} size="xs" data-testid="knob-additive-slope" />
+        <Knob value={additive.spread} min={0} max={100} step={1} label="Str" unit="%" lockKey="spread" onChange={(v) => onChange({ ...additive, spread: v })} size="xs" data-testid="knob-additive-spread" />
+        <Knob value={additive.decaySlope} min={0} max={100} step={1} label="Dec" unit="%" lockKey="decaySlope" onChange={(v) => onChange({ ...additive, decaySlope: v })} size="xs" data-testid="knob-additive-slope" />
       </div>
       <div className="text-[9px] text-muted-foreground text-center">Partials</div>
       <div className="grid grid-cols-4 sm:grid-cols-8 gap-0.5">
@@ -164,7 +169,7 @@ function AdditivePanelContent({ additive, onChange }: { additive: SynthParameter
           return (
             <div key={pKey} className={`flex flex-col items-center gap-0.5 ${!isActive ? 'opacity-30' : ''}`}>
               <span className="text-[8px] text-muted-foreground">{i + 1}</span>
-              <Knob value={partial.level} min={0} max={100} step={1} label="" onChange={(v) => onChange({ ...additive, partials: { ...additive.partials, [pKey]: { ...partial, level: v } } })} size="xs" />
+              <Knob value={partial.level} min={0} max={100} step={1} label="" lockKey={`partials.${pKey}.level`} onChange={(v) => onChange({ ...additive, partials: { ...additive.partials, [pKey]: { ...partial, level: v } } })} size="xs" />
             </div>
           );
         })}
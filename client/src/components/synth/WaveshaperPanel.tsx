@@ -3,6 +3,7 @@ import { Switch } from "@/components/ui/switch";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Knob } from "./Knob";
+import { LockScope, useApplyLocks } from "@/contexts/ParameterLockContext";
 import { CollapsiblePanel } from "./CollapsiblePanel";
 import type { Waveshaper, WaveshaperCurve } from "@shared/schema";
 import { Zap, ChevronDown, ChevronUp, Shuffle, Pencil } from "lucide-react";
@@ -84,13 +85,15 @@ export function WaveshaperPanel({ waveshaper, onChange, advancedSettings, onAdva
     onAdvancedChange?.(newSettings);
   };
 
+  const withLocks = useApplyLocks();
+
   const handleRandomize = () => {
     const randomAdvanced = randomizeAdvancedWaveshaperSettings(50);
-    const newSettings = { 
+    const newSettings = withLocks({ 
       ...localAdvanced, 
       ...randomAdvanced,
       multiband: { ...localAdvanced.multiband, ...randomAdvanced.multiband }
-    };
+    }, localAdvanced, "advancedWaveshaperSettings");
     setLocalAdvanced(newSettings);
     saveAdvancedWaveshaperSettings(newSettings);
     onAdvancedChange?.(newSettings);
@@ -173,6 +176,7 @@ export function WaveshaperPanel({ waveshaper, onChange, advancedSettings, onAdva
               step={1}
               label="Drive"
               unit="%"
+              lockKey="drive"
               onChange={(v) => updateWaveshaper("drive", v)}
               accentColor="primary"
               size="xs"
@@ -185,6 +189,7 @@ export function WaveshaperPanel({ waveshaper, onChange, advancedSettings, onAdva
               step={1}
               label="Mix"
               unit="%"
+              lockKey="mix"
               onChange={(v) => updateWaveshaper("mix", v)}
               accentColor="accent"
               size="xs"
@@ -211,6 +216,7 @@ export function WaveshaperPanel({ waveshaper, onChange, advancedSettings, onAdva
                   step={1}
                   label="Freq"
                   unit="Hz"
+                  lockKey="preFilterFreq"
                   onChange={(v) => updateWaveshaper("preFilterFreq", v)}
                   logarithmic
                   size="xs"
@@ -237,6 +243,7 @@ export function WaveshaperPanel({ waveshaper, onChange, advancedSettings, onAdva
                   step={1}
                   label="Freq"
                   unit="Hz"
+                  lockKey="postFilterFreq"
                   onChange={(v) => updateWaveshaper("postFilterFreq", v)}
                   logarithmic
                   size="xs"
@@ -257,335 +264,339 @@ export function WaveshaperPanel({ waveshaper, onChange, advancedSettings, onAdva
           </Button>
 
           {showAdvanced && (
-            <div className="space-y-2 pt-1 border-t border-border/50">
-              <div className="space-y-1">
-                <div className="flex items-center justify-between">
-                  <span className="text-[9px] text-muted-foreground font-medium">Asymmetric</span>
-                  <Switch
-                    checked={localAdvanced.asymmetricEnabled}
-                    onCheckedChange={(v) => updateAdvanced("asymmetricEnabled", v)}
-                    className="scale-50"
-                    data-testid="switch-asymmetric"
-                  />
+            <LockScope path="advancedWaveshaperSettings">
+              <div className="space-y-2 pt-1 border-t border-border/50">
+                <div className="space-y-1">
+                  <div className="flex items-center justify-between">
+                    <span className="text-[9px] text-muted-foreground font-medium">Asymmetric</span>
+                    <Switch
+                      checked={localAdvanced.asymmetricEnabled}
+                      onCheckedChange={(v) => updateAdvanced("asymmetricEnabled", v)}
+                      className="scale-50"
+                      data-testid="switch-asymmetric"
+                    />
+                  </div>
+                  {localAdvanced.asymmetricEnabled && (
+                    <div className="space-y-1">
+                      <div className="flex gap-1">
+                        <div className="flex-1">
+                          <span className="text-[8px] text-muted-foreground">+ Curve</span>
+                          <Select
+                            value={localAdvanced.positiveCurve}
+                            onValueChange={(v) => updateAdvanced("positiveCurve", v as WaveshaperBandCurve)}
+                          >
+                            <SelectTrigger className="h-5 text-[9px]" data-testid="select-pos-curve">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {bandCurveOptions.map((opt) => (
+                                <SelectItem key={opt.value} value={opt.value} className="text-[9px]">
+                                  {opt.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="flex-1">
+                          <span className="text-[8px] text-muted-foreground">- Curve</span>
+                          <Select
+                            value={localAdvanced.negativeCurve}
+                            onValueChange={(v) => updateAdvanced("negativeCurve", v as WaveshaperBandCurve)}
+                          >
+                            <SelectTrigger className="h-5 text-[9px]" data-testid="select-neg-curve">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {bandCurveOptions.map((opt) => (
+                                <SelectItem key={opt.value} value={opt.value} className="text-[9px]">
+                                  {opt.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      </div>
+                      <div className="flex justify-center gap-1">
+                        <Knob
+                          value={localAdvanced.positiveAmount}
+                          min={0}
+                          max={100}
+                          step={1}
+                          label="+Amt"
+                          unit="%"
+                          lockKey="positiveAmount"
+                          onChange={(v) => updateAdvanced("positiveAmount", v)}
+                          size="xs"
+                        />
+                        <Knob
+                          value={localAdvanced.negativeAmount}
+                          min={0}
+                          max={100}
+                          step={1}
+                          label="-Amt"
+                          unit="%"
+                          lockKey="negativeAmount"
+                          onChange={(v) => updateAdvanced("negativeAmount", v)}
+                          size="xs"
+                        />
+                        <Knob
+                          value={localAdvanced.dcOffset}
+                          min={-50}
+                          max={50}
+                          step={1}
+                          label="DC"
+                          unit="%"
+                          lockKey="dcOffset"
+                          onChange={(v) => updateAdvanced("dcOffset", v)}
+                          size="xs"
+                        />
+                      </div>
+                    </div>
+                  )}
                 </div>
-                {localAdvanced.asymmetricEnabled && (
-                  <div className="space-y-1">
-                    <div className="flex gap-1">
-                      <div className="flex-1">
-                        <span className="text-[8px] text-muted-foreground">+ Curve</span>
-                        <Select
-                          value={localAdvanced.positiveCurve}
-                          onValueChange={(v) => updateAdvanced("positiveCurve", v as WaveshaperBandCurve)}
-                        >
-                          <SelectTrigger className="h-5 text-[9px]" data-testid="select-pos-curve">
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent>
-                            {bandCurveOptions.map((opt) => (
-                              <SelectItem key={opt.value} value={opt.value} className="text-[9px]">
-                                {opt.label}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
+
+                <div className="space-y-1">
+                  <div className="flex items-center justify-between">
+                    <span className="text-[9px] text-muted-foreground font-medium">Multiband</span>
+                    <Switch
+                      checked={localAdvanced.multiband.enabled}
+                      onCheckedChange={(v) => updateMultiband("enabled", v)}
+                      className="scale-50"
+                      data-testid="switch-multiband"
+                    />
+                  </div>
+                  {localAdvanced.multiband.enabled && (
+                    <div className="space-y-1">
+                      <div className="flex justify-center gap-1">
+                        <Knob
+                          value={localAdvanced.multiband.lowCrossover}
+                          min={20}
+                          max={500}
+                          step={10}
+                          label="LoCut"
+                          unit="Hz"
+                          lockKey="multiband.lowCrossover"
+                          onChange={(v) => updateMultiband("lowCrossover", v)}
+                          size="xs"
+                        />
+                        <Knob
+                          value={localAdvanced.multiband.highCrossover}
+                          min={1000}
+                          max={10000}
+                          step={100}
+                          label="HiCut"
+                          unit="Hz"
+                          lockKey="multiband.highCrossover"
+                          onChange={(v) => updateMultiband("highCrossover", v)}
+                          size="xs"
+                        />
                       </div>
-                      <div className="flex-1">
-                        <span className="text-[8px] text-muted-foreground">- Curve</span>
-                        <Select
-                          value={localAdvanced.negativeCurve}
-                          onValueChange={(v) => updateAdvanced("negativeCurve", v as WaveshaperBandCurve)}
-                        >
-                          <SelectTrigger className="h-5 text-[9px]" data-testid="select-neg-curve">
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent>
-                            {bandCurveOptions.map((opt) => (
-                              <SelectItem key={opt.value} value={opt.value} className="text-[9px]">
-                                {opt.label}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
+                      <div className="grid grid-cols-3 gap-1">
+                        <div className="text-center">
+                          <span className="text-[8px] text-muted-foreground">Low</span>
+                          <Select
+                            value={localAdvanced.multiband.lowCurve}
+                            onValueChange={(v) => updateMultiband("lowCurve", v)}
+                          >
+                            <SelectTrigger className="h-5 text-[8px]" data-testid="select-low-curve">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {bandCurveOptions.map((opt) => (
+                                <SelectItem key={opt.value} value={opt.value} className="text-[9px]">
+                                  {opt.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <div className="flex justify-center mt-1">
+                            <Knob
+                              value={localAdvanced.multiband.lowDrive}
+                              min={0}
+                              max={100}
+                              step={1}
+                              label=""
+                              unit="%"
+                              lockKey="multiband.lowDrive"
+                              onChange={(v) => updateMultiband("lowDrive", v)}
+                              size="xs"
+                            />
+                          </div>
+                        </div>
+                        <div className="text-center">
+                          <span className="text-[8px] text-muted-foreground">Mid</span>
+                          <Select
+                            value={localAdvanced.multiband.midCurve}
+                            onValueChange={(v) => updateMultiband("midCurve", v)}
+                          >
+                            <SelectTrigger className="h-5 text-[8px]" data-testid="select-mid-curve">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {bandCurveOptions.map((opt) => (
+                                <SelectItem key={opt.value} value={opt.value} className="text-[9px]">
+                                  {opt.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <div className="flex justify-center mt-1">
+                            <Knob
+                              value={localAdvanced.multiband.midDrive}
+                              min={0}
+                              max={100}
+                              step={1}
+                              label=""
+                              unit="%"
+                              lockKey="multiband.midDrive"
+                              onChange={(v) => updateMultiband("midDrive", v)}
+                              size="xs"
+                            />
+                          </div>
+                        </div>
+                        <div className="text-center">
+                          <span className="text-[8px] text-muted-foreground">High</span>
+                          <Select
+                            value={localAdvanced.multiband.highCurve}
+                            onValueChange={(v) => updateMultiband("highCurve", v)}
+                          >
+                            <SelectTrigger className="h-5 text-[8px]" data-testid="select-high-curve">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {bandCurveOptions.map((opt) => (
+                                <SelectItem key={opt.value} value={opt.value} className="text-[9px]">
+                                  {opt.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <div className="flex justify-center mt-1">
+                            <Knob
+                              value={localAdvanced.multiband.highDrive}
+                              min={0}
+                              max={100}
+                              step={1}
+                              label=""
+                              unit="%"
+                              lockKey="multiband.highDrive"
+                              onChange={(v) => updateMultiband("highDrive", v)}
+                              size="xs"
+                            />
+                          </div>
+                        </div>
                       </div>
                     </div>
+                  )}
+                </div>
+
+                <div className="space-y-1">
+                  <div className="flex items-center justify-between">
+                    <span className="text-[9px] text-muted-foreground font-medium">Dynamic</span>
+                    <Switch
+                      checked={localAdvanced.dynamicEnabled}
+                      onCheckedChange={(v) => updateAdvanced("dynamicEnabled", v)}
+                      className="scale-50"
+                      data-testid="switch-dynamic"
+                    />
+                  </div>
+                  {localAdvanced.dynamicEnabled && (
                     <div className="flex justify-center gap-1">
                       <Knob
-                        value={localAdvanced.positiveAmount}
+                        value={localAdvanced.dynamicSensitivity}
                         min={0}
                         max={100}
                         step={1}
-                        label="+Amt"
+                        label="Sens"
                         unit="%"
-                        onChange={(v) => updateAdvanced("positiveAmount", v)}
+                        lockKey="dynamicSensitivity"
+                        onChange={(v) => updateAdvanced("dynamicSensitivity", v)}
                         size="xs"
-                        modulationPath="waveshaper.positiveAmount"
                       />
                       <Knob
-                        value={localAdvanced.negativeAmount}
-                        min={0}
-                        max={100}
-                        step={1}
-                        label="-Amt"
-                        unit="%"
-                        onChange={(v) => updateAdvanced("negativeAmount", v)}
-                        size="xs"
-                        modulationPath="waveshaper.negativeAmount"
-                      />
-                      <Knob
-                        value={localAdvanced.dcOffset}
-                        min={-50}
-                        max={50}
+                        value={localAdvanced.dynamicAttack}
+                        min={1}
+                        max={500}
                         step={1}
-                        label="DC"
-                        unit="%"
-                        onChange={(v) => updateAdvanced("dcOffset", v)}
+                        label="Atk"
+                        unit="ms"
+                        lockKey="dynamicAttack"
+                        onChange={(v) => updateAdvanced("dynamicAttack", v)}
                         size="xs"
-                        modulationPath="waveshaper.dcOffset"
                       />
-                    </div>
-                  </div>
-                )}
-              </div>
-
-              <div className="space-y-1">
-                <div className="flex items-center justify-between">
-                  <span className="text-[9px] text-muted-foreground font-medium">Multiband</span>
-                  <Switch
-                    checked={localAdvanced.multiband.enabled}
-                    onCheckedChange={(v) => updateMultiband("enabled", v)}
-                    className="scale-50"
-                    data-testid="switch-multiband"
-                  />
-                </div>
-                {localAdvanced.multiband.enabled && (
-                  <div className="space-y-1">
-                    <div className="flex justify-center gap-1">
                       <Knob
-                        value={localAdvanced.multiband.lowCrossover}
-                        min={20}
-                        max={500}
+                        value={localAdvanced.dynamicRelease}
+                        min={10}
+                        max={2000}
                         step={10}
-                        label="LoCut"
-                        unit="Hz"
-                        onChange={(v) => updateMultiband("lowCrossover", v)}
+                        label="Rel"
+                        unit="ms"
+                        lockKey="dynamicRelease"
+                        onChange={(v) => updateAdvanced("dynamicRelease", v)}
                         size="xs"
-                        modulationPath="waveshaper.multiband.lowCrossover"
                       />
-                      <Knob
-                        value={localAdvanced.multiband.highCrossover}
-                        min={1000}
-                        max={10000}
-                        step={100}
-                        label="HiCut"
-                        unit="Hz"
-                        onChange={(v) => updateMultiband("highCrossover", v)}
-                        size="xs"
-                        modulationPath="waveshaper.multiband.highCrossover"
-                      />
-                    </div>
-                    <div className="grid grid-cols-3 gap-1">
-                      <div className="text-center">
-                        <span className="text-[8px] text-muted-foreground">Low</span>
-                        <Select
-                          value={localAdvanced.multiband.lowCurve}
-                          onValueChange={(v) => updateMultiband("lowCurve", v)}
-                        >
-                          <SelectTrigger className="h-5 text-[8px]" data-testid="select-low-curve">
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent>
-                            {bandCurveOptions.map((opt) => (
-                              <SelectItem key={opt.value} value={opt.value} className="text-[9px]">
-                                {opt.label}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                        <div className="flex justify-center mt-1">
-                          <Knob
-                            value={localAdvanced.multiband.lowDrive}
-                            min={0}
-                            max={100}
-                            step={1}
-                            label=""
-                            unit="%"
-                            onChange={(v) => updateMultiband("lowDrive", v)}
-                            size="xs"
-                            modulationPath="waveshaper.multiband.lowDrive"
-                          />
-                        </div>
-                      </div>
-                      <div className="text-center">
-                        <span className="text-[8px] text-muted-foreground">Mid</span>
-                        <Select
-                          value={localAdvanced.multiband.midCurve}
-                          onValueChange={(v) => updateMultiband("midCurve", v)}
-                        >
-                          <SelectTrigger className="h-5 text-[8px]" data-testid="select-mid-curve">
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent>
-                            {bandCurveOptions.map((opt) => (
-                              <SelectItem key={opt.value} value={opt.value} className="text-[9px]">
-                                {opt.label}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                        <div className="flex justify-center mt-1">
-                          <Knob
-                            value={localAdvanced.multiband.midDrive}
-                            min={0}
-                            max={100}
-                            step={1}
-                            label=""
-                            unit="%"
-                            onChange={(v) => updateMultiband("midDrive", v)}
-                            size="xs"
-                            modulationPath="waveshaper.multiband.midDrive"
-                          />
-                        </div>
-                      </div>
-                      <div className="text-center">
-                        <span className="text-[8px] text-muted-foreground">High</span>
-                        <Select
-                          value={localAdvanced.multiband.highCurve}
-                          onValueChange={(v) => updateMultiband("highCurve", v)}
-                        >
-                          <SelectTrigger className="h-5 text-[8px]" data-testid="select-high-curve">
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent>
-                            {bandCurveOptions.map((opt) => (
-                              <SelectItem key={opt.value} value={opt.value} className="text-[9px]">
-                                {opt.label}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                        <div className="flex justify-center mt-1">
-                          <Knob
-                            value={localAdvanced.multiband.highDrive}
-                            min={0}
-                            max={100}
-                            step={1}
-                            label=""
-                            unit="%"
-                            onChange={(v) => updateMultiband("highDrive", v)}
-                            size="xs"
-                            modulationPath="waveshaper.multiband.highDrive"
-                          />
-                        </div>
-                      </div>
                     </div>
-                  </div>
-                )}
-              </div>
+                  )}
+                </div>
 
-              <div className="space-y-1">
-                <div className="flex items-center justify-between">
-                  <span className="text-[9px] text-muted-foreground font-medium">Dynamic</span>
-                  <Switch
-                    checked={localAdvanced.dynamicEnabled}
-                    onCheckedChange={(v) => updateAdvanced("dynamicEnabled", v)}
-                    className="scale-50"
-                    data-testid="switch-dynamic"
+                <div className="flex justify-center gap-1">
+                  <Knob
+                    value={localAdvanced.chebyshevOrder}
+                    min={2}
+                    max={7}
+                    step={1}
+                    label="ChebOrd"
+                    unit=""
+                    lockKey="chebyshevOrder"
+                    onChange={(v) => updateAdvanced("chebyshevOrder", v)}
+                    size="xs"
+                  />
+                  <Knob
+                    value={localAdvanced.foldbackIterations}
+                    min={1}
+                    max={5}
+                    step={1}
+                    label="FoldItr"
+                    unit=""
+                    lockKey="foldbackIterations"
+                    onChange={(v) => updateAdvanced("foldbackIterations", v)}
+                    size="xs"
                   />
                 </div>
-                {localAdvanced.dynamicEnabled && (
-                  <div className="flex justify-center gap-1">
-                    <Knob
-                      value={localAdvanced.dynamicSensitivity}
-                      min={0}
-                      max={100}
-                      step={1}
-                      label="Sens"
-                      unit="%"
-                      onChange={(v) => updateAdvanced("dynamicSensitivity", v)}
-                      size="xs"
-                      modulationPath="waveshaper.dynamicSensitivity"
-                    />
-                    <Knob
-                      value={localAdvanced.dynamicAttack}
-                      min={1}
-                      max={500}
-                      step={1}
-                      label="Atk"
-                      unit="ms"
-                      onChange={(v) => updateAdvanced("dynamicAttack", v)}
-                      size="xs"
-                    />
-                    <Knob
-                      value={localAdvanced.dynamicRelease}
-                      min={10}
-                      max={2000}
-                      step={10}
-                      label="Rel"
-                      unit="ms"
-                      onChange={(v) => updateAdvanced("dynamicRelease", v)}
-                      size="xs"
-                    />
-                  </div>
-                )}
-              </div>
 
-              <div className="flex justify-center gap-1">
-                <Knob
-                  value={localAdvanced.chebyshevOrder}
-                  min={2}
-                  max={7}
-                  step={1}
-                  label="ChebOrd"
-                  unit=""
-                  onChange={(v) => updateAdvanced("chebyshevOrder", v)}
-                  size="xs"
-                  modulationPath="waveshaper.chebyshevOrder"
-                />
-                <Knob
-                  value={localAdvanced.foldbackIterations}
-                  min={1}
-                  max={5}
-                  step={1}
-                  label="FoldItr"
-                  unit=""
-                  onChange={(v) => updateAdvanced("foldbackIterations", v)}
-                  size="xs"
-                  modulationPath="waveshaper.foldbackIterations"
-                />
-              </div>
-
-              <div className="space-y-1 pt-1 border-t border-border/50">
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-1">
-                    <Pencil className="h-3 w-3 text-muted-foreground" />
-                    <span className="text-[9px] text-muted-foreground font-medium">Custom Curve</span>
+                <div className="space-y-1 pt-1 border-t border-border/50">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-1">
+                      <Pencil className="h-3 w-3 text-muted-foreground" />
+                      <span className="text-[9px] text-muted-foreground font-medium">Custom Curve</span>
+                    </div>
+                    <Switch
+                      checked={localAdvanced.customCurveEnabled}
+                      onCheckedChange={(v) => updateAdvanced("customCurveEnabled", v)}
+                      className="scale-50"
+                      data-testid="switch-custom-curve"
+                    />
                   </div>
-                  <Switch
-                    checked={localAdvanced.customCurveEnabled}
-                    onCheckedChange={(v) => updateAdvanced("customCurveEnabled", v)}
-                    className="scale-50"
-                    data-testid="switch-custom-curve"
-                  />
+                  {localAdvanced.customCurveEnabled && (
+                    <CustomCurveEditor
+                      points={localAdvanced.customCurvePoints.map(p => ({
+                        x: (p.x + 1) / 2,
+                        y: (p.y + 1) / 2
+                      }))}
+                      onChange={(points: CurvePoint[]) => {
+                        const normalizedPoints = points.map(p => ({
+                          x: p.x * 2 - 1,
+                          y: p.y * 2 - 1
+                        }));
+                        updateAdvanced("customCurvePoints", normalizedPoints);
+                      }}
+                      width={180}
+                      height={120}
+                    />
+                  )}
                 </div>
-                {localAdvanced.customCurveEnabled && (
-                  <CustomCurveEditor
-                    points={localAdvanced.customCurvePoints.map(p => ({
-                      x: (p.x + 1) / 2,
-                      y: (p.y + 1) / 2
-                    }))}
-                    onChange={(points: CurvePoint[]) => {
-                      const normalizedPoints = points.map(p => ({
-                        x: p.x * 2 - 1,
-                        y: p.y * 2 - 1
-                      }));
-                      updateAdvanced("customCurvePoints", normalizedPoints);
-                    }}
-                    width={180}
-                    height={120}
-                  />
-                )}
               </div>
-            </div>
+            </LockScope>
           )}
         </div>
       </div>
@@ -0,0 +1,78 @@
+import { createContext, useContext, useMemo, useRef } from "react";
+import type { ReactNode } from "react";
+import { type ParameterLocks, isLocked, toggleLock, applyLocks } from "@/lib/parameterLocks";
+
+interface ParameterLockContextValue {
+  locks: ParameterLocks;
+  setLocks: (locks: ParameterLocks) => void;
+  getSettings: () => unknown;
+}
+
+const ParameterLockContext = createContext<ParameterLockContextValue | null>(null);
+
+// Settings path of the enclosing panel, e.g. "params.oscillators.osc1"
+const LockScopeContext = createContext<string | null>(null);
+
+interface ParameterLockProviderProps {
+  children: ReactNode;
+  locks: ParameterLocks;
+  onChange: (locks: ParameterLocks) => void;
+  settings: unknown; // What the lock paths point into, to split a section lock when one value in it is unlocked
+}
+
+export function ParameterLockProvider({ children, locks, onChange, settings }: ParameterLockProviderProps) {
+  // Read at toggle time, so lock consumers don't re-render on every settings change
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const value = useMemo(() => ({ locks, setLocks: onChange, getSettings: () => settingsRef.current }), [locks, onChange]);
+
+  return (
+    <ParameterLockContext.Provider value={value}>
+      {children}
+    </ParameterLockContext.Provider>
+  );
+}
+
+export function LockScope({ path, children }: { path: string; children: ReactNode }) {
+  return (
+    <LockScopeContext.Provider value={path}>
+      {children}
+    </LockScopeContext.Provider>
+  );
+}
+
+export function useParameterLocks(): ParameterLocks {
+  return useContext(ParameterLockContext)?.locks ?? [];
+}
+
+export function useSetParameterLocks(): ((locks: ParameterLocks) => void) | null {
+  return useContext(ParameterLockContext)?.setLocks ?? null;
+}
+
+// Reads the settings the lock paths point into, for toggleLock and toggleSectionLock
+export function useLockSettings(): () => unknown {
+  return useContext(ParameterLockContext)?.getSettings ?? (() => undefined);
+}
+
+// For a panel's own randomize button: keeps the locked values of `current` in
+// `next`. `root` is the settings path both describe, the enclosing LockScope
+// unless given
+export function useApplyLocks(): <T>(next: T, current: T, root?: string) => T {
+  const locks = useParameterLocks();
+  const scope = useContext(LockScopeContext);
+  return (next, current, root = scope ?? "") => applyLocks(next, current, locks, root);
+}
+
+// Lock state for a parameter relative to the enclosing LockScope; null when
+// there is nothing to lock (no key, or no provider)
+export function useParameterLock(key: string | undefined): { locked: boolean; toggle: () => void } | null {
+  const context = useContext(ParameterLockContext);
+  const scope = useContext(LockScopeContext);
+  if (!context || !key) return null;
+
+  const path = scope ? `${scope}.${key}` : key;
+  return {
+    locked: isLocked(context.locks, path),
+    toggle: () => context.setLocks(toggleLock(context.locks, path, context.getSettings())),
+  };
+}
@@ -0,0 +1,61 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import type { PublicUser } from "@shared/schema";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface Credentials {
+  username: string;
+  password: string;
+}
+
+// Signed-in account (null when signed out) plus login/register/logout
+export function useAuth() {
+  const { toast } = useToast();
+
+  const { data: user = null, isLoading } = useQuery<PublicUser | null>({
+    queryKey: ["/api/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const onSignedIn = (account: PublicUser) => {
+    queryClient.setQueryData(["/api/user"], account);
+    toast({ title: `Signed in as ${account.username}` });
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      const res = await apiRequest("POST", "/api/login", credentials);
+      return (await res.json()) as PublicUser;
+    },
+    onSuccess: onSignedIn,
+    onError: (error) => {
+      toast({ title: "Sign in failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      const res = await apiRequest("POST", "/api/register", credentials);
+      return (await res.json()) as PublicUser;
+    },
+    onSuccess: onSignedIn,
+    onError: (error) => {
+      toast({ title: "Registration failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/logout");
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(["/api/user"], null);
+      toast({ title: "Signed out" });
+    },
+    onError: (error) => {
+      toast({ title: "Sign out failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return { user, isLoading, loginMutation, registerMutation, logoutMutation };
+}
@@ -0,0 +1,67 @@
+import { useInfiniteQuery, useQuery } from "@tanstack/react-query";
+import type { PresetCategory, PresetListItem, PresetPage, PresetSort, PresetUsageKind, PublicUser } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+
+export interface PresetFilters {
+  q?: string;
+  tag?: string;
+  category?: PresetCategory;
+  sort?: PresetSort;
+  favorites?: boolean;
+}
+
+export interface PresetTag {
+  tag: string;
+  count: number;
+}
+
+function presetSearchUrl(filters: PresetFilters, cursor: string | null): string {
+  const query = new URLSearchParams();
+  if (filters.q?.trim()) query.set("q", filters.q.trim());
+  if (filters.tag) query.set("tag", filters.tag);
+  if (filters.category) query.set("category", filters.category);
+  if (filters.sort && filters.sort !== "newest") query.set("sort", filters.sort);
+  if (filters.favorites) query.set("favorites", "true");
+  if (cursor) query.set("cursor", cursor);
+  const search = query.toString();
+  return search ? `/api/presets?${search}` : "/api/presets";
+}
+
+// Shared presets matching the filters, a page at a time. Keys start with
+// "/api/presets" so invalidating that key refreshes every search.
+export function usePresetSearch(filters: PresetFilters = {}) {
+  const query = useInfiniteQuery({
+    queryKey: ["/api/presets", filters],
+    queryFn: async ({ pageParam }) => {
+      const res = await fetch(presetSearchUrl(filters, pageParam), { credentials: "include" });
+      if (!res.ok) {
+        throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+      }
+      return (await res.json()) as PresetPage;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+
+  const presets: PresetListItem[] = query.data?.pages.flatMap(page => page.items) ?? [];
+  return { ...query, presets };
+}
+
+export function usePresetTags() {
+  return useQuery<PresetTag[]>({
+    queryKey: ["/api/presets/tags"],
+  });
+}
+
+// Bump a shared preset's load or export counter. Fire-and-forget: counts are
+// refreshed with the next search rather than refetching the library now.
+// Only signed-in users are counted, so nothing is sent when signed out.
+export function recordPresetUsage(id: number, kind: PresetUsageKind): void {
+  if (!queryClient.getQueryData<PublicUser | null>(["/api/user"])) return;
+  fetch(`/api/presets/${id}/usage`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ kind }),
+    credentials: "include",
+  }).catch(error => console.error("Failed to record preset usage:", error));
+}
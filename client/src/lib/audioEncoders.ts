@@ -0,0 +1,128 @@
+// Compressed export formats. Everything is bundled (LAME and Vorbis as inline
+// WebAssembly, FLAC in TypeScript) so exports work offline and under a strict
+// CSP. Runs in the encoder worker; see exportEncoder.ts for the main-thread side.
+
+import { createMp3Encoder, createOggEncoder } from "wasm-media-encoders";
+import type { ExportSettings } from "@shared/schema";
+import { quantize16 } from "./wavEncoder";
+import { encodeFlac } from "./flacEncoder";
+
+export type CompressedFormat = Exclude<ExportSettings["format"], "wav">;
+
+export type EncodeSettings = Pick<ExportSettings, "bitDepth" | "dither" | "mp3Mode" | "mp3Bitrate" | "mp3Quality">;
+
+export interface EncodeRequest {
+  format: CompressedFormat;
+  channels: Float32Array[]; // Mono or stereo
+  sampleRate: number;
+  settings: EncodeSettings;
+}
+
+const OGG_VBR_QUALITY = 6; // Roughly 190 kbps for stereo
+const MP3_MAX_SAMPLE_RATE = 48000 as const; // LAME resamples anything higher
+const ENCODE_CHUNK = 8192;
+
+function concatChunks(chunks: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(chunks.reduce((sum, c) => sum + c.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
+
+type WasmEncoder = Awaited<ReturnType<typeof createMp3Encoder>> | Awaited<ReturnType<typeof createOggEncoder>>;
+
+// The encoders return views into WebAssembly memory, so every chunk is copied
+function encodeInChunks(encoder: WasmEncoder, channels: Float32Array[]): Uint8Array {
+  const chunks: Uint8Array[] = [];
+  for (let i = 0; i < channels[0].length; i += ENCODE_CHUNK) {
+    chunks.push(encoder.encode(channels.map(c => c.subarray(i, i + ENCODE_CHUNK))).slice());
+  }
+  chunks.push(encoder.finalize().slice());
+  return concatChunks(chunks);
+}
+
+// The wasm LAME build doesn't write a Xing tag, without which players guess a
+// VBR file's length from its first frame. Prepend one: an empty MPEG-1 frame
+// carrying the frame and byte counts.
+function addXingHeader(mp3: Uint8Array): Uint8Array {
+  if (mp3.length < 4) return mp3;
+  const view = new DataView(mp3.buffer, mp3.byteOffset, mp3.byteLength);
+  const header = view.getUint32(0);
+  if (header >>> 21 !== 0x7FF || ((header >> 19) & 3) !== 3) return mp3; // MPEG-1 only
+
+  const sampleRate = [44100, 48000, 32000][(header >> 10) & 3];
+  const bitrates = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+  const frameLength = (bitrateIndex: number, padding: number) =>
+    Math.floor((144 * bitrates[bitrateIndex] * 1000) / sampleRate) + padding;
+
+  let frames = 0;
+  for (let offset = 0; offset + 4 <= mp3.length; frames++) {
+    const h = view.getUint32(offset);
+    if (h >>> 21 !== 0x7FF) break;
+    offset += frameLength((h >> 12) & 15, (h >> 9) & 1);
+  }
+
+  const tagBitrate = 9; // 128 kbps, comfortably fits the tag
+  const tagLength = frameLength(tagBitrate, 0);
+  const sideInfo = ((header >> 6) & 3) === 3 ? 17 : 32; // Mono : stereo
+  const tag = new Uint8Array(tagLength);
+  const tagView = new DataView(tag.buffer);
+  tagView.setUint32(0, (header & ~(0xF << 12) & ~(1 << 9)) | (tagBitrate << 12));
+  tag.set([0x58, 0x69, 0x6E, 0x67], 4 + sideInfo); // "Xing"
+  tagView.setUint32(8 + sideInfo, 0x3); // Frames and bytes fields present
+  tagView.setUint32(12 + sideInfo, frames);
+  tagView.setUint32(16 + sideInfo, tagLength + mp3.length);
+
+  return concatChunks([tag, mp3]);
+}
+
+async function encodeMp3({ channels, sampleRate, settings }: EncodeRequest): Promise<Uint8Array> {
+  const encoder = await createMp3Encoder();
+  const rate = {
+    channels: channels.length as 1 | 2,
+    sampleRate,
+    outputSampleRate: sampleRate > MP3_MAX_SAMPLE_RATE ? MP3_MAX_SAMPLE_RATE : undefined,
+  };
+  if (settings.mp3Mode === "vbr") {
+    encoder.configure({ ...rate, vbrQuality: settings.mp3Quality });
+    return addXingHeader(encodeInChunks(encoder, channels));
+  }
+  encoder.configure({ ...rate, bitrate: parseInt(settings.mp3Bitrate) as 128 | 192 | 256 | 320 });
+  return encodeInChunks(encoder, channels);
+}
+
+async function encodeOgg({ channels, sampleRate }: EncodeRequest): Promise<Uint8Array> {
+  const encoder = await createOggEncoder();
+  encoder.configure({ channels: channels.length as 1 | 2, sampleRate, vbrQuality: OGG_VBR_QUALITY });
+  return encodeInChunks(encoder, channels);
+}
+
+// FLAC is integer only: 32-bit float exports are written as 24-bit
+function encodeFlacFile({ channels, sampleRate, settings }: EncodeRequest): Uint8Array {
+  if (settings.bitDepth === "16") {
+    return encodeFlac(channels.map(c => Int32Array.from(quantize16(c, settings.dither))), sampleRate, 16);
+  }
+  const pcm = channels.map(channel => {
+    const out = new Int32Array(channel.length);
+    for (let i = 0; i < channel.length; i++) {
+      const sample = Math.max(-1, Math.min(1, channel[i]));
+      out[i] = Math.round(sample < 0 ? sample * 0x800000 : sample * 0x7FFFFF);
+    }
+    return out;
+  });
+  return encodeFlac(pcm, sampleRate, 24);
+}
+
+export async function encodeAudio(request: EncodeRequest): Promise<Uint8Array> {
+  switch (request.format) {
+    case "mp3":
+      return encodeMp3(request);
+    case "ogg":
+      return encodeOgg(request);
+    case "flac":
+      return encodeFlacFile(request);
+  }
+}
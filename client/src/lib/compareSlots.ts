@@ -0,0 +1,52 @@
+// A/B/C/D comparison snapshots: full settings plus the rendered sound, with
+// gains that play every slot at the loudness of the quietest one
+import type { SynthParameters } from "@shared/schema";
+import type { FullSynthSettings } from "./fullPreset";
+import type { RenderSettings } from "./renderEngine";
+import { analyzeAudioBuffer, dbToLinear } from "./loudness";
+
+export type SlotId = "A" | "B" | "C" | "D";
+
+export const SLOT_IDS: SlotId[] = ["A", "B", "C", "D"];
+
+// What a played sound was rendered from: the patch as set, its params and
+// settings transposed to the played note, the velocity, and that note
+export interface RenderedTake {
+  patch: FullSynthSettings;
+  params: SynthParameters;
+  settings: RenderSettings;
+  velocity: number;
+  note: number; // MIDI note the take sounds at, written as the WAV root note
+}
+
+export interface CompareSlot {
+  name: string;
+  take: RenderedTake;
+  buffer: AudioBuffer;
+  seed: number; // Render seed, so a recalled slot exports the same sound
+  loudness: number; // Integrated LUFS, -Infinity when silent
+}
+
+export type CompareSlots = Partial<Record<SlotId, CompareSlot>>;
+
+export function createCompareSlot(name: string, take: RenderedTake, buffer: AudioBuffer, seed: number): CompareSlot {
+  return { name, take, buffer, seed, loudness: analyzeAudioBuffer(buffer).integrated };
+}
+
+// Matching only ever attenuates, so auditioning can't clip
+export function getMatchedGain(slots: CompareSlots, id: SlotId): number {
+  const slot = slots[id];
+  if (!slot || !isFinite(slot.loudness)) return 1;
+  const audible = SLOT_IDS.map(slotId => slots[slotId]?.loudness ?? -Infinity).filter(isFinite);
+  return dbToLinear(Math.min(...audible) - slot.loudness);
+}
+
+export function copySlot(slots: CompareSlots, from: SlotId, to: SlotId): CompareSlots {
+  const source = slots[from];
+  return source && from !== to ? { ...slots, [to]: { ...source } } : slots;
+}
+
+export function clearSlot(slots: CompareSlots, id: SlotId): CompareSlots {
+  const { [id]: _removed, ...rest } = slots;
+  return rest;
+}
@@ -0,0 +1,56 @@
+// Convolution reverb settings and custom impulse response storage
+
+export interface ConvolverSettings {
+  predelay: number;
+  decay: number;
+  lowCut: number;
+  highCut: number;
+  reverse: boolean;
+  stretch: number;
+}
+
+export const defaultConvolverSettings: ConvolverSettings = {
+  predelay: 0,
+  decay: 100,
+  lowCut: 20,
+  highCut: 20000,
+  reverse: false,
+  stretch: 1.0,
+};
+
+const IR_STORAGE_KEY = "synth-custom-irs";
+const CONVOLVER_SETTINGS_KEY = "synth-convolver-settings";
+
+export interface StoredIR {
+  name: string;
+  data: string;
+}
+
+export function getStoredIRs(): StoredIR[] {
+  try {
+    const stored = localStorage.getItem(IR_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveIRs(irs: StoredIR[]) {
+  localStorage.setItem(IR_STORAGE_KEY, JSON.stringify(irs));
+}
+
+export function loadConvolverSettings(): ConvolverSettings {
+  try {
+    const stored = localStorage.getItem(CONVOLVER_SETTINGS_KEY);
+    if (stored) {
+      return { ...defaultConvolverSettings, ...JSON.parse(stored) };
+    }
+  } catch {
+    // Fall through to default
+  }
+  return { ...defaultConvolverSettings };
+}
+
+export function saveConvolverSettings(settings: ConvolverSettings) {
+  localStorage.setItem(CONVOLVER_SETTINGS_KEY, JSON.stringify(settings));
+}
@@ -0,0 +1,25 @@
+// Encoder worker: MP3/Ogg/FLAC encoding takes long enough on big exports to
+// freeze the UI, so it runs here. Requests are answered by id.
+
+import { encodeAudio, type EncodeRequest } from "./audioEncoders";
+
+export interface EncoderWorkerRequest {
+  id: number;
+  request: EncodeRequest;
+}
+
+export type EncoderWorkerResponse =
+  | { id: number; data: Uint8Array }
+  | { id: number; error: string };
+
+self.onmessage = async (event: MessageEvent<EncoderWorkerRequest>) => {
+  const { id, request } = event.data;
+  try {
+    const data = await encodeAudio(request);
+    const response: EncoderWorkerResponse = { id, data };
+    self.postMessage(response, { transfer: [data.buffer as ArrayBuffer] });
+  } catch (err) {
+    const response: EncoderWorkerResponse = { id, error: err instanceof Error ? err.message : String(err) };
+    self.postMessage(response);
+  }
+};
@@ -0,0 +1,84 @@
+// Main-thread side of compressed export encoding: hands the audio to the
+// encoder worker and resolves with a Blob. Falls back to encoding inline where
+// workers aren't available; the encoders are only loaded on that path so the
+// main bundle doesn't carry them.
+
+import type { ExportSettings } from "@shared/schema";
+import type { CompressedFormat, EncodeRequest } from "./audioEncoders";
+import type { EncoderWorkerRequest, EncoderWorkerResponse } from "./encoderWorker";
+
+const MIME_TYPES: Record<CompressedFormat, string> = {
+  mp3: "audio/mpeg",
+  flac: "audio/flac",
+  ogg: "audio/ogg",
+};
+
+interface PendingEncode {
+  resolve: (data: Uint8Array) => void;
+  reject: (error: Error) => void;
+}
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pending = new Map<number, PendingEncode>();
+
+function getWorker(): Worker {
+  if (worker) return worker;
+
+  worker = new Worker(new URL("./encoderWorker.ts", import.meta.url), { type: "module" });
+  worker.onmessage = (event: MessageEvent<EncoderWorkerResponse>) => {
+    const response = event.data;
+    const request = pending.get(response.id);
+    if (!request) return;
+    pending.delete(response.id);
+    if ("error" in response) {
+      request.reject(new Error(response.error));
+    } else {
+      request.resolve(response.data);
+    }
+  };
+  // A crashed worker fails everything in flight; the next export starts a new one
+  worker.onerror = (event) => {
+    const error = new Error(event.message || "Encoder worker failed");
+    pending.forEach(request => request.reject(error));
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  };
+  return worker;
+}
+
+function encodeInWorker(request: EncodeRequest): Promise<Uint8Array> {
+  if (typeof Worker === "undefined") {
+    return import("./audioEncoders").then(({ encodeAudio }) => encodeAudio(request));
+  }
+
+  return new Promise((resolve, reject) => {
+    const id = nextRequestId++;
+    pending.set(id, { resolve, reject });
+    const message: EncoderWorkerRequest = { id, request };
+    getWorker().postMessage(message, request.channels.map(c => c.buffer as ArrayBuffer));
+  });
+}
+
+export async function encodeCompressed(buffer: AudioBuffer, format: CompressedFormat, settings: ExportSettings): Promise<Blob> {
+  // Copies, since the channel buffers are transferred to the worker
+  const channels: Float32Array[] = [];
+  for (let i = 0; i < buffer.numberOfChannels; i++) {
+    channels.push(buffer.getChannelData(i).slice());
+  }
+
+  const data = await encodeInWorker({
+    format,
+    channels,
+    sampleRate: buffer.sampleRate,
+    settings: {
+      bitDepth: settings.bitDepth,
+      dither: settings.dither,
+      mp3Mode: settings.mp3Mode,
+      mp3Bitrate: settings.mp3Bitrate,
+      mp3Quality: settings.mp3Quality,
+    },
+  });
+  return new Blob([data], { type: MIME_TYPES[format] });
+}
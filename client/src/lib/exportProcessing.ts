@@ -0,0 +1,166 @@
+// Export post-processing shared by the single-shot export and pack export:
+// silence trimming or tail padding, sample rate conversion, mono downmix, peak
+// or loudness normalization and the final safety fade, plus the WAV sample
+// format and embedded metadata.
+
+import type { ExportSettings } from "@shared/schema";
+import { applySafetyFadeout } from "./renderEngine";
+import type { WavEncodeOptions, WavMetadata } from "./wavEncoder";
+import { analyzeAudioBuffer, dbToLinear } from "./loudness";
+import { findSoundBounds, getChannels } from "./tailDetection";
+import { midiToNoteName } from "./noteTrigger";
+
+export const WAV_SOFTWARE_NAME = "OneShot Synth";
+
+export interface ExportMetadataSource {
+  presetName: string;
+  seed: number;
+  rootNote: number; // MIDI note the sound was rendered at
+  tempo: number;
+}
+
+// Root key for samplers (smpl/acid), tempo for DAWs, and enough in bext/INFO
+// to trace a file back to the preset and seed that made it
+export function buildWavMetadata({ presetName, seed, rootNote, tempo }: ExportMetadataSource): WavMetadata {
+  const note = midiToNoteName(rootNote);
+  return {
+    rootNote,
+    tempo,
+    title: `${presetName} ${note}`,
+    comment: `Preset: ${presetName}; Seed: ${seed}; Root: ${note}; Tempo: ${tempo}`,
+    software: WAV_SOFTWARE_NAME,
+    description: `${presetName} (${note}) - seed ${seed}`,
+    reference: `seed-${seed}`,
+  };
+}
+
+export function getWavEncodeOptions(bitDepth: ExportSettings["bitDepth"], dither: ExportSettings["dither"] = "none"): WavEncodeOptions {
+  return {
+    bitDepth: bitDepth === "32f" ? 32 : bitDepth === "24" ? 24 : 16,
+    dither,
+  };
+}
+
+// Equal-power fade over the last `fadeMs` of the buffer
+function applyFadeOut(buffer: AudioBuffer, fadeMs: number) {
+  const fadeSamples = Math.min(buffer.length, Math.floor((fadeMs / 1000) * buffer.sampleRate));
+  if (fadeSamples === 0) return;
+  const fadeStart = buffer.length - fadeSamples;
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < fadeSamples; i++) {
+      data[fadeStart + i] *= Math.cos(((i + 1) / fadeSamples) * Math.PI * 0.5);
+    }
+  }
+}
+
+// Always normalize if peaks exceed 1.0 (would clip in WAV) or if requested
+function getPeakGain(buffer: AudioBuffer, normalize: boolean): number {
+  let peakValue = 0;
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      peakValue = Math.max(peakValue, Math.abs(data[i]));
+    }
+  }
+  if (peakValue === 0 || (!normalize && peakValue <= 1.0)) return 1;
+  return 0.95 / peakValue;
+}
+
+// Gain that brings the measured loudness to the target, reduced if it would
+// push the true peak over the ceiling
+function getLoudnessGain(buffer: AudioBuffer, exportSettings: ExportSettings): number {
+  const analysis = analyzeAudioBuffer(buffer);
+  const measured = exportSettings.normalizeMode === "short-term" ? analysis.shortTermMax : analysis.integrated;
+  if (!Number.isFinite(measured)) return 1; // Silent, nothing to match
+  const gainDb = Math.min(
+    exportSettings.loudnessTarget - measured,
+    exportSettings.truePeakCeiling - analysis.truePeak
+  );
+  return dbToLinear(gainDb);
+}
+
+export async function prepareExportBuffer(audioBuffer: AudioBuffer, exportSettings: ExportSettings): Promise<AudioBuffer> {
+  const targetSampleRate = parseInt(exportSettings.sampleRate);
+  const channels = exportSettings.channels === "stereo" ? 2 : 1;
+  // Auto trim keeps only the detected sound; otherwise the whole buffer is
+  // copied with optional tail extension (silence for decay padding)
+  const bounds = exportSettings.autoTrim
+    ? findSoundBounds(getChannels(audioBuffer), exportSettings.trimThreshold, exportSettings.tailFloor)
+    : null;
+  const copyStart = bounds?.start ?? 0;
+  const copyLength = bounds ? bounds.end - bounds.start : audioBuffer.length;
+  const tailExtension = exportSettings.autoTrim ? 0 : exportSettings.tailExtension;
+  const tailSamples = Math.floor((tailExtension / 1000) * audioBuffer.sampleRate);
+  const totalSamples = copyLength + tailSamples;
+  
+  // Create a new buffer with the audio data plus tail extension
+  const workingCtx = new OfflineAudioContext(
+    audioBuffer.numberOfChannels,
+    totalSamples,
+    audioBuffer.sampleRate
+  );
+  const workingBuffer = workingCtx.createBuffer(
+    audioBuffer.numberOfChannels,
+    totalSamples,
+    audioBuffer.sampleRate
+  );
+  
+  // Copy audio data from the source buffer
+  for (let ch = 0; ch < audioBuffer.numberOfChannels; ch++) {
+    const sourceData = audioBuffer.getChannelData(ch);
+    const destData = workingBuffer.getChannelData(ch);
+    destData.set(sourceData.subarray(copyStart, copyStart + copyLength), 0);
+    // Tail extension is already zero-filled
+  }
+  if (bounds) {
+    applyFadeOut(workingBuffer, exportSettings.fadeOut);
+  }
+
+  // Handle sample rate conversion if needed
+  let finalBuffer: AudioBuffer = workingBuffer;
+  if (targetSampleRate !== workingBuffer.sampleRate) {
+    const resampleCtx = new OfflineAudioContext(
+      workingBuffer.numberOfChannels,
+      Math.ceil(workingBuffer.length * targetSampleRate / workingBuffer.sampleRate),
+      targetSampleRate
+    );
+    const bufferSource = resampleCtx.createBufferSource();
+    bufferSource.buffer = workingBuffer;
+    bufferSource.connect(resampleCtx.destination);
+    bufferSource.start();
+    finalBuffer = await resampleCtx.startRendering();
+  }
+  
+  // Handle mono conversion
+  if (channels === 1 && finalBuffer.numberOfChannels > 1) {
+    const monoBuffer = new OfflineAudioContext(1, finalBuffer.length, finalBuffer.sampleRate)
+      .createBuffer(1, finalBuffer.length, finalBuffer.sampleRate);
+    const monoData = monoBuffer.getChannelData(0);
+    for (let i = 0; i < finalBuffer.length; i++) {
+      let sum = 0;
+      for (let ch = 0; ch < finalBuffer.numberOfChannels; ch++) {
+        sum += finalBuffer.getChannelData(ch)[i];
+      }
+      monoData[i] = sum / finalBuffer.numberOfChannels;
+    }
+    finalBuffer = monoBuffer;
+  }
+  
+  const normalizeGain = exportSettings.normalize && exportSettings.normalizeMode !== "peak"
+    ? getLoudnessGain(finalBuffer, exportSettings)
+    : getPeakGain(finalBuffer, exportSettings.normalize);
+  if (normalizeGain !== 1) {
+    for (let channel = 0; channel < finalBuffer.numberOfChannels; channel++) {
+      const data = finalBuffer.getChannelData(channel);
+      for (let i = 0; i < data.length; i++) {
+        data[i] *= normalizeGain;
+      }
+    }
+  }
+  
+  // Apply safety fadeout AFTER all processing to guarantee zero endpoint
+  applySafetyFadeout(finalBuffer, 5);
+
+  return finalBuffer;
+}
@@ -0,0 +1,54 @@
+// Radix-2 Cooley-Tukey FFT - O(N log N) complexity
+export function fft(real: Float32Array, imag: Float32Array, inverse: boolean = false): void {
+  const n = real.length;
+  if (n <= 1) return;
+  
+  // Bit-reversal permutation
+  let j = 0;
+  for (let i = 0; i < n - 1; i++) {
+    if (i < j) {
+      let tmp = real[i]; real[i] = real[j]; real[j] = tmp;
+      tmp = imag[i]; imag[i] = imag[j]; imag[j] = tmp;
+    }
+    let k = n >> 1;
+    while (k <= j) { j -= k; k >>= 1; }
+    j += k;
+  }
+  
+  // Cooley-Tukey iterative radix-2 FFT
+  const sign = inverse ? 1 : -1;
+  for (let len = 2; len <= n; len <<= 1) {
+    const halfLen = len >> 1;
+    const angle = (2 * Math.PI) / len * sign;
+    const wReal = Math.cos(angle);
+    const wImag = Math.sin(angle);
+    
+    for (let i = 0; i < n; i += len) {
+      let curReal = 1, curImag = 0;
+      for (let k = 0; k < halfLen; k++) {
+        const evenIdx = i + k;
+        const oddIdx = i + k + halfLen;
+        
+        const tReal = curReal * real[oddIdx] - curImag * imag[oddIdx];
+        const tImag = curReal * imag[oddIdx] + curImag * real[oddIdx];
+        
+        real[oddIdx] = real[evenIdx] - tReal;
+        imag[oddIdx] = imag[evenIdx] - tImag;
+        real[evenIdx] = real[evenIdx] + tReal;
+        imag[evenIdx] = imag[evenIdx] + tImag;
+        
+        const nextReal = curReal * wReal - curImag * wImag;
+        curImag = curReal * wImag + curImag * wReal;
+        curReal = nextReal;
+      }
+    }
+  }
+  
+  // Scale for inverse FFT
+  if (inverse) {
+    for (let i = 0; i < n; i++) {
+      real[i] /= n;
+      imag[i] /= n;
+    }
+  }
+}
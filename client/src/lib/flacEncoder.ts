@@ -0,0 +1,331 @@
+// Minimal FLAC encoder: fixed-blocksize frames with constant, verbatim or
+// fixed-predictor subframes, partitioned Rice residuals and stereo
+// decorrelation. No LPC, so files are a little larger than libFLAC's, but
+// they decode anywhere and the encoder has no dependencies.
+
+const BLOCK_SIZE = 4096;
+const MAX_FIXED_ORDER = 4;
+const MAX_PARTITION_ORDER = 8;
+const MAX_RICE_PARAM = 14; // 15 is the escape code
+
+export type FlacBitDepth = 16 | 24;
+
+// Big-endian bit writer over a growable byte array
+class BitWriter {
+  bytes = new Uint8Array(1 << 16);
+  length = 0; // Whole bytes written
+  private acc = 0;
+  private accBits = 0;
+
+  private ensure(extra: number) {
+    if (this.length + extra <= this.bytes.length) return;
+    let size = this.bytes.length * 2;
+    while (size < this.length + extra) size *= 2;
+    const grown = new Uint8Array(size);
+    grown.set(this.bytes.subarray(0, this.length));
+    this.bytes = grown;
+  }
+
+  // Up to 32 bits; value is taken as unsigned
+  write(value: number, bits: number) {
+    while (bits > 0) {
+      const take = Math.min(bits, 8 - this.accBits);
+      const shift = bits - take;
+      const chunk = Math.floor(value / 2 ** shift) & ((1 << take) - 1);
+      this.acc = (this.acc << take) | chunk;
+      this.accBits += take;
+      bits -= take;
+      if (this.accBits === 8) {
+        this.ensure(1);
+        this.bytes[this.length++] = this.acc;
+        this.acc = 0;
+        this.accBits = 0;
+      }
+    }
+  }
+
+  writeSigned(value: number, bits: number) {
+    this.write(value < 0 ? value + 2 ** bits : value, bits);
+  }
+
+  writeUnary(zeros: number) {
+    while (zeros >= 24) {
+      this.write(0, 24);
+      zeros -= 24;
+    }
+    this.write(1, zeros + 1);
+  }
+
+  alignToByte() {
+    if (this.accBits > 0) this.write(0, 8 - this.accBits);
+  }
+}
+
+const CRC8_TABLE = buildCrcTable(0x07, 8);
+const CRC16_TABLE = buildCrcTable(0x8005, 16);
+
+function buildCrcTable(poly: number, width: number): Uint16Array {
+  const table = new Uint16Array(256);
+  const top = 1 << (width - 1);
+  const mask = (1 << width) - 1;
+  for (let n = 0; n < 256; n++) {
+    let crc = n << (width - 8);
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & top ? ((crc << 1) ^ poly) & mask : (crc << 1) & mask;
+    }
+    table[n] = crc;
+  }
+  return table;
+}
+
+function crc8(bytes: Uint8Array, start: number, end: number): number {
+  let crc = 0;
+  for (let i = start; i < end; i++) crc = CRC8_TABLE[crc ^ bytes[i]];
+  return crc;
+}
+
+function crc16(bytes: Uint8Array, start: number, end: number): number {
+  let crc = 0;
+  for (let i = start; i < end; i++) crc = ((crc << 8) & 0xFFFF) ^ CRC16_TABLE[(crc >> 8) ^ bytes[i]];
+  return crc;
+}
+
+// Residual of the fixed polynomial predictor of the given order
+function fixedResidual(samples: Int32Array, order: number): Int32Array {
+  const residual = new Int32Array(samples.length - order);
+  for (let i = order; i < samples.length; i++) {
+    const s = samples;
+    let prediction = 0;
+    if (order === 1) prediction = s[i - 1];
+    else if (order === 2) prediction = 2 * s[i - 1] - s[i - 2];
+    else if (order === 3) prediction = 3 * s[i - 1] - 3 * s[i - 2] + s[i - 3];
+    else if (order === 4) prediction = 4 * s[i - 1] - 6 * s[i - 2] + 4 * s[i - 3] - s[i - 4];
+    residual[i - order] = s[i] - prediction;
+  }
+  return residual;
+}
+
+function zigzag(value: number): number {
+  return value >= 0 ? value * 2 : -value * 2 - 1;
+}
+
+function riceParam(sum: number, count: number): number {
+  if (count === 0 || sum <= count) return 0;
+  return Math.min(MAX_RICE_PARAM, Math.floor(Math.log2(sum / count)));
+}
+
+interface ResidualPlan {
+  partitionOrder: number;
+  params: number[];
+  bits: number;
+}
+
+// Pick the partition order and per-partition Rice parameters with the
+// smallest estimated size
+function planResidual(residual: Int32Array, blockSize: number, predictorOrder: number): ResidualPlan {
+  let maxOrder = 0;
+  while (
+    maxOrder < MAX_PARTITION_ORDER &&
+    blockSize % (1 << (maxOrder + 1)) === 0 &&
+    blockSize >> (maxOrder + 1) > predictorOrder
+  ) {
+    maxOrder++;
+  }
+
+  // Zigzag sums at the finest partitioning, merged pairwise for coarser ones
+  let sums: number[] = [];
+  const finest = 1 << maxOrder;
+  const partitionSize = blockSize >> maxOrder;
+  for (let p = 0, i = 0; p < finest; p++) {
+    const end = (p + 1) * partitionSize - predictorOrder;
+    let sum = 0;
+    for (; i < end; i++) sum += zigzag(residual[i]);
+    sums.push(sum);
+  }
+
+  let best: ResidualPlan | null = null;
+  for (let order = maxOrder; order >= 0; order--) {
+    const partitions = 1 << order;
+    const size = blockSize >> order;
+    const params: number[] = [];
+    let bits = 6;
+    for (let p = 0; p < partitions; p++) {
+      const count = p === 0 ? size - predictorOrder : size;
+      const k = riceParam(sums[p], count);
+      params.push(k);
+      bits += 4 + count * (k + 1) + Math.floor(sums[p] / 2 ** k);
+    }
+    if (!best || bits < best.bits) best = { partitionOrder: order, params, bits };
+    if (order > 0) {
+      const merged: number[] = [];
+      for (let p = 0; p < sums.length; p += 2) merged.push(sums[p] + sums[p + 1]);
+      sums = merged;
+    }
+  }
+  return best!;
+}
+
+interface SubframePlan {
+  type: "constant" | "verbatim" | "fixed";
+  order: number;
+  residual?: Int32Array;
+  residualPlan?: ResidualPlan;
+  bits: number;
+}
+
+function planSubframe(samples: Int32Array, bps: number): SubframePlan {
+  let constant = true;
+  for (let i = 1; i < samples.length && constant; i++) constant = samples[i] === samples[0];
+  if (constant) return { type: "constant", order: 0, bits: 8 + bps };
+
+  let best: SubframePlan = { type: "verbatim", order: 0, bits: 8 + samples.length * bps };
+  for (let order = 0; order <= Math.min(MAX_FIXED_ORDER, samples.length - 1); order++) {
+    const residual = fixedResidual(samples, order);
+    const residualPlan = planResidual(residual, samples.length, order);
+    const bits = 8 + order * bps + residualPlan.bits;
+    if (bits < best.bits) best = { type: "fixed", order, residual, residualPlan, bits };
+  }
+  return best;
+}
+
+function writeSubframe(writer: BitWriter, samples: Int32Array, bps: number, plan: SubframePlan) {
+  if (plan.type === "constant") {
+    writer.write(0b00000000, 8);
+    writer.writeSigned(samples[0], bps);
+    return;
+  }
+  if (plan.type === "verbatim") {
+    writer.write(0b00000010, 8);
+    for (let i = 0; i < samples.length; i++) writer.writeSigned(samples[i], bps);
+    return;
+  }
+
+  writer.write((0b001000 | plan.order) << 1, 8);
+  for (let i = 0; i < plan.order; i++) writer.writeSigned(samples[i], bps);
+
+  const { partitionOrder, params } = plan.residualPlan!;
+  const residual = plan.residual!;
+  const size = samples.length >> partitionOrder;
+  writer.write(0, 2); // Rice coding with 4-bit parameters
+  writer.write(partitionOrder, 4);
+  let i = 0;
+  for (let p = 0; p < params.length; p++) {
+    const k = params[p];
+    const end = (p + 1) * size - plan.order;
+    writer.write(k, 4);
+    for (; i < end; i++) {
+      const u = zigzag(residual[i]);
+      writer.writeUnary(Math.floor(u / 2 ** k));
+      if (k > 0) writer.write(u % 2 ** k, k);
+    }
+  }
+}
+
+// UTF-8 style variable length frame number
+function writeFrameNumber(writer: BitWriter, n: number) {
+  if (n < 0x80) {
+    writer.write(n, 8);
+    return;
+  }
+  const bytes: number[] = [];
+  while (n >= 0x40 >> bytes.length) {
+    bytes.unshift(0x80 | (n & 0x3F));
+    n = Math.floor(n / 64);
+  }
+  const lead = (0xFF00 >> (bytes.length + 1)) & 0xFF;
+  writer.write(lead | n, 8);
+  bytes.forEach(b => writer.write(b, 8));
+}
+
+const SAMPLE_RATE_CODES: Record<number, number> = { 22050: 0b1000, 44100: 0b1001, 48000: 0b1010, 96000: 0b1011 };
+
+function writeFrame(writer: BitWriter, channels: Int32Array[], frameNumber: number, sampleRate: number, bps: FlacBitDepth) {
+  const frameStart = writer.length;
+  const blockSize = channels[0].length;
+
+  // Stereo: code whichever pair of left, right, mid and side is smallest
+  let assignment = channels.length - 1;
+  let signals = channels;
+  let plans = channels.map(c => planSubframe(c, bps));
+  let depths: number[] = channels.map(() => bps);
+  if (channels.length === 2) {
+    const [left, right] = channels;
+    const mid = new Int32Array(blockSize);
+    const side = new Int32Array(blockSize);
+    for (let i = 0; i < blockSize; i++) {
+      mid[i] = (left[i] + right[i]) >> 1;
+      side[i] = left[i] - right[i];
+    }
+    const [leftPlan, rightPlan] = plans;
+    const midPlan = planSubframe(mid, bps);
+    const sidePlan = planSubframe(side, bps + 1);
+    const options = [
+      { assignment: 0b0001, signals: [left, right], plans: [leftPlan, rightPlan], depths: [bps, bps] },
+      { assignment: 0b1000, signals: [left, side], plans: [leftPlan, sidePlan], depths: [bps, bps + 1] },
+      { assignment: 0b1001, signals: [side, right], plans: [sidePlan, rightPlan], depths: [bps + 1, bps] },
+      { assignment: 0b1010, signals: [mid, side], plans: [midPlan, sidePlan], depths: [bps, bps + 1] },
+    ];
+    const best = options.reduce((a, b) => (b.plans[0].bits + b.plans[1].bits < a.plans[0].bits + a.plans[1].bits ? b : a));
+    ({ assignment, signals, plans, depths } = best);
+  }
+
+  writer.write(0b11111111111110, 14); // Sync
+  writer.write(0, 2); // Reserved, fixed blocksize
+  writer.write(0b0111, 4); // Block size - 1 follows as 16 bits
+  writer.write(SAMPLE_RATE_CODES[sampleRate] ?? 0, 4); // 0 = from STREAMINFO
+  writer.write(assignment, 4);
+  writer.write(bps === 24 ? 0b110 : 0b100, 3);
+  writer.write(0, 1);
+  writeFrameNumber(writer, frameNumber);
+  writer.write(blockSize - 1, 16);
+  writer.write(crc8(writer.bytes, frameStart, writer.length), 8);
+
+  for (let c = 0; c < signals.length; c++) {
+    writeSubframe(writer, signals[c], depths[c], plans[c]);
+  }
+
+  writer.alignToByte();
+  writer.write(crc16(writer.bytes, frameStart, writer.length), 16);
+  return writer.length - frameStart;
+}
+
+// Encode integer PCM (one Int32Array per channel, 1-8 channels) to a FLAC file
+export function encodeFlac(channels: Int32Array[], sampleRate: number, bitsPerSample: FlacBitDepth): Uint8Array {
+  const writer = new BitWriter();
+  const totalSamples = channels[0]?.length ?? 0;
+
+  writer.write(0x664C6143, 32); // "fLaC"
+
+  // STREAMINFO, patched with frame sizes once they're known
+  writer.write(0x80, 8); // Last metadata block, type 0
+  writer.write(34, 24);
+  const streamInfo = writer.length;
+  writer.write(BLOCK_SIZE, 16);
+  writer.write(BLOCK_SIZE, 16);
+  writer.write(0, 24);
+  writer.write(0, 24);
+  writer.write(sampleRate, 20);
+  writer.write(channels.length - 1, 3);
+  writer.write(bitsPerSample - 1, 5);
+  writer.write(totalSamples, 36);
+  for (let i = 0; i < 4; i++) writer.write(0, 32); // MD5 left unset
+
+  let minFrame = Infinity;
+  let maxFrame = 0;
+  for (let start = 0, frame = 0; start < totalSamples; start += BLOCK_SIZE, frame++) {
+    const end = Math.min(totalSamples, start + BLOCK_SIZE);
+    const size = writeFrame(writer, channels.map(c => c.subarray(start, end)), frame, sampleRate, bitsPerSample);
+    minFrame = Math.min(minFrame, size);
+    maxFrame = Math.max(maxFrame, size);
+  }
+
+  const bytes = writer.bytes.subarray(0, writer.length);
+  if (maxFrame > 0) {
+    const view = new DataView(bytes.buffer, bytes.byteOffset);
+    view.setUint16(streamInfo + 4, minFrame >> 8);
+    view.setUint8(streamInfo + 6, minFrame & 0xFF);
+    view.setUint16(streamInfo + 7, maxFrame >> 8);
+    view.setUint8(streamInfo + 9, maxFrame & 0xFF);
+  }
+  return bytes;
+}
@@ -9,11 +9,34 @@ import type {
   OscPhaseSettings,
   AdvancedSpectralSettings
 } from "./advancedSynthSettings";
-import type { ConvolverSettings } from "@/components/synth/ConvolverPanel";
-import type { ReverbSettings } from "@/components/synth/EffectsPanel";
+import type { ConvolverSettings, StoredIR } from "./convolverSettings";
+import { getStoredIRs, saveIRs } from "./convolverSettings";
+import type { ReverbSettings } from "./reverbSettings";
+import type { AllOscWavetableSettings, WavetableData } from "./wavetableSettings";
+import type { RingModSettings } from "./ringModSettings";
+import type { GranularSettings, GranularBufferMeta, GranularSampleBuffer } from "./granularSettings";
+import { float32ToBase64, base64ToFloat32 } from "./granularSettings";
+import type { SampleLayerSettings } from "./sampleLayerSettings";
+import type { ParametricEQSettings } from "./eqSettings";
+import type { MultibandCompSettings } from "./multibandCompSettings";
+import type { PhaserFlangerSettings } from "./phaserFlangerSettings";
+import type { ParallelProcessingSettings } from "./parallelProcessingSettings";
+import type { CurveModulatorSettings } from "./curveModulatorSettings";
+import type { StepSequencerSettings } from "./stepSequencerSettings";
+import type { RoundRobinSettings } from "./roundRobinExport";
+import { getWavetableById, registerCustomWavetable } from "./factoryWavetables";
+
+// User wavetable embedded in a preset (frames as plain arrays for JSON)
+export interface EmbeddedWavetable {
+  id: string;
+  name: string;
+  category: WavetableData["category"];
+  frames: number[][];
+}
 
 // All settings that make up a complete sound
 export interface FullSynthSettings {
+  version?: number; // FULL_PRESET_VERSION the settings were saved with (absent = 1)
   params: SynthParameters;
   oscEnvelopes?: OscEnvelopes;
   convolverSettings?: ConvolverSettings;
@@ -24,6 +47,21 @@ export interface FullSynthSettings {
   lowEndSettings?: LowEndSettings;
   phaseSettings?: OscPhaseSettings;
   advancedSpectralSettings?: AdvancedSpectralSettings;
+  // Added in version 2
+  wavetableSettings?: AllOscWavetableSettings;
+  ringModSettings?: RingModSettings;
+  granularSettings?: GranularSettings;
+  granularSample?: GranularBufferMeta; // Source audio inline as dataBase64
+  sampleLayerSettings?: SampleLayerSettings; // Sample audio inline as sampleData
+  parametricEQSettings?: ParametricEQSettings;
+  multibandCompSettings?: MultibandCompSettings;
+  phaserFlangerSettings?: PhaserFlangerSettings;
+  parallelProcessingSettings?: ParallelProcessingSettings;
+  curveModulatorSettings?: CurveModulatorSettings;
+  stepSequencerSettings?: StepSequencerSettings;
+  roundRobinSettings?: RoundRobinSettings;
+  customIR?: StoredIR; // Custom convolver IR referenced by params.convolver.irName
+  customWavetables?: EmbeddedWavetable[]; // User wavetables referenced by wavetableSettings
 }
 
 // Full preset with metadata
@@ -32,7 +70,90 @@ export interface FullPreset {
   name: string;
   settings: FullSynthSettings;
   createdAt: number;
-  version: number; // For future migrations
+  version: number; // See presetMigration.ts
+}
+
+export const FULL_PRESET_VERSION = 2;
+
+export function encodeGranularSample(buffer: GranularSampleBuffer | null): GranularBufferMeta | undefined {
+  if (!buffer?.data) return undefined;
+  return {
+    name: buffer.name,
+    duration: buffer.duration,
+    sampleRate: buffer.sampleRate,
+    channels: buffer.channels,
+    dataBase64: float32ToBase64(buffer.data),
+  };
+}
+
+export function decodeGranularSample(meta: GranularBufferMeta | undefined): GranularSampleBuffer | null {
+  if (!meta?.dataBase64) return null;
+  return {
+    name: meta.name,
+    duration: meta.duration,
+    sampleRate: meta.sampleRate,
+    channels: meta.channels,
+    data: base64ToFloat32(meta.dataBase64),
+  };
 }
 
-export const FULL_PRESET_VERSION = 1;
+// Attach the custom IR and user wavetables a preset depends on, so it loads
+// the same on a machine that doesn't have them. Done at save time because
+// both live in localStorage, not component state.
+export function embedPresetAssets(settings: FullSynthSettings): FullSynthSettings {
+  const result: FullSynthSettings = { ...settings, version: FULL_PRESET_VERSION };
+  
+  const convolver = settings.params.convolver;
+  if (convolver.enabled && convolver.useCustomIR && convolver.irName !== "none") {
+    const ir = getStoredIRs().find(stored => stored.name === convolver.irName);
+    if (ir) result.customIR = ir;
+  }
+  
+  if (settings.wavetableSettings) {
+    const embedded: EmbeddedWavetable[] = [];
+    const wt = settings.wavetableSettings;
+    for (const osc of [wt.osc1, wt.osc2, wt.osc3]) {
+      if (!osc.enabled || embedded.some(e => e.id === osc.wavetableId)) continue;
+      const table = getWavetableById(osc.wavetableId);
+      if (table && !table.isFactory) {
+        embedded.push({
+          id: table.id,
+          name: table.name,
+          category: table.category,
+          frames: table.frames.map(f => Array.from(f)),
+        });
+      }
+    }
+    if (embedded.length > 0) result.customWavetables = embedded;
+  }
+  
+  return result;
+}
+
+// Install embedded assets that aren't available locally yet
+export function restorePresetAssets(settings: FullSynthSettings): void {
+  if (settings.customIR) {
+    const irs = getStoredIRs();
+    if (!irs.some(ir => ir.name === settings.customIR!.name)) {
+      try {
+        saveIRs([...irs, settings.customIR]);
+      } catch (e) {
+        console.error("Failed to store preset IR:", e);
+      }
+    }
+  }
+  
+  for (const table of settings.customWavetables ?? []) {
+    if (getWavetableById(table.id)) continue;
+    registerCustomWavetable({
+      id: table.id,
+      name: table.name,
+      category: table.category,
+      frameSize: 2048,
+      frameCount: table.frames.length,
+      frames: table.frames.map(f => new Float32Array(f)),
+      isFactory: false,
+      createdAt: Date.now(),
+    });
+  }
+}
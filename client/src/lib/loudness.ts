@@ -0,0 +1,159 @@
+// Loudness measurement per ITU-R BS.1770: K-weighted, gated integrated
+// loudness, maximum short-term loudness, true peak from 4x oversampled data
+// and crest factor. Works on raw channel data so it runs anywhere.
+
+export interface LoudnessAnalysis {
+  integrated: number; // LUFS
+  shortTermMax: number; // LUFS, loudest 3 s window
+  truePeak: number; // dBTP
+  samplePeak: number; // dBFS
+  crestFactor: number; // dB, sample peak over RMS
+}
+
+const SILENCE_DB = -Infinity;
+const ABSOLUTE_GATE = -70; // LUFS
+const RELATIVE_GATE = -10; // LU below the absolute-gated loudness
+const BLOCK_SECONDS = 0.4;
+const SHORT_TERM_SECONDS = 3;
+const OVERSAMPLE = 4;
+const TAPS_PER_PHASE = 12;
+
+export function linearToDb(value: number): number {
+  return value > 0 ? 20 * Math.log10(value) : SILENCE_DB;
+}
+
+export function dbToLinear(db: number): number {
+  return Math.pow(10, db / 20);
+}
+
+function biquad(input: Float32Array, b: number[], a: number[]): Float32Array {
+  const output = new Float32Array(input.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = b[0] * x + b[1] * x1 + b[2] * x2 - a[1] * y1 - a[2] * y2;
+    x2 = x1; x1 = x;
+    y2 = y1; y1 = y;
+    output[i] = y;
+  }
+  return output;
+}
+
+// K-weighting: high-shelf "head" filter then the RLB high-pass, with
+// coefficients derived for any sample rate (the spec only lists 48 kHz)
+function kWeight(channel: Float32Array, sampleRate: number): Float32Array {
+  let K = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  let Q = 0.7071752369554196;
+  const Vh = Math.pow(10, 3.999843853973347 / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / Q + K * K;
+  const shelved = biquad(
+    channel,
+    [(Vh + (Vb * K) / Q + K * K) / a0, (2 * (K * K - Vh)) / a0, (Vh - (Vb * K) / Q + K * K) / a0],
+    [1, (2 * (K * K - 1)) / a0, (1 - K / Q + K * K) / a0]
+  );
+
+  K = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  Q = 0.5003270373238773;
+  a0 = 1 + K / Q + K * K;
+  return biquad(shelved, [1, -2, 1], [1, (2 * (K * K - 1)) / a0, (1 - K / Q + K * K) / a0]);
+}
+
+function powerToLufs(power: number): number {
+  return power > 0 ? -0.691 + 10 * Math.log10(power) : SILENCE_DB;
+}
+
+// Channel-summed mean square of each window; sounds shorter than one window
+// are measured as a single window over their full length
+function windowPowers(weighted: Float32Array[], sampleRate: number, windowSeconds: number, hopSeconds: number): number[] {
+  const length = weighted[0]?.length ?? 0;
+  const window = Math.min(length, Math.round(windowSeconds * sampleRate));
+  const hop = Math.max(1, Math.round(hopSeconds * sampleRate));
+  if (window === 0) return [];
+
+  // Running sums of squares make every window O(1)
+  const cumulative = new Float64Array(length + 1);
+  for (const channel of weighted) {
+    for (let i = 0; i < length; i++) cumulative[i + 1] += channel[i] * channel[i];
+  }
+  for (let i = 0; i < length; i++) cumulative[i + 1] += cumulative[i];
+
+  const powers: number[] = [];
+  for (let start = 0; start + window <= length; start += hop) {
+    powers.push((cumulative[start + window] - cumulative[start]) / window);
+  }
+  return powers;
+}
+
+function gatedLoudness(blockPowers: number[]): number {
+  const aboveAbsolute = blockPowers.filter(p => powerToLufs(p) > ABSOLUTE_GATE);
+  if (aboveAbsolute.length === 0) return SILENCE_DB;
+  const mean = (powers: number[]) => powers.reduce((sum, p) => sum + p, 0) / powers.length;
+  const relativeGate = powerToLufs(mean(aboveAbsolute)) + RELATIVE_GATE;
+  const gated = aboveAbsolute.filter(p => powerToLufs(p) > relativeGate);
+  return powerToLufs(mean(gated));
+}
+
+// Hann-windowed sinc interpolator split into OVERSAMPLE polyphase branches
+function buildOversamplingFilter(): Float32Array[] {
+  const taps = OVERSAMPLE * TAPS_PER_PHASE;
+  const phases = Array.from({ length: OVERSAMPLE }, () => new Float32Array(TAPS_PER_PHASE));
+  for (let n = 0; n < taps; n++) {
+    const t = (n - (taps - 1) / 2) / OVERSAMPLE;
+    const sinc = t === 0 ? 1 : Math.sin(Math.PI * t) / (Math.PI * t);
+    const hann = 0.5 - 0.5 * Math.cos((2 * Math.PI * (n + 0.5)) / taps);
+    phases[n % OVERSAMPLE][Math.floor(n / OVERSAMPLE)] = sinc * hann;
+  }
+  return phases;
+}
+
+const OVERSAMPLING_FILTER = buildOversamplingFilter();
+
+function channelTruePeak(channel: Float32Array): number {
+  let peak = 0;
+  for (let i = 0; i < channel.length + TAPS_PER_PHASE; i++) {
+    for (const phase of OVERSAMPLING_FILTER) {
+      let sum = 0;
+      for (let k = 0; k < TAPS_PER_PHASE; k++) {
+        const index = i - k;
+        if (index >= 0 && index < channel.length) sum += phase[k] * channel[index];
+      }
+      peak = Math.max(peak, Math.abs(sum));
+    }
+  }
+  return peak;
+}
+
+export function analyzeLoudness(channels: Float32Array[], sampleRate: number): LoudnessAnalysis {
+  const weighted = channels.map(channel => kWeight(channel, sampleRate));
+
+  let samplePeak = 0;
+  let sumSquares = 0;
+  let samples = 0;
+  for (const channel of channels) {
+    for (let i = 0; i < channel.length; i++) {
+      samplePeak = Math.max(samplePeak, Math.abs(channel[i]));
+      sumSquares += channel[i] * channel[i];
+    }
+    samples += channel.length;
+  }
+  const rms = samples > 0 ? Math.sqrt(sumSquares / samples) : 0;
+  const truePeak = Math.max(samplePeak, ...channels.map(channelTruePeak));
+  const shortTerm = windowPowers(weighted, sampleRate, SHORT_TERM_SECONDS, 0.1);
+
+  return {
+    integrated: gatedLoudness(windowPowers(weighted, sampleRate, BLOCK_SECONDS, BLOCK_SECONDS / 4)),
+    shortTermMax: shortTerm.length > 0 ? powerToLufs(Math.max(...shortTerm)) : SILENCE_DB,
+    truePeak: linearToDb(truePeak),
+    samplePeak: linearToDb(samplePeak),
+    crestFactor: rms > 0 ? Math.max(0, linearToDb(samplePeak / rms)) : 0,
+  };
+}
+
+export function analyzeAudioBuffer(buffer: AudioBuffer): LoudnessAnalysis {
+  const channels: Float32Array[] = [];
+  for (let i = 0; i < buffer.numberOfChannels; i++) {
+    channels.push(buffer.getChannelData(i));
+  }
+  return analyzeLoudness(channels, buffer.sampleRate);
+}
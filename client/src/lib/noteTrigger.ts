@@ -0,0 +1,77 @@
+// Note triggering: transpose a patch to an incoming MIDI note relative to the
+// KeySelector root, and carry velocity through to the render
+
+import type { SynthParameters } from "@shared/schema";
+import type { SampleLayerSettings } from "./sampleLayerSettings";
+import { pitchToHz } from "./pitchUtils";
+
+export interface NoteTrigger {
+  note: number; // MIDI note number 0-127
+  velocity: number; // 0-1
+}
+
+// Virtual modulator ID for the velocity source in the modulator rack
+export const VELOCITY_MODULATOR_ID = "velocity";
+
+export function semitonesFromRoot(note: number, rootMidi: number): number {
+  return note - rootMidi;
+}
+
+// Shift every pitched source by the same interval. Sub oscillator follows OSC 1.
+// Results are render-only, so pitch states may exceed the knob range here.
+export function transposeParameters(params: SynthParameters, semitones: number): SynthParameters {
+  if (semitones === 0) return params;
+
+  const ratio = Math.pow(2, semitones / 12);
+  const shift = <T extends { pitch: SynthParameters["oscillators"]["osc1"]["pitch"] }>(osc: T): T => ({
+    ...osc,
+    pitch: { ...osc.pitch, st: (osc.pitch.st ?? 0) + semitones },
+  });
+
+  return {
+    ...params,
+    oscillators: {
+      osc1: shift(params.oscillators.osc1),
+      osc2: shift(params.oscillators.osc2),
+      osc3: shift(params.oscillators.osc3),
+    },
+    modal: {
+      ...params.modal,
+      basePitch: params.modal.basePitch * ratio,
+    },
+    additive: {
+      ...params.additive,
+      basePitch: params.additive.basePitch * ratio,
+    },
+  };
+}
+
+export function transposeSampleLayer(settings: SampleLayerSettings, semitones: number): SampleLayerSettings {
+  if (semitones === 0) return settings;
+  return { ...settings, pitch: settings.pitch + semitones };
+}
+
+// Output gain for a note velocity (velocity-insensitive input arrives as 1)
+export function velocityToGain(velocity: number): number {
+  const v = Math.max(0, Math.min(1, velocity));
+  return v * v;
+}
+
+const NOTE_NAMES = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
+
+// Nearest MIDI note to a frequency (A4 = 440 Hz = 69)
+export function frequencyToMidi(hz: number): number {
+  return Math.round(69 + 12 * Math.log2(hz / 440));
+}
+
+// Scientific pitch name, C4 = 60
+export function midiToNoteName(note: number): string {
+  return `${NOTE_NAMES[((note % 12) + 12) % 12]}${Math.floor(note / 12) - 1}`;
+}
+
+// Root note of a patch: the key OSC 1 is tuned to, as the KeySelector picks it
+// on preset load (octaves 0-8). Notes are transposed from it and WAV root notes
+// derived from it in the browser and in server renders alike.
+export function patchRootMidi(params: SynthParameters): number {
+  return Math.max(12, Math.min(119, frequencyToMidi(pitchToHz(params.oscillators.osc1.pitch))));
+}
@@ -0,0 +1,16 @@
+// Per-oscillator amplitude envelope defaults
+import type { OscEnvelope, OscEnvelopes } from "@/components/synth/OscillatorPanel";
+
+const defaultOscEnvelope: OscEnvelope = {
+  enabled: false,
+  attack: 0,
+  hold: 0,
+  decay: 200,
+  curve: "exponential",
+};
+
+export const defaultOscEnvelopes: OscEnvelopes = {
+  osc1: { ...defaultOscEnvelope },
+  osc2: { ...defaultOscEnvelope },
+  osc3: { ...defaultOscEnvelope },
+};
@@ -0,0 +1,220 @@
+// Sample pack export: render presets × pitches × round-robin variations into
+// one ZIP with a folder per preset and a JSON manifest of settings and seeds.
+// Multi-sample instrument export uses the same path with sampler mappings on.
+
+import type { ExportSettings } from "@shared/schema";
+import type { FullSynthSettings } from "./fullPreset";
+import { decodeGranularSample } from "./fullPreset";
+import { type RoundRobinSettings, generateVariation } from "./roundRobinExport";
+import type { ParameterLocks } from "./parameterLocks";
+import { transposeParameters, transposeSampleLayer, patchRootMidi, midiToNoteName } from "./noteTrigger";
+import { type RenderSettings, renderSound, createRenderCache } from "./renderEngine";
+import { createSeededRandom } from "./renderModulation";
+import { prepareExportBuffer, getWavEncodeOptions, buildWavMetadata } from "./exportProcessing";
+import { encodeWav } from "./wavEncoder";
+import { type ZipEntry, createZip } from "./zipWriter";
+import { type SamplerZone, assignKeyRanges, buildSfz, buildDecentSamplerPreset } from "./samplerMapping";
+
+export const PACK_MANIFEST_VERSION = 1;
+
+export interface PackPreset {
+  name: string;
+  settings: FullSynthSettings; // Already migrated, with embedded assets restored
+}
+
+export interface PackExportOptions {
+  packName: string;
+  notes: number[]; // MIDI notes to render each preset at
+  roundRobin: RoundRobinSettings; // variationCount takes per note when enabled, otherwise one
+  exportSettings: ExportSettings;
+  seed: number;
+  samplerMapping?: boolean; // Add an SFZ and a Decent Sampler preset to each preset folder
+  locks?: ParameterLocks; // Parameters round-robin variations leave untouched
+}
+
+export interface PackManifestFile {
+  path: string;
+  preset: string;
+  note: string;
+  midi: number;
+  rr: number; // 1-based
+  seed: number; // Render seed
+  variationSeed: number | null; // Round-robin variation seed, null when not varied
+  duration: number; // Seconds
+}
+
+export interface PackManifest {
+  version: number;
+  name: string;
+  createdAt: string;
+  seed: number;
+  sampleRate: number;
+  channels: ExportSettings["channels"];
+  bitDepth: ExportSettings["bitDepth"];
+  notes: string[];
+  roundRobin: RoundRobinSettings;
+  presets: {
+    name: string;
+    folder: string;
+    rootNote: string;
+    // Embedded IR, wavetable and granular audio are left out to keep the manifest readable
+    settings: Omit<FullSynthSettings, "customIR" | "customWavetables" | "granularSample">;
+  }[];
+  files: PackManifestFile[];
+}
+
+export interface SamplePack {
+  zip: Uint8Array;
+  manifest: PackManifest;
+}
+
+// File-system safe name: spaces become underscores, anything unusual is dropped
+export function sanitizePackName(name: string): string {
+  const cleaned = name
+    .trim()
+    .replace(/\s+/g, "_")
+    .replace(/[^A-Za-z0-9_\-.#]/g, "")
+    .replace(/^\.+/, "");
+  return cleaned || "untitled";
+}
+
+export function packFileName(preset: string, note: number, rr: number): string {
+  return `${preset}_${midiToNoteName(note)}_rr${rr}.wav`;
+}
+
+export function getPackTakeCount(roundRobin: RoundRobinSettings): number {
+  return roundRobin.enabled ? Math.max(1, roundRobin.variationCount) : 1;
+}
+
+// Notes a multi-sample export renders: every rangeStep-th note across the range
+export function getRangeNotes(exportSettings: ExportSettings): number[] {
+  const low = Math.min(exportSettings.rangeLow, exportSettings.rangeHigh);
+  const high = Math.max(exportSettings.rangeLow, exportSettings.rangeHigh);
+  const notes: number[] = [];
+  for (let note = low; note <= high; note += Math.max(1, exportSettings.rangeStep)) {
+    notes.push(note);
+  }
+  return notes;
+}
+
+// Unique folder name per preset; duplicates get a numeric suffix
+function assignFolders(presets: PackPreset[]): string[] {
+  const used = new Set<string>();
+  return presets.map(preset => {
+    const base = sanitizePackName(preset.name);
+    let folder = base;
+    for (let n = 2; used.has(folder.toLowerCase()); n++) {
+      folder = `${base}-${n}`;
+    }
+    used.add(folder.toLowerCase());
+    return folder;
+  });
+}
+
+export async function renderSamplePack(
+  presets: PackPreset[],
+  options: PackExportOptions,
+  onProgress?: (done: number, total: number) => void
+): Promise<SamplePack> {
+  const packFolder = sanitizePackName(options.packName);
+  const sampleRate = parseInt(options.exportSettings.sampleRate);
+  const takes = getPackTakeCount(options.roundRobin);
+  const total = presets.length * options.notes.length * takes;
+  const folders = assignFolders(presets);
+  const wavOptions = getWavEncodeOptions(options.exportSettings.bitDepth, options.exportSettings.dither);
+  const keyRanges = assignKeyRanges(options.notes);
+
+  const entries: ZipEntry[] = [];
+  const manifest: PackManifest = {
+    version: PACK_MANIFEST_VERSION,
+    name: options.packName,
+    createdAt: new Date().toISOString(),
+    seed: options.seed,
+    sampleRate,
+    channels: options.exportSettings.channels,
+    bitDepth: options.exportSettings.bitDepth,
+    notes: options.notes.map(midiToNoteName),
+    roundRobin: options.roundRobin,
+    presets: [],
+    files: [],
+  };
+
+  let fileIndex = 0;
+  onProgress?.(0, total);
+
+  for (let p = 0; p < presets.length; p++) {
+    const { params, granularSample, customWavetables, customIR, roundRobinSettings, version, ...rest } = presets[p].settings;
+    const baseSettings: RenderSettings = { ...rest, customIR, granularBuffer: decodeGranularSample(granularSample) };
+    const rootMidi = patchRootMidi(params);
+    const cache = createRenderCache();
+    const folder = folders[p];
+    const zones: SamplerZone[] = [];
+
+    manifest.presets.push({
+      name: presets[p].name,
+      folder,
+      rootNote: midiToNoteName(rootMidi),
+      settings: { ...rest, params, roundRobinSettings, version },
+    });
+
+    for (let rr = 1; rr <= takes; rr++) {
+      // The same variation is used at every pitch so each round-robin layer stays consistent
+      const variationSeed = options.roundRobin.enabled ? options.seed + p * 1000 + rr : null;
+      const takeParams = variationSeed !== null
+        ? generateVariation(params, options.roundRobin, createSeededRandom(variationSeed), options.locks)
+        : params;
+
+      for (const note of options.notes) {
+        const semitones = note - rootMidi;
+        const seed = options.seed + fileIndex;
+        const settings: RenderSettings = baseSettings.sampleLayerSettings
+          ? { ...baseSettings, sampleLayerSettings: transposeSampleLayer(baseSettings.sampleLayerSettings, semitones) }
+          : baseSettings;
+
+        const rendered = await renderSound(transposeParameters(takeParams, semitones), settings, {
+          seed,
+          sampleRate,
+          cache,
+          tailFloorDb: options.exportSettings.autoTrim ? options.exportSettings.tailFloor : undefined,
+        });
+        const finalBuffer = await prepareExportBuffer(rendered, options.exportSettings);
+
+        const fileName = packFileName(folder, note, rr);
+        const path = `${packFolder}/${folder}/${fileName}`;
+        const metadata = buildWavMetadata({ presetName: presets[p].name, seed, rootNote: note, tempo: params.tempo });
+        entries.push({ path, data: new Uint8Array(encodeWav(finalBuffer, { ...wavOptions, metadata })) });
+        manifest.files.push({
+          path,
+          preset: presets[p].name,
+          note: midiToNoteName(note),
+          midi: note,
+          rr,
+          seed,
+          variationSeed,
+          duration: finalBuffer.duration,
+        });
+
+        const range = keyRanges.find(r => r.rootNote === note);
+        if (range) {
+          zones.push({ ...range, file: fileName, rr, duration: finalBuffer.duration });
+        }
+
+        fileIndex++;
+        onProgress?.(fileIndex, total);
+      }
+    }
+
+    if (options.samplerMapping) {
+      const encoder = new TextEncoder();
+      entries.push({ path: `${packFolder}/${folder}/${folder}.sfz`, data: encoder.encode(buildSfz(presets[p].name, zones)) });
+      entries.push({ path: `${packFolder}/${folder}/${folder}.dspreset`, data: encoder.encode(buildDecentSamplerPreset(presets[p].name, zones)) });
+    }
+  }
+
+  entries.push({
+    path: `${packFolder}/manifest.json`,
+    data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)),
+  });
+
+  return { zip: createZip(entries), manifest };
+}
@@ -0,0 +1,146 @@
+// Parameter locks protect values from Randomize, Mutate and round-robin
+// variations. A lock is a dotted path into FullSynthSettings, e.g.
+// "params.filter.frequency" or "ringModSettings"; locking a path locks
+// everything below it, so whole sections lock the same way as single knobs.
+
+export type ParameterLocks = string[];
+
+export interface LockSection {
+  label: string;
+  paths: string[];
+}
+
+// Sections offered in the lock menu, in panel order
+export const LOCK_SECTIONS: LockSection[] = [
+  { label: "OSC 1", paths: ["params.oscillators.osc1", "oscEnvelopes.osc1", "advancedFMSettings.osc1"] },
+  { label: "OSC 2", paths: ["params.oscillators.osc2", "oscEnvelopes.osc2", "advancedFMSettings.osc2"] },
+  { label: "OSC 3", paths: ["params.oscillators.osc3", "oscEnvelopes.osc3", "advancedFMSettings.osc3"] },
+  { label: "Envelopes", paths: ["params.envelopes"] },
+  { label: "Filter", paths: ["params.filter", "advancedFilterSettings"] },
+  { label: "Modal", paths: ["params.modal"] },
+  { label: "Additive", paths: ["params.additive"] },
+  { label: "Click Layer", paths: ["params.clickLayer"] },
+  { label: "Sub Osc", paths: ["params.subOsc"] },
+  { label: "Phase", paths: ["phaseSettings"] },
+  { label: "Ring Mod", paths: ["ringModSettings"] },
+  { label: "Effects", paths: ["params.effects", "reverbSettings"] },
+  { label: "Convolver", paths: ["params.convolver", "convolverSettings"] },
+  { label: "Waveshaper", paths: ["params.waveshaper", "advancedWaveshaperSettings"] },
+  { label: "Saturation", paths: ["params.saturationChain"] },
+  { label: "Spectral", paths: ["params.spectralScrambler", "advancedSpectralSettings"] },
+  { label: "Low End", paths: ["lowEndSettings"] },
+  { label: "Multiband Comp", paths: ["multibandCompSettings"] },
+  { label: "Phaser/Flanger", paths: ["phaserFlangerSettings"] },
+  { label: "EQ", paths: ["parametricEQSettings"] },
+  { label: "Parallel", paths: ["parallelProcessingSettings"] },
+  { label: "Curve Mod", paths: ["curveModulatorSettings"] },
+  { label: "Step Seq", paths: ["stepSequencerSettings"] },
+  { label: "Tempo", paths: ["params.tempo"] },
+];
+
+const STORAGE_KEY = "synthParameterLocks";
+
+export function isLocked(locks: ParameterLocks, path: string): boolean {
+  return locks.some(lock => path === lock || path.startsWith(`${lock}.`));
+}
+
+export function isSectionLocked(locks: ParameterLocks, section: LockSection): boolean {
+  return section.paths.every(path => isLocked(locks, path));
+}
+
+// Locks covering `path` from above it, e.g. "params.filter" for "params.filter.frequency"
+function ancestorLocks(locks: ParameterLocks, path: string): ParameterLocks {
+  return locks.filter(lock => path.startsWith(`${lock}.`));
+}
+
+// Replace `ancestor` with locks on everything under it except `path`, walking
+// `settings` for the keys at each level. Null when the shape there isn't known
+function expandLockWithout(settings: unknown, ancestor: string, path: string): ParameterLocks | null {
+  const keys = path.slice(ancestor.length + 1).split(".");
+  const expanded: ParameterLocks = [];
+  let prefix = ancestor;
+  let node = getAt(settings, ancestor.split("."));
+  for (const key of keys) {
+    if (node == null || typeof node !== "object" || !(key in node)) return null;
+    for (const sibling of Object.keys(node)) {
+      if (sibling !== key) expanded.push(`${prefix}.${sibling}`);
+    }
+    prefix = `${prefix}.${key}`;
+    node = (node as Record<string, unknown>)[key];
+  }
+  return expanded;
+}
+
+// Toggle a single path. Unlocking clears the locks on it and nested under it;
+// a section locked above it is split so everything else in it stays locked.
+// `settings` is the object the paths point into; if the path isn't in it the
+// section lock is left as is
+export function toggleLock(locks: ParameterLocks, path: string, settings: unknown): ParameterLocks {
+  if (!isLocked(locks, path)) {
+    return [...locks.filter(lock => !lock.startsWith(`${path}.`)), path];
+  }
+  let next = locks.filter(lock => lock !== path && !lock.startsWith(`${path}.`));
+  for (const ancestor of ancestorLocks(next, path)) {
+    const expanded = expandLockWithout(settings, ancestor, path);
+    if (!expanded) return locks;
+    next = [...next.filter(lock => lock !== ancestor), ...expanded];
+  }
+  return next;
+}
+
+export function toggleSectionLock(locks: ParameterLocks, section: LockSection, settings: unknown): ParameterLocks {
+  const locked = isSectionLocked(locks, section);
+  return section.paths.reduce(
+    (next, path) => (isLocked(next, path) === locked ? toggleLock(next, path, settings) : next),
+    locks
+  );
+}
+
+function getAt(value: unknown, path: string[]): unknown {
+  return path.reduce<unknown>((node, key) => (node != null && typeof node === "object" ? (node as Record<string, unknown>)[key] : undefined), value);
+}
+
+function setAt<T>(target: T, path: string[], value: unknown): T {
+  if (path.length === 0) return value as T;
+  const node = (target != null && typeof target === "object" ? target : {}) as Record<string, unknown>;
+  const [key, ...rest] = path;
+  const copy = Array.isArray(node) ? [...node] : { ...node };
+  (copy as Record<string, unknown>)[key] = setAt(node[key], rest, value);
+  return copy as T;
+}
+
+// Restore every locked value under `root` (e.g. "params", or "" for the
+// whole settings object) from `current` into a freshly randomized `next`
+export function applyLocks<T>(next: T, current: T, locks: ParameterLocks, root = ""): T {
+  const prefix = root ? `${root}.` : "";
+  let result = next;
+  for (const lock of locks) {
+    if (root && (root === lock || root.startsWith(`${lock}.`))) return current;
+    if (!lock.startsWith(prefix)) continue;
+    const path = lock.slice(prefix.length).split(".");
+    const value = getAt(current, path);
+    if (value !== undefined) result = setAt(result, path, value);
+  }
+  return result;
+}
+
+export function loadParameterLocks(): ParameterLocks {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (Array.isArray(parsed)) return parsed.filter((lock): lock is string => typeof lock === "string");
+    }
+  } catch (e) {
+    console.error("Failed to load parameter locks:", e);
+  }
+  return [];
+}
+
+export function saveParameterLocks(locks: ParameterLocks): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(locks));
+  } catch (e) {
+    console.error("Failed to save parameter locks:", e);
+  }
+}
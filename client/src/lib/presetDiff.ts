@@ -0,0 +1,54 @@
+// Leaf-level differences between two preset settings payloads, used by the
+// revision history. Embedded audio (IRs, wavetables, samples) shows up as one
+// summarized change instead of thousands of sample values.
+import type { SettingsChange } from "@shared/schema";
+
+const MAX_CHANGES = 200;
+const MAX_ARRAY_RECURSE = 16;
+const MAX_STRING_LENGTH = 80;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+// Keep diff payloads small; long arrays and base64 blobs become a description
+function summarize(value: unknown): unknown {
+  if (Array.isArray(value) && value.length > MAX_ARRAY_RECURSE) return `[${value.length} items]`;
+  if (typeof value === "string" && value.length > MAX_STRING_LENGTH) return `[${value.length} chars]`;
+  if (isPlainObject(value) || Array.isArray(value)) {
+    const json = JSON.stringify(value);
+    return json.length > MAX_STRING_LENGTH * 4 ? `[${Object.keys(value).length} fields]` : value;
+  }
+  return value;
+}
+
+function collect(before: unknown, after: unknown, path: string, changes: SettingsChange[]): void {
+  if (changes.length >= MAX_CHANGES) return;
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+    keys.forEach(key => collect(before[key], after[key], path ? `${path}.${key}` : key, changes));
+    return;
+  }
+
+  // Short arrays of the same length (e.g. EQ bands) are compared item by item
+  if (
+    Array.isArray(before) &&
+    Array.isArray(after) &&
+    before.length === after.length &&
+    before.length <= MAX_ARRAY_RECURSE
+  ) {
+    before.forEach((item, i) => collect(item, after[i], `${path}.${i}`, changes));
+    return;
+  }
+
+  if (JSON.stringify(before) !== JSON.stringify(after)) {
+    changes.push({ path, before: summarize(before), after: summarize(after) });
+  }
+}
+
+export function diffSettings(before: unknown, after: unknown): SettingsChange[] {
+  const changes: SettingsChange[] = [];
+  collect(before, after, "", changes);
+  return changes;
+}
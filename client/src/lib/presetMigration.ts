@@ -0,0 +1,264 @@
+// Preset migration: upgrade stored presets (DB rows, imported JSON, factory
+// presets) one version at a time to the current FullSynthSettings shape, then
+// repair it: the synth parameters against defaultSynthParameters and the
+// schema, every other settings block the preset carries against its defaults,
+// and embedded assets that are malformed are dropped.
+import type { ZodIssue } from "zod";
+import { SynthParametersSchema, defaultSynthParameters } from "@shared/schema";
+import type { SynthParameters } from "@shared/schema";
+import { FULL_PRESET_VERSION } from "./fullPreset";
+import type { FullSynthSettings } from "./fullPreset";
+import { defaultOscEnvelopes } from "./oscEnvelopeSettings";
+import { defaultConvolverSettings } from "./convolverSettings";
+import { defaultReverbSettings } from "./reverbSettings";
+import {
+  defaultOscAdvancedFMSettings,
+  defaultAdvancedFilterSettings,
+  defaultAdvancedWaveshaperSettings,
+  defaultLowEndSettings,
+  defaultOscPhaseSettings,
+  defaultAdvancedSpectralSettings,
+} from "./advancedSynthSettings";
+import { defaultAllOscWavetableSettings } from "./wavetableSettings";
+import { defaultRingModSettings } from "./ringModSettings";
+import { CINEMATIC_DEFAULTS, DESIGN_DEFAULTS, clampToMode } from "./granularSettings";
+import type { GranularSettings } from "./granularSettings";
+import { defaultSampleLayerSettings } from "./sampleLayerSettings";
+import { defaultParametricEQSettings } from "./eqSettings";
+import { defaultMultibandCompSettings } from "./multibandCompSettings";
+import { defaultPhaserFlangerSettings } from "./phaserFlangerSettings";
+import { defaultParallelProcessingSettings } from "./parallelProcessingSettings";
+import { defaultCurveModulatorSettings } from "./curveModulatorSettings";
+import { defaultStepSequencerSettings } from "./stepSequencerSettings";
+import { defaultRoundRobinSettings } from "./roundRobinExport";
+
+type StoredSettings = Record<string, unknown>;
+type PresetUpgrader = (settings: StoredSettings) => StoredSettings;
+
+// Version 0 is the original Preset shape ({ parameters }), version 1 is
+// FullSynthSettings before it carried a version field
+const LEGACY_PRESET_VERSION = 0;
+const MAX_REPAIR_PASSES = 100;
+
+// Keyed by the version being upgraded FROM; each step returns the next version
+const PRESET_UPGRADERS: Record<number, PresetUpgrader> = {
+  // Legacy Preset -> FullSynthSettings
+  0: ({ parameters }) => ({ params: parameters, version: 1 }),
+  // Version 2 added whole subsystems; absent blocks keep the current values on
+  // load, which is how version 1 presets always behaved
+  1: (settings) => ({ ...settings, version: 2 }),
+};
+
+// Defaults the optional settings blocks are repaired against. Granular
+// settings are handled apart since their defaults depend on the mode
+const SETTINGS_BLOCK_DEFAULTS: { [K in keyof FullSynthSettings]?: FullSynthSettings[K] } = {
+  oscEnvelopes: defaultOscEnvelopes,
+  convolverSettings: defaultConvolverSettings,
+  reverbSettings: defaultReverbSettings,
+  advancedFMSettings: defaultOscAdvancedFMSettings,
+  advancedFilterSettings: defaultAdvancedFilterSettings,
+  advancedWaveshaperSettings: defaultAdvancedWaveshaperSettings,
+  lowEndSettings: defaultLowEndSettings,
+  phaseSettings: defaultOscPhaseSettings,
+  advancedSpectralSettings: defaultAdvancedSpectralSettings,
+  wavetableSettings: defaultAllOscWavetableSettings,
+  ringModSettings: defaultRingModSettings,
+  sampleLayerSettings: defaultSampleLayerSettings,
+  parametricEQSettings: defaultParametricEQSettings,
+  multibandCompSettings: defaultMultibandCompSettings,
+  phaserFlangerSettings: defaultPhaserFlangerSettings,
+  parallelProcessingSettings: defaultParallelProcessingSettings,
+  curveModulatorSettings: defaultCurveModulatorSettings,
+  stepSequencerSettings: defaultStepSequencerSettings,
+  roundRobinSettings: defaultRoundRobinSettings,
+};
+
+export interface PresetMigrationResult {
+  settings: FullSynthSettings;
+  fromVersion: number;
+  repaired: string[]; // Settings paths that were missing or invalid and got reset or dropped
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function cloneDefault<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === "number") return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+export function detectPresetVersion(stored: StoredSettings): number {
+  if (typeof stored.version === "number") return stored.version;
+  if ("parameters" in stored && !("params" in stored)) return LEGACY_PRESET_VERSION;
+  return 1;
+}
+
+// Fill missing or wrongly typed fields from the defaults, keeping everything else
+function fillFromDefaults(value: unknown, fallback: unknown, path: string, repaired: string[]): unknown {
+  if (fallback === null) return value === undefined ? null : value; // Nullable, e.g. no sample loaded
+  if (Array.isArray(fallback)) {
+    if (Array.isArray(value)) return value;
+    repaired.push(path);
+    return cloneDefault(fallback);
+  }
+  if (isRecord(fallback)) {
+    if (!isRecord(value)) {
+      repaired.push(path);
+      return cloneDefault(fallback);
+    }
+    const result: Record<string, unknown> = { ...value };
+    for (const key of Object.keys(fallback)) {
+      result[key] = fillFromDefaults(value[key], fallback[key], joinPath(path, key), repaired);
+    }
+    return result;
+  }
+  if (typeof value !== typeof fallback || (typeof value === "number" && !Number.isFinite(value))) {
+    repaired.push(path);
+    return fallback;
+  }
+  return value;
+}
+
+// Fix the value a schema issue points at: out-of-range numbers are clamped,
+// bad array entries dropped, anything else reset to its default
+function repairIssue(params: Record<string, unknown>, issue: ZodIssue): string {
+  let container: unknown = params;
+  let fallback: unknown = defaultSynthParameters;
+  let path = "";
+
+  for (let i = 0; i < issue.path.length; i++) {
+    const key = issue.path[i];
+    const isLast = i === issue.path.length - 1;
+
+    if (Array.isArray(container) && typeof key === "number") {
+      container.splice(key, 1);
+      return joinPath(path, key);
+    }
+    if (!isRecord(container)) break;
+
+    const nextFallback = isRecord(fallback) ? fallback[key as string] : undefined;
+    if (isLast || nextFallback === undefined) {
+      const current = container[key as string];
+      if (typeof current === "number" && (issue.code === "too_small" || issue.code === "too_big")) {
+        container[key as string] = issue.code === "too_small" ? Number(issue.minimum) : Number(issue.maximum);
+      } else if (nextFallback !== undefined) {
+        container[key as string] = cloneDefault(nextFallback);
+      } else {
+        delete container[key as string];
+      }
+      return joinPath(path, key);
+    }
+
+    container = container[key as string];
+    fallback = nextFallback;
+    path = joinPath(path, key);
+  }
+
+  return path;
+}
+
+export function repairSynthParameters(stored: unknown): { params: SynthParameters; repaired: string[] } {
+  const repaired: string[] = [];
+  const params = fillFromDefaults(stored, defaultSynthParameters, "", repaired) as Record<string, unknown>;
+
+  for (let pass = 0; pass < MAX_REPAIR_PASSES; pass++) {
+    const result = SynthParametersSchema.safeParse(params);
+    if (result.success) {
+      return { params: result.data, repaired: Array.from(new Set(repaired)) };
+    }
+    repaired.push(repairIssue(params, result.error.issues[0]));
+  }
+
+  console.error("Preset parameters could not be repaired, using defaults");
+  return { params: cloneDefault(defaultSynthParameters), repaired: ["params"] };
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function isEmbeddedWavetable(value: unknown): boolean {
+  return isRecord(value) && typeof value.id === "string" && typeof value.name === "string" &&
+    Array.isArray(value.frames) && value.frames.length > 0 &&
+    value.frames.every(frame => Array.isArray(frame) && frame.every(isFiniteNumber));
+}
+
+// Repair the blocks besides params. Absent blocks stay absent (the current
+// values are kept on load); present ones are filled from their defaults
+function repairSettingsBlocks(settings: StoredSettings, repaired: string[]): StoredSettings {
+  const result: StoredSettings = { ...settings };
+
+  for (const key of Object.keys(SETTINGS_BLOCK_DEFAULTS) as (keyof FullSynthSettings)[]) {
+    if (result[key] === undefined) continue;
+    result[key] = fillFromDefaults(result[key], SETTINGS_BLOCK_DEFAULTS[key], key, repaired);
+  }
+
+  if (result.granularSettings !== undefined) {
+    const stored = result.granularSettings;
+    const defaults = isRecord(stored) && stored.mode === "design" ? DESIGN_DEFAULTS : CINEMATIC_DEFAULTS;
+    result.granularSettings = clampToMode(fillFromDefaults(stored, defaults, "granularSettings", repaired) as GranularSettings);
+  }
+
+  const sample = result.granularSample;
+  if (
+    sample !== undefined &&
+    !(isRecord(sample) && typeof sample.name === "string" && isFiniteNumber(sample.duration) &&
+      isFiniteNumber(sample.sampleRate) && sample.sampleRate > 0 && (sample.channels === 1 || sample.channels === 2) &&
+      (sample.dataBase64 === undefined || typeof sample.dataBase64 === "string"))
+  ) {
+    delete result.granularSample;
+    repaired.push("granularSample");
+  }
+
+  const ir = result.customIR;
+  if (ir !== undefined && !(isRecord(ir) && typeof ir.name === "string" && typeof ir.data === "string")) {
+    delete result.customIR;
+    repaired.push("customIR");
+  }
+
+  const wavetables = result.customWavetables;
+  if (wavetables !== undefined) {
+    const valid = Array.isArray(wavetables) ? wavetables.filter(isEmbeddedWavetable) : [];
+    if (!Array.isArray(wavetables) || valid.length !== wavetables.length) repaired.push("customWavetables");
+    if (valid.length > 0) result.customWavetables = valid;
+    else delete result.customWavetables;
+  }
+
+  return result;
+}
+
+// Upgrade a stored preset to the current version. Returns null when the input
+// isn't recognizable as a preset at all.
+export function migratePresetSettings(stored: unknown): PresetMigrationResult | null {
+  if (!isRecord(stored)) return null;
+
+  const fromVersion = detectPresetVersion(stored);
+  let settings: StoredSettings = stored;
+  let version = fromVersion;
+
+  while (version < FULL_PRESET_VERSION) {
+    const upgrade = PRESET_UPGRADERS[version];
+    if (!upgrade) {
+      console.error(`No preset upgrader from version ${version}`);
+      return null;
+    }
+    settings = upgrade(settings);
+    version = detectPresetVersion(settings);
+  }
+
+  if (!isRecord(settings.params)) return null;
+
+  const { params, repaired } = repairSynthParameters(settings.params);
+  const repairedBlocks: string[] = [];
+  const blocks = repairSettingsBlocks(settings, repairedBlocks);
+  return {
+    settings: { ...(blocks as unknown as FullSynthSettings), params, version: Math.max(version, FULL_PRESET_VERSION) },
+    fromVersion,
+    repaired: [...repaired.map(path => (path ? `params.${path}` : "params")), ...Array.from(new Set(repairedBlocks))],
+  };
+}
@@ -0,0 +1,84 @@
+// Short MP3 previews of shared presets, rendered in the browser when a preset
+// is saved and uploaded next to it so the library can be auditioned without
+// loading each preset. Previews are loudness-matched so skimming stays even.
+import { defaultExportSettings, type ExportSettings } from "@shared/schema";
+import { migratePresetSettings } from "./presetMigration";
+import { decodeGranularSample, restorePresetAssets } from "./fullPreset";
+import { renderSound } from "./renderEngine";
+import { prepareExportBuffer } from "./exportProcessing";
+import { encodeCompressed } from "./exportEncoder";
+
+const PREVIEW_SEED = 1; // Fixed so regenerating an unchanged preset gives the same preview
+const MAX_PREVIEW_SECONDS = 4;
+const PREVIEW_FADE_MS = 150;
+
+const PREVIEW_EXPORT_SETTINGS: ExportSettings = {
+  ...defaultExportSettings,
+  format: "mp3",
+  channels: "stereo",
+  sampleRate: "44100",
+  mp3Mode: "cbr",
+  mp3Bitrate: "128",
+  normalize: true,
+  normalizeMode: "integrated",
+  loudnessTarget: -16,
+  autoTrim: true,
+};
+
+// Renders run one at a time, e.g. when a whole JSON file is imported
+let queue: Promise<unknown> = Promise.resolve();
+
+function truncateWithFade(buffer: AudioBuffer, seconds: number): AudioBuffer {
+  const length = Math.floor(seconds * buffer.sampleRate);
+  if (buffer.length <= length) return buffer;
+
+  const truncated = new AudioBuffer({ numberOfChannels: buffer.numberOfChannels, length, sampleRate: buffer.sampleRate });
+  const fadeSamples = Math.floor((PREVIEW_FADE_MS / 1000) * buffer.sampleRate);
+  for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+    const data = buffer.getChannelData(ch).slice(0, length);
+    for (let i = 0; i < fadeSamples; i++) {
+      data[length - 1 - i] *= i / fadeSamples;
+    }
+    truncated.copyToChannel(data, ch);
+  }
+  return truncated;
+}
+
+async function renderPreview(settings: unknown): Promise<Blob | null> {
+  const migration = migratePresetSettings(settings);
+  if (!migration) return null;
+  restorePresetAssets(migration.settings);
+
+  const { params, granularSample, ...rest } = migration.settings;
+  const rendered = await renderSound(params, { ...rest, granularBuffer: decodeGranularSample(granularSample) }, {
+    seed: PREVIEW_SEED,
+    sampleRate: 44100,
+  });
+  const prepared = await prepareExportBuffer(rendered, PREVIEW_EXPORT_SETTINGS);
+  return encodeCompressed(truncateWithFade(prepared, MAX_PREVIEW_SECONDS), "mp3", PREVIEW_EXPORT_SETTINGS);
+}
+
+// Render a preset's settings and store the result as its preview; rejects when
+// the settings are unreadable or the upload fails
+export function uploadPresetPreview(presetId: number, settings: unknown): Promise<void> {
+  const task = queue.then(async () => {
+    const blob = await renderPreview(settings);
+    if (!blob) throw new Error("Preset data is unreadable");
+
+    const res = await fetch(`/api/presets/${presetId}/preview`, {
+      method: "PUT",
+      headers: { "Content-Type": blob.type },
+      body: blob,
+      credentials: "include",
+    });
+    if (!res.ok) {
+      throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+    }
+  });
+  queue = task.catch(() => undefined);
+  return task;
+}
+
+export function getPresetPreviewUrl(presetId: number, previewUpdatedAt: number): string {
+  return `/api/presets/${presetId}/preview?v=${previewUpdatedAt}`;
+}
@@ -0,0 +1,364 @@
+// Target profiles for Randomize. A profile narrows the engines, envelopes,
+// pitch ranges and effects a random patch may use, then a rendered candidate
+// has to pass the profile's audibility and duration checks to be kept.
+import type { SynthParameters, WaveformType, FilterType } from "@shared/schema";
+import type { FullSynthSettings } from "./fullPreset";
+import { hzToPitchState } from "./pitchUtils";
+import { findSoundBounds } from "./tailDetection";
+import { linearToDb } from "./loudness";
+
+type Range = [number, number];
+
+export type RandomizeProfileId = "any" | "kick" | "snare" | "hat" | "clap" | "pluck" | "bassHit" | "riser" | "fx";
+
+export interface RandomizeProfile {
+  id: RandomizeProfileId;
+  label: string;
+  pitchHz?: Range; // Oscillator, modal and additive base pitch
+  waveforms?: WaveformType[]; // Allowed oscillator waveforms
+  extraOscChance?: number; // Chance that OSC 2 / OSC 3 stay on
+  noiseLayer?: boolean; // Force OSC 2 on as a noise layer
+  fm?: boolean; // Allow FM/AM/PM on the oscillators
+  attackMs?: Range; // Amp envelope (env3)
+  holdMs?: Range;
+  decayMs?: Range;
+  pitchSweep?: { semitones: Range; decayMs: Range }; // Pitch envelope (env2); negative sweeps up
+  filterTypes?: FilterType[];
+  filterHz?: Range;
+  layers?: { click?: number; sub?: number; modal?: number; additive?: number }; // Chance of each layer
+  effects?: { reverbMix?: number; delayMix?: number; chorus?: boolean; convolver?: boolean; spectral?: boolean }; // Max mix, 0 = off
+  coloring?: boolean; // Allow ring mod, phaser/flanger and the curve/step modulators
+  // Checks on the rendered candidate
+  durationMs?: Range; // Audible length
+  zeroCrossingHz?: Range; // Rough brightness of the body of the sound
+}
+
+export const RANDOMIZE_PROFILES: RandomizeProfile[] = [
+  { id: "any", label: "Any" },
+  {
+    id: "kick",
+    label: "Kick",
+    pitchHz: [40, 70],
+    waveforms: ["sine", "triangle"],
+    extraOscChance: 0.2,
+    attackMs: [0, 3],
+    holdMs: [0, 40],
+    decayMs: [150, 700],
+    pitchSweep: { semitones: [12, 36], decayMs: [20, 120] },
+    filterTypes: ["lowpass"],
+    filterHz: [300, 4000],
+    layers: { click: 0.6, sub: 0.5 },
+    effects: {},
+    durationMs: [100, 1200],
+    zeroCrossingHz: [20, 400],
+  },
+  {
+    id: "snare",
+    label: "Snare",
+    pitchHz: [150, 300],
+    waveforms: ["triangle", "sine"],
+    noiseLayer: true,
+    attackMs: [0, 3],
+    holdMs: [0, 20],
+    decayMs: [100, 400],
+    pitchSweep: { semitones: [3, 12], decayMs: [10, 60] },
+    filterTypes: ["lowpass", "bandpass", "highpass"],
+    filterHz: [1500, 9000],
+    layers: { click: 0.5 },
+    effects: { reverbMix: 20 },
+    durationMs: [80, 800],
+    zeroCrossingHz: [300, 8000],
+  },
+  {
+    id: "hat",
+    label: "Hat",
+    pitchHz: [3000, 10000],
+    waveforms: ["noise", "square"],
+    extraOscChance: 0.5,
+    attackMs: [0, 2],
+    holdMs: [0, 10],
+    decayMs: [20, 250],
+    filterTypes: ["highpass", "bandpass"],
+    filterHz: [6000, 14000],
+    layers: { click: 0.7 },
+    effects: { reverbMix: 10 },
+    durationMs: [20, 500],
+    zeroCrossingHz: [3000, 22050],
+  },
+  {
+    id: "clap",
+    label: "Clap",
+    pitchHz: [800, 2000],
+    waveforms: ["noise"],
+    noiseLayer: true,
+    attackMs: [0, 5],
+    holdMs: [10, 40],
+    decayMs: [80, 300],
+    filterTypes: ["bandpass"],
+    filterHz: [800, 3000],
+    effects: { reverbMix: 25, delayMix: 20 },
+    durationMs: [80, 800],
+    zeroCrossingHz: [800, 10000],
+  },
+  {
+    id: "pluck",
+    label: "Pluck",
+    pitchHz: [110, 880],
+    waveforms: ["sawtooth", "square", "triangle"],
+    extraOscChance: 0.4,
+    attackMs: [0, 5],
+    holdMs: [0, 20],
+    decayMs: [150, 900],
+    filterTypes: ["lowpass"],
+    filterHz: [800, 6000],
+    layers: { modal: 0.3 },
+    effects: { reverbMix: 25, delayMix: 20, chorus: true },
+    durationMs: [120, 1500],
+    zeroCrossingHz: [80, 8000],
+  },
+  {
+    id: "bassHit",
+    label: "Bass Hit",
+    pitchHz: [40, 110],
+    waveforms: ["sawtooth", "square", "sine"],
+    extraOscChance: 0.4,
+    attackMs: [0, 10],
+    holdMs: [20, 120],
+    decayMs: [300, 1500],
+    pitchSweep: { semitones: [0, 7], decayMs: [10, 80] },
+    filterTypes: ["lowpass"],
+    filterHz: [150, 1500],
+    layers: { sub: 0.8 },
+    effects: {},
+    durationMs: [300, 2500],
+    zeroCrossingHz: [30, 1500],
+  },
+  {
+    id: "riser",
+    label: "Riser",
+    pitchHz: [100, 800],
+    waveforms: ["sawtooth", "noise", "square"],
+    extraOscChance: 0.6,
+    fm: true,
+    attackMs: [800, 2000],
+    holdMs: [0, 100],
+    decayMs: [50, 300],
+    pitchSweep: { semitones: [-24, -7], decayMs: [800, 2000] },
+    filterTypes: ["lowpass", "bandpass"],
+    filterHz: [2000, 12000],
+    effects: { reverbMix: 35, delayMix: 25, chorus: true },
+    coloring: true,
+    durationMs: [800, 4500],
+  },
+  {
+    id: "fx",
+    label: "FX",
+    pitchHz: [80, 4000],
+    extraOscChance: 0.7,
+    fm: true,
+    attackMs: [0, 300],
+    holdMs: [0, 200],
+    decayMs: [200, 3000],
+    pitchSweep: { semitones: [-36, 36], decayMs: [50, 1500] },
+    layers: { modal: 0.3, additive: 0.3 },
+    effects: { reverbMix: 40, delayMix: 30, chorus: true, convolver: true, spectral: true },
+    coloring: true,
+    durationMs: [150, 6000],
+  },
+];
+
+// Everything Randomize can produce in one go
+export type RandomizedSettings = Partial<Omit<FullSynthSettings, "params" | "version">> & { params: SynthParameters };
+
+export const MAX_PROFILE_ATTEMPTS = 8;
+
+const STORAGE_KEY = "synthRandomizeProfile";
+const MIN_PEAK_DB = -30;
+const TAIL_FLOOR_DB = -50;
+const BODY_WINDOW_MS = 100;
+
+export function getRandomizeProfile(id: RandomizeProfileId): RandomizeProfile {
+  return RANDOMIZE_PROFILES.find(profile => profile.id === id) ?? RANDOMIZE_PROFILES[0];
+}
+
+function pick<T>(items: T[]): T {
+  return items[Math.floor(Math.random() * items.length)];
+}
+
+function inRange([min, max]: Range, log = false): number {
+  if (log && min > 0) return Math.exp(Math.log(min) + Math.random() * (Math.log(max) - Math.log(min)));
+  return min + Math.random() * (max - min);
+}
+
+function clampTo(value: number, [min, max]: Range): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+// Pull a freshly randomized patch inside the profile's ranges
+export function applyRandomizeProfile(params: SynthParameters, profile: RandomizeProfile): SynthParameters {
+  if (profile.id === "any") return params;
+  const result: SynthParameters = JSON.parse(JSON.stringify(params));
+
+  const oscKeys = ["osc1", "osc2", "osc3"] as const;
+  oscKeys.forEach((key, i) => {
+    const osc = result.oscillators[key];
+    if (i > 0 && profile.extraOscChance !== undefined) osc.enabled = Math.random() < profile.extraOscChance;
+    if (profile.waveforms) osc.waveform = pick(profile.waveforms);
+    if (profile.pitchHz) osc.pitch = hzToPitchState(inRange(profile.pitchHz, true));
+    if (!profile.fm) {
+      osc.fmEnabled = false;
+      osc.amEnabled = false;
+      osc.pmEnabled = false;
+      osc.indexEnvEnabled = false;
+    }
+  });
+  result.oscillators.osc1.enabled = true;
+  if (profile.noiseLayer) {
+    result.oscillators.osc2.enabled = true;
+    result.oscillators.osc2.waveform = "noise";
+  }
+
+  // The engine reads env3 as amp, env2 as pitch and env1 as filter
+  const amp = result.envelopes.env3;
+  amp.enabled = true;
+  amp.target = "amplitude";
+  amp.amount = 100;
+  if (profile.attackMs) amp.attack = Math.round(inRange(profile.attackMs));
+  if (profile.holdMs) amp.hold = Math.round(inRange(profile.holdMs));
+  if (profile.decayMs) amp.decay = Math.round(inRange(profile.decayMs, true));
+
+  const pitch = result.envelopes.env2;
+  pitch.target = "pitch";
+  if (profile.pitchSweep) {
+    pitch.enabled = true;
+    pitch.attack = 0;
+    pitch.hold = 0;
+    pitch.amount = Math.round(inRange(profile.pitchSweep.semitones));
+    pitch.decay = Math.round(inRange(profile.pitchSweep.decayMs, true));
+    pitch.curve = "exponential";
+  } else if (profile.attackMs) {
+    pitch.enabled = false;
+  }
+  result.envelopes.env1.target = "filter";
+
+  if (profile.filterTypes && !profile.filterTypes.includes(result.filter.type)) result.filter.type = pick(profile.filterTypes);
+  if (profile.filterHz) result.filter.frequency = Math.round(inRange(profile.filterHz, true));
+
+  // Layers: kept only as often as the profile allows
+  const layers = profile.layers ?? {};
+  result.clickLayer.enabled = Math.random() < (layers.click ?? 0);
+  result.subOsc.enabled = Math.random() < (layers.sub ?? 0);
+  result.modal.enabled = Math.random() < (layers.modal ?? 0);
+  result.additive.enabled = Math.random() < (layers.additive ?? 0);
+  if (profile.pitchHz) {
+    result.modal.basePitch = Math.round(clampTo(inRange(profile.pitchHz, true), [20, 2000]));
+    result.additive.basePitch = Math.round(clampTo(inRange(profile.pitchHz, true), [20, 2000]));
+  }
+  result.granular.enabled = false;
+
+  if (profile.effects) {
+    const { reverbMix = 0, delayMix = 0, chorus = false, convolver = false, spectral = false } = profile.effects;
+    result.effects.reverbEnabled = result.effects.reverbEnabled && reverbMix > 0;
+    result.effects.reverbMix = Math.min(result.effects.reverbMix, reverbMix);
+    result.effects.delayEnabled = result.effects.delayEnabled && delayMix > 0;
+    result.effects.delayMix = Math.min(result.effects.delayMix, delayMix);
+    result.effects.chorusEnabled = result.effects.chorusEnabled && chorus;
+    result.convolver.enabled = result.convolver.enabled && convolver;
+    result.spectralScrambler.enabled = result.spectralScrambler.enabled && spectral;
+  }
+
+  return result;
+}
+
+// Switch off the coloring blocks for profiles that don't allow them
+export function applyProfileToBlocks(settings: RandomizedSettings, profile: RandomizeProfile): RandomizedSettings {
+  if (profile.id === "any" || profile.coloring) return settings;
+  const result = { ...settings };
+  if (result.ringModSettings) result.ringModSettings = { ...result.ringModSettings, enabled: false };
+  if (result.phaserFlangerSettings) {
+    result.phaserFlangerSettings = {
+      phaser: { ...result.phaserFlangerSettings.phaser, enabled: false },
+      flanger: { ...result.phaserFlangerSettings.flanger, enabled: false },
+    };
+  }
+  if (result.curveModulatorSettings) result.curveModulatorSettings = { ...result.curveModulatorSettings, enabled: false };
+  if (result.stepSequencerSettings) result.stepSequencerSettings = { ...result.stepSequencerSettings, enabled: false };
+  return result;
+}
+
+export interface ProfileCheck {
+  passed: boolean;
+  score: number; // 0 when passed; higher is further off
+  reason?: string;
+}
+
+// How far `value` sits outside `range`, in octaves so every check weighs the same
+function distance(value: number, [min, max]: Range): number {
+  if (value < min) return Math.log2(min / Math.max(value, 1e-6));
+  if (value > max) return Math.log2(value / max);
+  return 0;
+}
+
+function zeroCrossingHz(channel: Float32Array, from: number, to: number, sampleRate: number): number {
+  let crossings = 0;
+  for (let i = from + 1; i < to; i++) {
+    if ((channel[i - 1] < 0) !== (channel[i] < 0)) crossings++;
+  }
+  return (crossings / 2) / Math.max(1e-6, (to - from) / sampleRate);
+}
+
+// Audibility, length and brightness checks on a rendered candidate
+export function checkRandomizeResult(channels: Float32Array[], sampleRate: number, profile: RandomizeProfile): ProfileCheck {
+  const bounds = findSoundBounds(channels, -40, TAIL_FLOOR_DB);
+  if (!bounds) return { passed: false, score: Infinity, reason: "Silent" };
+
+  let peak = 0;
+  for (const channel of channels) {
+    for (let i = bounds.start; i < bounds.end; i++) peak = Math.max(peak, Math.abs(channel[i]));
+  }
+  const peakDb = linearToDb(peak);
+  if (peakDb < MIN_PEAK_DB) return { passed: false, score: 10 + (MIN_PEAK_DB - peakDb), reason: "Too quiet" };
+
+  let score = 0;
+  const reasons: string[] = [];
+
+  const lengthMs = ((bounds.end - bounds.start) / sampleRate) * 1000;
+  if (profile.durationMs) {
+    const off = distance(lengthMs, profile.durationMs);
+    if (off > 0) reasons.push(`${Math.round(lengthMs)} ms long`);
+    score += off;
+  }
+
+  if (profile.zeroCrossingHz) {
+    const to = Math.min(bounds.end, bounds.start + Math.round((BODY_WINDOW_MS / 1000) * sampleRate));
+    const hz = zeroCrossingHz(channels[0], bounds.start, to, sampleRate);
+    // Nothing above Nyquist survives the render, so the target can't ask for it
+    const nyquist = sampleRate / 2;
+    const [min, max] = profile.zeroCrossingHz;
+    const off = distance(hz, [Math.min(min, nyquist), Math.min(max, nyquist)]);
+    if (off > 0) reasons.push(`${Math.round(hz)} Hz body`);
+    score += off;
+  }
+
+  return { passed: score === 0, score, reason: reasons.join(", ") || undefined };
+}
+
+export function loadRandomizeProfile(): RandomizeProfileId {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored && RANDOMIZE_PROFILES.some(profile => profile.id === stored)) {
+      return stored as RandomizeProfileId;
+    }
+  } catch (e) {
+    console.error("Failed to load randomize profile:", e);
+  }
+  return "any";
+}
+
+export function saveRandomizeProfile(id: RandomizeProfileId): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, id);
+  } catch (e) {
+    console.error("Failed to save randomize profile:", e);
+  }
+}
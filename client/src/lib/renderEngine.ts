@@ -0,0 +1,3232 @@
+// Offline render engine: builds the synth graph for one note into any
+// OfflineAudioContext and applies the post-render processing. Framework-free so
+// the same pipeline runs in the browser and in Node (server/render.ts).
+
+import type { SynthParameters, WaveshaperCurve } from "@shared/schema";
+import { pitchToHz } from "./pitchUtils";
+import { triggerAHD, EPS } from "./envelopeAHD";
+import type { FullSynthSettings } from "./fullPreset";
+import type { OscEnvelopes } from "@/components/synth/OscillatorPanel";
+import { defaultReverbSettings } from "./reverbSettings";
+import { type ConvolverSettings, type StoredIR, defaultConvolverSettings, getStoredIRs } from "./convolverSettings";
+import { type OscAdvancedFMSettings, type OscPhaseSettings, type AdvancedSpectralSettings, defaultLowEndSettings, defaultOscPhaseSettings, defaultAdvancedSpectralSettings } from "./advancedSynthSettings";
+import type { AllOscWavetableSettings, WavetableData } from "./wavetableSettings";
+import { type SampleLayerSettings, base64ToAudioBuffer } from "./sampleLayerSettings";
+import type { MultibandCompSettings, BandCompSettings } from "./multibandCompSettings";
+import type { PhaserSettings, FlangerSettings } from "./phaserFlangerSettings";
+import type { ParametricEQSettings } from "./eqSettings";
+import { velocityToGain } from "./noteTrigger";
+import { type GranularSampleBuffer, applyAntiMudRules, clampToMode } from "./granularSettings";
+import { generateGrainSchedule, windowWithSkew, cubicInterpolate, calculateHPCoeffs, calculateLPCoeffs, saturate, applySafetyFade, generateAHDEnvelope } from "./granularUtils";
+import { createUnisonWavetableOscillators, createMorphingWavetableOscillators } from "./wavetableEngine";
+import { getWavetableById } from "./factoryWavetables";
+import { fft } from "./fft";
+import { isStillAudible, getChannels } from "./tailDetection";
+import { buildRenderModulation, connectModulationCurve, buildWavetablePositionCurve, applyStaticModulation, applyStaticReverbModulation, createSeededRandom, applyGranularModulation, createModulatorStates, divisionToMs } from "./renderModulation";
+
+// Get effective delay time (either ms or calculated from tempo/division)
+function getEffectiveDelayTime(params: SynthParameters): number {
+  if (params.effects.delaySyncMode === "sync") {
+    return divisionToMs(params.effects.delayDivision, params.tempo);
+  }
+  return params.effects.delayTime;
+}
+
+// Fix 1: Tail padding for reverb/delay decay (in seconds)
+// Increased for heavily processed sounds with reverb/delay
+const TAIL_PAD = 0.35; // 350ms for better FX tail capture
+const MAX_EXTENDED_RENDER = 30; // Seconds, upper bound when extending for audible tails
+
+function createWaveshaperCurve(type: WaveshaperCurve, drive: number): Float32Array<ArrayBuffer> {
+  const samples = 8192;
+  // Allocate with an explicit ArrayBuffer to satisfy WaveShaperNode.curve typing
+  // (avoids Float32Array<ArrayBufferLike> vs Float32Array<ArrayBuffer> mismatch in newer TS libs)
+  const curveBuffer = new ArrayBuffer(samples * Float32Array.BYTES_PER_ELEMENT);
+  const curve = new Float32Array(curveBuffer);
+  const amount = (drive / 100) * 10;
+
+  for (let i = 0; i < samples; i++) {
+    const x = (i * 2) / samples - 1;
+
+    switch (type) {
+      case "softclip":
+        curve[i] = Math.tanh(x * (1 + amount * 2));
+        break;
+      case "hardclip": {
+        const threshold = 1 / (1 + amount);
+        curve[i] = Math.max(-threshold, Math.min(threshold, x)) * (1 / threshold);
+        break;
+      }
+      case "foldback": {
+        let folded = x * (1 + amount * 3);
+        while (Math.abs(folded) > 1) {
+          if (folded > 1) folded = 2 - folded;
+          else if (folded < -1) folded = -2 - folded;
+        }
+        curve[i] = folded;
+        break;
+      }
+      case "sinefold":
+        curve[i] = Math.sin(x * Math.PI * (1 + amount * 2));
+        break;
+      case "chebyshev": {
+        const order = Math.floor(2 + amount * 8);
+        curve[i] = chebyshev(x, order);
+        break;
+      }
+      case "asymmetric":
+        if (x >= 0) {
+          curve[i] = Math.tanh(x * (1 + amount * 4));
+        } else {
+          curve[i] = Math.tanh(x * (1 + amount));
+        }
+        break;
+      case "tube": {
+        const k = amount * 5 + 1;
+        curve[i] = (1 + k) * x / (1 + k * Math.abs(x));
+        break;
+      }
+      default:
+        curve[i] = x;
+    }
+  }
+
+  return curve;
+}
+
+function chebyshev(x: number, order: number): number {
+  if (order === 0) return 1;
+  if (order === 1) return x;
+  let t0 = 1, t1 = x;
+  for (let i = 2; i <= order; i++) {
+    const t2 = 2 * x * t1 - t0;
+    t0 = t1;
+    t1 = t2;
+  }
+  return t1;
+}
+
+// 3-band shelf/peak EQ. Disabled bands are left out of the chain entirely.
+function buildParametricEQ(ctx: BaseAudioContext, input: AudioNode, settings: ParametricEQSettings): AudioNode {
+  const nyquist = ctx.sampleRate / 2;
+  let node = input;
+  for (const band of [settings.lowBand, settings.midBand, settings.highBand]) {
+    if (!band.enabled) continue;
+    const filter = ctx.createBiquadFilter();
+    filter.type = band.type;
+    filter.frequency.value = Math.max(20, Math.min(nyquist - 10, band.frequency));
+    filter.gain.value = band.gain;
+    filter.Q.value = Math.max(0.1, band.q);
+    node.connect(filter);
+    node = filter;
+  }
+  return node;
+}
+
+// 4th-order (two cascaded Butterworth) crossover filter so the bands sum back flat
+function createCrossoverFilter(ctx: BaseAudioContext, type: "lowpass" | "highpass", frequency: number): { input: BiquadFilterNode; output: BiquadFilterNode } {
+  const first = ctx.createBiquadFilter();
+  const second = ctx.createBiquadFilter();
+  first.type = type;
+  second.type = type;
+  first.frequency.value = frequency;
+  second.frequency.value = frequency;
+  first.Q.value = Math.SQRT1_2;
+  second.Q.value = Math.SQRT1_2;
+  first.connect(second);
+  return { input: first, output: second };
+}
+
+// 3-band compressor: crossover split -> per-band compressor + makeup -> sum, with dry/wet mix
+function buildMultibandCompressor(ctx: BaseAudioContext, input: AudioNode, settings: MultibandCompSettings): AudioNode {
+  const lowCross = Math.max(20, settings.lowCrossover);
+  const highCross = Math.max(lowCross + 100, settings.highCrossover);
+  
+  const wetSum = ctx.createGain();
+  const output = ctx.createGain();
+  
+  const lowBand = createCrossoverFilter(ctx, "lowpass", lowCross);
+  const midLow = createCrossoverFilter(ctx, "highpass", lowCross);
+  const midHigh = createCrossoverFilter(ctx, "lowpass", highCross);
+  const highBand = createCrossoverFilter(ctx, "highpass", highCross);
+  midLow.output.connect(midHigh.input);
+  
+  input.connect(lowBand.input);
+  input.connect(midLow.input);
+  input.connect(highBand.input);
+  
+  const bands: [BandCompSettings, AudioNode][] = [
+    [settings.lowBand, lowBand.output],
+    [settings.midBand, midHigh.output],
+    [settings.highBand, highBand.output],
+  ];
+  for (const [band, bandOut] of bands) {
+    const makeup = ctx.createGain();
+    if (band.enabled) {
+      const comp = ctx.createDynamicsCompressor();
+      comp.threshold.value = band.threshold;
+      comp.ratio.value = band.ratio;
+      comp.knee.value = 6;
+      // DynamicsCompressor attack/release must be positive (>0)
+      comp.attack.value = Math.max(0.0001, band.attack / 1000);
+      comp.release.value = Math.max(0.01, band.release / 1000);
+      makeup.gain.value = Math.pow(10, band.gain / 20);
+      bandOut.connect(comp);
+      comp.connect(makeup);
+    } else {
+      // Bypassed band still passes through so the crossover sums flat
+      bandOut.connect(makeup);
+    }
+    makeup.connect(wetSum);
+  }
+  
+  const mix = Math.max(0, Math.min(1, settings.mix));
+  const wetGain = ctx.createGain();
+  wetGain.gain.value = mix;
+  wetSum.connect(wetGain);
+  wetGain.connect(output);
+  if (mix < 1) {
+    const dryGain = ctx.createGain();
+    dryGain.gain.value = 1 - mix;
+    input.connect(dryGain);
+    dryGain.connect(output);
+  }
+  return output;
+}
+
+// Start an LFO that runs for the length of the render and register it for cleanup
+function startRenderLfo(
+  ctx: BaseAudioContext,
+  rate: number,
+  startTime: number,
+  stopAt: number,
+  sourcesCollector?: AudioScheduledSourceNode[]
+): OscillatorNode {
+  const lfo = ctx.createOscillator();
+  lfo.type = "sine";
+  lfo.frequency.value = Math.max(0.01, rate);
+  lfo.start(startTime);
+  lfo.stop(Math.max(startTime + 0.01, stopAt));
+  if (sourcesCollector) {
+    sourcesCollector.push(lfo);
+  }
+  return lfo;
+}
+
+// Phaser: cascaded all-pass stages whose center frequency is swept by an LFO
+function buildPhaser(
+  ctx: BaseAudioContext,
+  input: AudioNode,
+  settings: PhaserSettings,
+  startTime: number,
+  stopAt: number,
+  sourcesCollector?: AudioScheduledSourceNode[]
+): AudioNode {
+  const output = ctx.createGain();
+  const mix = Math.max(0, Math.min(1, settings.mix));
+  const centerHz = 1000;
+  const sweepHz = centerHz * 0.9 * Math.max(0, Math.min(1, settings.depth));
+  
+  const lfo = startRenderLfo(ctx, settings.rate, startTime, stopAt, sourcesCollector);
+  const lfoGain = ctx.createGain();
+  lfoGain.gain.value = sweepHz;
+  lfo.connect(lfoGain);
+  
+  const stageInput = ctx.createGain();
+  input.connect(stageInput);
+  let node: AudioNode = stageInput;
+  const stageCount = Math.max(2, Math.round(settings.stages));
+  for (let i = 0; i < stageCount; i++) {
+    const allpass = ctx.createBiquadFilter();
+    allpass.type = "allpass";
+    allpass.frequency.value = centerHz;
+    allpass.Q.value = 0.5;
+    lfoGain.connect(allpass.frequency);
+    node.connect(allpass);
+    node = allpass;
+  }
+  
+  if (settings.feedback !== 0) {
+    // Cycles in the graph need a delay; one render quantum is inaudible here
+    const feedbackDelay = ctx.createDelay(0.01);
+    feedbackDelay.delayTime.value = 128 / ctx.sampleRate;
+    const feedbackGain = ctx.createGain();
+    feedbackGain.gain.value = Math.max(-0.9, Math.min(0.9, settings.feedback));
+    node.connect(feedbackDelay);
+    feedbackDelay.connect(feedbackGain);
+    feedbackGain.connect(stageInput);
+  }
+  
+  const dryGain = ctx.createGain();
+  const wetGain = ctx.createGain();
+  dryGain.gain.value = 1 - mix;
+  wetGain.gain.value = mix;
+  input.connect(dryGain);
+  node.connect(wetGain);
+  dryGain.connect(output);
+  wetGain.connect(output);
+  return output;
+}
+
+// Flanger: short modulated delay with feedback mixed back against the dry signal
+function buildFlanger(
+  ctx: BaseAudioContext,
+  input: AudioNode,
+  settings: FlangerSettings,
+  startTime: number,
+  stopAt: number,
+  sourcesCollector?: AudioScheduledSourceNode[]
+): AudioNode {
+  const output = ctx.createGain();
+  const mix = Math.max(0, Math.min(1, settings.mix));
+  const baseDelay = Math.max(0.0005, Math.min(0.01, settings.delay / 1000));
+  // Depth swings up to the base delay (never below 0.1ms)
+  const swing = Math.min(baseDelay - 0.0001, baseDelay * Math.max(0, Math.min(1, settings.depth)));
+  
+  const delay = ctx.createDelay(0.05);
+  delay.delayTime.value = baseDelay;
+  
+  const lfo = startRenderLfo(ctx, settings.rate, startTime, stopAt, sourcesCollector);
+  const lfoGain = ctx.createGain();
+  lfoGain.gain.value = swing;
+  lfo.connect(lfoGain);
+  lfoGain.connect(delay.delayTime);
+  
+  const feedbackGain = ctx.createGain();
+  feedbackGain.gain.value = Math.max(-0.95, Math.min(0.95, settings.feedback));
+  input.connect(delay);
+  delay.connect(feedbackGain);
+  feedbackGain.connect(delay);
+  
+  const dryGain = ctx.createGain();
+  const wetGain = ctx.createGain();
+  dryGain.gain.value = 1 - mix;
+  wetGain.gain.value = mix;
+  input.connect(dryGain);
+  delay.connect(wetGain);
+  dryGain.connect(output);
+  wetGain.connect(output);
+  return output;
+}
+
+// Decode a custom IR by name: the copy embedded in the preset first, then the
+// IRs saved in this browser (there is no local storage when rendering in Node)
+async function loadStoredIR(ctx: BaseAudioContext, name: string, embedded?: StoredIR): Promise<AudioBuffer | null> {
+  try {
+    const ir = embedded?.name === name
+      ? embedded
+      : typeof localStorage !== "undefined"
+        ? getStoredIRs().find(stored => stored.name === name)
+        : undefined;
+    if (!ir) return null;
+    
+    const binaryString = atob(ir.data);
+    const bytes = new Uint8Array(binaryString.length);
+    for (let i = 0; i < binaryString.length; i++) {
+      bytes[i] = binaryString.charCodeAt(i);
+    }
+    
+    return await ctx.decodeAudioData(bytes.buffer.slice(0));
+  } catch (error) {
+    console.error("Failed to load stored IR:", error);
+    return null;
+  }
+}
+
+// Enhanced algorithmic reverb impulse response generator
+export function createImpulseResponse(
+  ctx: BaseAudioContext, 
+  duration: number, 
+  decay: number,
+  randomFn: () => number = Math.random,
+  reverbType: "hall" | "plate" | "room" = "plate",
+  damping: number = 50,
+  diffusion: number = 70,
+  modulation: number = 20,
+  predelay: number = 10,
+  stereoWidth: number = 80
+): AudioBuffer {
+  const sampleRate = ctx.sampleRate;
+  const predelaySamples = Math.floor((predelay / 1000) * sampleRate);
+  const totalLength = Math.floor(sampleRate * duration) + predelaySamples;
+  const impulse = ctx.createBuffer(2, totalLength, sampleRate);
+  
+  // Early reflection patterns based on reverb type
+  // These simulate the first discrete echoes before the diffuse tail
+  const earlyReflections: { delay: number; gain: number; pan: number }[] = [];
+  
+  if (reverbType === "hall") {
+    // Large hall - longer delays, more reflections, wider stereo
+    earlyReflections.push(
+      { delay: 0.012, gain: 0.7, pan: -0.3 },
+      { delay: 0.019, gain: 0.6, pan: 0.4 },
+      { delay: 0.028, gain: 0.5, pan: -0.2 },
+      { delay: 0.037, gain: 0.45, pan: 0.5 },
+      { delay: 0.048, gain: 0.4, pan: -0.6 },
+      { delay: 0.061, gain: 0.35, pan: 0.3 },
+      { delay: 0.077, gain: 0.3, pan: -0.4 },
+      { delay: 0.095, gain: 0.25, pan: 0.6 }
+    );
+  } else if (reverbType === "plate") {
+    // Plate reverb - dense, quick buildup, bright
+    earlyReflections.push(
+      { delay: 0.005, gain: 0.8, pan: 0.1 },
+      { delay: 0.009, gain: 0.7, pan: -0.2 },
+      { delay: 0.013, gain: 0.65, pan: 0.3 },
+      { delay: 0.018, gain: 0.55, pan: -0.1 },
+      { delay: 0.024, gain: 0.5, pan: 0.25 },
+      { delay: 0.031, gain: 0.4, pan: -0.35 }
+    );
+  } else {
+    // Room - short, few reflections, close
+    earlyReflections.push(
+      { delay: 0.008, gain: 0.6, pan: -0.2 },
+      { delay: 0.014, gain: 0.5, pan: 0.3 },
+      { delay: 0.022, gain: 0.4, pan: -0.15 },
+      { delay: 0.032, gain: 0.3, pan: 0.2 }
+    );
+  }
+  
+  // Damping affects how quickly high frequencies decay
+  const dampingFactor = 1 - (damping / 100) * 0.8;
+  
+  // Diffusion affects tail density
+  const diffusionFactor = diffusion / 100;
+  
+  // Stereo decorrelation
+  const widthFactor = stereoWidth / 100;
+  
+  // Modulation adds subtle pitch variation to prevent metallic artifacts
+  const modDepth = (modulation / 100) * 0.003; // Max 3ms modulation depth
+  const modRate = 0.5 + (modulation / 100) * 1.5; // 0.5-2 Hz modulation rate
+  
+  for (let channel = 0; channel < 2; channel++) {
+    const channelData = impulse.getChannelData(channel);
+    const isLeft = channel === 0;
+    
+    // Stereo offset for decorrelation
+    const stereoOffset = isLeft ? -0.002 * widthFactor : 0.002 * widthFactor;
+    
+    // Add early reflections
+    for (const er of earlyReflections) {
+      const samplePos = predelaySamples + Math.floor((er.delay + stereoOffset) * sampleRate);
+      if (samplePos >= 0 && samplePos < totalLength) {
+        // Pan affects how much of this reflection goes to each channel
+        const panGain = isLeft ? 
+          Math.cos((er.pan * widthFactor + 1) * Math.PI / 4) :
+          Math.sin((er.pan * widthFactor + 1) * Math.PI / 4);
+        
+        // Add a short filtered noise burst for each early reflection
+        const erLength = Math.floor(0.005 * sampleRate);
+        for (let j = 0; j < erLength && samplePos + j < totalLength; j++) {
+          const erEnv = Math.exp(-j / (erLength * 0.3));
+          channelData[samplePos + j] += (randomFn() * 2 - 1) * er.gain * panGain * erEnv * 0.5;
+        }
+      }
+    }
+    
+    // Late diffuse tail with modulation
+    const tailStart = predelaySamples + Math.floor(0.05 * sampleRate);
+    const tailLength = totalLength - tailStart;
+    
+    // Create diffuse tail
+    for (let i = tailStart; i < totalLength; i++) {
+      const t = (i - tailStart) / sampleRate;
+      
+      // Modulated time for lushness
+      const modTime = t + modDepth * Math.sin(2 * Math.PI * modRate * t);
+      
+      // Base exponential decay
+      let envelope = Math.exp(-modTime / decay);
+      
+      // Additional high-frequency damping simulation
+      // Later samples have less high-frequency content
+      const hfDamping = Math.exp(-t * dampingFactor * 2);
+      
+      // Generate noise with diffusion-controlled density
+      let noise = 0;
+      
+      // High diffusion = more dense noise
+      // Low diffusion = more sparse, grainy texture
+      if (randomFn() < diffusionFactor * 0.95 + 0.05) {
+        noise = randomFn() * 2 - 1;
+        
+        // Apply simple lowpass as damping approximation
+        // Blend between full-bandwidth and filtered noise based on damping and time
+        const lpBlend = t * (1 - dampingFactor);
+        const lpNoise = noise * hfDamping;
+        noise = noise * (1 - lpBlend) + lpNoise * lpBlend;
+      }
+      
+      // Stereo decorrelation - slight phase offset
+      const stereoPhase = isLeft ? 0 : Math.PI * 0.3 * widthFactor;
+      const stereoMod = 1 + 0.1 * Math.sin(2 * Math.PI * 0.7 * t + stereoPhase) * widthFactor;
+      
+      channelData[i] += noise * envelope * stereoMod;
+    }
+  }
+  
+  // Normalize to prevent clipping
+  let maxVal = 0;
+  for (let ch = 0; ch < 2; ch++) {
+    const data = impulse.getChannelData(ch);
+    for (let i = 0; i < totalLength; i++) {
+      maxVal = Math.max(maxVal, Math.abs(data[i]));
+    }
+  }
+  if (maxVal > 0.99) {
+    const scale = 0.95 / maxVal;
+    for (let ch = 0; ch < 2; ch++) {
+      const data = impulse.getChannelData(ch);
+      for (let i = 0; i < totalLength; i++) {
+        data[i] *= scale;
+      }
+    }
+  }
+  
+  return impulse;
+}
+
+function applyBitcrusher(
+  buffer: AudioBuffer,
+  bitDepth: number,
+  bitDepthAt?: (index: number) => number,
+  mixAt?: (index: number) => number
+): void {
+  if (bitDepth >= 16 && !bitDepthAt) return;
+  
+  if (!bitDepthAt && !mixAt) {
+    const step = Math.pow(0.5, bitDepth);
+    const invStep = 1 / step;
+    
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const data = buffer.getChannelData(channel);
+      for (let i = 0; i < data.length; i++) {
+        data[i] = Math.round(data[i] * invStep) * step;
+      }
+    }
+    return;
+  }
+  
+  // Modulated path: bit depth and wet amount follow the modulator rack per sample
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      const bits = bitDepthAt ? bitDepthAt(i) : bitDepth;
+      if (bits >= 16) continue;
+      const step = Math.pow(0.5, bits);
+      const crushed = Math.round(data[i] / step) * step;
+      const wet = mixAt ? mixAt(i) / 100 : 1;
+      data[i] += (crushed - data[i]) * wet;
+    }
+  }
+}
+
+// Reusable FFT buffers to reduce GC pressure
+const fftBuffers: {
+  window: Float32Array | null,
+  real: Float32Array | null,
+  imag: Float32Array | null,
+  scrambledReal: Float32Array | null,
+  scrambledImag: Float32Array | null,
+  fftSize: number
+} = { window: null, real: null, imag: null, scrambledReal: null, scrambledImag: null, fftSize: 0 };
+
+// Spectral bin scrambling using FFT with advanced effects
+function applySpectralScrambling(
+  buffer: AudioBuffer, 
+  fftSize: number, 
+  scrambleAmount: number, 
+  binShift: number,
+  freeze: boolean,
+  mix: number,
+  gateThreshold: number,
+  stretch: number,
+  binDensity: number,
+  spectralSettings: AdvancedSpectralSettings,
+  cache: RenderCache,
+  fundamentalHz: number = 110
+): void {
+  // Check if any processing is needed
+  const hasScramble = scrambleAmount > 0;
+  const hasShift = binShift !== 0;
+  const hasGate = gateThreshold < 0;
+  const hasStretch = Math.abs(stretch - 1.0) > 0.01;
+  const hasDensity = binDensity < 100;
+  const hasTilt = spectralSettings.tilt.enabled;
+  const hasBlur = spectralSettings.blur.enabled;
+  const hasHarmonicResynth = spectralSettings.harmonicResynth.enabled;
+  
+  if (!hasScramble && !hasShift && !freeze && !hasGate && !hasStretch && !hasDensity && !hasTilt && !hasBlur && !hasHarmonicResynth) return;
+  
+  // Validate and clamp to power-of-two (256, 512, 1024, 2048)
+  const validSizes = [256, 512, 1024, 2048];
+  if (!validSizes.includes(fftSize)) {
+    fftSize = 1024; // Default to safe value
+  }
+  
+  const hopSize = fftSize / 4;
+  const wetMix = mix / 100;
+  const numBins = fftSize / 2;
+  
+  // Convert gate threshold from dB to linear amplitude
+  // gateThreshold is 0 (off) to -60 (aggressive)
+  const gateLinear = gateThreshold < 0 ? Math.pow(10, gateThreshold / 20) : 0;
+  
+  // Reset frozen spectrum if FFT size changed
+  if (cache.frozenSpectrum && cache.frozenSpectrum.fftSize !== fftSize) {
+    cache.frozenSpectrum = null;
+  }
+  
+  // Allocate or reuse FFT buffers
+  const buffers = fftBuffers;
+  if (buffers.fftSize !== fftSize) {
+    buffers.window = new Float32Array(fftSize);
+    for (let i = 0; i < fftSize; i++) {
+      buffers.window[i] = 0.5 * (1 - Math.cos(2 * Math.PI * i / fftSize));
+    }
+    buffers.real = new Float32Array(fftSize);
+    buffers.imag = new Float32Array(fftSize);
+    buffers.scrambledReal = new Float32Array(fftSize);
+    buffers.scrambledImag = new Float32Array(fftSize);
+    buffers.fftSize = fftSize;
+  }
+  const window = buffers.window!;
+  const real = buffers.real!;
+  const imag = buffers.imag!;
+  const scrambledReal = buffers.scrambledReal!;
+  const scrambledImag = buffers.scrambledImag!;
+  
+  // Create seeded random for deterministic scrambling (per-trigger, not per-frame for impact)
+  const seed = Math.floor(scrambleAmount * 1000 + binShift * 100 + stretch * 50 + binDensity);
+  let rngState = seed;
+  const seededRandom = () => {
+    rngState = (rngState * 1103515245 + 12345) & 0x7fffffff;
+    return rngState / 0x7fffffff;
+  };
+  
+  // Pre-calculate which bins are active based on density (per-trigger for discrete states)
+  const activeBins = new Array(numBins).fill(false);
+  const densityFraction = binDensity / 100;
+  for (let k = 0; k < numBins; k++) {
+    activeBins[k] = seededRandom() < densityFraction;
+  }
+  // Always keep some low-frequency content for audibility
+  for (let k = 0; k < Math.min(10, numBins); k++) {
+    activeBins[k] = true;
+  }
+  
+  // Pre-calculate scramble mapping (per-trigger for impact, not per-frame)
+  const scrambleMap = new Int32Array(numBins);
+  const scrambleRange = Math.floor((scrambleAmount / 100) * numBins * 0.5);
+  const shiftAmount = Math.floor((binShift / 50) * numBins * 0.25);
+  rngState = seed; // Reset for consistent mapping
+  for (let k = 0; k < numBins; k++) {
+    let srcBin = k - shiftAmount;
+    
+    // Apply spectral stretch/squeeze
+    if (hasStretch) {
+      srcBin = Math.round(srcBin / stretch);
+    }
+    
+    // Apply scrambling
+    if (scrambleRange > 0) {
+      const scrambleProb = scrambleAmount / 100;
+      if (seededRandom() < scrambleProb) {
+        srcBin += Math.floor((seededRandom() - 0.5) * scrambleRange * 2);
+      }
+    }
+    
+    scrambleMap[k] = Math.max(0, Math.min(numBins - 1, srcBin));
+  }
+  
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    const originalData = new Float32Array(data);
+    const numFrames = Math.ceil(data.length / hopSize);
+    
+    const processedData = new Float32Array(data.length);
+    const windowSum = new Float32Array(data.length);
+    
+    for (let frame = 0; frame < numFrames; frame++) {
+      const startIdx = frame * hopSize;
+      
+      // Extract frame and apply window
+      for (let i = 0; i < fftSize; i++) {
+        const idx = startIdx + i;
+        real[i] = idx < data.length ? data[idx] * window[i] : 0;
+        imag[i] = 0;
+      }
+      
+      // Forward FFT
+      fft(real, imag, false);
+      
+      // Use frozen spectrum if freeze is enabled
+      if (freeze && cache.frozenSpectrum) {
+        real.set(cache.frozenSpectrum.real);
+        imag.set(cache.frozenSpectrum.imag);
+      } else if (freeze && !cache.frozenSpectrum) {
+        cache.frozenSpectrum = {
+          real: new Float32Array(real),
+          imag: new Float32Array(imag),
+          fftSize: fftSize
+        };
+      }
+      
+      // Find max magnitude for this frame (for relative gating) - computed per frame
+      let frameMagnitude = 0;
+      if (hasGate) {
+        for (let k = 0; k < numBins; k++) {
+          const mag = Math.sqrt(real[k] * real[k] + imag[k] * imag[k]);
+          if (mag > frameMagnitude) frameMagnitude = mag;
+        }
+      }
+      
+      // Process frequency bins
+      scrambledReal.fill(0);
+      scrambledImag.fill(0);
+      
+      for (let k = 0; k < numBins; k++) {
+        const srcBin = scrambleMap[k];
+        let srcReal = real[srcBin];
+        let srcImag = imag[srcBin];
+        
+        // Apply spectral gating (per-frame threshold)
+        if (hasGate && frameMagnitude > 0) {
+          const mag = Math.sqrt(srcReal * srcReal + srcImag * srcImag);
+          const normalizedMag = mag / frameMagnitude;
+          if (normalizedMag < gateLinear) {
+            srcReal = 0;
+            srcImag = 0;
+          }
+        }
+        
+        // Apply bin density (zero out inactive bins)
+        if (hasDensity && !activeBins[k]) {
+          srcReal = 0;
+          srcImag = 0;
+        }
+        
+        // Copy to output (positive frequency)
+        scrambledReal[k] = srcReal;
+        scrambledImag[k] = srcImag;
+        
+        // Mirror for negative frequency - use conjugate symmetry (same real, negated imag)
+        // This maintains Hermitian symmetry for real-valued output
+        if (k > 0 && k < numBins) {
+          scrambledReal[fftSize - k] = srcReal;
+          scrambledImag[fftSize - k] = -srcImag;
+        }
+      }
+      
+      // DC bin (k=0) - preserved unshifted but apply gating/density
+      // DC represents the signal's average level and should stay at bin 0
+      let dcReal = real[0];
+      if (hasGate && frameMagnitude > 0) {
+        const dcMag = Math.abs(dcReal);
+        if (dcMag / frameMagnitude < gateLinear) dcReal = 0;
+      }
+      if (hasDensity && !activeBins[0]) dcReal = 0;
+      scrambledReal[0] = dcReal;
+      scrambledImag[0] = 0;
+      
+      // Nyquist bin - preserved unshifted but apply gating/density
+      // Nyquist represents the highest frequency and should stay at numBins
+      if (fftSize % 2 === 0) {
+        let nyqReal = real[numBins];
+        if (hasGate && frameMagnitude > 0) {
+          const nyqMag = Math.abs(nyqReal);
+          if (nyqMag / frameMagnitude < gateLinear) nyqReal = 0;
+        }
+        // Nyquist density: use last active bin status (numBins-1) since activeBins.length = numBins
+        if (hasDensity && !activeBins[numBins - 1]) nyqReal = 0;
+        scrambledReal[numBins] = nyqReal;
+        scrambledImag[numBins] = 0;
+      }
+      
+      // === SPECTRAL TILT ===
+      // Apply frequency-dependent gain: negative tilts boost bass, positive tilts boost treble
+      if (hasTilt) {
+        const tiltAmount = spectralSettings.tilt.amount / 100; // -1 to 1
+        const tiltDb = tiltAmount * 12; // Max ±12dB tilt
+        
+        // Calculate envelope position for dynamic tilt
+        let envelopeMod = 0;
+        if (spectralSettings.tilt.envelopeFollow) {
+          // Use frame position as a proxy for envelope (0 at start, 1 at end)
+          const envelopePos = frame / numFrames;
+          envelopeMod = (spectralSettings.tilt.envelopeAmount / 100) * envelopePos;
+        }
+        
+        const effectiveTilt = tiltDb + envelopeMod * 12;
+        
+        for (let k = 1; k < numBins; k++) {
+          // Normalized frequency position (0 = DC, 1 = Nyquist)
+          const freqPos = k / numBins;
+          // Linear tilt in dB across frequency spectrum
+          const tiltGainDb = effectiveTilt * (freqPos - 0.5) * 2; // Center at midpoint
+          const tiltGain = Math.pow(10, tiltGainDb / 20);
+          
+          scrambledReal[k] *= tiltGain;
+          scrambledImag[k] *= tiltGain;
+          // Mirror for negative frequencies
+          if (k > 0 && k < numBins) {
+            scrambledReal[fftSize - k] *= tiltGain;
+            scrambledImag[fftSize - k] *= tiltGain;
+          }
+        }
+      }
+      
+      // === SPECTRAL BLUR ===
+      // Average neighboring frequency bins to create smeared/washy textures
+      if (hasBlur) {
+        const blurAmount = Math.floor((spectralSettings.blur.amount / 100) * 10) + 1; // 1-11 bins
+        const direction = spectralSettings.blur.direction / 100; // -1 to 1
+        const asymmetric = spectralSettings.blur.asymmetric;
+        
+        // Create temp arrays for blurred result
+        const blurredReal = new Float32Array(numBins);
+        const blurredImag = new Float32Array(numBins);
+        
+        for (let k = 0; k < numBins; k++) {
+          let sumReal = 0, sumImag = 0, count = 0;
+          
+          // Determine blur range based on asymmetry and direction
+          let blurStart = -blurAmount;
+          let blurEnd = blurAmount;
+          if (asymmetric) {
+            if (direction > 0) {
+              blurStart = 0; // Only blur upward (higher frequencies)
+              blurEnd = Math.floor(blurAmount * (1 + direction));
+            } else {
+              blurStart = Math.floor(blurAmount * (1 + direction));
+              blurEnd = 0; // Only blur downward (lower frequencies)
+            }
+          }
+          
+          for (let j = blurStart; j <= blurEnd; j++) {
+            const srcK = k + j;
+            if (srcK >= 0 && srcK < numBins) {
+              const weight = 1 - Math.abs(j) / (blurAmount + 1); // Triangle window
+              sumReal += scrambledReal[srcK] * weight;
+              sumImag += scrambledImag[srcK] * weight;
+              count += weight;
+            }
+          }
+          
+          if (count > 0) {
+            blurredReal[k] = sumReal / count;
+            blurredImag[k] = sumImag / count;
+          }
+        }
+        
+        // Copy blurred result back and maintain symmetry
+        for (let k = 0; k < numBins; k++) {
+          scrambledReal[k] = blurredReal[k];
+          scrambledImag[k] = blurredImag[k];
+          if (k > 0 && k < numBins) {
+            scrambledReal[fftSize - k] = blurredReal[k];
+            scrambledImag[fftSize - k] = -blurredImag[k];
+          }
+        }
+      }
+      
+      // === HARMONIC RESYNTHESIS ===
+      // Boost/attenuate based on harmonic relationship to fundamental
+      if (hasHarmonicResynth) {
+        const { harmonicsMode, harmonicSpread, harmonicBoost, inharmonicCut, harmonicDecay } = spectralSettings.harmonicResynth;
+        const fundFreq = spectralSettings.harmonicResynth.fundamentalDetect ? fundamentalHz : spectralSettings.harmonicResynth.manualFundamental;
+        const binWidth = buffer.sampleRate / fftSize;
+        const fundBin = fundFreq / binWidth;
+        const spreadBins = (harmonicSpread / 100) * 3; // Tolerance in bins
+        
+        // Check if a bin is harmonic based on mode
+        const isHarmonic = (binIdx: number, harmNum: number): boolean => {
+          switch (harmonicsMode) {
+            case "odd": return harmNum % 2 === 1;
+            case "even": return harmNum % 2 === 0 && harmNum > 0;
+            case "prime": {
+              if (harmNum < 2) return false;
+              for (let i = 2; i <= Math.sqrt(harmNum); i++) {
+                if (harmNum % i === 0) return false;
+              }
+              return true;
+            }
+            case "all":
+            default: return true;
+          }
+        };
+        
+        for (let k = 1; k < numBins; k++) {
+          // Find closest harmonic
+          let closestHarmonic = 0;
+          let minDist = Infinity;
+          
+          for (let h = 1; h <= 32; h++) { // Check up to 32nd harmonic
+            const harmonicBin = fundBin * h;
+            if (harmonicBin >= numBins) break;
+            const dist = Math.abs(k - harmonicBin);
+            if (dist < minDist) {
+              minDist = dist;
+              closestHarmonic = h;
+            }
+          }
+          
+          // Determine gain based on whether this is a harmonic
+          let gainDb = 0;
+          if (minDist <= spreadBins && isHarmonic(k, closestHarmonic)) {
+            // This bin is on or near a harmonic - boost it
+            const proximity = 1 - (minDist / (spreadBins + 0.01));
+            // Apply harmonic decay (higher harmonics get less boost)
+            const decayFactor = 1 - (harmonicDecay / 100) * (closestHarmonic / 16);
+            gainDb = harmonicBoost * proximity * Math.max(0.1, decayFactor);
+          } else {
+            // Not a harmonic - cut it
+            gainDb = inharmonicCut;
+          }
+          
+          const gain = Math.pow(10, gainDb / 20);
+          scrambledReal[k] *= gain;
+          scrambledImag[k] *= gain;
+          if (k > 0 && k < numBins) {
+            scrambledReal[fftSize - k] *= gain;
+            scrambledImag[fftSize - k] *= gain;
+          }
+        }
+      }
+      
+      // Inverse FFT
+      fft(scrambledReal, scrambledImag, true);
+      
+      // Overlap-add
+      for (let i = 0; i < fftSize; i++) {
+        const idx = startIdx + i;
+        if (idx < data.length) {
+          processedData[idx] += scrambledReal[i] * window[i];
+          windowSum[idx] += window[i] * window[i];
+        }
+      }
+    }
+    
+    // Calculate RMS energy of original and processed signals
+    let originalRMS = 0;
+    let processedRMS = 0;
+    for (let i = 0; i < data.length; i++) {
+      originalRMS += originalData[i] * originalData[i];
+      const wet = windowSum[i] > 0.001 ? processedData[i] / windowSum[i] : 0;
+      processedRMS += wet * wet;
+    }
+    originalRMS = Math.sqrt(originalRMS / data.length);
+    processedRMS = Math.sqrt(processedRMS / data.length);
+    
+    // ALWAYS cap wet mix at 70% to guarantee audible dry signal
+    const maxWetMix = 0.7;
+    let effectiveWetMix = Math.min(wetMix, maxWetMix);
+    
+    // Calculate energy normalization gain for the processed signal
+    // This ensures scrambled output matches original loudness
+    let energyGain = 1.0;
+    if (processedRMS > 0.0001 && originalRMS > 0.001) {
+      energyGain = Math.min(originalRMS / processedRMS, 4.0); // Cap at 4x to avoid extreme boost
+    }
+    
+    // If processed signal is still too quiet even after normalization potential,
+    // reduce wet mix further (stronger safeguard)
+    if (originalRMS > 0.001 && processedRMS * energyGain < originalRMS * 0.5) {
+      // Scrambler produced very quiet output - blend more dry signal
+      effectiveWetMix = Math.min(effectiveWetMix, 0.4); // Further reduce to 40% wet max
+    }
+    
+    let effectiveDryMix = 1 - effectiveWetMix;
+    
+    // Normalize and mix with original - apply energy gain to wet signal
+    for (let i = 0; i < data.length; i++) {
+      const rawWet = windowSum[i] > 0.001 ? processedData[i] / windowSum[i] : 0;
+      const normalizedWet = rawWet * energyGain;
+      data[i] = originalData[i] * effectiveDryMix + normalizedWet * effectiveWetMix;
+    }
+  }
+  
+  // Clear frozen spectrum when freeze is disabled
+  if (!freeze) {
+    cache.frozenSpectrum = null;
+  }
+}
+
+// Apply a safety fadeout at the end of the buffer to prevent pops/clicks
+// Increased fadeMs for heavily processed sounds
+export function applySafetyFadeout(buffer: AudioBuffer, fadeMs: number = 20): void {
+  const fadeOutSamples = Math.max(2, Math.min(
+    Math.floor((fadeMs / 1000) * buffer.sampleRate),
+    Math.floor(buffer.length * 0.1) // Max 10% of buffer length
+  ));
+  
+  if (buffer.length < 2) return;
+  
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    const startIndex = Math.max(0, buffer.length - fadeOutSamples);
+    const actualFadeSamples = buffer.length - startIndex;
+    
+    for (let i = 0; i < actualFadeSamples; i++) {
+      // Use (i+1)/actualFadeSamples to reach exactly 0 at the last sample
+      const t = (i + 1) / actualFadeSamples;
+      const gain = Math.cos(t * Math.PI * 0.5); // Cosine curve from ~1 to 0
+      data[startIndex + i] *= gain;
+    }
+    
+    // Force last sample to exactly zero to prevent any residual click
+    data[buffer.length - 1] = 0;
+  }
+}
+
+function processIRBuffer(
+  ctx: AudioContext | OfflineAudioContext,
+  irBuffer: AudioBuffer,
+  settings: ConvolverSettings
+): AudioBuffer {
+  const { reverse, stretch, decay } = settings;
+  
+  const stretchedLength = Math.floor(irBuffer.length * stretch);
+  const finalLength = Math.max(1, stretchedLength);
+  
+  const processedBuffer = ctx.createBuffer(
+    irBuffer.numberOfChannels,
+    finalLength,
+    irBuffer.sampleRate
+  );
+  
+  const decayRate = decay / 100;
+  const decayExponent = 3 + (1 - decayRate) * 5;
+  
+  for (let ch = 0; ch < irBuffer.numberOfChannels; ch++) {
+    const inputData = irBuffer.getChannelData(ch);
+    const outputData = processedBuffer.getChannelData(ch);
+    
+    for (let i = 0; i < finalLength; i++) {
+      const srcPos = i / stretch;
+      const srcIndex = Math.floor(srcPos);
+      const frac = srcPos - srcIndex;
+      const idx0 = Math.min(srcIndex, inputData.length - 1);
+      const idx1 = Math.min(srcIndex + 1, inputData.length - 1);
+      let sample = inputData[idx0] * (1 - frac) + inputData[idx1] * frac;
+      
+      const position = i / finalLength;
+      const envelope = Math.pow(1 - position, decayExponent);
+      sample *= envelope;
+      
+      outputData[i] = sample;
+    }
+    
+    if (reverse) {
+      outputData.reverse();
+    }
+  }
+  
+  return processedBuffer;
+}
+
+// Build the full synth graph for one note into `ctx`. `duration` is in ms.
+// `extraTailSec` holds off the closing fade so effect tails can ring past the
+// note without changing its timing or modulation.
+export async function generateSound(
+  ctx: AudioContext | OfflineAudioContext,
+  params: SynthParameters,
+  duration: number,
+  seed: number,
+  settings: RenderSettings,
+  cache: RenderCache,
+  velocity: number = 1,
+  sourcesCollector?: AudioScheduledSourceNode[],
+  extraTailSec: number = 0
+): Promise<{ masterGain: GainNode; safetyFadeGain: GainNode }> {
+  const perOscEnvelopes = settings.oscEnvelopes;
+  const convSettings = settings.convolverSettings;
+  let revSettings = settings.reverbSettings;
+  const wtSettingsToUse = settings.wavetableSettings;
+  const ringModSettingsToUse = settings.ringModSettings;
+  const parallelSettingsToUse = settings.parallelProcessingSettings;
+  const advancedFMSettingsToUse = settings.advancedFMSettings;
+  const granularSettingsToUse = settings.granularSettings;
+  const granularBufferToUse = settings.granularBuffer;
+  const curveSettingsToUse = settings.curveModulatorSettings;
+  const stepSettingsToUse = settings.stepSequencerSettings;
+  const sampleLayerToUse = settings.sampleLayerSettings;
+  const eqSettingsToUse = settings.parametricEQSettings;
+  const multibandCompSettingsToUse = settings.multibandCompSettings;
+  const phaserFlangerSettingsToUse = settings.phaserFlangerSettings;
+  const lowEndSettings = settings.lowEndSettings ?? defaultLowEndSettings;
+  const phaseSettings = settings.phaseSettings ?? defaultOscPhaseSettings;
+
+  const now = ctx.currentTime;
+  const durationSec = duration / 1000;
+  
+  // Fix 6: Use seeded random for consistent preview/export
+  const seededRandom = createSeededRandom(seed);
+  
+  const masterGain = ctx.createGain();
+  masterGain.gain.value = 0.0001;
+  
+  // Per-oscillator envelope bypass: oscillators with their own AHD envelopes
+  // connect here instead of masterGain, so they're not affected by master envelope
+  const perOscBypassGain = ctx.createGain();
+  perOscBypassGain.gain.value = 1.0;
+  
+  // Combined gain: merges masterGain (with master envelope) and perOscBypassGain
+  const combinedGain = ctx.createGain();
+  combinedGain.gain.value = 1.0;
+  masterGain.connect(combinedGain);
+  perOscBypassGain.connect(combinedGain);
+  
+  // Fix 2: Create safety fade gain at the end of the chain
+  const safetyFadeGain = ctx.createGain();
+  safetyFadeGain.gain.value = 1.0;
+  
+  // Fix 2: Schedule safety fade at the end (25ms fade for smoother fadeout)
+  const safetyFadeTime = 0.025; // 25ms for smooth fade on heavy FX
+  // Ensure envelopeEndTime is never negative (minimum 0.01s to prevent "value should be positive" error)
+  const envelopeEndTime = Math.max(0.01, durationSec - TAIL_PAD); // When envelope ends
+  safetyFadeGain.gain.setValueAtTime(1.0, now + envelopeEndTime + extraTailSec);
+  safetyFadeGain.gain.linearRampToValueAtTime(0, now + envelopeEndTime + extraTailSec + safetyFadeTime);
+  
+  // Fix 3: Calculate when to stop nodes (after safety fade completes plus buffer)
+  const stopAt = now + envelopeEndTime + extraTailSec + safetyFadeTime + 0.02;
+
+  // Modulator rack: evaluate every route over the render so targets can be automated.
+  // Parameters that only exist at build time (IR size, curve drive, envelope depth)
+  // take their modulated value at note start.
+  const modulation = buildRenderModulation(
+    params, durationSec, envelopeEndTime, ctx.sampleRate, seed, curveSettingsToUse, stepSettingsToUse, velocity
+  );
+  const modulate = (
+    path: string,
+    base: number,
+    min: number,
+    max: number,
+    targets: AudioParam | AudioParam[],
+    map?: (value: number) => number
+  ) => connectModulationCurve(ctx, modulation, path, base, min, max, targets, now, durationSec, stopAt, sourcesCollector, map);
+  params = applyStaticModulation(params, modulation);
+  revSettings = applyStaticReverbModulation(revSettings || defaultReverbSettings, modulation);
+  
+  const panNode = ctx.createStereoPanner();
+  panNode.pan.value = params.output.pan / 100;
+  
+  let lastNode: AudioNode = combinedGain;
+  
+  const filterEnv = params.envelopes.env1;
+  const shouldApplyFilterEnv = filterEnv.enabled && filterEnv.amount !== 0;
+  
+  if (params.filter.enabled) {
+    if (params.filter.type === "comb") {
+      const delay = ctx.createDelay();
+      delay.delayTime.value = params.filter.combDelay / 1000;
+      const feedback = ctx.createGain();
+      feedback.gain.value = Math.min(0.95, params.filter.resonance / 30);
+      modulate("filter.resonance", params.filter.resonance, 0, 30, feedback.gain, (v) => Math.min(0.95, v / 30));
+      const combGain = ctx.createGain();
+      combGain.gain.value = 1;
+      
+      masterGain.connect(delay);
+      delay.connect(feedback);
+      feedback.connect(delay);
+      delay.connect(combGain);
+      masterGain.connect(combGain);
+      lastNode = combGain;
+    } else {
+      const filter = ctx.createBiquadFilter();
+      filter.type = params.filter.type as BiquadFilterType;
+      // Ensure frequency is always positive to prevent exponentialRamp errors
+      filter.frequency.value = Math.max(20, params.filter.frequency);
+      filter.Q.value = params.filter.resonance;
+      if (params.filter.type === "peaking" || params.filter.type === "lowshelf" || params.filter.type === "highshelf") {
+        filter.gain.value = params.filter.gain;
+        modulate("filter.gain", params.filter.gain, -24, 24, filter.gain);
+      }
+      modulate("filter.frequency", params.filter.frequency, 20, 20000, filter.frequency);
+      modulate("filter.resonance", params.filter.resonance, 0, 30, filter.Q);
+      masterGain.connect(filter);
+      lastNode = filter;
+      
+      if (shouldApplyFilterEnv) {
+        const attackEnd = now + filterEnv.attack / 1000;
+        const holdEnd = attackEnd + filterEnv.hold / 1000;
+        const decayEnd = holdEnd + filterEnv.decay / 1000;
+        // Ensure baseFreq is always positive for exponentialRampToValueAtTime
+        const baseFreq = Math.max(20, params.filter.frequency);
+        const envAmount = filterEnv.amount / 100;
+        const modRange = envAmount > 0 
+          ? Math.min(20000, baseFreq * Math.pow(10, Math.abs(envAmount) * 2)) - baseFreq
+          : baseFreq - Math.max(20, baseFreq / Math.pow(10, Math.abs(envAmount) * 2));
+        const targetFreq = Math.max(20, Math.min(20000, baseFreq + modRange));
+        
+        filter.frequency.setValueAtTime(baseFreq, now);
+        filter.frequency.exponentialRampToValueAtTime(targetFreq, attackEnd);
+        filter.frequency.setValueAtTime(targetFreq, holdEnd);
+        filter.frequency.exponentialRampToValueAtTime(baseFreq, decayEnd);
+      }
+    }
+  } else if (shouldApplyFilterEnv) {
+    const filter = ctx.createBiquadFilter();
+    filter.type = "lowpass";
+    const baseFreq = 2000;
+    filter.frequency.value = baseFreq;
+    filter.Q.value = 1;
+    combinedGain.connect(filter);
+    lastNode = filter;
+    
+    const attackEnd = now + filterEnv.attack / 1000;
+    const holdEnd = attackEnd + filterEnv.hold / 1000;
+    const decayEnd = holdEnd + filterEnv.decay / 1000;
+    const envAmount = filterEnv.amount / 100;
+    const modRange = envAmount > 0 
+      ? Math.min(20000, baseFreq * Math.pow(10, Math.abs(envAmount) * 2)) - baseFreq
+      : baseFreq - Math.max(20, baseFreq / Math.pow(10, Math.abs(envAmount) * 2));
+    const targetFreq = Math.max(20, Math.min(20000, baseFreq + modRange));
+    
+    filter.frequency.setValueAtTime(baseFreq, now);
+    filter.frequency.exponentialRampToValueAtTime(targetFreq, attackEnd);
+    filter.frequency.setValueAtTime(targetFreq, holdEnd);
+    filter.frequency.exponentialRampToValueAtTime(baseFreq, decayEnd);
+  }
+
+  if (params.waveshaper.enabled) {
+    const waveshaper = ctx.createWaveShaper();
+    waveshaper.curve = createWaveshaperCurve(params.waveshaper.curve, params.waveshaper.drive);
+    waveshaper.oversample = params.waveshaper.oversample;
+    
+    if (params.waveshaper.preFilterEnabled) {
+      const preFilter = ctx.createBiquadFilter();
+      preFilter.type = "highpass";
+      preFilter.frequency.value = params.waveshaper.preFilterFreq;
+      modulate("waveshaper.preFilterFreq", params.waveshaper.preFilterFreq, 20, 20000, preFilter.frequency);
+      lastNode.connect(preFilter);
+      lastNode = preFilter;
+    }
+    
+    if (params.waveshaper.mix < 100 || modulation.hasRoutes("waveshaper.mix")) {
+      const dryGain = ctx.createGain();
+      const wetGain = ctx.createGain();
+      const mixNode = ctx.createGain();
+      dryGain.gain.value = 1 - params.waveshaper.mix / 100;
+      wetGain.gain.value = params.waveshaper.mix / 100;
+      modulate("waveshaper.mix", params.waveshaper.mix, 0, 100, dryGain.gain, (v) => 1 - v / 100);
+      modulate("waveshaper.mix", params.waveshaper.mix, 0, 100, wetGain.gain, (v) => v / 100);
+      
+      lastNode.connect(dryGain);
+      lastNode.connect(waveshaper);
+      waveshaper.connect(wetGain);
+      dryGain.connect(mixNode);
+      wetGain.connect(mixNode);
+      lastNode = mixNode;
+    } else {
+      lastNode.connect(waveshaper);
+      lastNode = waveshaper;
+    }
+    
+    if (params.waveshaper.postFilterEnabled) {
+      const postFilter = ctx.createBiquadFilter();
+      postFilter.type = "lowpass";
+      postFilter.frequency.value = params.waveshaper.postFilterFreq;
+      modulate("waveshaper.postFilterFreq", params.waveshaper.postFilterFreq, 20, 20000, postFilter.frequency);
+      lastNode.connect(postFilter);
+      lastNode = postFilter;
+    }
+  }
+
+  if (params.effects.saturation > 0) {
+    const waveshaper = ctx.createWaveShaper();
+    const amount = params.effects.saturation / 100;
+    const samples = 44100;
+    const curve = new Float32Array(samples);
+    for (let i = 0; i < samples; i++) {
+      const x = (i * 2) / samples - 1;
+      curve[i] = (3 + amount * 10) * x * 20 * (Math.PI / 180) / 
+        (Math.PI + amount * 10 * Math.abs(x));
+    }
+    waveshaper.curve = curve;
+    waveshaper.oversample = "4x";
+    if (modulation.hasRoutes("effects.distortion.mix")) {
+      const satDry = ctx.createGain();
+      const satWet = ctx.createGain();
+      const satMix = ctx.createGain();
+      satDry.gain.value = 0;
+      satWet.gain.value = 1;
+      modulate("effects.distortion.mix", 100, 0, 100, satDry.gain, (v) => 1 - v / 100);
+      modulate("effects.distortion.mix", 100, 0, 100, satWet.gain, (v) => v / 100);
+      lastNode.connect(satDry);
+      lastNode.connect(waveshaper);
+      waveshaper.connect(satWet);
+      satDry.connect(satMix);
+      satWet.connect(satMix);
+      lastNode = satMix;
+    } else {
+      lastNode.connect(waveshaper);
+      lastNode = waveshaper;
+    }
+  }
+  
+  // Fix 4: DC blocking highpass filter after distortion (removes clicks from DC offset)
+  const dcBlock = ctx.createBiquadFilter();
+  dcBlock.type = "highpass";
+  dcBlock.frequency.value = 20;
+  dcBlock.Q.value = 0.707;
+  lastNode.connect(dcBlock);
+  lastNode = dcBlock;
+
+  // Parallel Processing: Split signal into dry and wet paths
+  const parallel = parallelSettingsToUse;
+  const parallelEnabled = parallel?.enabled;
+  
+  // Dry path (bypasses effects when parallel processing is enabled)
+  const parallelDryGain = ctx.createGain();
+  if (parallelEnabled) {
+    const dryMix = 1 - parallel.dryWetMix;
+    const dryGainDb = parallel.dryGain;
+    parallelDryGain.gain.value = dryMix * Math.pow(10, dryGainDb / 20);
+  } else {
+    parallelDryGain.gain.value = 0; // No parallel dry when disabled
+  }
+  lastNode.connect(parallelDryGain);
+  
+  // Wet path (goes through effects)
+  const dryGain = ctx.createGain();
+  if (parallelEnabled) {
+    const wetMix = parallel.dryWetMix;
+    const wetGainDb = parallel.wetGain;
+    dryGain.gain.value = wetMix * Math.pow(10, wetGainDb / 20);
+  } else {
+    dryGain.gain.value = 1;
+  }
+  lastNode.connect(dryGain);
+  
+  const effectsMixer = ctx.createGain();
+  effectsMixer.gain.value = 1;
+  dryGain.connect(effectsMixer);
+  
+  // Connect parallel dry path to effects mixer (bypassing effects)
+  parallelDryGain.connect(effectsMixer);
+
+  if (params.effects.delayEnabled && (params.effects.delayMix > 0 || modulation.hasRoutes("effects.delay.mix"))) {
+    const delayNode = ctx.createDelay(3);
+    const delayTimeMs = getEffectiveDelayTime(params);
+    delayNode.delayTime.value = delayTimeMs / 1000;
+    modulate("effects.delay.time", delayTimeMs, 0, 2000, delayNode.delayTime, (v) => v / 1000);
+    const delayFeedback = ctx.createGain();
+    delayFeedback.gain.value = params.effects.delayFeedback / 100;
+    modulate("effects.delay.feedback", params.effects.delayFeedback, 0, 95, delayFeedback.gain, (v) => v / 100);
+    const delayWet = ctx.createGain();
+    delayWet.gain.value = params.effects.delayMix / 100;
+    modulate("effects.delay.mix", params.effects.delayMix, 0, 100, delayWet.gain, (v) => v / 100);
+    
+    lastNode.connect(delayNode);
+    delayNode.connect(delayFeedback);
+    delayFeedback.connect(delayNode);
+    delayNode.connect(delayWet);
+    delayWet.connect(effectsMixer);
+  }
+
+if (params.convolver.enabled && params.convolver.useCustomIR && params.convolver.irName !== "none") {
+let irBuffer = cache.customIR;
+if (!irBuffer || params.convolver.irName !== "current") {
+  irBuffer = await loadStoredIR(ctx, params.convolver.irName, settings.customIR);
+}
+
+if (irBuffer) {
+  const settings = convSettings || defaultConvolverSettings;
+  const processedIR = processIRBuffer(ctx, irBuffer, settings);
+
+  const convolver = ctx.createConvolver();
+  convolver.buffer = processedIR;
+
+  const convolverWet = ctx.createGain();
+  const wetMix = params.convolver.mix / 100;
+  convolverWet.gain.value = wetMix;
+
+  let convolverInput: AudioNode = lastNode;
+  if (settings.predelay > 0) {
+    const predelayNode = ctx.createDelay(1);
+    predelayNode.delayTime.value = settings.predelay / 1000;
+    lastNode.connect(predelayNode);
+    convolverInput = predelayNode;
+  }
+
+  const nyquist = ctx.sampleRate / 2;
+  const clampedLowCut = Math.max(20, Math.min(settings.lowCut, nyquist - 100));
+  const clampedHighCut = Math.max(clampedLowCut + 100, Math.min(settings.highCut, nyquist - 10));
+
+  const lowCutFilter = ctx.createBiquadFilter();
+  lowCutFilter.type = "highpass";
+  lowCutFilter.frequency.value = clampedLowCut;
+  lowCutFilter.Q.value = 0.7;
+
+  const highCutFilter = ctx.createBiquadFilter();
+  highCutFilter.type = "lowpass";
+  highCutFilter.frequency.value = clampedHighCut;
+  highCutFilter.Q.value = 0.7;
+
+  convolverInput.connect(convolver);
+  convolver.connect(lowCutFilter);
+  lowCutFilter.connect(highCutFilter);
+  highCutFilter.connect(convolverWet);
+  convolverWet.connect(effectsMixer);
+}
+} else if (params.effects.reverbEnabled && (params.effects.reverbMix > 0 || modulation.hasRoutes("effects.reverb.mix"))) {
+    const convolver = ctx.createConvolver();
+    const reverbDuration = 0.5 + (params.effects.reverbSize / 100) * 3;
+    // Use enhanced impulse response with full reverb settings
+    const rs = revSettings || defaultReverbSettings;
+    convolver.buffer = createImpulseResponse(
+      ctx, 
+      reverbDuration, 
+      params.effects.reverbDecay, 
+      seededRandom,
+      rs.type,
+      rs.damping,
+      rs.diffusion,
+      rs.modulation,
+      rs.predelay,
+      rs.stereoWidth
+    );
+    const reverbWet = ctx.createGain();
+    reverbWet.gain.value = params.effects.reverbMix / 100;
+    modulate("effects.reverb.mix", params.effects.reverbMix, 0, 100, reverbWet.gain, (v) => v / 100);
+    
+    lastNode.connect(convolver);
+    convolver.connect(reverbWet);
+    reverbWet.connect(effectsMixer);
+  }
+
+  if (params.effects.chorusEnabled && (params.effects.chorusMix > 0 || modulation.hasRoutes("effects.chorus.mix"))) {
+    const chorusDelay1 = ctx.createDelay();
+    const chorusDelay2 = ctx.createDelay();
+    chorusDelay1.delayTime.value = 0.02;
+    chorusDelay2.delayTime.value = 0.025;
+    
+    const lfo1 = ctx.createOscillator();
+    const lfo2 = ctx.createOscillator();
+    // Ensure chorus rate is always positive (minimum 0.1 Hz)
+    const safeChorusRate = Math.max(0.1, params.effects.chorusRate);
+    lfo1.frequency.value = safeChorusRate;
+    lfo2.frequency.value = safeChorusRate * 1.1;
+    modulate("effects.chorus.rate", safeChorusRate, 0.1, 10, lfo1.frequency);
+    modulate("effects.chorus.rate", safeChorusRate, 0.1, 10, lfo2.frequency, (v) => v * 1.1);
+    
+    const lfoGain1 = ctx.createGain();
+    const lfoGain2 = ctx.createGain();
+    const depth = (params.effects.chorusDepth / 100) * 0.005;
+    lfoGain1.gain.value = depth;
+    lfoGain2.gain.value = depth;
+    modulate("effects.chorus.depth", params.effects.chorusDepth, 0, 100, [lfoGain1.gain, lfoGain2.gain], (v) => (v / 100) * 0.005);
+    
+    lfo1.connect(lfoGain1);
+    lfoGain1.connect(chorusDelay1.delayTime);
+    lfo2.connect(lfoGain2);
+    lfoGain2.connect(chorusDelay2.delayTime);
+    
+    // Ensure start/stop times are always non-negative
+    const safeNow = Math.max(0, now);
+    const safeStopAt = Math.max(safeNow + 0.01, stopAt);
+    lfo1.start(safeNow);
+    lfo2.start(safeNow);
+    // Fix 3: Stop nodes after safety fade completes
+    lfo1.stop(safeStopAt);
+    lfo2.stop(safeStopAt);
+    
+    const chorusWet = ctx.createGain();
+    chorusWet.gain.value = params.effects.chorusMix / 100;
+    modulate("effects.chorus.mix", params.effects.chorusMix, 0, 100, chorusWet.gain, (v) => v / 100);
+    
+    lastNode.connect(chorusDelay1);
+    lastNode.connect(chorusDelay2);
+    chorusDelay1.connect(chorusWet);
+    chorusDelay2.connect(chorusWet);
+    chorusWet.connect(effectsMixer);
+  }
+
+  let outputNode: AudioNode = effectsMixer;
+
+  // Phaser then flanger, in series after the time-based effects
+  if (phaserFlangerSettingsToUse?.phaser.enabled) {
+    outputNode = buildPhaser(ctx, outputNode, phaserFlangerSettingsToUse.phaser, now, stopAt, sourcesCollector);
+  }
+  if (phaserFlangerSettingsToUse?.flanger.enabled) {
+    outputNode = buildFlanger(ctx, outputNode, phaserFlangerSettingsToUse.flanger, now, stopAt, sourcesCollector);
+  }
+
+  if (params.effects.transientEnabled) {
+    const transientGain = ctx.createGain();
+    const attackAmount = params.effects.transientAttack / 100;
+    const sustainAmount = params.effects.transientSustain / 100;
+    
+    const transientDuration = 0.05;
+    const transientPeak = 1 + attackAmount * 0.5;
+    const sustainLevel = 1 + sustainAmount * 0.3;
+    
+    if (attackAmount !== 0) {
+      transientGain.gain.setValueAtTime(Math.max(EPS, transientPeak), now);
+      transientGain.gain.setTargetAtTime(sustainLevel, now, transientDuration / 5);
+      transientGain.gain.setValueAtTime(sustainLevel, now + transientDuration);
+    } else {
+      transientGain.gain.setValueAtTime(sustainLevel, now);
+    }
+    
+    outputNode.connect(transientGain);
+    outputNode = transientGain;
+  }
+
+  if (params.effects.multibandEnabled) {
+    const lowFilter = ctx.createBiquadFilter();
+    lowFilter.type = "lowpass";
+    lowFilter.frequency.value = params.effects.multibandLowFreq;
+    
+    const midFilterLow = ctx.createBiquadFilter();
+    midFilterLow.type = "highpass";
+    midFilterLow.frequency.value = params.effects.multibandLowFreq;
+    const midFilterHigh = ctx.createBiquadFilter();
+    midFilterHigh.type = "lowpass";
+    midFilterHigh.frequency.value = params.effects.multibandHighFreq;
+    
+    const highFilter = ctx.createBiquadFilter();
+    highFilter.type = "highpass";
+    highFilter.frequency.value = params.effects.multibandHighFreq;
+    
+    const createWaveshaper = (drive: number) => {
+      const shaper = ctx.createWaveShaper();
+      const amount = (drive / 100) * 5;
+      const samples = 256;
+      const curve = new Float32Array(samples);
+      for (let i = 0; i < samples; i++) {
+        const x = (i * 2) / samples - 1;
+        curve[i] = (Math.PI + amount) * x / (Math.PI + amount * Math.abs(x));
+      }
+      shaper.curve = curve;
+      return shaper;
+    };
+    
+    const lowShaper = createWaveshaper(params.effects.multibandLowDrive);
+    const midShaper = createWaveshaper(params.effects.multibandMidDrive);
+    const highShaper = createWaveshaper(params.effects.multibandHighDrive);
+    
+    const bandMixer = ctx.createGain();
+    bandMixer.gain.value = 1;
+    
+    outputNode.connect(lowFilter);
+    lowFilter.connect(lowShaper);
+    lowShaper.connect(bandMixer);
+    
+    outputNode.connect(midFilterLow);
+    midFilterLow.connect(midFilterHigh);
+    midFilterHigh.connect(midShaper);
+    midShaper.connect(bandMixer);
+    
+    outputNode.connect(highFilter);
+    highFilter.connect(highShaper);
+    highShaper.connect(bandMixer);
+    
+    outputNode = bandMixer;
+  }
+
+  if (params.saturationChain.enabled) {
+    const sat = params.saturationChain;
+    let satInput = outputNode;
+    let satNode: AudioNode = outputNode;
+    
+    if (sat.tapeEnabled && sat.tapeDrive > 0) {
+      const tapeShaper = ctx.createWaveShaper();
+      const tapeDrive = sat.tapeDrive / 100;
+      const tapeWarmth = sat.tapeWarmth / 100;
+      const tapeCurve = new Float32Array(4096);
+      for (let i = 0; i < tapeCurve.length; i++) {
+        const x = (i * 2) / tapeCurve.length - 1;
+        const softClip = Math.tanh(x * (1 + tapeDrive * 2));
+        const warmth = x > 0 ? softClip * (1 - tapeWarmth * 0.2) : softClip * (1 + tapeWarmth * 0.1);
+        tapeCurve[i] = warmth;
+      }
+      tapeShaper.curve = tapeCurve;
+      tapeShaper.oversample = "2x";
+      satNode.connect(tapeShaper);
+      satNode = tapeShaper;
+    }
+    
+    if (sat.tubeEnabled && sat.tubeDrive > 0) {
+      const tubeShaper = ctx.createWaveShaper();
+      const tubeDrive = sat.tubeDrive / 100;
+      const tubeBias = (sat.tubeBias / 100 - 0.5) * 0.3;
+      const tubeCurve = new Float32Array(4096);
+      for (let i = 0; i < tubeCurve.length; i++) {
+        const x = (i * 2) / tubeCurve.length - 1 + tubeBias;
+        const k = tubeDrive * 10 + 1;
+        tubeCurve[i] = (1 + k) * x / (1 + k * Math.abs(x));
+      }
+      tubeShaper.curve = tubeCurve;
+      tubeShaper.oversample = "2x";
+      satNode.connect(tubeShaper);
+      satNode = tubeShaper;
+    }
+    
+    if (sat.transistorEnabled && sat.transistorDrive > 0) {
+      const transShaper = ctx.createWaveShaper();
+      const transDrive = sat.transistorDrive / 100;
+      const transAsym = sat.transistorAsymmetry / 100;
+      const transCurve = new Float32Array(4096);
+      for (let i = 0; i < transCurve.length; i++) {
+        const x = (i * 2) / transCurve.length - 1;
+        if (x >= 0) {
+          transCurve[i] = Math.tanh(x * (1 + transDrive * 5));
+        } else {
+          transCurve[i] = Math.tanh(x * (1 + transDrive * 5 * (1 + transAsym)));
+        }
+      }
+      transShaper.curve = transCurve;
+      transShaper.oversample = "2x";
+      satNode.connect(transShaper);
+      satNode = transShaper;
+    }
+    
+    if (sat.mix < 100 || modulation.hasRoutes("saturationChain.mix")) {
+      const dryGain = ctx.createGain();
+      const wetGain = ctx.createGain();
+      const satMixer = ctx.createGain();
+      dryGain.gain.value = 1 - sat.mix / 100;
+      wetGain.gain.value = sat.mix / 100;
+      modulate("saturationChain.mix", sat.mix, 0, 100, dryGain.gain, (v) => 1 - v / 100);
+      modulate("saturationChain.mix", sat.mix, 0, 100, wetGain.gain, (v) => v / 100);
+      satInput.connect(dryGain);
+      satNode.connect(wetGain);
+      dryGain.connect(satMixer);
+      wetGain.connect(satMixer);
+      outputNode = satMixer;
+    } else {
+      outputNode = satNode;
+    }
+  }
+
+  // Multiband compressor and parametric EQ open the master section, ahead of the bus compressor
+  if (multibandCompSettingsToUse?.enabled) {
+    outputNode = buildMultibandCompressor(ctx, outputNode, multibandCompSettingsToUse);
+  }
+  if (eqSettingsToUse?.enabled) {
+    outputNode = buildParametricEQ(ctx, outputNode, eqSettingsToUse);
+  }
+
+  if (params.mastering.compressorEnabled) {
+    const comp = ctx.createDynamicsCompressor();
+    comp.threshold.value = params.mastering.compressorThreshold;
+    comp.knee.value = params.mastering.compressorKnee;
+    comp.ratio.value = params.mastering.compressorRatio;
+    modulate("mastering.compressor.threshold", params.mastering.compressorThreshold, -40, 0, comp.threshold);
+    modulate("mastering.compressor.ratio", params.mastering.compressorRatio, 1, 20, comp.ratio);
+    // DynamicsCompressor attack/release must be positive (>0)
+    comp.attack.value = Math.max(0.001, params.mastering.compressorAttack / 1000);
+    comp.release.value = Math.max(0.001, params.mastering.compressorRelease / 1000);
+    
+    const makeup = ctx.createGain();
+    makeup.gain.value = Math.pow(10, params.mastering.compressorMakeup / 20);
+    
+    outputNode.connect(comp);
+    comp.connect(makeup);
+    outputNode = makeup;
+  }
+
+  if (params.mastering.exciterEnabled && params.mastering.exciterAmount > 0) {
+    const exciterHPF = ctx.createBiquadFilter();
+    exciterHPF.type = "highpass";
+    exciterHPF.frequency.value = params.mastering.exciterFreq;
+    exciterHPF.Q.value = 0.5;
+    
+    const exciterShaper = ctx.createWaveShaper();
+    const exciterAmount = params.mastering.exciterAmount / 100;
+    const exciterCurve = new Float32Array(256);
+    for (let i = 0; i < exciterCurve.length; i++) {
+      const x = (i * 2) / exciterCurve.length - 1;
+      exciterCurve[i] = Math.tanh(x * (1 + exciterAmount * 5)) + x * exciterAmount * 0.5;
+    }
+    exciterShaper.curve = exciterCurve;
+    
+    const exciterGain = ctx.createGain();
+    exciterGain.gain.value = (params.mastering.exciterMix / 100) * 0.5;
+    
+    const exciterMixer = ctx.createGain();
+    exciterMixer.gain.value = 1;
+    
+    outputNode.connect(exciterHPF);
+    exciterHPF.connect(exciterShaper);
+    exciterShaper.connect(exciterGain);
+    outputNode.connect(exciterMixer);
+    exciterGain.connect(exciterMixer);
+    
+    outputNode = exciterMixer;
+  }
+
+  if (params.mastering.stereoEnabled && params.output.pan === 0) {
+    const widthAmount = (params.mastering.stereoWidth - 100) / 100;
+    
+    const splitter = ctx.createChannelSplitter(2);
+    const merger = ctx.createChannelMerger(2);
+    
+    const leftGain = ctx.createGain();
+    const rightGain = ctx.createGain();
+    const leftCross = ctx.createGain();
+    const rightCross = ctx.createGain();
+    
+    const sideAmount = Math.max(0, widthAmount);
+    const narrowAmount = Math.max(0, -widthAmount);
+    
+    leftGain.gain.value = 1 - narrowAmount * 0.5;
+    rightGain.gain.value = 1 - narrowAmount * 0.5;
+    leftCross.gain.value = narrowAmount * 0.5 + sideAmount * 0.3;
+    rightCross.gain.value = narrowAmount * 0.5 - sideAmount * 0.3;
+    
+    outputNode.connect(splitter);
+    
+    splitter.connect(leftGain, 0);
+    splitter.connect(rightGain, 1);
+    splitter.connect(leftCross, 1);
+    splitter.connect(rightCross, 0);
+    
+    const leftMix = ctx.createGain();
+    const rightMix = ctx.createGain();
+    leftGain.connect(leftMix);
+    leftCross.connect(leftMix);
+    rightGain.connect(rightMix);
+    rightCross.connect(rightMix);
+    
+    leftMix.connect(merger, 0, 0);
+    rightMix.connect(merger, 0, 1);
+    
+    outputNode = merger;
+  }
+
+  if (params.effects.limiterEnabled) {
+    const limiter = ctx.createDynamicsCompressor();
+    limiter.threshold.value = params.effects.limiterThreshold;
+    modulate("mastering.limiter.ceiling", params.effects.limiterThreshold, -30, 0, limiter.threshold);
+    limiter.knee.value = 0;
+    limiter.ratio.value = 20;
+    limiter.attack.value = 0.001;
+    // DynamicsCompressor release must be positive (>0)
+    limiter.release.value = Math.max(0.001, params.effects.limiterRelease / 1000);
+    
+    outputNode.connect(limiter);
+    outputNode = limiter;
+  }
+  
+  // ============ LOW END PROCESSING SECTION ============
+  // Signal chain: Sub EQ -> Bass Exciter -> Sub-Harmonic -> DC Filter -> Mono Sum
+  
+  // Sub EQ: Low shelf and narrow sub boost
+  if (lowEndSettings.subEQ.enabled) {
+    const lowShelf = ctx.createBiquadFilter();
+    lowShelf.type = "lowshelf";
+    lowShelf.frequency.value = lowEndSettings.subEQ.lowShelfFreq;
+    lowShelf.gain.value = lowEndSettings.subEQ.lowShelfGain;
+    lowShelf.Q.value = lowEndSettings.subEQ.lowShelfQ;
+    
+    const subBoost = ctx.createBiquadFilter();
+    subBoost.type = "peaking";
+    subBoost.frequency.value = lowEndSettings.subEQ.subBoostFreq;
+    subBoost.gain.value = lowEndSettings.subEQ.subBoostGain;
+    subBoost.Q.value = lowEndSettings.subEQ.subBoostQ;
+    
+    outputNode.connect(lowShelf);
+    lowShelf.connect(subBoost);
+    outputNode = subBoost;
+  }
+  
+  // Bass Exciter: Generate harmonics to make sub feel heavier on smaller speakers
+  if (lowEndSettings.bassExciter.enabled) {
+    const exciterMixer = ctx.createGain();
+    exciterMixer.gain.value = 1;
+    
+    // Isolate bass frequencies
+    const bassIsolator = ctx.createBiquadFilter();
+    bassIsolator.type = "lowpass";
+    bassIsolator.frequency.value = lowEndSettings.bassExciter.frequency * 2;
+    bassIsolator.Q.value = 0.5;
+    
+    // Generate harmonics through soft saturation
+    const harmonicShaper = ctx.createWaveShaper();
+    const harmonicAmount = lowEndSettings.bassExciter.harmonics / 100;
+    const harmonicCurve = new Float32Array(1024);
+    for (let i = 0; i < harmonicCurve.length; i++) {
+      const x = (i * 2) / harmonicCurve.length - 1;
+      // Add 2nd and 3rd harmonics through asymmetric waveshaping
+      harmonicCurve[i] = Math.tanh(x * (1 + harmonicAmount * 3)) + 
+                        harmonicAmount * 0.3 * x * x * Math.sign(x);
+    }
+    harmonicShaper.curve = harmonicCurve;
+    harmonicShaper.oversample = "2x";
+    
+    // High frequency "edge" for bass presence
+    const presenceFilter = ctx.createBiquadFilter();
+    presenceFilter.type = "highshelf";
+    presenceFilter.frequency.value = 800;
+    presenceFilter.gain.value = (lowEndSettings.bassExciter.presence / 100) * 6;
+    
+    // Wet/dry mix
+    const dryGain = ctx.createGain();
+    const wetGain = ctx.createGain();
+    const mix = lowEndSettings.bassExciter.mix / 100;
+    dryGain.gain.value = 1 - mix * 0.5; // Keep some dry signal
+    wetGain.gain.value = mix;
+    
+    outputNode.connect(dryGain);
+    dryGain.connect(exciterMixer);
+    
+    outputNode.connect(bassIsolator);
+    bassIsolator.connect(harmonicShaper);
+    harmonicShaper.connect(presenceFilter);
+    presenceFilter.connect(wetGain);
+    wetGain.connect(exciterMixer);
+    
+    outputNode = exciterMixer;
+  }
+  
+  // Sub-Harmonic Generator: Add octaves below for weight
+  if (lowEndSettings.subHarmonic.enabled) {
+    const subHarmMixer = ctx.createGain();
+    subHarmMixer.gain.value = 1;
+    
+    // Pass through original signal
+    outputNode.connect(subHarmMixer);
+    
+    // Extract low frequencies for sub-harmonic generation
+    const subIsolator = ctx.createBiquadFilter();
+    subIsolator.type = "lowpass";
+    subIsolator.frequency.value = lowEndSettings.subHarmonic.filterFreq;
+    subIsolator.Q.value = 0.7;
+    
+    // Create sub-harmonics through frequency division simulation
+    // Using waveshaping to create subharmonic content
+    if (lowEndSettings.subHarmonic.octaveDown1 > 0) {
+      const oct1Shaper = ctx.createWaveShaper();
+      const oct1Curve = new Float32Array(2048);
+      for (let i = 0; i < oct1Curve.length; i++) {
+        const x = (i * 2) / oct1Curve.length - 1;
+        // Full-wave rectification creates octave up, then filter it creates apparent octave down
+        oct1Curve[i] = Math.abs(x) * 2 - 1;
+      }
+      oct1Shaper.curve = oct1Curve;
+      oct1Shaper.oversample = "2x";
+      
+      const oct1Filter = ctx.createBiquadFilter();
+      oct1Filter.type = "lowpass";
+      oct1Filter.frequency.value = lowEndSettings.subHarmonic.filterFreq * 0.5;
+      oct1Filter.Q.value = 1;
+      
+      const oct1Gain = ctx.createGain();
+      oct1Gain.gain.value = lowEndSettings.subHarmonic.octaveDown1 / 100;
+      
+      outputNode.connect(subIsolator);
+      subIsolator.connect(oct1Shaper);
+      oct1Shaper.connect(oct1Filter);
+      oct1Filter.connect(oct1Gain);
+      oct1Gain.connect(subHarmMixer);
+    }
+    
+    // Second octave down (even lower)
+    if (lowEndSettings.subHarmonic.octaveDown2 > 0) {
+      const oct2Shaper = ctx.createWaveShaper();
+      const oct2Curve = new Float32Array(2048);
+      for (let i = 0; i < oct2Curve.length; i++) {
+        const x = (i * 2) / oct2Curve.length - 1;
+        // Double rectification for lower octave simulation
+        oct2Curve[i] = Math.abs(Math.abs(x) * 2 - 1);
+      }
+      oct2Shaper.curve = oct2Curve;
+      oct2Shaper.oversample = "2x";
+      
+      const oct2Filter = ctx.createBiquadFilter();
+      oct2Filter.type = "lowpass";
+      oct2Filter.frequency.value = lowEndSettings.subHarmonic.filterFreq * 0.25;
+      oct2Filter.Q.value = 1.2;
+      
+      const oct2Gain = ctx.createGain();
+      oct2Gain.gain.value = lowEndSettings.subHarmonic.octaveDown2 / 100;
+      
+      const subIso2 = ctx.createBiquadFilter();
+      subIso2.type = "lowpass";
+      subIso2.frequency.value = lowEndSettings.subHarmonic.filterFreq;
+      subIso2.Q.value = 0.7;
+      
+      outputNode.connect(subIso2);
+      subIso2.connect(oct2Shaper);
+      oct2Shaper.connect(oct2Filter);
+      oct2Filter.connect(oct2Gain);
+      oct2Gain.connect(subHarmMixer);
+    }
+    
+    // Optional drive on sub harmonics
+    if (lowEndSettings.subHarmonic.drive > 0) {
+      const subDrive = ctx.createWaveShaper();
+      const driveAmount = lowEndSettings.subHarmonic.drive / 100;
+      const driveCurve = new Float32Array(512);
+      for (let i = 0; i < driveCurve.length; i++) {
+        const x = (i * 2) / driveCurve.length - 1;
+        driveCurve[i] = Math.tanh(x * (1 + driveAmount * 3));
+      }
+      subDrive.curve = driveCurve;
+      subDrive.oversample = "2x";
+      
+      subHarmMixer.connect(subDrive);
+      outputNode = subDrive;
+    } else {
+      outputNode = subHarmMixer;
+    }
+  }
+  
+  // DC Filter: Remove subsonic rumble and DC offset
+  if (lowEndSettings.dcFilterEnabled) {
+    const dcFilter = ctx.createBiquadFilter();
+    dcFilter.type = "highpass";
+    dcFilter.frequency.value = lowEndSettings.dcFilterFreq;
+    dcFilter.Q.value = 0.5; // Gentle slope
+    
+    outputNode.connect(dcFilter);
+    outputNode = dcFilter;
+  }
+  
+  // Low-End Mono Sum: Collapse low frequencies to mono for tighter bass
+  if (lowEndSettings.monoSumEnabled) {
+    const monoSummer = ctx.createGain();
+    monoSummer.gain.value = 1;
+    
+    // Split into bands
+    const lowSplitter = ctx.createBiquadFilter();
+    lowSplitter.type = "lowpass";
+    lowSplitter.frequency.value = lowEndSettings.monoSumFreq;
+    lowSplitter.Q.value = 0.5;
+    
+    const highSplitter = ctx.createBiquadFilter();
+    highSplitter.type = "highpass";
+    highSplitter.frequency.value = lowEndSettings.monoSumFreq;
+    highSplitter.Q.value = 0.5;
+    
+    // Low band: sum to mono (L+R)/2
+    const splitter = ctx.createChannelSplitter(2);
+    const monoMerger = ctx.createChannelMerger(2);
+    const monoGain = ctx.createGain();
+    monoGain.gain.value = 0.5;
+    
+    outputNode.connect(lowSplitter);
+    lowSplitter.connect(splitter);
+    
+    // Sum both channels
+    const leftGain = ctx.createGain();
+    leftGain.gain.value = 0.5;
+    const rightGain = ctx.createGain();
+    rightGain.gain.value = 0.5;
+    
+    splitter.connect(leftGain, 0);
+    splitter.connect(rightGain, 1);
+    
+    const monoSum = ctx.createGain();
+    monoSum.gain.value = 1;
+    leftGain.connect(monoSum);
+    rightGain.connect(monoSum);
+    
+    // Route mono sum to both channels
+    monoSum.connect(monoMerger, 0, 0);
+    monoSum.connect(monoMerger, 0, 1);
+    
+    // High band: pass through untouched
+    outputNode.connect(highSplitter);
+    
+    // Combine bands
+    const bandMerger = ctx.createGain();
+    bandMerger.gain.value = 1;
+    monoMerger.connect(bandMerger);
+    highSplitter.connect(bandMerger);
+    
+    outputNode = bandMerger;
+  }
+  
+  // Always-on safety limiter to prevent clipping in exports
+  // This ensures exported audio matches browser playback (which has built-in protection)
+  const safetyLimiter = ctx.createDynamicsCompressor();
+  safetyLimiter.threshold.value = -0.5; // Just below 0dB to catch peaks
+  safetyLimiter.knee.value = 0.5; // Soft knee for transparent limiting
+  safetyLimiter.ratio.value = 20; // Hard limiting
+  safetyLimiter.attack.value = 0.0005; // Ultra-fast attack (0.5ms)
+  safetyLimiter.release.value = 0.05; // Quick release (50ms)
+  
+  // Fix 2: Route through safety fade gain (scheduled fadeout at end)
+  outputNode.connect(safetyLimiter);
+  safetyLimiter.connect(panNode);
+  panNode.connect(safetyFadeGain);
+  safetyFadeGain.connect(ctx.destination);
+
+  const oscConfigs = [
+    { osc: params.oscillators.osc1, key: "osc1" as const },
+    { osc: params.oscillators.osc2, key: "osc2" as const },
+    { osc: params.oscillators.osc3, key: "osc3" as const },
+  ];
+
+  // Capture oscillator outputs for ring modulation
+  const oscOutputNodes: Record<string, GainNode> = {};
+  // Dry level nodes for each oscillator (allows ring mod to crossfade)
+  const oscDryNodes: Record<string, GainNode> = {};
+  
+  // Ring mod now uses dedicated modulator oscillator, not oscillator sources
+  const ringMod = ringModSettingsToUse;
+  const ringModActive = ringMod?.enabled && ringMod.mix > 0;
+
+  for (const { osc, key } of oscConfigs) {
+    if (!osc.enabled) continue;
+
+    const oscGain = ctx.createGain();
+    oscGain.gain.value = osc.level / 100;
+    const oscPitchHz = pitchToHz(osc.pitch);
+    const oscPath = `oscillators.${key}`;
+    const levelRouted = modulation.hasRoutes(`${oscPath}.level`);
+    const detuneParams: AudioParam[] = [];
+    
+    // Get phase offset for this oscillator (in degrees -> radians -> time offset)
+    const phaseKey = `${key}Phase` as keyof OscPhaseSettings;
+    const phaseDegrees = phaseSettings[phaseKey] || 0;
+    const phaseSeconds = (phaseDegrees / 360) / oscPitchHz; // Time offset for phase
+    
+    let sourceNode: AudioScheduledSourceNode;
+    let frequencyParam: AudioParam | null = null;
+    let oscAlreadyStarted = false; // Track if oscillator was started in unison loop
+
+    // Check if wavetable mode is enabled for this oscillator
+    const wtSettings = wtSettingsToUse?.[key as keyof AllOscWavetableSettings];
+    const useWavetable = wtSettings?.enabled && osc.waveform !== "noise";
+    
+    // Check if FM mode is enabled (bypasses main oscillator waveform, uses FM carrier instead)
+    const advFM = advancedFMSettingsToUse?.[key as keyof OscAdvancedFMSettings];
+    const useFMMode = osc.fmEnabled && osc.fmDepth > 0 && osc.fmWaveform !== "noise" && osc.waveform !== "noise";
+    
+    if (osc.waveform === "noise") {
+      const bufferSize = Math.ceil(ctx.sampleRate * durationSec);
+      const noiseBuffer = ctx.createBuffer(1, bufferSize, ctx.sampleRate);
+      const noiseData = noiseBuffer.getChannelData(0);
+      for (let i = 0; i < bufferSize; i++) {
+        noiseData[i] = seededRandom() * 2 - 1; // Fix 6: Use seeded random
+      }
+      const noiseSource = ctx.createBufferSource();
+      noiseSource.buffer = noiseBuffer;
+      noiseSource.connect(oscGain);
+      sourceNode = noiseSource;
+    } else if (useWavetable) {
+      // Wavetable oscillator mode (works with both AudioContext and OfflineAudioContext)
+      const wavetable = settings.wavetables?.get(wtSettings.wavetableId) ?? getWavetableById(wtSettings.wavetableId);
+      // Position sweeps (envelope or rack routes) crossfade between frames over the render
+      const positionCurve = wavetable
+        ? buildWavetablePositionCurve(modulation, `wavetable.${key}.position`, wtSettings, params.envelopes.env3, durationSec, ctx.sampleRate)
+        : null;
+      const morphResult = positionCurve
+        ? createMorphingWavetableOscillators(ctx, wtSettings, oscPitchHz, positionCurve, durationSec, Math.max(0, now + phaseSeconds), stopAt, wavetable)
+        : null;
+      if (morphResult) {
+        morphResult.oscillators.forEach(oscNode => {
+          oscNode.detune.value += osc.detune;
+          detuneParams.push(oscNode.detune);
+        });
+        morphResult.outputGain.connect(oscGain);
+        frequencyParam = morphResult.frequency;
+        sourceNode = morphResult.oscillators[0];
+        oscAlreadyStarted = true; // Started in createMorphingWavetableOscillators
+        if (sourcesCollector) {
+          morphResult.oscillators.slice(1).forEach(o => sourcesCollector.push(o));
+          morphResult.controlSources.forEach(source => sourcesCollector.push(source));
+        }
+      } else if (wavetable) {
+        // Ensure start time is never negative
+        const safeStartTime = Math.max(0, now + phaseSeconds);
+        const wtResult = createUnisonWavetableOscillators(
+          ctx,
+          wtSettings,
+          oscPitchHz,
+          safeStartTime,
+          stopAt,
+          wavetable
+        );
+        if (wtResult) {
+          // Apply detune to all voices
+          wtResult.oscillators.forEach(oscNode => {
+            oscNode.detune.value += osc.detune;
+            detuneParams.push(oscNode.detune);
+          });
+          wtResult.outputGain.connect(oscGain);
+          frequencyParam = wtResult.oscillators[0]?.frequency || null;
+          sourceNode = wtResult.oscillators[0]; // Track first osc for stopping
+          oscAlreadyStarted = true; // Wavetable oscillators are already started in createUnisonWavetableOscillators
+          
+          // Register all additional oscillators for cleanup (first is tracked via sourceNode)
+          if (sourcesCollector && wtResult.oscillators.length > 1) {
+            wtResult.oscillators.slice(1).forEach(o => sourcesCollector.push(o));
+          }
+        } else {
+          // Fallback to basic oscillator if wavetable fails
+          const oscNode = ctx.createOscillator();
+          oscNode.type = osc.waveform as OscillatorType;
+          oscNode.frequency.value = oscPitchHz;
+          oscNode.detune.value = osc.detune;
+          detuneParams.push(oscNode.detune);
+          frequencyParam = oscNode.frequency;
+          oscNode.connect(oscGain);
+          sourceNode = oscNode;
+        }
+      } else {
+        // Fallback if wavetable not found
+        const oscNode = ctx.createOscillator();
+        oscNode.type = osc.waveform as OscillatorType;
+        oscNode.frequency.value = oscPitchHz;
+        oscNode.detune.value = osc.detune;
+        detuneParams.push(oscNode.detune);
+        frequencyParam = oscNode.frequency;
+        oscNode.connect(oscGain);
+        sourceNode = oscNode;
+      }
+    } else if (useFMMode) {
+      // FM MODE: Bypasses main oscillator waveform, creates dedicated carrier + modulator
+      // Classic 2-operator FM: modulator (AHD env) → carrier → filter/distortion → master
+      oscAlreadyStarted = true;
+
+      // Safety: cap deviation relative to base pitch to avoid negative/near-zero frequencies at low notes.
+      // Keep a small floor so very low notes still allow some FM.
+      const maxDevFromPitch = Math.max(30, oscPitchHz * 0.9);
+
+      // Create carrier oscillator using FM's carrier waveform (not main osc waveform)
+      const carrierWaveform = advFM?.carrierWaveform || "sine";
+      const carrierOsc = ctx.createOscillator();
+      carrierOsc.type = carrierWaveform as OscillatorType;
+      carrierOsc.frequency.value = oscPitchHz;
+      carrierOsc.detune.value = osc.detune;
+      detuneParams.push(carrierOsc.detune);
+
+      // Ensure start time is never negative (phase offset could be negative)
+      const oscStartTime = Math.max(0, now + phaseSeconds);
+      carrierOsc.start(oscStartTime);
+      carrierOsc.stop(stopAt);
+
+      frequencyParam = carrierOsc.frequency;
+
+      // FM synthesis: modulator modulates carrier frequency
+      const op2Settings = advFM?.operator2;
+      const algorithm = advFM?.algorithm || "series";
+      const op1Active = osc.fmDepth > 0 && osc.fmWaveform !== "noise";
+      const op2Active = op2Settings?.enabled && op2Settings.depth > 0;
+
+      const modulatorFreq = oscPitchHz * osc.fmRatio;
+      const op1DetuneOffset = advFM?.operator1Detune || 0;
+
+      // FM depth is direct Hz value (0-1000Hz range on knob)
+      // This gives usable range: 0-200Hz for subtle, 200-500Hz for moderate, 500-1000Hz for aggressive
+      const fmDepthHz = Math.min(Math.max(0, osc.fmDepth), maxDevFromPitch);
+
+      // Operator 2 calculations - also use direct Hz value
+      const op2Freq = op2Settings ? oscPitchHz * op2Settings.ratio : 0;
+      const op2DepthHz = op2Settings ? Math.min(Math.max(0, op2Settings.depth), maxDevFromPitch) : 0; // Direct Hz value (capped)
+      
+      let modOsc: OscillatorNode | null = null;
+      let modGain: GainNode | null = null;
+      
+      // Create Op1 (modulator) if needed
+      const needsOp1 = op1Active || (op2Active && algorithm !== "parallel");
+      
+      if (needsOp1) {
+        modOsc = ctx.createOscillator();
+        modOsc.type = osc.fmWaveform as OscillatorType;
+        modOsc.frequency.value = modulatorFreq;
+        modOsc.detune.value = op1DetuneOffset;
+        
+        modGain = ctx.createGain();
+        
+        const effectiveFmDepthHz = op1Active ? fmDepthHz : 0;
+        
+        // Key rule: Envelope the modulator (index envelope), not just the carrier
+        if (osc.indexEnvEnabled && osc.indexEnvDepth > 0 && effectiveFmDepthHz > 0) {
+          const baseDepth = Math.max(EPS, effectiveFmDepthHz);
+          const peakMultiplier = 1 + (osc.indexEnvDepth / 20);
+          const peakDepth = baseDepth * peakMultiplier;
+          triggerAHD(modGain.gain, oscStartTime, {
+            attack: 0.0005,
+            hold: 0,
+            decay: osc.indexEnvDecay / 1000
+          }, peakDepth, { startFromCurrent: false });
+        } else {
+          modGain.gain.value = effectiveFmDepthHz;
+        }
+        if (op1Active) {
+          modulate(`${oscPath}.fmDepth`, osc.fmDepth, 0, 1000, modGain.gain, (v) => Math.min(v, maxDevFromPitch));
+        }
+        
+        // Operator 1 self-feedback (creates saw-like harmonics when high)
+        // Feedback in FM adds odd harmonics, making sine waves sound more like saw/square
+        if (osc.fmFeedback > 0) {
+          // Create a tiny delay for feedback stability (1 sample = ~0.02ms at 48kHz)
+          const feedbackDelay = ctx.createDelay(0.001);
+          feedbackDelay.delayTime.value = 1 / ctx.sampleRate; // 1 sample delay
+          
+          const feedbackGain = ctx.createGain();
+          // Feedback adds harmonics to the modulator waveform
+          // Range: 0-1 maps to 0-500Hz max deviation (subtle to moderate effect)
+          // Scale feedback deviation with pitch for more consistent behavior across notes.
+          feedbackGain.gain.value = Math.min(maxDevFromPitch, osc.fmFeedback * (oscPitchHz * 0.5 + 50));
+          
+          modOsc.connect(feedbackDelay);
+          feedbackDelay.connect(feedbackGain);
+          feedbackGain.connect(modOsc.frequency);
+        }
+      }
+      
+      // Operator 2 implementation
+      if (op2Active && op2Settings) {
+        const op2Osc = ctx.createOscillator();
+        op2Osc.type = op2Settings.waveform as OscillatorType;
+        op2Osc.frequency.value = op2Freq;
+        op2Osc.detune.value = op2Settings.ratioDetune;
+        
+        const op2Gain = ctx.createGain();
+        op2Gain.gain.value = op2DepthHz;
+        
+        // Operator 2 self-feedback
+        if (op2Settings.feedback > 0) {
+          const op2FeedbackDelay = ctx.createDelay(0.001);
+          op2FeedbackDelay.delayTime.value = 1 / ctx.sampleRate;
+          
+          const op2FeedbackGain = ctx.createGain();
+          // Fixed 500Hz max feedback deviation (same as Op1)
+          op2FeedbackGain.gain.value = Math.min(maxDevFromPitch, op2Settings.feedback * (oscPitchHz * 0.5 + 50));
+          
+          op2Osc.connect(op2FeedbackDelay);
+          op2FeedbackDelay.connect(op2FeedbackGain);
+          op2FeedbackGain.connect(op2Osc.frequency);
+        }
+        
+        op2Osc.connect(op2Gain);
+        
+        // Algorithm routing
+        if (modOsc && modGain) {
+          switch (algorithm) {
+            case "series":
+              op2Gain.connect(modOsc.frequency);
+              modOsc.connect(modGain);
+              modGain.connect(carrierOsc.frequency);
+              break;
+            case "parallel":
+              modOsc.connect(modGain);
+              modGain.connect(carrierOsc.frequency);
+              op2Gain.connect(carrierOsc.frequency);
+              break;
+            case "feedback": {
+              op2Gain.connect(modOsc.frequency);
+              const crossFbGain = ctx.createGain();
+              crossFbGain.gain.value = Math.min(
+              maxDevFromPitch,
+              fmDepthHz > 0 ? fmDepthHz : (oscPitchHz * 0.5)
+            );
+              modOsc.connect(crossFbGain);
+              crossFbGain.connect(op2Osc.frequency);
+              modOsc.connect(modGain);
+              modGain.connect(carrierOsc.frequency);
+              break;
+            }
+            case "mixed": {
+            // Series path
+            op2Gain.connect(modOsc.frequency);
+            modOsc.connect(modGain);
+            modGain.connect(carrierOsc.frequency);
+
+            // Parallel tap: Op2 also hits the carrier directly, but keep depth control consistent.
+            const op2Direct = ctx.createGain();
+            op2Direct.gain.value = 0.5; // halve direct contribution
+            op2Gain.connect(op2Direct);
+            op2Direct.connect(carrierOsc.frequency);
+
+            break;
+        }
+          }
+        } else {
+          // Op2 only, parallel mode default
+          op2Gain.connect(carrierOsc.frequency);
+        }
+        
+        op2Osc.start(oscStartTime);
+        op2Osc.stop(stopAt);
+      } else if (modOsc && modGain) {
+        // Op1 only - simple 2-operator FM
+        modOsc.connect(modGain);
+        modGain.connect(carrierOsc.frequency);
+      }
+      
+      if (modOsc) {
+        modOsc.start(oscStartTime);
+        modOsc.stop(stopAt);
+      }
+      
+      carrierOsc.connect(oscGain);
+      sourceNode = carrierOsc;
+    } else {
+      // Standard oscillator mode (no FM, no wavetable)
+      oscAlreadyStarted = true;
+
+      // Create single oscillator
+      const oscNode = ctx.createOscillator();
+      oscNode.type = osc.waveform as OscillatorType;
+      oscNode.frequency.value = oscPitchHz;
+      oscNode.detune.value = osc.detune;
+      detuneParams.push(oscNode.detune);
+
+      frequencyParam = oscNode.frequency;
+
+      // Ensure start time is never negative (phase offset could be negative)
+      const oscStartTime = Math.max(0, now + phaseSeconds);
+      oscNode.start(oscStartTime);
+      oscNode.stop(stopAt);
+
+      oscNode.connect(oscGain);
+      sourceNode = oscNode;
+    }
+
+    modulate(`${oscPath}.detune`, osc.detune, -100, 100, detuneParams);
+
+    let finalGain = oscGain;
+if (osc.amEnabled && osc.amDepth > 0 && osc.amWaveform !== "noise") {
+const depth = osc.amDepth / 100;
+
+const amModOsc = ctx.createOscillator();
+amModOsc.type = osc.amWaveform as OscillatorType;
+amModOsc.frequency.value = oscPitchHz * osc.amRatio;
+
+const amModGain = ctx.createGain();
+amModGain.gain.value = depth * 0.5;
+
+const amOutputGain = ctx.createGain();
+amOutputGain.gain.value = 1 - depth * 0.5;
+
+amModOsc.connect(amModGain);
+amModGain.connect(amOutputGain.gain);
+
+// Removed oscGain.disconnect(); // No need to disconnect, just connect as needed
+oscGain.connect(amOutputGain);
+finalGain = amOutputGain;
+
+// Start AM modulator at phase-aligned start time
+const amStartTime = Math.max(0, now + phaseSeconds);
+amModOsc.start(amStartTime);
+amModOsc.stop(stopAt); // Fix 3: Stop after safety fade
+}
+
+    if (frequencyParam) {
+      const pitchEnv = params.envelopes.env2;
+      if (pitchEnv.enabled && pitchEnv.amount !== 0) {
+        const attackEnd = now + pitchEnv.attack / 1000;
+        const holdEnd = attackEnd + pitchEnv.hold / 1000;
+        const decayEnd = holdEnd + pitchEnv.decay / 1000;
+        
+        // Use semitone-based pitch modulation for proper 808-style pitch drops
+        // amount is in semitones (-48 to +48)
+        const semitones = pitchEnv.amount;
+        const pitchMultiplier = Math.pow(2, semitones / 12);
+        const startFreq = oscPitchHz * pitchMultiplier;
+        const useExponential = pitchEnv.curve === 'exponential';
+        
+        frequencyParam.setValueAtTime(Math.max(20, startFreq), now);
+        if (useExponential) {
+          frequencyParam.exponentialRampToValueAtTime(
+            Math.max(20, startFreq),
+            attackEnd
+          );
+          frequencyParam.setValueAtTime(Math.max(20, startFreq), holdEnd);
+          frequencyParam.exponentialRampToValueAtTime(Math.max(20, oscPitchHz), decayEnd);
+        } else {
+          frequencyParam.linearRampToValueAtTime(
+            Math.max(20, startFreq), 
+            attackEnd
+          );
+          frequencyParam.setValueAtTime(Math.max(20, startFreq), holdEnd);
+          frequencyParam.linearRampToValueAtTime(oscPitchHz, decayEnd);
+        }
+      }
+
+      if (osc.drift > 0 || modulation.hasRoutes(`${oscPath}.drift`)) {
+        const driftAmount = osc.drift / 100;
+        const driftLfo = ctx.createOscillator();
+        const driftGain = ctx.createGain();
+        driftLfo.frequency.value = 2 + seededRandom() * 3; // Fix 6: Use seeded random
+        driftGain.gain.value = oscPitchHz * 0.02 * driftAmount;
+        modulate(`${oscPath}.drift`, osc.drift, 0, 100, driftGain.gain, (v) => oscPitchHz * 0.02 * (v / 100));
+        driftLfo.connect(driftGain);
+        driftGain.connect(frequencyParam);
+        driftLfo.start(now);
+        driftLfo.stop(stopAt); // Fix 3: Stop after safety fade
+      }
+    }
+
+    // Modulated level runs through its own VCA so it can't fight the envelope automation
+    let baseLevel = levelRouted ? 1 : osc.level / 100;
+    if (levelRouted) {
+      const levelVca = ctx.createGain();
+      levelVca.gain.value = osc.level / 100;
+      modulate(`${oscPath}.level`, osc.level, 0, 100, levelVca.gain, (v) => v / 100);
+      finalGain.connect(levelVca);
+      finalGain = levelVca;
+    }
+    
+    // Check for per-oscillator envelope (if enabled, use it; otherwise just set level)
+    const oscEnv = perOscEnvelopes?.[key as keyof OscEnvelopes];
+    if (oscEnv && oscEnv.enabled) {
+      // Per-oscillator AHD - shapes this oscillator independently, bypasses master envelope
+      triggerAHD(oscGain.gain, now, {
+        attack: oscEnv.attack / 1000,
+        hold: oscEnv.hold / 1000,
+        decay: oscEnv.decay / 1000
+      }, baseLevel, { startFromCurrent: false });
+      // Route to bypass gain (not affected by master amplitude envelope)
+      finalGain.connect(perOscBypassGain);
+    } else {
+      // No per-osc envelope - use master envelope for amplitude shaping
+      oscGain.gain.setValueAtTime(baseLevel, now);
+      // Route to masterGain (affected by master amplitude envelope)
+      finalGain.connect(masterGain);
+    }
+    
+    // Capture oscillator output for ring modulation
+    oscOutputNodes[key] = finalGain;
+    
+    // Apply phase offset via start time delay
+    // For bass/sub frequencies, phase alignment is critical for weight and punch
+    // Skip if oscillator was already started (unison mode starts voices in its own loop)
+    if (!oscAlreadyStarted) {
+      // Ensure start time is never negative (phase offset could be negative)
+      const oscStartTime = Math.max(now, now + phaseSeconds);
+      sourceNode.start(oscStartTime);
+      sourceNode.stop(stopAt); // Fix 3: Stop after safety fade
+      if (sourcesCollector) {
+        sourcesCollector.push(sourceNode);
+      }
+    } else if (sourcesCollector) {
+      // For unison mode, primary osc was already added to collector in the loop
+      // but we still need to add it if not yet added
+      sourcesCollector.push(sourceNode);
+    }
+  }
+
+  // Ring Modulation: Dedicated modulator oscillator with AHD envelope on depth
+  // Creates sum and difference frequencies (sidebands) for metallic one-shot tones
+  if (ringModActive && ringMod) {
+    const wetAmount = ringMod.mix / 100;
+    const dryAmount = 1 - wetAmount;
+    const outputLevel = ringMod.outputLevel / 100;
+    const depth = ringMod.depth / 100;
+    
+    // Create ring mod chain following reference architecture:
+    // masterGain -> dry -> output
+    //            -> ringGain (modulated) -> hp -> lp -> wet -> output
+    
+    // Dry path gain
+    const ringDryGain = ctx.createGain();
+    ringDryGain.gain.setValueAtTime(dryAmount, now);
+    
+    // Wet path gain
+    const ringWetGain = ctx.createGain();
+    ringWetGain.gain.setValueAtTime(wetAmount * outputLevel, now);
+    
+    // Ring mod gain node - gain will be modulated by the modulator oscillator
+    const ringGain = ctx.createGain();
+    ringGain.gain.setValueAtTime(0, now); // Will be driven by modulator
+    
+    // Modulator oscillator (dedicated, not using existing oscillators)
+    const ringModOsc = ctx.createOscillator();
+    ringModOsc.type = ringMod.waveform;
+    ringModOsc.frequency.setValueAtTime(ringMod.freqHz, now);
+    
+    // Depth scaling: oscillator output is [-1,1]; scale to desired depth
+    const depthGain = ctx.createGain();
+    depthGain.gain.setValueAtTime(depth, now);
+    
+    // Depth envelope (crucial for one-shots - prevents constant noise)
+    const depthEnv = ctx.createGain();
+    depthEnv.gain.setValueAtTime(EPS, now);
+    
+    // Apply AHD envelope to depth
+    triggerAHD(depthEnv.gain, now, {
+      attack: ringMod.envAttack / 1000,
+      hold: ringMod.envHold / 1000,
+      decay: ringMod.envDecay / 1000
+    }, 1.0, { startFromCurrent: false });
+    
+    // Wire mod -> depthGain -> depthEnv -> ringGain.gain
+    ringModOsc.connect(depthGain);
+    depthGain.connect(depthEnv);
+    depthEnv.connect(ringGain.gain);
+    
+    // Post-filtering (prevents fizz/mud)
+    const ringHP = ctx.createBiquadFilter();
+    ringHP.type = "highpass";
+    ringHP.frequency.setValueAtTime(ringMod.hpHz, now);
+    ringHP.Q.setValueAtTime(0.707, now);
+    
+    const ringLP = ctx.createBiquadFilter();
+    ringLP.type = "lowpass";
+    ringLP.frequency.setValueAtTime(ringMod.lpHz, now);
+    ringLP.Q.setValueAtTime(0.707, now);
+    
+    // Route audio: combinedGain (where all oscillators merge) goes through ring modulation
+    // The audio signal passes through ringGain which is amplitude-modulated by the modulator
+    combinedGain.connect(ringGain);
+    
+    // Ring path: ringGain -> HP -> LP -> wetGain -> output
+    ringGain.connect(ringHP);
+    ringHP.connect(ringLP);
+    ringLP.connect(ringWetGain);
+    
+    // Connect ring mod wet signal to lastNode (the filter/effects chain entry point)
+    // This adds the ring mod effect in parallel with the normal signal path
+    ringWetGain.connect(lastNode);
+    
+    // Start/stop modulator oscillator
+    ringModOsc.start(now);
+    ringModOsc.stop(stopAt);
+    if (sourcesCollector) {
+      sourcesCollector.push(ringModOsc);
+    }
+  }
+
+  if (params.clickLayer.enabled && (params.clickLayer.level > 0 || modulation.hasRoutes("clickLayer.level"))) {
+    const click = params.clickLayer;
+    const clickDecay = click.decay / 1000;
+    const clickBufferLength = Math.ceil(ctx.sampleRate * (clickDecay + 0.005));
+    const clickBuffer = ctx.createBuffer(1, clickBufferLength, ctx.sampleRate);
+    const clickData = clickBuffer.getChannelData(0);
+    
+    // Fix 6: Use seeded random for click layer noise
+    if (click.noiseType === "white") {
+      for (let i = 0; i < clickBufferLength; i++) {
+        clickData[i] = seededRandom() * 2 - 1;
+      }
+    } else if (click.noiseType === "pink") {
+      let b0 = 0, b1 = 0, b2 = 0, b3 = 0, b4 = 0, b5 = 0, b6 = 0;
+      for (let i = 0; i < clickBufferLength; i++) {
+        const white = seededRandom() * 2 - 1;
+        b0 = 0.99886 * b0 + white * 0.0555179;
+        b1 = 0.99332 * b1 + white * 0.0750759;
+        b2 = 0.96900 * b2 + white * 0.1538520;
+        b3 = 0.86650 * b3 + white * 0.3104856;
+        b4 = 0.55000 * b4 + white * 0.5329522;
+        b5 = -0.7616 * b5 - white * 0.0168980;
+        clickData[i] = (b0 + b1 + b2 + b3 + b4 + b5 + b6 + white * 0.5362) * 0.11;
+        b6 = white * 0.115926;
+      }
+    } else if (click.noiseType === "brown") {
+      let lastOut = 0;
+      for (let i = 0; i < clickBufferLength; i++) {
+        const white = seededRandom() * 2 - 1;
+        lastOut = (lastOut + (0.02 * white)) / 1.02;
+        clickData[i] = lastOut * 3.5;
+      }
+    }
+    
+    const clickSource = ctx.createBufferSource();
+    clickSource.buffer = clickBuffer;
+    
+    const clickFilter = ctx.createBiquadFilter();
+    clickFilter.type = click.filterType;
+    clickFilter.frequency.value = click.filterFreq;
+    clickFilter.Q.value = click.filterQ;
+    
+    let clickNode: AudioNode = clickFilter;
+    
+    if (click.srrEnabled) {
+      const srrSamples = Math.pow(2, 16 - click.srrAmount);
+      const srrShaper = ctx.createWaveShaper();
+      const srrCurve = new Float32Array(65536);
+      for (let i = 0; i < srrCurve.length; i++) {
+        const x = (i / 32768) - 1;
+        srrCurve[i] = Math.round(x * srrSamples) / srrSamples;
+      }
+      srrShaper.curve = srrCurve;
+      clickFilter.connect(srrShaper);
+      clickNode = srrShaper;
+    }
+    
+    const clickGain = ctx.createGain();
+    // A routed level is applied by a VCA after the envelope instead
+    const clickLevelRouted = modulation.hasRoutes("clickLayer.level");
+    const clickLevel = (clickLevelRouted ? 1 : click.level / 100) * 0.8;
+    triggerAHD(clickGain.gain, now, {
+      attack: 0.0005,
+      hold: 0,
+      decay: clickDecay
+    }, clickLevel, { startFromCurrent: false });
+    
+    clickSource.connect(clickFilter);
+    clickNode.connect(clickGain);
+    if (clickLevelRouted) {
+      const clickVca = ctx.createGain();
+      clickVca.gain.value = click.level / 100;
+      modulate("clickLayer.level", click.level, 0, 100, clickVca.gain, (v) => v / 100);
+      clickGain.connect(clickVca);
+      clickVca.connect(perOscBypassGain);
+    } else {
+      clickGain.connect(perOscBypassGain);
+    }
+    
+    clickSource.start(now);
+    clickSource.stop(now + clickDecay + 0.01);
+    if (sourcesCollector) {
+      sourcesCollector.push(clickSource);
+    }
+  }
+
+  if (params.subOsc.enabled && (params.subOsc.level > 0 || modulation.hasRoutes("subOsc.level"))) {
+    const sub = params.subOsc;
+    const baseFreq = pitchToHz(params.oscillators.osc1.pitch);
+    const subFreq = baseFreq * Math.pow(2, sub.octave);
+    
+    // Sub oscillator phase alignment
+    const subPhaseDegrees = phaseSettings.subPhase || 0;
+    const subPhaseSeconds = (subPhaseDegrees / 360) / subFreq;
+    
+    const subOsc = ctx.createOscillator();
+    subOsc.type = sub.waveform;
+    modulate("subOsc.pitch", 0, -24, 24, subOsc.detune, (v) => v * 100);
+    
+    const stToMult = (st: number) => Math.pow(2, st / 12);
+    const pitchEnv = params.envelopes.env2;
+    
+    // Only apply pitch envelope to sub if bypass is disabled
+    if (!sub.pitchEnvBypass && pitchEnv.enabled && pitchEnv.amount !== 0) {
+      // Use semitone-based pitch drop (amount is now in semitones, -48 to +48)
+      // Apply a gentler scale for sub bass (0.5x the main osc drop)
+      const subPitchScale = 0.5;
+      const semitones = pitchEnv.amount * subPitchScale;
+      const attackEnd = now + pitchEnv.attack / 1000;
+      const holdEnd = attackEnd + pitchEnv.hold / 1000;
+      const decayEnd = holdEnd + pitchEnv.decay / 1000;
+      
+      const startHz = Math.max(20, subFreq * stToMult(semitones));
+      const endHz = Math.max(20, subFreq);
+      
+      subOsc.frequency.setValueAtTime(startHz, now);
+      if (pitchEnv.curve === "exponential") {
+        subOsc.frequency.exponentialRampToValueAtTime(startHz, attackEnd);
+        subOsc.frequency.setValueAtTime(startHz, holdEnd);
+        subOsc.frequency.exponentialRampToValueAtTime(endHz, decayEnd);
+      } else {
+        subOsc.frequency.linearRampToValueAtTime(startHz, attackEnd);
+        subOsc.frequency.setValueAtTime(startHz, holdEnd);
+        subOsc.frequency.linearRampToValueAtTime(endHz, decayEnd);
+      }
+    } else {
+      // Bypass enabled or no pitch envelope - keep sub at steady frequency
+      subOsc.frequency.setValueAtTime(Math.max(20, subFreq), now);
+    }
+    
+    const subEnvGain = ctx.createGain();
+    subEnvGain.gain.setValueAtTime(EPS, now);
+    
+    const hp = ctx.createBiquadFilter();
+    hp.type = "highpass";
+    // Only apply HP filter if filtering is enabled, otherwise set very low (5Hz just to remove DC)
+    hp.frequency.setValueAtTime(sub.filterEnabled ? Math.max(10, sub.hpFreq ?? 25) : 5, now);
+    hp.Q.setValueAtTime(0.707, now);
+    
+    const lp = ctx.createBiquadFilter();
+    lp.type = "lowpass";
+    // Only apply LP filter if filtering is enabled, otherwise set to 20kHz (passthrough)
+    lp.frequency.setValueAtTime(sub.filterEnabled ? Math.max(40, sub.filterFreq) : 20000, now);
+    lp.Q.setValueAtTime(0.707, now);
+    
+    const makeSoftClipCurve = (amount01: number, n = 1024) => {
+      const a = Math.max(0, Math.min(1, amount01));
+      const k = 1 + a * 20;
+      const curve = new Float32Array(n);
+      for (let i = 0; i < n; i++) {
+        const x = (i / (n - 1)) * 2 - 1;
+        curve[i] = Math.tanh(k * x) / Math.tanh(k);
+      }
+      return curve;
+    };
+    
+    const drive = ctx.createWaveShaper();
+    drive.curve = makeSoftClipCurve((sub.drive ?? 0) / 100);
+    drive.oversample = "2x";
+    
+    const trim = ctx.createGain();
+    trim.gain.setValueAtTime(sub.level / 100, now);
+    modulate("subOsc.level", sub.level, 0, 100, trim.gain, (v) => v / 100);
+    
+    subOsc.connect(subEnvGain).connect(hp).connect(lp).connect(drive).connect(trim).connect(masterGain);
+    
+    const subAttack = sub.attack / 1000;
+    const subDecay = sub.decay / 1000;
+    const stopAt = triggerAHD(subEnvGain.gain, now, {
+      attack: subAttack,
+      hold: 0,
+      decay: subDecay
+    }, 1.0, { startFromCurrent: false });
+    
+    // Apply phase offset for sub bass alignment
+    // Ensure start time is never negative (phase offset could be negative)
+    const subStartTime = Math.max(now, now + subPhaseSeconds);
+    subOsc.start(subStartTime);
+    subOsc.stop(stopAt + 0.03);
+    if (sourcesCollector) {
+      sourcesCollector.push(subOsc);
+    }
+  }
+
+  if (params.modal.enabled) {
+    const modal = params.modal;
+    const modeConfigs = [
+      { mode: modal.modes.mode1, key: "mode1", index: 0 },
+      { mode: modal.modes.mode2, key: "mode2", index: 1 },
+      { mode: modal.modes.mode3, key: "mode3", index: 2 },
+      { mode: modal.modes.mode4, key: "mode4", index: 3 },
+    ];
+
+    // Generate exciter based on exciterType
+    const exciterLevel = modal.impactNoise / 100;
+    if (exciterLevel > 0) {
+      const exciterDuration = modal.impactDecay / 1000;
+      
+      if (modal.exciterType === "noise") {
+        // White noise burst
+        const noiseBuffer = ctx.createBuffer(1, ctx.sampleRate * 0.1, ctx.sampleRate);
+        const noiseData = noiseBuffer.getChannelData(0);
+        for (let i = 0; i < noiseData.length; i++) {
+          noiseData[i] = (seededRandom() * 2 - 1);
+        }
+        const noiseSource = ctx.createBufferSource();
+        noiseSource.buffer = noiseBuffer;
+        const noiseGain = ctx.createGain();
+        triggerAHD(noiseGain.gain, now, { attack: 0.0005, hold: 0, decay: exciterDuration }, exciterLevel * 0.5, { startFromCurrent: false });
+        noiseSource.connect(noiseGain);
+        noiseGain.connect(masterGain);
+        noiseSource.start(now);
+        noiseSource.stop(now + 0.1);
+      } else if (modal.exciterType === "impulse") {
+        // Sharp impulse click
+        const impBuffer = ctx.createBuffer(1, ctx.sampleRate * 0.01, ctx.sampleRate);
+        const impData = impBuffer.getChannelData(0);
+        for (let i = 0; i < impData.length; i++) {
+          impData[i] = Math.exp(-i / (ctx.sampleRate * 0.001)) * (seededRandom() * 2 - 1);
+        }
+        const impSource = ctx.createBufferSource();
+        impSource.buffer = impBuffer;
+        const impGain = ctx.createGain();
+        impGain.gain.value = exciterLevel;
+        impSource.connect(impGain);
+        impGain.connect(masterGain);
+        impSource.start(now);
+        impSource.stop(now + 0.01);
+      } else if (modal.exciterType === "mallet") {
+        // Soft mallet - filtered noise with slower attack
+        const malletBuffer = ctx.createBuffer(1, ctx.sampleRate * 0.05, ctx.sampleRate);
+        const malletData = malletBuffer.getChannelData(0);
+        for (let i = 0; i < malletData.length; i++) {
+          const env = Math.sin(Math.PI * i / malletData.length);
+          malletData[i] = env * (seededRandom() * 2 - 1);
+        }
+        const malletSource = ctx.createBufferSource();
+        malletSource.buffer = malletBuffer;
+        const malletFilter = ctx.createBiquadFilter();
+        malletFilter.type = "lowpass";
+        malletFilter.frequency.value = 2000;
+        const malletGain = ctx.createGain();
+        malletGain.gain.value = exciterLevel * 0.7;
+        malletSource.connect(malletFilter);
+        malletFilter.connect(malletGain);
+        malletGain.connect(masterGain);
+        malletSource.start(now);
+        malletSource.stop(now + 0.05);
+      } else if (modal.exciterType === "pluck") {
+        // Pluck - short pitched burst
+        const pluckOsc = ctx.createOscillator();
+        pluckOsc.type = "sawtooth";
+        pluckOsc.frequency.value = modal.basePitch * 2;
+        const pluckGain = ctx.createGain();
+        triggerAHD(pluckGain.gain, now, { attack: 0.0001, hold: 0, decay: 0.015 }, exciterLevel * 0.4, { startFromCurrent: false });
+        pluckOsc.connect(pluckGain);
+        pluckGain.connect(masterGain);
+        pluckOsc.start(now);
+        pluckOsc.stop(now + 0.02);
+      }
+    }
+
+    // Generate modes (limited by modeCount)
+    for (const { mode, index } of modeConfigs) {
+      if (index >= modal.modeCount) continue;
+      if (mode.level === 0) continue;
+      
+      const modeOsc = ctx.createOscillator();
+      modeOsc.type = "sine";
+      
+      // Apply inharmonicity - slight detuning that increases with mode number
+      const inharmonicityFactor = 1 + (modal.inharmonicity / 100) * 0.02 * (index * index);
+      modeOsc.frequency.value = modal.basePitch * mode.ratio * inharmonicityFactor;
+      
+      const modeGain = ctx.createGain();
+      const modeLevel = mode.level / 100;
+      triggerAHD(modeGain.gain, now, {
+        attack: 0.0005,
+        hold: 0,
+        decay: mode.decay / 1000
+      }, modeLevel * 0.25, { startFromCurrent: false });
+      
+      modeOsc.connect(modeGain);
+      modeGain.connect(masterGain);
+      
+      modeOsc.start(now);
+      modeOsc.stop(now + mode.decay / 1000 + 0.1);
+    }
+  }
+
+  if (params.additive.enabled) {
+    const additive = params.additive;
+    const partialKeys = ["p1", "p2", "p3", "p4", "p5", "p6", "p7", "p8"] as const;
+    
+    partialKeys.forEach((key, i) => {
+      // Skip partials beyond partialCount
+      if (i >= additive.partialCount) return;
+      
+      const partial = additive.partials[key];
+      if (partial.level === 0) return;
+      
+      const harmonic = i + 1;
+      const partialOsc = ctx.createOscillator();
+      partialOsc.type = "sine";
+      
+      // Apply randomness - random pitch deviation per partial
+      const randomCents = (seededRandom() - 0.5) * 2 * (additive.randomness / 100) * 50;
+      const spreadCents = (additive.spread / 100) * (harmonic - 1) * 10;
+      const baseFreq = additive.basePitch * harmonic;
+      const detunedFreq = baseFreq * Math.pow(2, (partial.detune + spreadCents + randomCents) / 1200);
+      partialOsc.frequency.value = detunedFreq;
+      
+      const partialGain = ctx.createGain();
+      const baseLevel = partial.level / 100;
+      const slopeMultiplier = 1 - (additive.decaySlope / 100) * (harmonic - 1) / 7;
+      // Apply level randomness too
+      const levelRandom = 1 - (seededRandom() * (additive.randomness / 100) * 0.3);
+      const finalLevel = baseLevel * Math.max(0.1, slopeMultiplier) * levelRandom * 0.2;
+      
+      const ampEnvForPartial = params.envelopes.env3;
+      triggerAHD(partialGain.gain, now, {
+        attack: ampEnvForPartial.attack / 1000,
+        hold: ampEnvForPartial.hold / 1000,
+        decay: ampEnvForPartial.decay / 1000
+      }, finalLevel, { startFromCurrent: false });
+      
+      partialOsc.connect(partialGain);
+      partialGain.connect(masterGain);
+      
+      const envDuration = (ampEnvForPartial.attack + ampEnvForPartial.hold + ampEnvForPartial.decay) / 1000 + 0.2;
+      partialOsc.start(now);
+      partialOsc.stop(now + envDuration);
+    });
+  }
+
+  // Granular synthesis engine - use passed settings, not params.granular
+  if (granularSettingsToUse?.enabled && granularBufferToUse?.data) {
+    // Grain parameters are fixed per render, so routed values are taken at note start
+    const granSettings = applyAntiMudRules(applyGranularModulation(
+      clampToMode(granularSettingsToUse),
+      params.modulators,
+      params.modulationRoutes,
+      0,
+      params.tempo,
+      createModulatorStates(params.modulators, createSeededRandom(seed ^ 0x5bd1e995)),
+      curveSettingsToUse,
+      stepSettingsToUse
+    ));
+    const bufferData = granularBufferToUse.data;
+    const bufferSampleRate = granularBufferToUse.sampleRate;
+    const bufferDuration = granularBufferToUse.duration;
+    
+    // Generate grain schedule (deterministic based on seed)
+    const grainEvents = generateGrainSchedule(
+      granSettings,
+      bufferDuration,
+      durationSec,
+      ctx.sampleRate
+    );
+    
+    // Calculate total granular duration for envelope
+    const granDuration = (granSettings.envAttack + granSettings.envHold + granSettings.envDecay) / 1000;
+    const granularOutputSamples = Math.ceil(granDuration * ctx.sampleRate);
+    
+    // Create stereo output buffers for granular
+    const granLeftBuffer = new Float32Array(granularOutputSamples);
+    const granRightBuffer = new Float32Array(granularOutputSamples);
+    
+    // Render all grains into the output buffer
+    for (const grain of grainEvents) {
+      const grainStartSample = Math.floor(grain.startTime * ctx.sampleRate);
+      const grainDurationSamples = Math.ceil(grain.duration * ctx.sampleRate);
+      
+      if (grainStartSample >= granularOutputSamples) continue;
+      
+      const bufferStartSample = Math.floor(grain.bufferPosition * bufferData.length);
+      
+      // Render each sample of the grain
+      for (let i = 0; i < grainDurationSamples; i++) {
+        const outputIdx = grainStartSample + i;
+        if (outputIdx >= granularOutputSamples) break;
+        
+        // Phase within grain (0-1)
+        const phase = i / grainDurationSamples;
+        
+        // Read sample from buffer with interpolation and pitch shift
+        const readPos = bufferStartSample + (i * grain.playbackRate);
+        if (readPos < 0 || readPos >= bufferData.length - 1) continue;
+        
+        const sample = cubicInterpolate(bufferData, readPos);
+        
+        // Apply window
+        const windowGain = windowWithSkew(phase, grain.windowType, grain.windowSkew);
+        
+        // Apply per-grain gain
+        const grainedSample = sample * windowGain * grain.gain;
+        
+        // Apply stereo panning (constant power)
+        const panAngle = (grain.pan + 1) * Math.PI / 4; // 0 to PI/2
+        const leftGain = Math.cos(panAngle);
+        const rightGain = Math.sin(panAngle);
+        
+        granLeftBuffer[outputIdx] += grainedSample * leftGain;
+        granRightBuffer[outputIdx] += grainedSample * rightGain;
+      }
+    }
+    
+    // Apply post-bus processing
+    // High-pass filter
+    const hpCoeffs = calculateHPCoeffs(granSettings.postHPHz, ctx.sampleRate);
+    let hpX1L = 0, hpX2L = 0, hpY1L = 0, hpY2L = 0;
+    let hpX1R = 0, hpX2R = 0, hpY1R = 0, hpY2R = 0;
+    
+    for (let i = 0; i < granularOutputSamples; i++) {
+      // Left channel HP
+      const inL = granLeftBuffer[i];
+      const outL = hpCoeffs.b0 * inL + hpCoeffs.b1 * hpX1L + hpCoeffs.b2 * hpX2L 
+                 - hpCoeffs.a1 * hpY1L - hpCoeffs.a2 * hpY2L;
+      hpX2L = hpX1L; hpX1L = inL;
+      hpY2L = hpY1L; hpY1L = outL;
+      granLeftBuffer[i] = outL;
+      
+      // Right channel HP
+      const inR = granRightBuffer[i];
+      const outR = hpCoeffs.b0 * inR + hpCoeffs.b1 * hpX1R + hpCoeffs.b2 * hpX2R 
+                 - hpCoeffs.a1 * hpY1R - hpCoeffs.a2 * hpY2R;
+      hpX2R = hpX1R; hpX1R = inR;
+      hpY2R = hpY1R; hpY1R = outR;
+      granRightBuffer[i] = outR;
+    }
+    
+    // Low-pass filter
+    const lpCoeffs = calculateLPCoeffs(granSettings.postLPHz, ctx.sampleRate);
+    let lpX1L = 0, lpX2L = 0, lpY1L = 0, lpY2L = 0;
+    let lpX1R = 0, lpX2R = 0, lpY1R = 0, lpY2R = 0;
+    
+    for (let i = 0; i < granularOutputSamples; i++) {
+      // Left channel LP
+      const inL = granLeftBuffer[i];
+      const outL = lpCoeffs.b0 * inL + lpCoeffs.b1 * lpX1L + lpCoeffs.b2 * lpX2L 
+                 - lpCoeffs.a1 * lpY1L - lpCoeffs.a2 * lpY2L;
+      lpX2L = lpX1L; lpX1L = inL;
+      lpY2L = lpY1L; lpY1L = outL;
+      granLeftBuffer[i] = outL;
+      
+      // Right channel LP
+      const inR = granRightBuffer[i];
+      const outR = lpCoeffs.b0 * inR + lpCoeffs.b1 * lpX1R + lpCoeffs.b2 * lpX2R 
+                 - lpCoeffs.a1 * lpY1R - lpCoeffs.a2 * lpY2R;
+      lpX2R = lpX1R; lpX1R = inR;
+      lpY2R = lpY1R; lpY1R = outR;
+      granRightBuffer[i] = outR;
+    }
+    
+    // Apply saturation
+    if (granSettings.satDrive > 0) {
+      for (let i = 0; i < granularOutputSamples; i++) {
+        granLeftBuffer[i] = saturate(granLeftBuffer[i], granSettings.satDrive);
+        granRightBuffer[i] = saturate(granRightBuffer[i], granSettings.satDrive);
+      }
+    }
+    
+    // Apply granular AHD envelope
+    const granEnvelope = generateAHDEnvelope(
+      granSettings.envAttack,
+      granSettings.envHold,
+      granSettings.envDecay,
+      granularOutputSamples,
+      ctx.sampleRate
+    );
+    
+    for (let i = 0; i < granularOutputSamples; i++) {
+      granLeftBuffer[i] *= granEnvelope[i];
+      granRightBuffer[i] *= granEnvelope[i];
+    }
+    
+    // Apply safety fade
+    applySafetyFade(granLeftBuffer, ctx.sampleRate, 10);
+    applySafetyFade(granRightBuffer, ctx.sampleRate, 10);
+    
+    // Apply wet mix
+    const wetMix = granSettings.wetMix;
+    for (let i = 0; i < granularOutputSamples; i++) {
+      granLeftBuffer[i] *= wetMix;
+      granRightBuffer[i] *= wetMix;
+    }
+    
+    // Create audio buffer and source for granular output
+    const granBuffer = ctx.createBuffer(2, granularOutputSamples, ctx.sampleRate);
+    granBuffer.copyToChannel(granLeftBuffer, 0);
+    granBuffer.copyToChannel(granRightBuffer, 1);
+    
+    const granSource = ctx.createBufferSource();
+    granSource.buffer = granBuffer;
+    
+    const granGain = ctx.createGain();
+    granGain.gain.value = 0.5; // Level control
+    
+    granSource.connect(granGain);
+    granGain.connect(masterGain);
+    
+    granSource.start(now);
+    granSource.stop(stopAt + 0.1);
+    
+    if (sourcesCollector) {
+      sourcesCollector.push(granSource);
+    }
+  }
+
+  // Sample layer: imported audio layered under the synth with its own AD envelope
+  if (sampleLayerToUse?.enabled && sampleLayerToUse.sampleData) {
+    const layer = sampleLayerToUse;
+    const sampleData = sampleLayerToUse.sampleData;
+    let sampleBuffer: AudioBuffer | null = null;
+    if (cache.sampleLayer?.data === sampleData) {
+      sampleBuffer = cache.sampleLayer.buffer;
+    } else {
+      try {
+        sampleBuffer = await base64ToAudioBuffer(sampleData, ctx);
+        cache.sampleLayer = { data: sampleData, buffer: sampleBuffer };
+      } catch (e) {
+        console.error("Failed to decode sample layer:", e);
+      }
+    }
+    
+    if (sampleBuffer && sampleBuffer.length > 1) {
+      let playBuffer = sampleBuffer;
+      if (layer.reverse) {
+        playBuffer = ctx.createBuffer(sampleBuffer.numberOfChannels, sampleBuffer.length, sampleBuffer.sampleRate);
+        for (let channel = 0; channel < sampleBuffer.numberOfChannels; channel++) {
+          const src = sampleBuffer.getChannelData(channel);
+          const dst = playBuffer.getChannelData(channel);
+          for (let i = 0, n = src.length; i < n; i++) {
+            dst[i] = src[n - 1 - i];
+          }
+        }
+      }
+      
+      // Region is set on the forward sample; mirror it when playing reversed
+      const sampleDur = playBuffer.duration;
+      const startPos = Math.max(0, Math.min(1, Math.min(layer.startPosition, layer.endPosition)));
+      const endPos = Math.max(0, Math.min(1, Math.max(layer.startPosition, layer.endPosition)));
+      const regionStart = (layer.reverse ? 1 - endPos : startPos) * sampleDur;
+      const regionEnd = (layer.reverse ? 1 - startPos : endPos) * sampleDur;
+      const regionLength = Math.max(0.001, regionEnd - regionStart);
+      
+      const sampleSource = ctx.createBufferSource();
+      sampleSource.buffer = playBuffer;
+      sampleSource.playbackRate.value = Math.pow(2, layer.pitch / 12);
+      
+      const sampleGain = ctx.createGain();
+      const sampleEnd = triggerAHD(sampleGain.gain, now, {
+        attack: layer.attack,
+        hold: 0,
+        decay: layer.decay
+      }, layer.volume, { startFromCurrent: false });
+      
+      sampleSource.connect(sampleGain);
+      sampleGain.connect(perOscBypassGain);
+      
+      if (layer.loopEnabled) {
+        sampleSource.loop = true;
+        sampleSource.loopStart = regionStart;
+        sampleSource.loopEnd = regionStart + regionLength;
+        sampleSource.start(now, regionStart);
+      } else {
+        sampleSource.start(now, regionStart, regionLength);
+      }
+      sampleSource.stop(Math.min(stopAt, sampleEnd + 0.02));
+      if (sourcesCollector) {
+        sourcesCollector.push(sampleSource);
+      }
+    }
+  }
+
+  const ampEnv = params.envelopes.env3;
+  const volume = Math.max(EPS, params.output.volume / 100);
+
+  triggerAHD(masterGain.gain, now, {
+    attack: ampEnv.attack / 1000,
+    hold: ampEnv.hold / 1000,
+    decay: ampEnv.decay / 1000
+  }, volume, { startFromCurrent: false });
+
+  return { masterGain, safetyFadeGain };
+}
+
+export function getTotalDuration(params: SynthParameters, perOscEnvelopes?: OscEnvelopes, sampleLayer?: SampleLayerSettings): number {
+  const ampEnv = params.envelopes.env3;
+  // Start with master envelope duration
+  let baseDuration = ampEnv.attack + ampEnv.hold + ampEnv.decay;
+  
+  // Check per-oscillator envelopes - use the longest one if enabled
+  if (perOscEnvelopes) {
+    const oscKeys = ['osc1', 'osc2', 'osc3'] as const;
+    for (const key of oscKeys) {
+      const osc = params.oscillators[key];
+      const oscEnv = perOscEnvelopes[key];
+      // Only consider if oscillator is enabled AND per-osc envelope is enabled
+      if (osc.enabled && oscEnv && oscEnv.enabled) {
+        const oscEnvDuration = oscEnv.attack + oscEnv.hold + oscEnv.decay;
+        baseDuration = Math.max(baseDuration, oscEnvDuration);
+      }
+    }
+  }
+  
+  // Sample layer runs on its own envelope (settings are in seconds)
+  if (sampleLayer?.enabled && sampleLayer.sampleData) {
+    baseDuration = Math.max(baseDuration, (sampleLayer.attack + sampleLayer.decay) * 1000);
+  }
+  
+  // Add tail padding for reverb/delay decay
+  baseDuration += (TAIL_PAD * 1000);
+  
+  if (params.effects.delayEnabled) {
+    baseDuration += getEffectiveDelayTime(params) * 3;
+  }
+  if (params.effects.reverbEnabled || (params.convolver.enabled && params.convolver.useCustomIR)) {
+    baseDuration += params.effects.reverbDecay * 1000;
+  }
+  
+  return Math.min(baseDuration, 10000);
+}
+
+// Everything besides the synth parameters that shapes a render. Field names
+// match FullSynthSettings so a saved preset can be passed straight through.
+export type RenderSettings = Omit<FullSynthSettings, "params" | "version" | "granularSample" | "roundRobinSettings" | "customWavetables"> & {
+  granularBuffer?: GranularSampleBuffer | null;
+  // Wavetables only this render can see (e.g. embedded in a server render
+  // request); looked up before the shared registry
+  wavetables?: Map<string, WavetableData>;
+};
+
+// Decoded assets and freeze state reused across renders
+export interface RenderCache {
+  customIR: AudioBuffer | null; // IR last loaded in the convolver panel (irName "current")
+  sampleLayer: { data: string; buffer: AudioBuffer } | null;
+  frozenSpectrum: { real: Float32Array; imag: Float32Array; fftSize: number } | null;
+}
+
+export function createRenderCache(): RenderCache {
+  return { customIR: null, sampleLayer: null, frozenSpectrum: null };
+}
+
+export interface RenderOptions {
+  seed: number;
+  sampleRate?: number;
+  velocity?: number; // 0-1, 1 for velocity-insensitive renders
+  cache?: RenderCache;
+  // Node has no global OfflineAudioContext, so server renders pass their own
+  createContext?: (channels: number, length: number, sampleRate: number) => OfflineAudioContext;
+  // dB below peak; when set, renders are lengthened until the tail decays below it
+  tailFloorDb?: number;
+}
+
+// Render one note to a buffer: graph render, then bitcrusher, spectral
+// scrambling, velocity gain and the safety fade
+export async function renderSound(
+  params: SynthParameters,
+  settings: RenderSettings,
+  options: RenderOptions
+): Promise<AudioBuffer> {
+  const { seed, sampleRate = 44100, velocity = 1, cache = createRenderCache() } = options;
+  const createContext = options.createContext
+    ?? ((channels: number, length: number, rate: number) => new OfflineAudioContext(channels, length, rate));
+
+  const totalDuration = getTotalDuration(params, settings.oscEnvelopes, settings.sampleLayerSettings);
+  // At least 0.1s so no automation ends up with a zero or negative duration
+  const durationInSeconds = Math.max(0.1, totalDuration / 1000);
+
+  // getTotalDuration only estimates effect tails; re-render with the closing
+  // fade pushed back (doubling each time) while the tail is still above the floor
+  let extraTail = 0;
+  let renderedBuffer: AudioBuffer;
+  for (;;) {
+    const ctx = createContext(2, Math.ceil((durationInSeconds + extraTail) * sampleRate), sampleRate);
+    await generateSound(ctx, params, totalDuration, seed, settings, cache, velocity, undefined, extraTail);
+    renderedBuffer = await ctx.startRendering();
+
+    if (options.tailFloorDb === undefined || durationInSeconds + extraTail >= MAX_EXTENDED_RENDER) break;
+    const fadeStart = Math.floor((Math.max(0.01, totalDuration / 1000 - TAIL_PAD) + extraTail) * sampleRate);
+    if (!isStillAudible(getChannels(renderedBuffer), sampleRate, fadeStart, options.tailFloorDb)) break;
+    extraTail = Math.min(MAX_EXTENDED_RENDER - durationInSeconds, extraTail === 0 ? 2 : extraTail * 2);
+  }
+
+  // Post-process effects see the same modulation (same seed) as the rendered graph
+  const renderDurationSec = totalDuration / 1000;
+  const modulation = buildRenderModulation(
+    params,
+    renderDurationSec,
+    Math.max(0.01, renderDurationSec - TAIL_PAD),
+    renderedBuffer.sampleRate,
+    seed,
+    settings.curveModulatorSettings,
+    settings.stepSequencerSettings,
+    velocity
+  );
+  const spectral = applyStaticModulation(params, modulation).spectralScrambler;
+  
+  // Apply bitcrusher effect (post-process)
+  const crushRouted = modulation.hasRoutes("effects.bitcrusher.bitDepth");
+  const crushMixRouted = modulation.hasRoutes("effects.bitcrusher.mix");
+  if (params.effects.bitcrusher < 16 || crushRouted) {
+    applyBitcrusher(
+      renderedBuffer,
+      params.effects.bitcrusher,
+      crushRouted ? modulation.valueAtSample("effects.bitcrusher.bitDepth", params.effects.bitcrusher, 1, 16) : undefined,
+      crushMixRouted ? modulation.valueAtSample("effects.bitcrusher.mix", 100, 0, 100) : undefined
+    );
+  }
+  // Apply spectral scrambling (post-process FFT manipulation)
+  if (params.spectralScrambler.enabled) {
+    applySpectralScrambling(
+      renderedBuffer,
+      parseInt(spectral.fftSize),
+      spectral.scrambleAmount,
+      spectral.binShift,
+      spectral.freeze,
+      spectral.mix,
+      spectral.gateThreshold,
+      spectral.stretch,
+      spectral.binDensity,
+      settings.advancedSpectralSettings ?? defaultAdvancedSpectralSettings,
+      cache,
+      pitchToHz(params.oscillators.osc1.pitch) // Use osc1 pitch as fundamental for harmonic resynthesis
+    );
+  }
+  // Velocity scales the whole rendered note, post-FX included
+  if (velocity < 1) {
+    const velocityGain = velocityToGain(velocity);
+    for (let channel = 0; channel < renderedBuffer.numberOfChannels; channel++) {
+      const data = renderedBuffer.getChannelData(channel);
+      for (let i = 0; i < data.length; i++) {
+        data[i] *= velocityGain;
+      }
+    }
+  }
+  // Apply additional safety fadeout to prevent any remaining pops
+  applySafetyFadeout(renderedBuffer, 5);
+
+  return renderedBuffer;
+}
@@ -0,0 +1,703 @@
+// Modulator rack evaluation: LFO/envelope/random/macro sources plus the curve
+// and step sequencer, and the control-rate curves the offline render uses.
+
+import type { SynthParameters, Modulator } from "@shared/schema";
+import type { ReverbSettings } from "./reverbSettings";
+import type { OscWavetableSettings } from "./wavetableSettings";
+import { VELOCITY_MODULATOR_ID } from "./noteTrigger";
+import { type CurveModulatorSettings, interpolateCurve } from "./curveModulatorSettings";
+import { type StepSequencerSettings, rateToBPMDivision, getStepValue } from "./stepSequencerSettings";
+import { type GranularSettings, DESIGN_RANGES } from "./granularSettings";
+import { wavetablePositionEnvelope } from "./wavetableEngine";
+
+// Convert beat division to ms based on tempo
+export function divisionToMs(division: string, tempo: number): number {
+  const beatMs = (60 / tempo) * 1000; // Quarter note in ms
+  const divisionMap: Record<string, number> = {
+    "1/1": 4,      // Whole note = 4 beats
+    "1/2": 2,      // Half note = 2 beats
+    "1/4": 1,      // Quarter = 1 beat
+    "1/8": 0.5,    // Eighth = 0.5 beats
+    "1/16": 0.25,  // Sixteenth = 0.25 beats
+    "1/32": 0.125, // Thirty-second = 0.125 beats
+    "1/2T": 2 * (2/3),      // Half triplet
+    "1/4T": 1 * (2/3),      // Quarter triplet
+    "1/8T": 0.5 * (2/3),    // Eighth triplet
+    "1/16T": 0.25 * (2/3),  // Sixteenth triplet
+    "1/2D": 2 * 1.5,        // Dotted half
+    "1/4D": 1 * 1.5,        // Dotted quarter
+    "1/8D": 0.5 * 1.5,      // Dotted eighth
+    "1/16D": 0.25 * 1.5,    // Dotted sixteenth
+  };
+  return beatMs * (divisionMap[division] || 1);
+}
+
+// Modulation evaluation system
+export interface ModulatorState {
+  randomValue: number;
+  lastRandomTime: number;
+  prevRandomValue: number;
+  // Source for new S&H values (seeded in offline renders so preview and export match)
+  random: () => number;
+}
+
+export function createModulatorStates(
+  modulators: SynthParameters["modulators"],
+  random: () => number = Math.random
+): Map<string, ModulatorState> {
+  const states = new Map<string, ModulatorState>();
+  for (const mod of modulators) {
+    states.set(mod.id, {
+      randomValue: random(),
+      lastRandomTime: 0,
+      prevRandomValue: random(),
+      random,
+    });
+  }
+  return states;
+}
+
+function evaluateLfo(
+  mod: { shape: string; rate: number; rateSync: boolean; rateDivision: string; phase: number; amount: number; bipolar: boolean },
+  time: number,
+  tempo: number,
+  state?: ModulatorState
+): number {
+  const rateHz = mod.rateSync ? 1 / (divisionToMs(mod.rateDivision, tempo) / 1000) : mod.rate;
+  const safeRateHz = Math.max(0.0001, rateHz);
+  const phase = (mod.phase / 360) * Math.PI * 2;
+  const t = time * safeRateHz * Math.PI * 2 + phase;
+
+  let value: number;
+  switch (mod.shape) {
+    case "sine":
+      value = Math.sin(t);
+      break;
+    case "triangle":
+      value = 2 * Math.abs(2 * ((t / (Math.PI * 2)) % 1) - 1) - 1;
+      break;
+    case "sawtooth":
+      value = 2 * ((t / (Math.PI * 2)) % 1) - 1;
+      break;
+    case "square":
+      value = Math.sin(t) >= 0 ? 1 : -1;
+      break;
+    case "random": {
+      // Sample-and-hold random per LFO cycle (optionally slewed) using the modulator state.
+      // If no state is provided, fall back to a deterministic pseudo-random waveform.
+      if (!state) {
+        value = Math.sin(t * 7.3) * Math.cos(t * 3.7);
+        break;
+      }
+
+      const period = 1 / safeRateHz;
+      const currentPeriod = Math.floor(time / period);
+      const lastPeriod = Math.floor(state.lastRandomTime / period);
+
+      if (currentPeriod !== lastPeriod) {
+        state.prevRandomValue = state.randomValue;
+        state.randomValue = state.random();
+        state.lastRandomTime = time;
+      }
+
+      // Slew between values over the first/last 5% of the cycle to avoid zippering.
+      const frac = (time % period) / period;
+      const slew = 0.05;
+      const slewT =
+        frac < slew ? frac / slew :
+        frac > (1 - slew) ? 1 - (1 - frac) / slew :
+        1;
+
+      const u = state.prevRandomValue + (state.randomValue - state.prevRandomValue) * Math.max(0, Math.min(1, slewT));
+      value = u * 2 - 1; // bipolar
+      break;
+    }
+    default:
+      value = 0;
+  }
+
+  if (!mod.bipolar) {
+    value = (value + 1) / 2;
+  }
+
+  return value * (mod.amount / 100);
+}
+
+function evaluateEnvelope(
+  mod: { attack: number; decay: number; sustain: number; release: number; amount: number; bipolar: boolean },
+  time: number,
+  duration: number
+): number {
+  const attackSec = Math.max(0, mod.attack) / 1000;
+  const decaySec = Math.max(0, mod.decay) / 1000;
+  const releaseSec = Math.max(0, mod.release) / 1000;
+  const sustainLevel = Math.max(0, Math.min(1, mod.sustain / 100));
+
+  const attackEnd = attackSec;
+  const decayEnd = attackEnd + decaySec;
+  const releaseStart = Math.max(0, duration - releaseSec);
+
+  let value: number;
+
+  // Attack
+  if (attackSec <= 0) {
+    value = 1;
+  } else if (time < attackEnd) {
+    value = time / attackEnd;
+  } else {
+    value = 1;
+  }
+
+  // Decay to sustain
+  if (time >= attackEnd) {
+    if (decaySec <= 0) {
+      value = sustainLevel;
+    } else if (time < decayEnd) {
+      const decayProgress = (time - attackEnd) / decaySec;
+      value = 1 - decayProgress * (1 - sustainLevel);
+    } else {
+      value = sustainLevel;
+    }
+  }
+
+  // Release
+  if (time >= releaseStart) {
+    if (releaseSec <= 0) {
+      value = 0;
+    } else {
+      const releaseProgress = (time - releaseStart) / releaseSec;
+      value = sustainLevel * (1 - releaseProgress);
+    }
+  }
+
+  value = Math.max(0, Math.min(1, value));
+
+  if (mod.bipolar) {
+    value = value * 2 - 1;
+  }
+
+  return value * (mod.amount / 100);
+}
+
+function evaluateRandom(
+  mod: { rate: number; smooth: number; amount: number; bipolar: boolean },
+  time: number,
+  state: ModulatorState
+): number {
+  const safeRate = Math.max(0.001, mod.rate);
+  const period = 1 / safeRate;
+  const currentPeriod = Math.floor(time / period);
+  const lastPeriod = Math.floor(state.lastRandomTime / period);
+
+  if (currentPeriod !== lastPeriod) {
+    state.prevRandomValue = state.randomValue;
+    state.randomValue = state.random();
+    state.lastRandomTime = time;
+  }
+
+  const t = (time % period) / period;
+  const smoothFactor = Math.max(0, Math.min(1, mod.smooth / 100));
+
+  // If smoothing is 0, we do classic S&H (hard steps). If >0, crossfade at boundaries.
+  let smoothT: number;
+  if (smoothFactor <= 0) {
+    smoothT = t >= 0.5 ? 1 : 0;
+  } else {
+    smoothT =
+      t < smoothFactor ? (t / smoothFactor) * 0.5 :
+      t > (1 - smoothFactor) ? 0.5 + ((t - (1 - smoothFactor)) / smoothFactor) * 0.5 :
+      0.5;
+  }
+
+  let value = state.prevRandomValue + (state.randomValue - state.prevRandomValue) * smoothT;
+
+  if (mod.bipolar) {
+    value = value * 2 - 1;
+  }
+
+  return value * (mod.amount / 100);
+}
+
+function evaluateMacro(mod: { value: number; amount: number }): number {
+  return (mod.value / 100) * (mod.amount / 100);
+}
+
+// Evaluate Curve Modulator - uses drawable curve with Catmull-Rom interpolation
+function evaluateCurveModulator(
+  settings: CurveModulatorSettings,
+  time: number
+): number {
+  if (!settings.enabled || settings.points.length === 0) return 0;
+  
+  let t = time / settings.duration;
+  
+  if (settings.loop) {
+    t = t % 1;
+  } else {
+    t = Math.min(1, t);
+  }
+  
+  let value = interpolateCurve(settings.points, t, settings.smoothing);
+  
+  value = Math.max(0, Math.min(1, value));
+  
+  if (settings.bipolar) {
+    value = value * 2 - 1;
+  }
+  
+  return value;
+}
+
+// Evaluate Step Sequencer Modulator - tempo-synced step values
+function evaluateStepSequencer(
+  settings: StepSequencerSettings,
+  time: number,
+  tempo: number
+): number {
+  if (!settings.enabled) return 0;
+
+  const beatsPerSecond = tempo / 60;
+  const beatDivision = rateToBPMDivision(settings.rate);
+  const stepsPerSecond = beatsPerSecond / beatDivision;
+  const stepDuration = 1 / Math.max(0.0001, stepsPerSecond);
+
+  // Normalize smoothing to 0..1 (supports either 0..1 or 0..100 inputs)
+  const smoothing01 = Math.max(0, Math.min(1, settings.smoothing > 1 ? settings.smoothing / 100 : settings.smoothing));
+
+  // Swing: treat time in pairs of steps so total duration stays consistent.
+  // swing01 = 0..1, mapped to 0..50% timing shift of the offbeat.
+  const swing01 = Math.max(0, Math.min(1, settings.swing / 100));
+  const swingOffset = 0.5 * swing01;
+
+  const pairDuration = stepDuration * 2;
+  const pairIndexBase = Math.floor(time / pairDuration) * 2;
+  const pairPos = ((time % pairDuration) + pairDuration) % pairDuration;
+
+  const firstDur = stepDuration * (1 - swingOffset);
+  const secondDur = stepDuration * (1 + swingOffset);
+
+  let stepIndexInPair: number;
+  let stepFraction: number;
+
+  if (pairPos < firstDur) {
+    stepIndexInPair = 0;
+    stepFraction = firstDur > 0 ? pairPos / firstDur : 0;
+  } else {
+    stepIndexInPair = 1;
+    stepFraction = secondDur > 0 ? (pairPos - firstDur) / secondDur : 0;
+  }
+
+  const rawStepIndex = pairIndexBase + stepIndexInPair;
+  const stepIndex = ((rawStepIndex % settings.stepCount) + settings.stepCount) % settings.stepCount;
+
+  const currentValue = getStepValue(settings, stepIndex);
+  const nextValue = getStepValue(settings, (stepIndex + 1) % settings.stepCount);
+
+  // Smoothing: 0 => hard steps, 1 => full linear ramp across the step
+  if (smoothing01 > 0) {
+    const ramp = currentValue + (nextValue - currentValue) * stepFraction;
+    return currentValue + (ramp - currentValue) * smoothing01;
+  }
+
+  return currentValue;
+}
+
+function evaluateModulator(
+  mod: SynthParameters["modulators"][0],
+  time: number,
+  duration: number,
+  tempo: number,
+  state: ModulatorState
+): number {
+  if (!mod.enabled) return 0;
+
+  switch (mod.type) {
+    case "lfo":
+      return evaluateLfo(mod, time, tempo, state);
+    case "envelope":
+      return evaluateEnvelope(mod, time, duration);
+    case "random":
+      return evaluateRandom(mod, time, state);
+    case "macro":
+      return evaluateMacro(mod);
+    default:
+      return 0;
+  }
+}
+
+function getModulatedValue(
+  basePath: string,
+  baseValue: number,
+  min: number,
+  max: number,
+  modulators: SynthParameters["modulators"],
+  routes: SynthParameters["modulationRoutes"],
+  time: number,
+  duration: number,
+  tempo: number,
+  states: Map<string, ModulatorState>,
+  curveSettings?: CurveModulatorSettings,
+  stepSettings?: StepSequencerSettings
+): number {
+  let totalMod = 0;
+  
+  for (const route of routes) {
+    if (route.targetPath === basePath) {
+      // Check for virtual modulator IDs (curve/stepSequencer)
+      if (route.modulatorId === "curve" && curveSettings) {
+        const curveValue = evaluateCurveModulator(curveSettings, time);
+        totalMod += curveValue * (route.depth / 100);
+        continue;
+      }
+      if (route.modulatorId === "stepSequencer" && stepSettings) {
+        const stepValue = evaluateStepSequencer(stepSettings, time, tempo);
+        totalMod += stepValue * (route.depth / 100);
+        continue;
+      }
+      
+      const mod = modulators.find(m => m.id === route.modulatorId);
+      if (mod) {
+        const state = states.get(mod.id);
+        if (state) {
+          const modValue = evaluateModulator(mod, time, duration, tempo, state);
+          totalMod += modValue * (route.depth / 100);
+        }
+      }
+    }
+  }
+  
+  const range = max - min;
+  const modulatedValue = baseValue + totalMod * range;
+  return Math.max(min, Math.min(max, modulatedValue));
+}
+
+// Apply modulation to granular settings in real-time
+// Uses DESIGN_RANGES for max modulation range since modulation can push beyond cinematic limits
+export function applyGranularModulation(
+  baseSettings: GranularSettings,
+  modulators: SynthParameters["modulators"],
+  routes: SynthParameters["modulationRoutes"],
+  time: number,
+  tempo: number,
+  states: Map<string, ModulatorState>,
+  curveSettings?: CurveModulatorSettings,
+  stepSettings?: StepSequencerSettings
+): GranularSettings {
+  const ranges = DESIGN_RANGES; // Use full ranges for modulation
+  const duration = 10; // Arbitrary long duration for granular (continuous playback)
+  
+  // Helper to modulate a single parameter
+  const mod = (path: string, base: number, min: number, max: number): number => {
+    return getModulatedValue(path, base, min, max, modulators, routes, time, duration, tempo, states, curveSettings, stepSettings);
+  };
+  
+  return {
+    ...baseSettings,
+    grainSizeMs: mod("granular.grainSizeMs", baseSettings.grainSizeMs, ranges.grainSizeMs.min, ranges.grainSizeMs.max),
+    densityGps: mod("granular.densityGps", baseSettings.densityGps, ranges.densityGps.min, ranges.densityGps.max),
+    scanStart: mod("granular.scanStart", baseSettings.scanStart, 0, 1),
+    scanWidth: mod("granular.scanWidth", baseSettings.scanWidth, ranges.scanWidth.min, ranges.scanWidth.max),
+    scanRateHz: mod("granular.scanRateHz", baseSettings.scanRateHz, ranges.scanRateHz.min, ranges.scanRateHz.max),
+    posJitterMs: mod("granular.posJitterMs", baseSettings.posJitterMs, ranges.posJitterMs.min, ranges.posJitterMs.max),
+    timingJitterMs: mod("granular.timingJitterMs", baseSettings.timingJitterMs ?? 0, ranges.timingJitterMs.min, ranges.timingJitterMs.max),
+    pitchST: mod("granular.pitchST", baseSettings.pitchST, ranges.pitchST.min, ranges.pitchST.max),
+    pitchRandST: mod("granular.pitchRandST", baseSettings.pitchRandST, ranges.pitchRandST.min, ranges.pitchRandST.max),
+    windowSkew: mod("granular.windowSkew", baseSettings.windowSkew, -1, 1),
+    sizeJitter: mod("granular.sizeJitter", baseSettings.sizeJitter ?? 0.25, ranges.sizeJitter.min, ranges.sizeJitter.max),
+    grainAmpRandDb: mod("granular.grainAmpRandDb", baseSettings.grainAmpRandDb, ranges.grainAmpRandDb.min, ranges.grainAmpRandDb.max),
+    reverseProb: mod("granular.reverseProb", baseSettings.reverseProb ?? 0, ranges.reverseProb.min, ranges.reverseProb.max),
+    panSpread: mod("granular.panSpread", baseSettings.panSpread, ranges.panSpread.min, ranges.panSpread.max),
+    stereoLink: mod("granular.stereoLink", baseSettings.stereoLink, ranges.stereoLink.min, ranges.stereoLink.max),
+    widthMs: mod("granular.widthMs", baseSettings.widthMs, ranges.widthMs.min, ranges.widthMs.max),
+    postHPHz: mod("granular.postHPHz", baseSettings.postHPHz, ranges.postHPHz.min, ranges.postHPHz.max),
+    postLPHz: mod("granular.postLPHz", baseSettings.postLPHz, ranges.postLPHz.min, ranges.postLPHz.max),
+    satDrive: mod("granular.satDrive", baseSettings.satDrive, ranges.satDrive.min, ranges.satDrive.max),
+    wetMix: mod("granular.wetMix", baseSettings.wetMix, ranges.wetMix.min, ranges.wetMix.max),
+    envAttack: mod("granular.envAttack", baseSettings.envAttack, ranges.envAttack.min, ranges.envAttack.max),
+    envHold: mod("granular.envHold", baseSettings.envHold, ranges.envHold.min, ranges.envHold.max),
+    envDecay: mod("granular.envDecay", baseSettings.envDecay, ranges.envDecay.min, ranges.envDecay.max),
+  };
+}
+
+// One-shot modulation: modulator rack routes rendered as control-rate curves
+// for the offline render. Curves are sampled every MOD_CURVE_INTERVAL samples
+// and handed to setValueCurveAtTime, which interpolates linearly between points,
+// so even fast LFOs are applied sample-accurately without zipper noise.
+const MOD_CURVE_INTERVAL = 64;
+
+export interface RenderModulation {
+  hasRoutes: (path: string) => boolean;
+  // Modulated value at a point in time (for parameters baked at render start)
+  valueAt: (path: string, base: number, min: number, max: number, time?: number) => number;
+  // Full modulated curve over the render, or null if the path has no routes
+  curveFor: (path: string, base: number, min: number, max: number) => Float32Array | null;
+  // Modulated value at a sample index (for post-render buffer processing)
+  valueAtSample: (path: string, base: number, min: number, max: number) => (index: number) => number;
+}
+
+export function buildRenderModulation(
+  params: SynthParameters,
+  durationSec: number,
+  envelopeDurationSec: number,
+  sampleRate: number,
+  seed: number,
+  curveSettings?: CurveModulatorSettings,
+  stepSettings?: StepSequencerSettings,
+  velocity: number = 1
+): RenderModulation {
+  const routes = params.modulationRoutes.filter(r => r.targetPath && r.depth !== 0);
+  const pointCount = Math.max(2, Math.ceil((durationSec * sampleRate) / MOD_CURVE_INTERVAL) + 1);
+  const timeStep = durationSec / (pointCount - 1);
+  const states = createModulatorStates(params.modulators, createSeededRandom(seed ^ 0x5bd1e995));
+
+  // Evaluate each referenced modulator once on a shared time grid so every target
+  // driven by the same (random) modulator sees the same sequence of values
+  const sourceCache = new Map<string, Float32Array | null>();
+  const getSource = (modulatorId: string): Float32Array | null => {
+    const cached = sourceCache.get(modulatorId);
+    if (cached !== undefined) return cached;
+
+    let evaluate: ((time: number) => number) | null = null;
+    if (modulatorId === "curve") {
+      if (curveSettings?.enabled) evaluate = (t) => evaluateCurveModulator(curveSettings, t);
+    } else if (modulatorId === "stepSequencer") {
+      if (stepSettings?.enabled) evaluate = (t) => evaluateStepSequencer(stepSettings, t, params.tempo);
+    } else if (modulatorId === VELOCITY_MODULATOR_ID) {
+      evaluate = () => velocity;
+    } else {
+      const mod = params.modulators.find(m => m.id === modulatorId);
+      const state = states.get(modulatorId);
+      if (mod && mod.enabled && state) {
+        evaluate = (t) => evaluateModulator(mod, t, envelopeDurationSec, params.tempo, state);
+      }
+    }
+
+    let values: Float32Array | null = null;
+    if (evaluate) {
+      values = new Float32Array(pointCount);
+      for (let i = 0; i < pointCount; i++) {
+        values[i] = evaluate(i * timeStep);
+      }
+    }
+    sourceCache.set(modulatorId, values);
+    return values;
+  };
+
+  const routesForPath = (path: string) => routes.filter(r => r.targetPath === path && getSource(r.modulatorId));
+
+  const curveFor = (path: string, base: number, min: number, max: number): Float32Array | null => {
+    const pathRoutes = routesForPath(path);
+    if (pathRoutes.length === 0) return null;
+
+    const range = max - min;
+    const curve = new Float32Array(pointCount);
+    for (let i = 0; i < pointCount; i++) {
+      let totalMod = 0;
+      for (const route of pathRoutes) {
+        totalMod += getSource(route.modulatorId)![i] * (route.depth / 100);
+      }
+      curve[i] = Math.max(min, Math.min(max, base + totalMod * range));
+    }
+    return curve;
+  };
+
+  return {
+    hasRoutes: (path) => routesForPath(path).length > 0,
+    valueAt: (path, base, min, max, time = 0) => {
+      const curve = curveFor(path, base, min, max);
+      if (!curve) return base;
+      const index = Math.max(0, Math.min(pointCount - 1, Math.round(time / timeStep)));
+      return curve[index];
+    },
+    curveFor,
+    valueAtSample: (path, base, min, max) => {
+      const curve = curveFor(path, base, min, max);
+      if (!curve) return () => base;
+      const samplesPerPoint = timeStep * sampleRate;
+      return (index) => curve[Math.min(pointCount - 1, Math.floor(index / samplesPerPoint))];
+    },
+  };
+}
+
+// Drive one or more AudioParams with a modulation curve. The curve is applied as an
+// offset from a ConstantSourceNode summed into the param, so it stacks on top of any
+// envelope automation already scheduled on that param instead of conflicting with it.
+// `map` converts the knob-domain value into the param's units (e.g. % -> gain).
+export function connectModulationCurve(
+  ctx: BaseAudioContext,
+  modulation: RenderModulation,
+  path: string,
+  base: number,
+  min: number,
+  max: number,
+  targets: AudioParam | AudioParam[],
+  startTime: number,
+  durationSec: number,
+  stopAt: number,
+  sourcesCollector?: AudioScheduledSourceNode[],
+  map: (value: number) => number = (value) => value
+): boolean {
+  const curve = modulation.curveFor(path, base, min, max);
+  if (!curve) return false;
+
+  const mappedBase = map(base);
+  const offsets = new Float32Array(curve.length);
+  let hasMovement = false;
+  for (let i = 0; i < curve.length; i++) {
+    offsets[i] = map(curve[i]) - mappedBase;
+    if (offsets[i] !== 0) hasMovement = true;
+  }
+  if (!hasMovement) return false;
+
+  const offsetSource = ctx.createConstantSource();
+  offsetSource.offset.value = 0;
+  offsetSource.offset.setValueCurveAtTime(offsets, startTime, Math.max(0.001, durationSec));
+  for (const target of Array.isArray(targets) ? targets : [targets]) {
+    offsetSource.connect(target);
+  }
+  offsetSource.start(startTime);
+  offsetSource.stop(Math.max(startTime + 0.01, stopAt));
+  if (sourcesCollector) {
+    sourcesCollector.push(offsetSource);
+  }
+  return true;
+}
+
+// Wavetable position over the render: the position envelope (amp envelope timing)
+// plus modulator rack routes. Returns null when the position never moves.
+export function buildWavetablePositionCurve(
+  modulation: RenderModulation,
+  path: string,
+  settings: OscWavetableSettings,
+  ampEnv: SynthParameters["envelopes"]["env3"],
+  durationSec: number,
+  sampleRate: number
+): Float32Array | null {
+  const routed = modulation.curveFor(path, settings.position, 0, 100);
+  const envDepth = Math.abs(settings.positionModDepth) >= 1 ? settings.positionModDepth : 0;
+  if (!routed && envDepth === 0) return null;
+
+  const pointCount = routed
+    ? routed.length
+    : Math.max(2, Math.ceil((durationSec * sampleRate) / MOD_CURVE_INTERVAL) + 1);
+  const timeStep = durationSec / (pointCount - 1);
+  const positions = new Float32Array(pointCount);
+  let moves = false;
+  for (let i = 0; i < pointCount; i++) {
+    const base = routed ? routed[i] : settings.position;
+    const env = wavetablePositionEnvelope(i * timeStep, ampEnv.attack / 1000, ampEnv.decay / 1000);
+    positions[i] = Math.max(0, Math.min(100, base + envDepth * env));
+    if (positions[i] !== positions[0]) moves = true;
+  }
+  return moves ? positions : null;
+}
+
+// Targets resolved by applyStaticModulation / applyStaticReverbModulation: a
+// route sets them once, at note start, and can't move them during the note
+const NOTE_START_TARGETS = new Set([
+  "envelopes.filter.amount",
+  "envelopes.pitch.amount",
+  "clickLayer.decay",
+  "waveshaper.amount",
+  "saturationChain.tapeDrive",
+  "saturationChain.tubeDrive",
+  "saturationChain.transistorDrive",
+  "mastering.exciter.amount",
+  "mastering.widener.amount",
+  "spectralScrambler.scrambleAmount",
+  "spectralScrambler.binShift",
+  "spectralScrambler.binDensity",
+  "spectralScrambler.gate",
+  "spectralScrambler.stretch",
+  "spectralScrambler.mix",
+  "effects.distortion.drive",
+  "effects.reverb.size",
+  "effects.reverb.decay",
+  "effects.reverb.predelay",
+  "effects.reverb.damping",
+  "effects.reverb.diffusion",
+  "effects.reverb.modulation",
+  "effects.reverb.stereoWidth",
+]);
+
+// Note-start targets only follow a source that holds still, so the rack offers
+// them to velocity and macros alone
+export function isNoteStartTarget(path: string): boolean {
+  return NOTE_START_TARGETS.has(path);
+}
+
+// Sources holding one value for the whole note (velocity, macros), which
+// note-start targets follow in full
+export function isConstantSource(modulatorId: string, modulators: Modulator[]): boolean {
+  if (modulatorId === VELOCITY_MODULATOR_ID) return true;
+  return modulators.find(m => m.id === modulatorId)?.type === "macro";
+}
+
+// Resolve targets that are baked into node construction (shaper curves, IR generation,
+// envelope depths) to their modulated value at note start
+export function applyStaticModulation(params: SynthParameters, modulation: RenderModulation): SynthParameters {
+  const at = (path: string, base: number, min: number, max: number) => modulation.valueAt(path, base, min, max);
+  return {
+    ...params,
+    envelopes: {
+      ...params.envelopes,
+      env1: { ...params.envelopes.env1, amount: at("envelopes.filter.amount", params.envelopes.env1.amount, -100, 100) },
+      env2: { ...params.envelopes.env2, amount: at("envelopes.pitch.amount", params.envelopes.env2.amount, -48, 48) },
+    },
+    clickLayer: {
+      ...params.clickLayer,
+      decay: at("clickLayer.decay", params.clickLayer.decay, 1, 10),
+    },
+    waveshaper: {
+      ...params.waveshaper,
+      drive: at("waveshaper.amount", params.waveshaper.drive, 0, 100),
+    },
+    saturationChain: {
+      ...params.saturationChain,
+      tapeDrive: at("saturationChain.tapeDrive", params.saturationChain.tapeDrive, 0, 100),
+      tubeDrive: at("saturationChain.tubeDrive", params.saturationChain.tubeDrive, 0, 100),
+      transistorDrive: at("saturationChain.transistorDrive", params.saturationChain.transistorDrive, 0, 100),
+    },
+    mastering: {
+      ...params.mastering,
+      exciterAmount: at("mastering.exciter.amount", params.mastering.exciterAmount, 0, 100),
+      stereoWidth: at("mastering.widener.amount", params.mastering.stereoWidth, 0, 200),
+    },
+    spectralScrambler: {
+      ...params.spectralScrambler,
+      scrambleAmount: at("spectralScrambler.scrambleAmount", params.spectralScrambler.scrambleAmount, 0, 100),
+      binShift: at("spectralScrambler.binShift", params.spectralScrambler.binShift, -50, 50),
+      binDensity: at("spectralScrambler.binDensity", params.spectralScrambler.binDensity, 5, 100),
+      gateThreshold: at("spectralScrambler.gate", params.spectralScrambler.gateThreshold, -60, 0),
+      stretch: at("spectralScrambler.stretch", params.spectralScrambler.stretch, 0.5, 2),
+      mix: at("spectralScrambler.mix", params.spectralScrambler.mix, 0, 100),
+    },
+    effects: {
+      ...params.effects,
+      saturation: at("effects.distortion.drive", params.effects.saturation, 0, 100),
+      reverbSize: at("effects.reverb.size", params.effects.reverbSize, 0, 100),
+      reverbDecay: at("effects.reverb.decay", params.effects.reverbDecay, 0.1, 10),
+    },
+  };
+}
+
+export function applyStaticReverbModulation(settings: ReverbSettings, modulation: RenderModulation): ReverbSettings {
+  const at = (path: string, base: number, min: number, max: number) => modulation.valueAt(path, base, min, max);
+  return {
+    ...settings,
+    predelay: at("effects.reverb.predelay", settings.predelay, 0, 200),
+    damping: at("effects.reverb.damping", settings.damping, 0, 100),
+    diffusion: at("effects.reverb.diffusion", settings.diffusion, 0, 100),
+    modulation: at("effects.reverb.modulation", settings.modulation, 0, 100),
+    stereoWidth: at("effects.reverb.stereoWidth", settings.stereoWidth, 0, 100),
+  };
+}
+
+// Fix 6: Seeded random number generator for consistent preview/export
+export function createSeededRandom(seed: number) {
+  let state = seed;
+  return function() {
+    state = (state * 1103515245 + 12345) & 0x7fffffff;
+    return state / 0x7fffffff;
+  };
+}
@@ -0,0 +1,82 @@
+// Algorithmic reverb settings (stored separately from the synth parameters)
+
+export type ReverbType = "hall" | "plate" | "room";
+
+export interface ReverbSettings {
+  type: ReverbType;
+  damping: number;
+  diffusion: number;
+  modulation: number;
+  predelay: number;
+  stereoWidth: number;
+
+  /** Optional deterministic seed for IR generation (stabilizes reverb character across rebuilds). */
+  seed?: number;
+}
+
+export const defaultReverbSettings: ReverbSettings = {
+  type: "plate",
+  damping: 50,
+  diffusion: 70,
+  modulation: 20,
+  predelay: 10,
+  stereoWidth: 80,
+};
+
+// Presets for each reverb type with enhanced characteristics
+export const reverbTypePresets: Record<ReverbType, { 
+  size: number; 
+  decay: number; 
+  damping: number; 
+  diffusion: number; 
+  modulation: number;
+  predelay: number;
+  stereoWidth: number;
+}> = {
+  hall: { size: 80, decay: 3.5, damping: 40, diffusion: 85, modulation: 25, predelay: 25, stereoWidth: 90 },
+  plate: { size: 60, decay: 1.8, damping: 55, diffusion: 90, modulation: 15, predelay: 5, stereoWidth: 75 },
+  room: { size: 35, decay: 0.6, damping: 65, diffusion: 60, modulation: 10, predelay: 10, stereoWidth: 60 },
+};
+
+
+const REVERB_SETTINGS_KEY = "synth-reverb-settings";
+
+const clamp = (v: number, min: number, max: number) => Math.min(max, Math.max(min, v));
+
+function isReverbType(v: unknown): v is ReverbType {
+  return v === "hall" || v === "plate" || v === "room";
+}
+
+function sanitizeReverbSettings(input: unknown): ReverbSettings {
+  const obj = (input && typeof input === "object") ? (input as Partial<ReverbSettings>) : {};
+  return {
+    type: isReverbType(obj.type) ? obj.type : defaultReverbSettings.type,
+    seed: obj.seed === undefined ? undefined : Number(obj.seed),
+    damping: clamp(Number(obj.damping ?? defaultReverbSettings.damping), 0, 100),
+    diffusion: clamp(Number(obj.diffusion ?? defaultReverbSettings.diffusion), 0, 100),
+    modulation: clamp(Number(obj.modulation ?? defaultReverbSettings.modulation), 0, 100),
+    predelay: clamp(Number(obj.predelay ?? defaultReverbSettings.predelay), 0, 200),
+    stereoWidth: clamp(Number(obj.stereoWidth ?? defaultReverbSettings.stereoWidth), 0, 100),
+  };
+}
+
+export function loadReverbSettings(): ReverbSettings {
+  try {
+    const stored = localStorage.getItem(REVERB_SETTINGS_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      return sanitizeReverbSettings({ ...defaultReverbSettings, ...parsed });
+    }
+  } catch {
+    // Fall through to default
+  }
+  return { ...defaultReverbSettings };
+}
+
+export function saveReverbSettings(settings: ReverbSettings) {
+  try {
+    localStorage.setItem(REVERB_SETTINGS_KEY, JSON.stringify(sanitizeReverbSettings(settings)));
+  } catch {
+    // Ignore storage failures (quota, private mode, etc.)
+  }
+}
@@ -1,6 +1,7 @@
 // Round-Robin Export - Generate subtle variations of a sound
 
 import type { SynthParameters } from "@shared/schema";
+import { type ParameterLocks, applyLocks } from "./parameterLocks";
 
 export interface RoundRobinSettings {
   enabled: boolean;
@@ -45,16 +46,19 @@ export function saveRoundRobinSettings(settings: RoundRobinSettings): void {
 }
 
 // Generate subtle variation of a number
-function varyNumber(value: number, min: number, max: number, amount: number): number {
+function varyNumber(value: number, min: number, max: number, amount: number, random: () => number): number {
   const range = max - min;
-  const variation = (Math.random() - 0.5) * 2 * (range * amount);
+  const variation = (random() - 0.5) * 2 * (range * amount);
   return Math.max(min, Math.min(max, value + variation));
 }
 
-// Generate a subtle variation of the synth parameters
+// Generate a subtle variation of the synth parameters. Pass a seeded random
+// source to make the variation reproducible; locked parameters keep their base value.
 export function generateVariation(
   baseParams: SynthParameters,
-  settings: RoundRobinSettings
+  settings: RoundRobinSettings,
+  random: () => number = Math.random,
+  locks: ParameterLocks = []
 ): SynthParameters {
   const amount = settings.variationAmount / 100;
   const result = JSON.parse(JSON.stringify(baseParams)) as SynthParameters;
@@ -67,7 +71,8 @@ export function generateVariation(
         result.oscillators.osc1.detune,
         -20,
         20,
-        amount * 0.5
+        amount * 0.5,
+        random
       );
     }
     if (result.oscillators.osc2.enabled) {
@@ -75,7 +80,8 @@ export function generateVariation(
         result.oscillators.osc2.detune,
         -20,
         20,
-        amount * 0.5
+        amount * 0.5,
+        random
       );
     }
     if (result.oscillators.osc3.enabled) {
@@ -83,7 +89,8 @@ export function generateVariation(
         result.oscillators.osc3.detune,
         -20,
         20,
-        amount * 0.5
+        amount * 0.5,
+        random
       );
     }
   }
@@ -91,43 +98,45 @@ export function generateVariation(
   // Vary envelope (using the envelopes structure from schema)
   if (settings.varyEnvelope) {
     // Amp envelope (env3)
-    result.envelopes.env3.attack = varyNumber(result.envelopes.env3.attack, 0, 0.5, amount * 0.3);
-    result.envelopes.env3.decay = varyNumber(result.envelopes.env3.decay, 0.01, 2, amount * 0.3);
-    result.envelopes.env3.hold = varyNumber(result.envelopes.env3.hold, 0, 0.5, amount * 0.3);
+    result.envelopes.env3.attack = varyNumber(result.envelopes.env3.attack, 0, 0.5, amount * 0.3, random);
+    result.envelopes.env3.decay = varyNumber(result.envelopes.env3.decay, 0.01, 2, amount * 0.3, random);
+    result.envelopes.env3.hold = varyNumber(result.envelopes.env3.hold, 0, 0.5, amount * 0.3, random);
     
     // Pitch envelope (env1)
-    result.envelopes.env1.attack = varyNumber(result.envelopes.env1.attack, 0, 0.3, amount * 0.3);
-    result.envelopes.env1.decay = varyNumber(result.envelopes.env1.decay, 0.01, 1, amount * 0.3);
-    result.envelopes.env1.amount = varyNumber(result.envelopes.env1.amount, -48, 48, amount * 0.2);
+    result.envelopes.env1.attack = varyNumber(result.envelopes.env1.attack, 0, 0.3, amount * 0.3, random);
+    result.envelopes.env1.decay = varyNumber(result.envelopes.env1.decay, 0.01, 1, amount * 0.3, random);
+    result.envelopes.env1.amount = varyNumber(result.envelopes.env1.amount, -48, 48, amount * 0.2, random);
   }
   
   // Vary filter
   if (settings.varyFilter) {
-    result.filter.frequency = varyNumber(result.filter.frequency, 20, 20000, amount * 0.1);
-    result.filter.resonance = varyNumber(result.filter.resonance, 0, 25, amount * 0.2);
+    result.filter.frequency = varyNumber(result.filter.frequency, 20, 20000, amount * 0.1, random);
+    result.filter.resonance = varyNumber(result.filter.resonance, 0, 25, amount * 0.2, random);
     // Filter envelope (env2)
-    result.envelopes.env2.amount = varyNumber(result.envelopes.env2.amount, -10000, 10000, amount * 0.15);
+    result.envelopes.env2.amount = varyNumber(result.envelopes.env2.amount, -10000, 10000, amount * 0.15, random);
   }
   
   // Vary level
   if (settings.varyLevel) {
-    result.oscillators.osc1.level = varyNumber(result.oscillators.osc1.level, 0, 1, amount * 0.1);
-    result.oscillators.osc2.level = varyNumber(result.oscillators.osc2.level, 0, 1, amount * 0.1);
-    result.oscillators.osc3.level = varyNumber(result.oscillators.osc3.level, 0, 1, amount * 0.1);
-    result.output.volume = varyNumber(result.output.volume, 0, 1, amount * 0.05);
+    result.oscillators.osc1.level = varyNumber(result.oscillators.osc1.level, 0, 1, amount * 0.1, random);
+    result.oscillators.osc2.level = varyNumber(result.oscillators.osc2.level, 0, 1, amount * 0.1, random);
+    result.oscillators.osc3.level = varyNumber(result.oscillators.osc3.level, 0, 1, amount * 0.1, random);
+    result.output.volume = varyNumber(result.output.volume, 0, 1, amount * 0.05, random);
   }
   
-  return result;
+  return applyLocks(result, baseParams, locks, "params");
 }
 
 // Generate all round-robin variations
 export function generateAllVariations(
   baseParams: SynthParameters,
-  settings: RoundRobinSettings
+  settings: RoundRobinSettings,
+  random: () => number = Math.random,
+  locks: ParameterLocks = []
 ): SynthParameters[] {
   const variations: SynthParameters[] = [];
   for (let i = 0; i < settings.variationCount; i++) {
-    variations.push(generateVariation(baseParams, settings));
+    variations.push(generateVariation(baseParams, settings, random, locks));
   }
   return variations;
 }
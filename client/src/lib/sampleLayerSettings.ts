@@ -134,7 +134,7 @@ function writeString(view: DataView, offset: number, string: string): void {
 // Convert base64 WAV back to AudioBuffer
 export async function base64ToAudioBuffer(
   base64: string,
-  audioContext: AudioContext
+  audioContext: BaseAudioContext
 ): Promise<AudioBuffer> {
   const binary = atob(base64);
   const buffer = new Uint8Array(binary.length);
@@ -0,0 +1,86 @@
+// Sampler instrument files for multi-sampled exports: SFZ and Decent Sampler
+// (.dspreset) mappings that spread each rendered note across the keyboard
+
+export interface SamplerZone {
+  file: string; // Path relative to the mapping file
+  rootNote: number; // MIDI note the sample was rendered at
+  loNote: number;
+  hiNote: number;
+  rr: number; // 1-based round-robin position
+  duration: number; // Seconds
+}
+
+export interface SamplerKeyRange {
+  rootNote: number;
+  loNote: number;
+  hiNote: number;
+}
+
+// Each rendered note covers the keys up to halfway to its neighbours; the
+// outermost notes stretch to the ends of the keyboard
+export function assignKeyRanges(notes: number[]): SamplerKeyRange[] {
+  const sorted = Array.from(new Set(notes)).sort((a, b) => a - b);
+  return sorted.map((rootNote, i) => ({
+    rootNote,
+    loNote: i === 0 ? 0 : Math.floor((sorted[i - 1] + rootNote) / 2) + 1,
+    hiNote: i === sorted.length - 1 ? 127 : Math.floor((rootNote + sorted[i + 1]) / 2),
+  }));
+}
+
+function roundRobinCount(zones: SamplerZone[]): number {
+  return zones.reduce((max, zone) => Math.max(max, zone.rr), 1);
+}
+
+export function buildSfz(name: string, zones: SamplerZone[]): string {
+  const takes = roundRobinCount(zones);
+  const lines = [
+    `// ${name}`,
+    "",
+    "<global>",
+    "loop_mode=one_shot",
+  ];
+
+  for (let rr = 1; rr <= takes; rr++) {
+    lines.push("");
+    lines.push(takes > 1 ? `<group> seq_length=${takes} seq_position=${rr}` : "<group>");
+    for (const zone of zones.filter(z => z.rr === rr)) {
+      lines.push(`<region> sample=${zone.file} lokey=${zone.loNote} hikey=${zone.hiNote} pitch_keycenter=${zone.rootNote}`);
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Decent Sampler releases on note-off, so the release is stretched to the
+// sample length to let every one-shot ring out
+export function buildDecentSamplerPreset(name: string, zones: SamplerZone[]): string {
+  const takes = roundRobinCount(zones);
+  const release = zones.reduce((max, zone) => Math.max(max, zone.duration), 0.1);
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<!-- ${escapeXml(name)} -->`,
+    '<DecentSampler minVersion="1.0.0">',
+    takes > 1 ? '  <groups seqMode="round_robin">' : "  <groups>",
+  ];
+
+  for (let rr = 1; rr <= takes; rr++) {
+    const seq = takes > 1 ? ` seqPosition="${rr}"` : "";
+    lines.push(`    <group${seq} attack="0" decay="0" sustain="1" release="${release.toFixed(3)}">`);
+    for (const zone of zones.filter(z => z.rr === rr)) {
+      lines.push(`      <sample path="${escapeXml(zone.file)}" rootNote="${zone.rootNote}" loNote="${zone.loNote}" hiNote="${zone.hiNote}"/>`);
+    }
+    lines.push("    </group>");
+  }
+
+  lines.push("  </groups>");
+  lines.push("</DecentSampler>");
+  return lines.join("\n") + "\n";
+}
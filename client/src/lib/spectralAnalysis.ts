@@ -0,0 +1,120 @@
+// Offline analysis of a rendered sound for the analysis view: STFT
+// spectrogram, averaged spectrum and stereo image. Magnitudes are in dBFS,
+// scaled so a full-scale sine reads 0 dB.
+
+import { fft } from "./fft";
+
+export interface Spectrogram {
+  frames: Float32Array[]; // dB per bin, fftSize / 2 + 1 bins each
+  fftSize: number;
+  hopSize: number;
+  sampleRate: number;
+}
+
+export interface Spectrum {
+  magnitudes: Float32Array; // dB per bin
+  fftSize: number;
+  sampleRate: number;
+}
+
+export interface StereoImage {
+  correlation: number; // -1 (out of phase) to +1 (mono)
+  points: Float32Array; // Interleaved side/mid pairs for the goniometer
+}
+
+const SILENCE_FLOOR_DB = -140;
+
+function hannWindow(size: number): Float32Array {
+  const window = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / size);
+  }
+  return window;
+}
+
+function mixToMono(channels: Float32Array[]): Float32Array {
+  if (channels.length === 1) return channels[0];
+  const mono = new Float32Array(channels[0].length);
+  for (const channel of channels) {
+    for (let i = 0; i < mono.length; i++) mono[i] += channel[i] / channels.length;
+  }
+  return mono;
+}
+
+// Windowed power spectrum of one frame starting at `start` (zero padded past the end)
+function framePower(signal: Float32Array, start: number, window: Float32Array): Float32Array {
+  const size = window.length;
+  const real = new Float32Array(size);
+  const imag = new Float32Array(size);
+  for (let i = 0; i < size && start + i < signal.length; i++) {
+    real[i] = signal[start + i] * window[i];
+  }
+  fft(real, imag);
+
+  // Single-sided amplitude relative to the window's coherent gain
+  const scale = 2 / window.reduce((sum, w) => sum + w, 0);
+  const power = new Float32Array(size / 2 + 1);
+  for (let k = 0; k <= size / 2; k++) {
+    power[k] = (real[k] * real[k] + imag[k] * imag[k]) * scale * scale;
+  }
+  return power;
+}
+
+function powerToDb(power: number): number {
+  return power > 0 ? Math.max(SILENCE_FLOOR_DB, 10 * Math.log10(power)) : SILENCE_FLOOR_DB;
+}
+
+// Long sounds use a larger hop so the frame count stays bounded
+export function computeSpectrogram(channels: Float32Array[], sampleRate: number, fftSize = 1024, maxFrames = 512): Spectrogram {
+  const signal = mixToMono(channels);
+  const window = hannWindow(fftSize);
+  const hopSize = Math.max(fftSize / 4, Math.ceil(signal.length / maxFrames));
+
+  const frames: Float32Array[] = [];
+  for (let start = 0; start < signal.length; start += hopSize) {
+    frames.push(framePower(signal, start, window).map(powerToDb));
+  }
+  return { frames, fftSize, hopSize, sampleRate };
+}
+
+// Mean power over 50%-overlapping frames (Welch's method)
+export function computeAverageSpectrum(channels: Float32Array[], sampleRate: number, fftSize = 8192): Spectrum {
+  const signal = mixToMono(channels);
+  const window = hannWindow(fftSize);
+  const sum = new Float32Array(fftSize / 2 + 1);
+
+  let frameCount = 0;
+  for (let start = 0; start === 0 || start + fftSize <= signal.length; start += fftSize / 2) {
+    const power = framePower(signal, start, window);
+    for (let k = 0; k < sum.length; k++) sum[k] += power[k];
+    frameCount++;
+  }
+  return { magnitudes: sum.map(p => powerToDb(p / frameCount)), fftSize, sampleRate };
+}
+
+export function analyzeStereo(channels: Float32Array[], maxPoints = 4096): StereoImage {
+  const left = channels[0];
+  const right = channels[1] ?? channels[0];
+
+  let lr = 0, ll = 0, rr = 0;
+  for (let i = 0; i < left.length; i++) {
+    lr += left[i] * right[i];
+    ll += left[i] * left[i];
+    rr += right[i] * right[i];
+  }
+
+  // Left plots up-left and right up-right, so mono is a vertical line
+  const step = Math.max(1, Math.floor(left.length / maxPoints));
+  const points = new Float32Array(Math.ceil(left.length / step) * 2);
+  for (let i = 0, p = 0; i < left.length; i += step, p += 2) {
+    points[p] = (right[i] - left[i]) * Math.SQRT1_2;
+    points[p + 1] = (left[i] + right[i]) * Math.SQRT1_2;
+  }
+
+  return { correlation: ll > 0 && rr > 0 ? lr / Math.sqrt(ll * rr) : 1, points };
+}
+
+// Frequency of a spectrum bin
+export function binFrequency(bin: number, fftSize: number, sampleRate: number): number {
+  return (bin * sampleRate) / fftSize;
+}
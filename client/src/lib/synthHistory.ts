@@ -0,0 +1,94 @@
+// Whole-synth undo history: snapshots of every settings block, persisted to
+// localStorage. Imported audio (sample layer and granular source) is left out
+// to keep snapshots small, so undo never swaps the loaded sample.
+import type { FullSynthSettings } from "./fullPreset";
+import type { SampleLayerSettings } from "./sampleLayerSettings";
+import { UndoHistory, type SerializedHistory } from "./undoHistory";
+
+export type SynthSnapshot = Omit<FullSynthSettings, "granularSample" | "customIR" | "customWavetables">;
+
+const STORAGE_KEY = "synthUndoHistory";
+const MAX_ENTRIES = 50;
+const COALESCE_MS = 600;
+const MAX_LABEL_BLOCKS = 2;
+
+export function toSnapshot(settings: FullSynthSettings): SynthSnapshot {
+  const { granularSample: _granular, customIR: _ir, customWavetables: _wavetables, ...snapshot } = settings;
+  if (snapshot.sampleLayerSettings) {
+    snapshot.sampleLayerSettings = { ...snapshot.sampleLayerSettings, sampleData: null, sampleName: null, sampleDuration: 0 };
+  }
+  return snapshot;
+}
+
+// Put the loaded sample back into a snapshot before applying it
+export function fromSnapshot(snapshot: SynthSnapshot, currentSampleLayer: SampleLayerSettings): FullSynthSettings {
+  return {
+    ...snapshot,
+    sampleLayerSettings: snapshot.sampleLayerSettings && {
+      ...snapshot.sampleLayerSettings,
+      sampleData: currentSampleLayer.sampleData,
+      sampleName: currentSampleLayer.sampleName,
+      sampleDuration: currentSampleLayer.sampleDuration,
+    },
+  };
+}
+
+// "advancedFMSettings" -> "Advanced FM", "clickLayer" -> "Click Layer"
+function blockLabel(key: string): string {
+  const words = key.replace(/Settings$/, "").replace(/([a-z])([A-Z])/g, "$1 $2");
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function changedKeys(previous: object, next: object): string[] {
+  const prev = previous as Record<string, unknown>;
+  const curr = next as Record<string, unknown>;
+  const keys = Array.from(new Set([...Object.keys(prev), ...Object.keys(curr)]));
+  return keys.filter(key => JSON.stringify(prev[key]) !== JSON.stringify(curr[key]));
+}
+
+// Names the changed blocks; SynthParameters changes are named by section
+export function describeSnapshotChange(previous: SynthSnapshot, next: SynthSnapshot): string {
+  const blocks = changedKeys(previous, next).flatMap(key =>
+    key === "params" ? changedKeys(previous.params, next.params) : key === "version" ? [] : [key]
+  );
+  if (blocks.length === 0) return "No change";
+  const names = blocks.slice(0, MAX_LABEL_BLOCKS).map(blockLabel).join(", ");
+  return blocks.length > MAX_LABEL_BLOCKS ? `${names} +${blocks.length - MAX_LABEL_BLOCKS}` : names;
+}
+
+export function createSynthHistory(): UndoHistory<SynthSnapshot> {
+  const history = new UndoHistory<SynthSnapshot>({
+    maxSize: MAX_ENTRIES,
+    coalesceMs: COALESCE_MS,
+    describe: describeSnapshotChange,
+  });
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      history.restore(JSON.parse(stored));
+    }
+  } catch (e) {
+    console.warn("Failed to load undo history from localStorage");
+  }
+  return history;
+}
+
+// Drops the oldest half and retries when the history outgrows the storage quota
+export function saveSynthHistory(data: SerializedHistory<SynthSnapshot>): void {
+  let { entries, currentIndex } = data;
+  while (entries.length > 0) {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({ entries, currentIndex }));
+      return;
+    } catch (e) {
+      const dropped = Math.max(1, Math.floor(entries.length / 2));
+      entries = entries.slice(dropped);
+      currentIndex = Math.max(0, currentIndex - dropped);
+    }
+  }
+  console.warn("Failed to save undo history to localStorage");
+}
+
+export function clearSavedSynthHistory(): void {
+  localStorage.removeItem(STORAGE_KEY);
+}
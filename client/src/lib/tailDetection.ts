@@ -0,0 +1,55 @@
+// Where a rendered sound really starts and ends. Levels are in dB below the
+// sound's own peak so detection behaves the same before and after normalization.
+
+export interface SoundBounds {
+  start: number; // First sample at or above the start threshold
+  end: number; // One past the last sample at or above the tail floor
+}
+
+function peakOf(channels: Float32Array[], from = 0, to = Infinity): number {
+  let peak = 0;
+  for (const channel of channels) {
+    for (let i = Math.max(0, from); i < Math.min(channel.length, to); i++) {
+      peak = Math.max(peak, Math.abs(channel[i]));
+    }
+  }
+  return peak;
+}
+
+function isAbove(channels: Float32Array[], index: number, level: number): boolean {
+  return channels.some(channel => Math.abs(channel[index]) >= level);
+}
+
+// Null when the buffer is silent
+export function findSoundBounds(channels: Float32Array[], startThresholdDb: number, tailFloorDb: number): SoundBounds | null {
+  const peak = peakOf(channels);
+  const length = channels[0]?.length ?? 0;
+  if (peak === 0 || length === 0) return null;
+
+  const startLevel = peak * Math.pow(10, startThresholdDb / 20);
+  const floorLevel = peak * Math.pow(10, tailFloorDb / 20);
+
+  let start = 0;
+  while (start < length - 1 && !isAbove(channels, start, startLevel)) start++;
+  let end = length;
+  while (end > start + 1 && !isAbove(channels, end - 1, floorLevel)) end--;
+
+  return { start, end };
+}
+
+// True when the window just before `endSample` is still above the tail floor,
+// i.e. the render stopped before the sound died away
+export function isStillAudible(channels: Float32Array[], sampleRate: number, endSample: number, tailFloorDb: number, windowMs = 50): boolean {
+  const peak = peakOf(channels, 0, endSample);
+  if (peak === 0) return false;
+  const windowStart = endSample - Math.round((windowMs / 1000) * sampleRate);
+  return peakOf(channels, windowStart, endSample) >= peak * Math.pow(10, tailFloorDb / 20);
+}
+
+export function getChannels(buffer: AudioBuffer): Float32Array[] {
+  const channels: Float32Array[] = [];
+  for (let i = 0; i < buffer.numberOfChannels; i++) {
+    channels.push(buffer.getChannelData(i));
+  }
+  return channels;
+}
@@ -2,52 +2,115 @@
 
 export interface HistoryEntry<T> {
   state: T;
-  timestamp: number;
+  timestamp: number; // Last time the entry was written (coalesced pushes update it)
+  label?: string; // What changed since the previous entry
+  checkpoint?: string; // User-given name; named entries are never merged, and trimmed only when they alone overflow
+}
+
+export interface UndoHistoryOptions<T> {
+  maxSize?: number;
+  coalesceMs?: number; // Pushes closer together than this merge into one entry
+  describe?: (previous: T, next: T) => string;
+}
+
+export interface SerializedHistory<T> {
+  entries: HistoryEntry<T>[];
+  currentIndex: number;
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)); // Deep clone
 }
 
 export class UndoHistory<T> {
   private history: HistoryEntry<T>[] = [];
   private currentIndex: number = -1;
   private maxSize: number;
+  private coalesceMs: number;
+  private describe?: (previous: T, next: T) => string;
+  private canCoalesce = false; // Cleared by undo/redo/jumps so the next edit starts a new entry
 
-  constructor(maxSize: number = 50) {
-    this.maxSize = maxSize;
+  constructor(options: UndoHistoryOptions<T> = {}) {
+    this.maxSize = options.maxSize ?? 50;
+    this.coalesceMs = options.coalesceMs ?? 0;
+    this.describe = options.describe;
   }
 
   push(state: T): void {
+    const current = this.history[this.currentIndex];
+    // Ignore no-op pushes, e.g. re-renders or re-applying an entry
+    if (current && JSON.stringify(current.state) === JSON.stringify(state)) return;
+
     // Remove any future states if we're not at the end
     if (this.currentIndex < this.history.length - 1) {
       this.history = this.history.slice(0, this.currentIndex + 1);
+      this.canCoalesce = false;
+    }
+
+    const now = Date.now();
+    const previous = this.history[this.currentIndex - 1];
+
+    // Fold rapid successive edits (knob drags) into the latest entry
+    if (
+      this.canCoalesce &&
+      current &&
+      previous &&
+      !current.checkpoint &&
+      now - current.timestamp < this.coalesceMs
+    ) {
+      current.state = clone(state);
+      current.timestamp = now;
+      current.label = this.describe?.(previous.state, state);
+      return;
     }
 
     // Add new state
     this.history.push({
-      state: JSON.parse(JSON.stringify(state)), // Deep clone
-      timestamp: Date.now(),
+      state: clone(state),
+      timestamp: now,
+      label: current && this.describe ? this.describe(current.state, state) : undefined,
     });
+    this.currentIndex++;
+    this.canCoalesce = true;
+    this.trim();
+  }
 
-    // Trim if over max size
-    if (this.history.length > this.maxSize) {
-      this.history.shift();
-    } else {
-      this.currentIndex++;
+  // Evict down to maxSize: oldest plain entries first, then the oldest
+  // checkpoints once they alone overflow. The baseline (first entry) and the
+  // current entry always stay
+  private trim(): void {
+    while (this.history.length > this.maxSize) {
+      const evictable = (entry: HistoryEntry<T>, i: number) => i > 0 && i !== this.currentIndex;
+      let index = this.history.findIndex((entry, i) => evictable(entry, i) && !entry.checkpoint);
+      if (index === -1) index = this.history.findIndex(evictable);
+      if (index === -1) return;
+      this.history.splice(index, 1);
+      if (index < this.currentIndex) this.currentIndex--;
     }
   }
 
   undo(): T | null {
-    if (this.currentIndex > 0) {
-      this.currentIndex--;
-      return JSON.parse(JSON.stringify(this.history[this.currentIndex].state));
-    }
-    return null;
+    return this.currentIndex > 0 ? this.goTo(this.currentIndex - 1) : null;
   }
 
   redo(): T | null {
-    if (this.currentIndex < this.history.length - 1) {
-      this.currentIndex++;
-      return JSON.parse(JSON.stringify(this.history[this.currentIndex].state));
-    }
-    return null;
+    return this.currentIndex < this.history.length - 1 ? this.goTo(this.currentIndex + 1) : null;
+  }
+
+  // Jump anywhere in the history; later entries stay available for redo
+  goTo(index: number): T | null {
+    if (index < 0 || index >= this.history.length) return null;
+    this.currentIndex = index;
+    this.canCoalesce = false;
+    return clone(this.history[index].state);
+  }
+
+  // Name the current entry; an empty name removes the checkpoint
+  setCheckpoint(name: string): void {
+    const entry = this.history[this.currentIndex];
+    if (!entry) return;
+    entry.checkpoint = name.trim() || undefined;
+    this.canCoalesce = false;
   }
 
   canUndo(): boolean {
@@ -61,6 +124,11 @@ export class UndoHistory<T> {
   clear(): void {
     this.history = [];
     this.currentIndex = -1;
+    this.canCoalesce = false;
+  }
+
+  getEntries(): readonly HistoryEntry<T>[] {
+    return this.history;
   }
 
   getHistoryLength(): number {
@@ -70,4 +138,15 @@ export class UndoHistory<T> {
   getCurrentIndex(): number {
     return this.currentIndex;
   }
+
+  serialize(): SerializedHistory<T> {
+    return { entries: this.history, currentIndex: this.currentIndex };
+  }
+
+  restore(data: SerializedHistory<T>): void {
+    this.history = data.entries.slice();
+    this.currentIndex = this.history.length === 0 ? -1 : Math.max(0, Math.min(this.history.length - 1, data.currentIndex));
+    this.canCoalesce = false;
+    this.trim();
+  }
 }
@@ -0,0 +1,250 @@
+// WAV encoding shared by browser exports and the server render endpoint.
+// Only needs the AudioBuffer read API, so any Web Audio implementation works.
+
+type PcmSource = Pick<AudioBuffer, "numberOfChannels" | "sampleRate" | "length" | "getChannelData">;
+
+export type WavBitDepth = 16 | 24 | 32; // 32 is IEEE float
+export type WavDither = "none" | "tpdf" | "noise-shaped";
+
+// Descriptive chunks for samplers and DAWs; each is written only when its fields are set
+export interface WavMetadata {
+  rootNote?: number; // MIDI note, written to smpl (and acid with a tempo)
+  tempo?: number; // BPM for the acid chunk
+  title?: string; // INFO INAM
+  comment?: string; // INFO ICMT
+  software?: string; // INFO ISFT and bext originator
+  description?: string; // bext description (up to 256 characters)
+  reference?: string; // bext originator reference (up to 32 characters)
+  date?: Date;
+}
+
+export interface WavEncodeOptions {
+  bitDepth?: WavBitDepth;
+  dither?: WavDither; // Only applies to 16-bit
+  metadata?: WavMetadata;
+}
+
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_EXTENSIBLE = 0xFFFE;
+
+// KSDATAFORMAT_SUBTYPE_PCM, minus the leading format tag
+const PCM_SUBFORMAT_GUID = [0x00, 0x00, 0x00, 0x00, 0x10, 0x00, 0x80, 0x00, 0x00, 0xAA, 0x00, 0x38, 0x9B, 0x71];
+
+// Quantize to 16-bit with optional dither. TPDF adds ±1 LSB triangular noise;
+// noise shaping also feeds the quantization error back (first order) to push
+// it toward high frequencies where it's less audible.
+export function quantize16(channel: Float32Array, dither: WavDither): Int16Array {
+  const out = new Int16Array(channel.length);
+  const lsb = 1 / 0x8000;
+  let error = 0;
+
+  for (let i = 0; i < channel.length; i++) {
+    let sample = Math.max(-1, Math.min(1, channel[i]));
+    if (dither === "none") {
+      out[i] = sample < 0 ? sample * 0x8000 : sample * 0x7FFF;
+      continue;
+    }
+    if (dither === "noise-shaped") sample -= error;
+    const tpdf = (Math.random() - Math.random()) * lsb;
+    const quantized = Math.max(-0x8000, Math.min(0x7FFF, Math.round((sample + tpdf) * 0x8000)));
+    error = quantized / 0x8000 - sample;
+    out[i] = quantized;
+  }
+
+  return out;
+}
+
+// Build one RIFF chunk: id, little-endian size, body, pad byte to even length
+function riffChunk(id: string, size: number, write: (view: DataView, body: number) => void): Uint8Array {
+  const bytes = new Uint8Array(8 + size + (size & 1));
+  const view = new DataView(bytes.buffer);
+  writeAscii(view, 0, id, 4);
+  view.setUint32(4, size, true);
+  write(view, 8);
+  return bytes;
+}
+
+// Write ASCII into a fixed-width field (truncated, zero padded)
+function writeAscii(view: DataView, offset: number, str: string, width: number) {
+  for (let i = 0; i < Math.min(str.length, width); i++) {
+    const code = str.charCodeAt(i);
+    view.setUint8(offset + i, code < 0x80 ? code : 0x3F); // Non-ASCII becomes "?"
+  }
+}
+
+function pad2(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+// Sampler root note, no loops
+function smplChunk(sampleRate: number, rootNote: number): Uint8Array {
+  return riffChunk("smpl", 36, (view, body) => {
+    view.setUint32(body + 8, Math.round(1e9 / sampleRate), true); // Sample period (ns)
+    view.setUint32(body + 12, rootNote, true); // MIDI unity note
+    // Manufacturer, product, pitch fraction, SMPTE and loops stay zero
+  });
+}
+
+// ACIDized one-shot with a root note and tempo
+function acidChunk(rootNote: number, tempo: number, duration: number): Uint8Array {
+  return riffChunk("acid", 24, (view, body) => {
+    view.setUint32(body, 0x01 | 0x02, true); // One-shot, root note set
+    view.setUint16(body + 4, rootNote, true);
+    view.setUint16(body + 6, 0x8000, true);
+    view.setFloat32(body + 8, 0, true);
+    view.setUint32(body + 12, Math.max(1, Math.round((duration * tempo) / 60)), true); // Beats
+    view.setUint16(body + 16, 4, true); // Meter denominator
+    view.setUint16(body + 18, 4, true); // Meter numerator
+    view.setFloat32(body + 20, tempo, true);
+  });
+}
+
+// Single cue point marking the start of the sound
+function cueChunk(): Uint8Array {
+  return riffChunk("cue ", 28, (view, body) => {
+    view.setUint32(body, 1, true); // Cue point count
+    view.setUint32(body + 4, 1, true); // Cue ID
+    view.setUint32(body + 8, 0, true); // Play order position
+    writeAscii(view, body + 12, "data", 4);
+    // Chunk start, block start and sample offset are all zero
+  });
+}
+
+// Broadcast WAV (EBU Tech 3285 v1) description block
+function bextChunk(metadata: WavMetadata, date: Date): Uint8Array {
+  return riffChunk("bext", 602, (view, body) => {
+    writeAscii(view, body, metadata.description ?? "", 256);
+    writeAscii(view, body + 256, metadata.software ?? "", 32); // Originator
+    writeAscii(view, body + 288, metadata.reference ?? "", 32); // Originator reference
+    writeAscii(view, body + 320, `${date.getFullYear()}-${pad2(date.getMonth() + 1)}-${pad2(date.getDate())}`, 10);
+    writeAscii(view, body + 330, `${pad2(date.getHours())}:${pad2(date.getMinutes())}:${pad2(date.getSeconds())}`, 8);
+    view.setUint16(body + 346, 1, true); // Version
+    // Time reference, UMID and reserved bytes stay zero
+  });
+}
+
+// LIST/INFO tags; each value is NUL terminated and padded to even length
+function infoChunk(tags: [string, string][]): Uint8Array {
+  const encoded = tags.map(([id, value]) => riffChunk(id, value.length + 1, (view, body) => writeAscii(view, body, value, value.length)));
+  const size = 4 + encoded.reduce((sum, chunk) => sum + chunk.length, 0);
+  return riffChunk("LIST", size, (view, body) => {
+    writeAscii(view, body, "INFO", 4);
+    let offset = body + 4;
+    for (const chunk of encoded) {
+      new Uint8Array(view.buffer).set(chunk, offset);
+      offset += chunk.length;
+    }
+  });
+}
+
+function metadataChunks(metadata: WavMetadata, sampleRate: number, duration: number): Uint8Array[] {
+  const chunks: Uint8Array[] = [];
+  const date = metadata.date ?? new Date();
+
+  if (metadata.description !== undefined || metadata.reference !== undefined) {
+    chunks.push(bextChunk(metadata, date));
+  }
+  if (metadata.rootNote !== undefined) {
+    const rootNote = Math.max(0, Math.min(127, Math.round(metadata.rootNote)));
+    chunks.push(smplChunk(sampleRate, rootNote));
+    if (metadata.tempo !== undefined) {
+      chunks.push(acidChunk(rootNote, metadata.tempo, duration));
+    }
+  }
+  chunks.push(cueChunk());
+
+  const tags: [string, string][] = [];
+  if (metadata.title) tags.push(["INAM", metadata.title]);
+  if (metadata.comment) tags.push(["ICMT", metadata.comment]);
+  if (metadata.software) tags.push(["ISFT", metadata.software]);
+  tags.push(["ICRD", `${date.getFullYear()}-${pad2(date.getMonth() + 1)}-${pad2(date.getDate())}`]);
+  chunks.push(infoChunk(tags));
+
+  return chunks;
+}
+
+export function encodeWav(buffer: PcmSource, options: WavEncodeOptions = {}): ArrayBuffer {
+  const bitDepth = options.bitDepth ?? 16;
+  const dither = options.dither ?? "none";
+  const numChannels = buffer.numberOfChannels;
+  const sampleRate = buffer.sampleRate;
+
+  // 16-bit stays plain PCM for compatibility, 24-bit uses EXTENSIBLE as the
+  // spec requires for more than 16 bits, float needs a fact chunk
+  const format = bitDepth === 32 ? WAVE_FORMAT_IEEE_FLOAT : bitDepth === 24 ? WAVE_FORMAT_EXTENSIBLE : WAVE_FORMAT_PCM;
+  const fmtSize = format === WAVE_FORMAT_EXTENSIBLE ? 40 : format === WAVE_FORMAT_IEEE_FLOAT ? 18 : 16;
+
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = numChannels * bytesPerSample;
+  const dataLength = buffer.length * blockAlign;
+
+  const chunks: Uint8Array[] = [];
+  chunks.push(riffChunk("fmt ", fmtSize, (view, body) => {
+    view.setUint16(body, format, true);
+    view.setUint16(body + 2, numChannels, true);
+    view.setUint32(body + 4, sampleRate, true);
+    view.setUint32(body + 8, sampleRate * blockAlign, true);
+    view.setUint16(body + 12, blockAlign, true);
+    view.setUint16(body + 14, bitDepth, true);
+    if (format === WAVE_FORMAT_IEEE_FLOAT) {
+      view.setUint16(body + 16, 0, true); // cbSize
+    } else if (format === WAVE_FORMAT_EXTENSIBLE) {
+      view.setUint16(body + 16, 22, true); // cbSize
+      view.setUint16(body + 18, bitDepth, true); // Valid bits per sample
+      view.setUint32(body + 20, numChannels === 2 ? 0x3 : numChannels === 1 ? 0x4 : 0, true); // Speaker mask
+      view.setUint16(body + 24, WAVE_FORMAT_PCM, true);
+      PCM_SUBFORMAT_GUID.forEach((byte, i) => view.setUint8(body + 26 + i, byte));
+    }
+  }));
+  if (format === WAVE_FORMAT_IEEE_FLOAT) {
+    chunks.push(riffChunk("fact", 4, (view, body) => view.setUint32(body, buffer.length, true))); // Sample frames
+  }
+  if (options.metadata) {
+    chunks.push(...metadataChunks(options.metadata, sampleRate, buffer.length / sampleRate));
+  }
+
+  const headerLength = 12 + chunks.reduce((sum, chunk) => sum + chunk.length, 0) + 8;
+  const arrayBuffer = new ArrayBuffer(headerLength + dataLength + (dataLength & 1));
+  const bytes = new Uint8Array(arrayBuffer);
+  const view = new DataView(arrayBuffer);
+
+  writeAscii(view, 0, "RIFF", 4);
+  view.setUint32(4, arrayBuffer.byteLength - 8, true);
+  writeAscii(view, 8, "WAVE", 4);
+
+  let offset = 12;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+
+  writeAscii(view, offset, "data", 4);
+  view.setUint32(offset + 4, dataLength, true);
+  offset += 8;
+
+  const channels: Float32Array[] = [];
+  for (let i = 0; i < numChannels; i++) {
+    channels.push(buffer.getChannelData(i));
+  }
+  const quantized = bitDepth === 16 ? channels.map(channel => quantize16(channel, dither)) : null;
+
+  for (let i = 0; i < buffer.length; i++) {
+    for (let channel = 0; channel < numChannels; channel++) {
+      if (quantized) {
+        view.setInt16(offset, quantized[channel][i], true);
+      } else if (bitDepth === 24) {
+        const sample = Math.max(-1, Math.min(1, channels[channel][i]));
+        const intSample = Math.round(sample < 0 ? sample * 0x800000 : sample * 0x7FFFFF);
+        view.setUint8(offset, intSample & 0xFF);
+        view.setUint8(offset + 1, (intSample >> 8) & 0xFF);
+        view.setUint8(offset + 2, (intSample >> 16) & 0xFF);
+      } else {
+        view.setFloat32(offset, channels[channel][i], true);
+      }
+      offset += bytesPerSample;
+    }
+  }
+
+  return arrayBuffer;
+}
@@ -127,9 +127,9 @@ export function createUnisonWavetableOscillators(
   settings: OscWavetableSettings,
   frequency: number,
   startTime: number,
-  stopTime: number
+  stopTime: number,
+  wavetable: WavetableData | null = getWavetableById(settings.wavetableId)
 ): UnisonWavetableResult | null {
-  const wavetable = getWavetableById(settings.wavetableId);
   if (!wavetable) {
     console.warn(`Wavetable not found: ${settings.wavetableId}`);
     return null;
@@ -212,8 +212,18 @@ export function createUnisonWavetableOscillators(
   };
 }
 
-// Apply wavetable position modulation from envelope
-// This creates an envelope that sweeps the wavetable position over time
+// Position envelope shape (0-1): linear rise over attack, linear fall over decay
+export function wavetablePositionEnvelope(time: number, attack: number, decay: number): number {
+  if (time < attack) {
+    return attack > 0 ? time / attack : 1;
+  }
+  return decay > 0 ? 1 - Math.min(1, (time - attack) / decay) : 0;
+}
+
+// Apply wavetable position modulation from envelope (live playback only)
+// This creates an envelope that sweeps the wavetable position over time.
+// Offline renders use createMorphingWavetableOscillators instead, since a
+// PeriodicWave can't be swapped on a schedule.
 export function applyWavetablePositionModulation(
   audioContext: BaseAudioContext,
   wavetableResult: UnisonWavetableResult | WavetableOscillatorResult,
@@ -227,6 +237,7 @@ export function applyWavetablePositionModulation(
 ): void {
   if (Math.abs(envelopeAmount) < 1) return;
   if (!wavetableResult.setPosition) return;
+  if (audioContext instanceof OfflineAudioContext) return;
   
   const basePosition = settings.position;
   const modDepth = envelopeAmount;
@@ -237,57 +248,163 @@ export function applyWavetablePositionModulation(
   const steps = Math.max(10, Math.min(50, Math.ceil(totalModTime * 30))); // ~30 updates per second
   const stepTime = totalModTime / steps;
   
-  // For offline context, we need to schedule all changes before rendering starts
-  // Use requestAnimationFrame for live context, or pre-calculate for offline
-  const isOffline = audioContext instanceof OfflineAudioContext;
-  
-  if (isOffline) {
-    // For offline rendering, pre-calculate all position changes
-    // Schedule them relative to the context's timeline
-    for (let i = 0; i <= steps; i++) {
-      const t = i * stepTime;
-      let envValue = 0;
-      
-      if (t < envelopeAttack) {
-        envValue = envelopeAttack > 0 ? t / envelopeAttack : 1;
-      } else {
-        const decayTime = t - envelopeAttack;
-        envValue = envelopeDecay > 0 ? 1 - Math.min(1, decayTime / envelopeDecay) : 0;
+  // Live playback: use setTimeout for real-time updates
+  const scheduleUpdate = (delayMs: number, position: number) => {
+    setTimeout(() => {
+      if (wavetableResult.setPosition) {
+        wavetableResult.setPosition(position);
       }
-      
-      const position = Math.max(0, Math.min(100, basePosition + modDepth * envValue));
-      
-      // For offline rendering, we can't change PeriodicWave dynamically
-      // Instead, we set the initial position only (modulation is for live playback)
+    }, delayMs);
+  };
+  
+  for (let i = 0; i <= steps; i++) {
+    const t = i * stepTime;
+    const envValue = wavetablePositionEnvelope(t, envelopeAttack, envelopeDecay);
+    const position = Math.max(0, Math.min(100, basePosition + modDepth * envValue));
+    scheduleUpdate(t * 1000, position);
+  }
+}
+
+// Morphing wavetable oscillators for offline renders.
+// Each unison voice runs one oscillator per anchor position across the swept
+// range; all of them start in phase, so crossfading their gains along the
+// position curve reproduces the interpolated frame at every point in time.
+export interface MorphingWavetableResult {
+  oscillators: OscillatorNode[];
+  controlSources: ConstantSourceNode[]; // Shared pitch + per-anchor weights
+  outputGain: GainNode;
+  frequency: AudioParam; // Drives every oscillator, so pitch envelopes stay phase-locked
+}
+
+const MORPH_POSITION_STEP = 2; // Matches the PeriodicWave cache resolution
+const MAX_MORPH_OSCILLATORS = 64;
+
+function getMorphAnchors(minPos: number, maxPos: number, voiceCount: number): number[] {
+  const low = Math.floor(minPos / MORPH_POSITION_STEP) * MORPH_POSITION_STEP;
+  const high = Math.ceil(maxPos / MORPH_POSITION_STEP) * MORPH_POSITION_STEP;
+  const maxAnchors = Math.max(2, Math.floor(MAX_MORPH_OSCILLATORS / voiceCount));
+  const stepCount = Math.max(1, Math.min(maxAnchors - 1, Math.round((high - low) / MORPH_POSITION_STEP)));
+  const anchors: number[] = [];
+  for (let i = 0; i <= stepCount; i++) {
+    anchors.push(low + ((high - low) * i) / stepCount);
+  }
+  return anchors;
+}
+
+// Crossfade weight of every anchor along the position curve
+function getMorphWeights(
+  positions: Float32Array,
+  anchors: number[],
+  interpolation: WavetableInterpolation
+): Float32Array[] {
+  const weights = anchors.map(() => new Float32Array(positions.length));
+  const last = anchors.length - 1;
+  
+  for (let i = 0; i < positions.length; i++) {
+    const p = positions[i];
+    if (p <= anchors[0]) {
+      weights[0][i] = 1;
+      continue;
     }
-    // Note: Full wavetable modulation during offline export would require
-    // creating multiple oscillators that crossfade, which is complex.
-    // For now, offline export uses the static position.
-  } else {
-    // Live playback: use setTimeout for real-time updates
-    const scheduleUpdate = (delayMs: number, position: number) => {
-      setTimeout(() => {
-        if (wavetableResult.setPosition) {
-          wavetableResult.setPosition(position);
-        }
-      }, delayMs);
-    };
+    if (p >= anchors[last]) {
+      weights[last][i] = 1;
+      continue;
+    }
+    let index = 0;
+    while (index < last - 1 && p >= anchors[index + 1]) index++;
+    let t = (p - anchors[index]) / (anchors[index + 1] - anchors[index]);
+    if (interpolation === "none") {
+      t = t < 0.5 ? 0 : 1;
+    } else if (interpolation === "cubic") {
+      t = t * t * (3 - 2 * t);
+    }
+    weights[index][i] = 1 - t;
+    weights[index + 1][i] = t;
+  }
+  
+  return weights;
+}
+
+export function createMorphingWavetableOscillators(
+  audioContext: BaseAudioContext,
+  settings: OscWavetableSettings,
+  frequency: number,
+  positions: Float32Array, // Position (0-100) sampled evenly over positionsDuration
+  positionsDuration: number,
+  startTime: number,
+  stopTime: number,
+  wavetable: WavetableData | null = getWavetableById(settings.wavetableId)
+): MorphingWavetableResult | null {
+  if (!wavetable) {
+    console.warn(`Wavetable not found: ${settings.wavetableId}`);
+    return null;
+  }
+  
+  const voiceCount = Math.max(1, Math.min(8, settings.unison));
+  let minPos = 100;
+  let maxPos = 0;
+  for (let i = 0; i < positions.length; i++) {
+    minPos = Math.min(minPos, positions[i]);
+    maxPos = Math.max(maxPos, positions[i]);
+  }
+  const anchors = getMorphAnchors(minPos, maxPos, voiceCount);
+  const weights = getMorphWeights(positions, anchors, settings.interpolation);
+  const waves = anchors.map(pos => getPeriodicWaveAtPosition(audioContext, wavetable, pos, settings.interpolation));
+  
+  const outputGain = audioContext.createGain();
+  outputGain.gain.value = 1 / Math.sqrt(voiceCount);
+  
+  const pitch = audioContext.createConstantSource();
+  pitch.offset.value = frequency;
+  
+  const weightSources = weights.map(curve => {
+    const source = audioContext.createConstantSource();
+    source.offset.value = curve[0];
+    source.offset.setValueCurveAtTime(curve, startTime, Math.max(0.001, positionsDuration));
+    return source;
+  });
+  
+  const detuneRange = settings.unisonDetune; // cents
+  const blendAmount = settings.unisonBlend / 100; // 0-1
+  const oscillators: OscillatorNode[] = [];
+  
+  for (let v = 0; v < voiceCount; v++) {
+    const normalizedPos = voiceCount > 1 ? v / (voiceCount - 1) : 0.5;
+    const panner = audioContext.createStereoPanner();
+    panner.pan.value = voiceCount > 1 ? (normalizedPos * 2 - 1) * blendAmount : 0;
+    panner.connect(outputGain);
     
-    for (let i = 0; i <= steps; i++) {
-      const t = i * stepTime;
-      let envValue = 0;
+    for (let a = 0; a < anchors.length; a++) {
+      const osc = audioContext.createOscillator();
+      osc.setPeriodicWave(waves[a]);
+      osc.frequency.value = 0;
+      osc.detune.value = voiceCount > 1 ? (normalizedPos * 2 - 1) * detuneRange : 0;
+      pitch.connect(osc.frequency);
       
-      if (t < envelopeAttack) {
-        envValue = envelopeAttack > 0 ? t / envelopeAttack : 1;
-      } else {
-        const decayTime = t - envelopeAttack;
-        envValue = envelopeDecay > 0 ? 1 - Math.min(1, decayTime / envelopeDecay) : 0;
-      }
+      const anchorGain = audioContext.createGain();
+      anchorGain.gain.value = 0;
+      weightSources[a].connect(anchorGain.gain);
       
-      const position = Math.max(0, Math.min(100, basePosition + modDepth * envValue));
-      scheduleUpdate(t * 1000, position);
+      osc.connect(anchorGain);
+      anchorGain.connect(panner);
+      osc.start(startTime);
+      osc.stop(stopTime);
+      oscillators.push(osc);
     }
   }
+  
+  const controlSources = [pitch, ...weightSources];
+  for (const source of controlSources) {
+    source.start(startTime);
+    source.stop(stopTime);
+  }
+  
+  return {
+    oscillators,
+    controlSources,
+    outputGain,
+    frequency: pitch.offset,
+  };
 }
 
 // Get all available wavetables (factory + user)
@@ -0,0 +1,104 @@
+// Minimal ZIP archive writer. Entries are stored uncompressed: rendered audio
+// barely deflates, and it keeps pack export dependency-free.
+
+export interface ZipEntry {
+  path: string; // Forward-slash separated, folders are implied by the path
+  data: Uint8Array;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+// MS-DOS date/time as stored in ZIP headers
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+export function createZip(entries: ZipEntry[], modified: Date = new Date()): Uint8Array {
+  const encoder = new TextEncoder();
+  const stamp = dosDateTime(modified);
+  const names = entries.map(entry => encoder.encode(entry.path));
+  const crcs = entries.map(entry => crc32(entry.data));
+
+  let localSize = 0;
+  let centralSize = 0;
+  for (let i = 0; i < entries.length; i++) {
+    localSize += 30 + names[i].length + entries[i].data.length;
+    centralSize += 46 + names[i].length;
+  }
+
+  const out = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(out.buffer);
+  const offsets: number[] = [];
+  let pos = 0;
+
+  // Local file headers followed by the data
+  for (let i = 0; i < entries.length; i++) {
+    const size = entries[i].data.length;
+    offsets.push(pos);
+    view.setUint32(pos, 0x04034B50, true);
+    view.setUint16(pos + 4, 20, true); // Version needed
+    view.setUint16(pos + 6, 0x0800, true); // UTF-8 names
+    view.setUint16(pos + 8, 0, true); // Stored
+    view.setUint16(pos + 10, stamp.time, true);
+    view.setUint16(pos + 12, stamp.date, true);
+    view.setUint32(pos + 14, crcs[i], true);
+    view.setUint32(pos + 18, size, true);
+    view.setUint32(pos + 22, size, true);
+    view.setUint16(pos + 26, names[i].length, true);
+    view.setUint16(pos + 28, 0, true);
+    out.set(names[i], pos + 30);
+    out.set(entries[i].data, pos + 30 + names[i].length);
+    pos += 30 + names[i].length + size;
+  }
+
+  // Central directory
+  const centralStart = pos;
+  for (let i = 0; i < entries.length; i++) {
+    const size = entries[i].data.length;
+    view.setUint32(pos, 0x02014B50, true);
+    view.setUint16(pos + 4, 20, true); // Version made by
+    view.setUint16(pos + 6, 20, true);
+    view.setUint16(pos + 8, 0x0800, true);
+    view.setUint16(pos + 10, 0, true);
+    view.setUint16(pos + 12, stamp.time, true);
+    view.setUint16(pos + 14, stamp.date, true);
+    view.setUint32(pos + 16, crcs[i], true);
+    view.setUint32(pos + 20, size, true);
+    view.setUint32(pos + 24, size, true);
+    view.setUint16(pos + 28, names[i].length, true);
+    // Extra/comment lengths, disk number and attributes stay zero
+    view.setUint32(pos + 42, offsets[i], true);
+    out.set(names[i], pos + 46);
+    pos += 46 + names[i].length;
+  }
+
+  // End of central directory
+  view.setUint32(pos, 0x06054B50, true);
+  view.setUint16(pos + 8, entries.length, true);
+  view.setUint16(pos + 10, entries.length, true);
+  view.setUint32(pos + 12, pos - centralStart, true);
+  view.setUint32(pos + 16, centralStart, true);
+
+  return out;
+}
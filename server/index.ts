@@ -1,7 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
-import { createServer } from "http";
+import { createServer, type IncomingMessage, type ServerResponse } from "http";
 
 const app = express();
 const httpServer = createServer(app);
@@ -12,13 +12,18 @@ declare module "http" {
   }
 }
 
-app.use(
-  express.json({
-    verify: (req, _res, buf) => {
-      req.rawBody = buf;
-    },
-  }),
-);
+const keepRawBody = (req: IncomingMessage, _res: ServerResponse, buf: Buffer) => {
+  req.rawBody = buf;
+};
+
+// Full presets embed IRs, wavetables and granular samples, so only the routes
+// that take a whole preset accept large bodies; the parsers below skip a
+// request once one of these has read it
+const presetJson = express.json({ limit: "50mb", verify: keepRawBody });
+app.post(["/api/presets", "/api/render"], presetJson);
+app.patch("/api/presets/:id", presetJson);
+
+app.use(express.json({ verify: keepRawBody }));
 
 app.use(express.urlencoded({ extended: false }));
 
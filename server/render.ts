@@ -0,0 +1,65 @@
+import { OfflineAudioContext as NodeOfflineAudioContext } from "web-audio-engine";
+import { migratePresetSettings } from "@/lib/presetMigration";
+import { decodeGranularSample } from "@/lib/fullPreset";
+import type { WavetableData } from "@/lib/wavetableSettings";
+import { renderSound, createRenderCache, getTotalDuration } from "@/lib/renderEngine";
+import { encodeWav } from "@/lib/wavEncoder";
+import { getWavEncodeOptions, buildWavMetadata } from "@/lib/exportProcessing";
+import { patchRootMidi } from "@/lib/noteTrigger";
+import type { RenderRequest } from "@shared/schema";
+
+// The pure-JS render runs on the server's event loop, so keep each one short
+export const MAX_RENDER_SECONDS = 8;
+export const MAX_RENDER_FRAMES = MAX_RENDER_SECONDS * 48000;
+
+export type RenderResult = { wav: Buffer } | { error: string };
+
+// Headless render of a FullSynthSettings payload to WAV bytes, using a pure-JS
+// OfflineAudioContext so the same engine the browser uses runs in Node.
+// Fails when the settings aren't recognizable as a preset or the render is too long.
+export async function renderPresetToWav(request: RenderRequest): Promise<RenderResult> {
+  const migrated = migratePresetSettings(request.settings);
+  if (!migrated) return { error: "Settings are not a recognizable preset" };
+  const { params, granularSample, customWavetables, ...settings } = migrated.settings;
+
+  const seconds = getTotalDuration(params, settings.oscEnvelopes, settings.sampleLayerSettings) / 1000;
+  if (seconds > MAX_RENDER_SECONDS || seconds * request.sampleRate > MAX_RENDER_FRAMES) {
+    return { error: `Render too long: at most ${MAX_RENDER_SECONDS}s, or ${MAX_RENDER_FRAMES} samples per channel` };
+  }
+
+  // Embedded user wavetables are visible to this render only
+  const wavetables = new Map<string, WavetableData>();
+  for (const table of customWavetables ?? []) {
+    wavetables.set(table.id, {
+      id: table.id,
+      name: table.name,
+      category: table.category,
+      frameSize: 2048,
+      frameCount: table.frames.length,
+      frames: table.frames.map(f => new Float32Array(f)),
+      isFactory: false,
+      createdAt: Date.now(),
+    });
+  }
+
+  const seed = request.seed ?? Date.now();
+  const buffer = await renderSound(
+    params,
+    { ...settings, granularBuffer: decodeGranularSample(granularSample), wavetables },
+    {
+      seed,
+      sampleRate: request.sampleRate,
+      cache: createRenderCache(),
+      createContext: (channels, length, sampleRate) => new NodeOfflineAudioContext(channels, length, sampleRate),
+    }
+  );
+
+  const metadata = buildWavMetadata({
+    presetName: request.name ?? "Untitled",
+    seed,
+    rootNote: patchRootMidi(params),
+    tempo: params.tempo,
+  });
+  const options = getWavEncodeOptions(request.bitDepth, request.bitDepth === "16" ? "tpdf" : "none");
+  return { wav: Buffer.from(encodeWav(buffer, { ...options, metadata })) };
+}
@@ -1,27 +1,63 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertPresetSchema } from "@shared/schema";
+import {
+  insertPresetSchema,
+  PresetMetadataSchema,
+  PresetSearchQuerySchema,
+  PresetRatingSchema,
+  PresetUsageSchema,
+  RenderRequestSchema,
+  PREVIEW_MIME_TYPES,
+  MAX_PREVIEW_BYTES,
+  type PresetRevisionDiff,
+} from "@shared/schema";
+import { renderPresetToWav } from "./render";
+import { diffSettings } from "@/lib/presetDiff";
+import { setupAuth, requireAuth } from "./auth";
 
 export async function registerRoutes(
   httpServer: Server,
   app: Express
 ): Promise<Server> {
-  // Preset API routes
+  // Sessions and the register/login/logout/user routes
+  setupAuth(app);
+
+  // Preset API routes. Anyone can browse and load; only the owner can change a preset
   
-  // Get all presets
+  // Search presets: ?q=&tag=&category=&sort=&favorites=&cursor=&limit=
   app.get("/api/presets", async (req, res) => {
     try {
-      const presets = await storage.getAllPresets();
-      res.json(presets);
+      const parsed = PresetSearchQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid search query", details: parsed.error });
+      }
+      if (parsed.data.favorites && !req.user) {
+        return res.status(401).json({ error: "Sign in to see favorites" });
+      }
+      const page = await storage.searchPresets(parsed.data, req.user?.id);
+      if (!page) {
+        return res.status(400).json({ error: "Invalid cursor" });
+      }
+      res.json(page);
     } catch (error) {
       console.error("Error fetching presets:", error);
       res.status(500).json({ error: "Failed to fetch presets" });
     }
   });
 
+  // Tags in use, most common first, for the library's filter chips
+  app.get("/api/presets/tags", async (_req, res) => {
+    try {
+      res.json(await storage.getPresetTags());
+    } catch (error) {
+      console.error("Error fetching preset tags:", error);
+      res.status(500).json({ error: "Failed to fetch preset tags" });
+    }
+  });
+
   // Create a new preset
-  app.post("/api/presets", async (req, res) => {
+  app.post("/api/presets", requireAuth, async (req, res) => {
     try {
       // Ensure createdAt is set
       const body = {
@@ -32,7 +68,10 @@ export async function registerRoutes(
       if (!parsed.success) {
         return res.status(400).json({ error: "Invalid preset data", details: parsed.error });
       }
-      const preset = await storage.createPreset(parsed.data);
+      const preset = await storage.createPreset(
+        { ...parsed.data, author: parsed.data.author || req.user!.username },
+        req.user!.id,
+      );
       res.status(201).json(preset);
     } catch (error) {
       console.error("Error creating preset:", error);
@@ -40,18 +79,29 @@ export async function registerRoutes(
     }
   });
 
-  // Update a preset (rename or overwrite settings)
-  app.patch("/api/presets/:id", async (req, res) => {
+  // Update a preset (rename, overwrite settings or edit library metadata)
+  app.patch("/api/presets/:id", requireAuth, async (req, res) => {
     try {
-      const id = parseInt(req.params.id, 10);
+      const id = parseInt(String(req.params.id), 10);
       if (isNaN(id)) {
         return res.status(400).json({ error: "Invalid preset ID" });
       }
       const { name, settings } = req.body;
-      if (!name && !settings) {
+      const metadata = PresetMetadataSchema.safeParse(req.body);
+      if (!metadata.success) {
+        return res.status(400).json({ error: "Invalid preset metadata", details: metadata.error });
+      }
+      if (!name && !settings && Object.values(metadata.data).every(value => value === undefined)) {
         return res.status(400).json({ error: "No updates provided" });
       }
-      const updated = await storage.updatePreset(id, { name, settings });
+      const existing = await storage.getPreset(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Preset not found" });
+      }
+      if (existing.ownerId !== req.user!.id) {
+        return res.status(403).json({ error: "Only the preset's owner can change it" });
+      }
+      const updated = await storage.updatePreset(id, { name, settings, ...metadata.data }, { authorId: req.user!.id });
       if (!updated) {
         return res.status(404).json({ error: "Preset not found" });
       }
@@ -63,12 +113,19 @@ export async function registerRoutes(
   });
 
   // Delete a preset
-  app.delete("/api/presets/:id", async (req, res) => {
+  app.delete("/api/presets/:id", requireAuth, async (req, res) => {
     try {
-      const id = parseInt(req.params.id, 10);
+      const id = parseInt(String(req.params.id), 10);
       if (isNaN(id)) {
         return res.status(400).json({ error: "Invalid preset ID" });
       }
+      const existing = await storage.getPreset(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Preset not found" });
+      }
+      if (existing.ownerId !== req.user!.id) {
+        return res.status(403).json({ error: "Only the preset's owner can delete it" });
+      }
       const deleted = await storage.deletePreset(id);
       if (!deleted) {
         return res.status(404).json({ error: "Preset not found" });
@@ -80,5 +137,285 @@ export async function registerRoutes(
     }
   });
 
+  // Stored audio preview; clients add ?v=<previewUpdatedAt> so a new upload busts the cache
+  app.get("/api/presets/:id/preview", async (req, res) => {
+    try {
+      const id = parseInt(String(req.params.id), 10);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid preset ID" });
+      }
+      const preview = await storage.getPresetPreview(id);
+      if (!preview) {
+        return res.status(404).json({ error: "Preview not found" });
+      }
+      res.set("Cache-Control", "public, max-age=86400");
+      res.type(preview.mimeType).send(Buffer.from(preview.data));
+    } catch (error) {
+      console.error("Error fetching preset preview:", error);
+      res.status(500).json({ error: "Failed to fetch preset preview" });
+    }
+  });
+
+  // Upload or replace the preview; the body is the encoded audio itself
+  app.put(
+    "/api/presets/:id/preview",
+    requireAuth,
+    express.raw({ type: PREVIEW_MIME_TYPES, limit: MAX_PREVIEW_BYTES }),
+    async (req, res) => {
+      try {
+        const id = parseInt(String(req.params.id), 10);
+        if (isNaN(id)) {
+          return res.status(400).json({ error: "Invalid preset ID" });
+        }
+        const mimeType = req.get("Content-Type")?.split(";")[0].trim() ?? "";
+        if (!PREVIEW_MIME_TYPES.includes(mimeType) || !Buffer.isBuffer(req.body) || req.body.length === 0) {
+          return res.status(400).json({ error: `Preview must be non-empty ${PREVIEW_MIME_TYPES.join(" or ")} audio` });
+        }
+        const existing = await storage.getPreset(id);
+        if (!existing) {
+          return res.status(404).json({ error: "Preset not found" });
+        }
+        if (existing.ownerId !== req.user!.id) {
+          return res.status(403).json({ error: "Only the preset's owner can change its preview" });
+        }
+        const previewUpdatedAt = await storage.savePresetPreview(id, mimeType, req.body);
+        res.json({ previewUpdatedAt });
+      } catch (error) {
+        console.error("Error saving preset preview:", error);
+        res.status(500).json({ error: "Failed to save preset preview" });
+      }
+    },
+  );
+
+  // Favorite or unfavorite a preset for the signed-in user
+  app.put("/api/presets/:id/favorite", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(String(req.params.id), 10);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid preset ID" });
+      }
+      if (!(await storage.getPreset(id))) {
+        return res.status(404).json({ error: "Preset not found" });
+      }
+      await storage.setFavorite(req.user!.id, id, true);
+      res.json({ isFavorite: true });
+    } catch (error) {
+      console.error("Error adding favorite:", error);
+      res.status(500).json({ error: "Failed to add favorite" });
+    }
+  });
+
+  app.delete("/api/presets/:id/favorite", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(String(req.params.id), 10);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid preset ID" });
+      }
+      await storage.setFavorite(req.user!.id, id, false);
+      res.json({ isFavorite: false });
+    } catch (error) {
+      console.error("Error removing favorite:", error);
+      res.status(500).json({ error: "Failed to remove favorite" });
+    }
+  });
+
+  // Rate a preset 1-5; one rating per user, replaced on re-rating
+  app.put("/api/presets/:id/rating", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(String(req.params.id), 10);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid preset ID" });
+      }
+      const parsed = PresetRatingSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Rating must be a whole number from 1 to 5", details: parsed.error });
+      }
+      const summary = await storage.setRating(req.user!.id, id, parsed.data.rating);
+      if (!summary) {
+        return res.status(404).json({ error: "Preset not found" });
+      }
+      res.json(summary);
+    } catch (error) {
+      console.error("Error rating preset:", error);
+      res.status(500).json({ error: "Failed to rate preset" });
+    }
+  });
+
+  app.delete("/api/presets/:id/rating", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(String(req.params.id), 10);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid preset ID" });
+      }
+      const summary = await storage.setRating(req.user!.id, id, null);
+      if (!summary) {
+        return res.status(404).json({ error: "Preset not found" });
+      }
+      res.json(summary);
+    } catch (error) {
+      console.error("Error clearing rating:", error);
+      res.status(500).json({ error: "Failed to clear rating" });
+    }
+  });
+
+  // Count a load or export; each user counts once per preset and kind per day
+  app.post("/api/presets/:id/usage", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(String(req.params.id), 10);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid preset ID" });
+      }
+      const parsed = PresetUsageSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid usage kind", details: parsed.error });
+      }
+      if (!(await storage.recordUsage(req.user!.id, id, parsed.data.kind))) {
+        return res.status(404).json({ error: "Preset not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error recording preset usage:", error);
+      res.status(500).json({ error: "Failed to record preset usage" });
+    }
+  });
+
+  // Revision history: every saved name/settings state, oldest first
+  app.get("/api/presets/:id/revisions", async (req, res) => {
+    try {
+      const id = parseInt(String(req.params.id), 10);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid preset ID" });
+      }
+      if (!(await storage.getPreset(id))) {
+        return res.status(404).json({ error: "Preset not found" });
+      }
+      res.json(await storage.getPresetRevisions(id));
+    } catch (error) {
+      console.error("Error fetching preset revisions:", error);
+      res.status(500).json({ error: "Failed to fetch preset revisions" });
+    }
+  });
+
+  // A single revision with its settings, for loading an old version
+  app.get("/api/presets/:id/revisions/:revisionId", async (req, res) => {
+    try {
+      const id = parseInt(String(req.params.id), 10);
+      const revisionId = parseInt(String(req.params.revisionId), 10);
+      if (isNaN(id) || isNaN(revisionId)) {
+        return res.status(400).json({ error: "Invalid preset or revision ID" });
+      }
+      const revision = await storage.getPresetRevision(id, revisionId);
+      if (!revision) {
+        return res.status(404).json({ error: "Revision not found" });
+      }
+      res.json(revision);
+    } catch (error) {
+      console.error("Error fetching preset revision:", error);
+      res.status(500).json({ error: "Failed to fetch preset revision" });
+    }
+  });
+
+  // What a revision changed: ?against=<revisionId> or ?against=current,
+  // defaulting to the revision before it
+  app.get("/api/presets/:id/revisions/:revisionId/diff", async (req, res) => {
+    try {
+      const id = parseInt(String(req.params.id), 10);
+      const revisionId = parseInt(String(req.params.revisionId), 10);
+      if (isNaN(id) || isNaN(revisionId)) {
+        return res.status(400).json({ error: "Invalid preset or revision ID" });
+      }
+      const revision = await storage.getPresetRevision(id, revisionId);
+      if (!revision) {
+        return res.status(404).json({ error: "Revision not found" });
+      }
+
+      let base: { id: number | "current"; name: string; settings: unknown } = revision;
+      const against = req.query.against;
+      if (against === "current") {
+        const preset = await storage.getPreset(id);
+        if (!preset) {
+          return res.status(404).json({ error: "Preset not found" });
+        }
+        base = { id: "current", name: preset.name, settings: preset.settings };
+      } else if (against !== undefined) {
+        const againstId = parseInt(String(against), 10);
+        const other = isNaN(againstId) ? undefined : await storage.getPresetRevision(id, againstId);
+        if (!other) {
+          return res.status(404).json({ error: "Comparison revision not found" });
+        }
+        base = other;
+      } else {
+        const revisions = await storage.getPresetRevisions(id);
+        const index = revisions.findIndex(r => r.id === revisionId);
+        const previous = index > 0 ? await storage.getPresetRevision(id, revisions[index - 1].id) : undefined;
+        if (previous) base = previous;
+      }
+
+      const diff: PresetRevisionDiff = {
+        from: base.id,
+        to: revision.id,
+        nameChanged: base.name !== revision.name,
+        changes: diffSettings(base.settings, revision.settings),
+      };
+      res.json(diff);
+    } catch (error) {
+      console.error("Error diffing preset revisions:", error);
+      res.status(500).json({ error: "Failed to diff preset revisions" });
+    }
+  });
+
+  // Roll back to a revision; recorded as a new revision so nothing is lost
+  app.post("/api/presets/:id/revisions/:revisionId/restore", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(String(req.params.id), 10);
+      const revisionId = parseInt(String(req.params.revisionId), 10);
+      if (isNaN(id) || isNaN(revisionId)) {
+        return res.status(400).json({ error: "Invalid preset or revision ID" });
+      }
+      const existing = await storage.getPreset(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Preset not found" });
+      }
+      if (existing.ownerId !== req.user!.id) {
+        return res.status(403).json({ error: "Only the preset's owner can restore it" });
+      }
+      const revision = await storage.getPresetRevision(id, revisionId);
+      if (!revision) {
+        return res.status(404).json({ error: "Revision not found" });
+      }
+      const updated = await storage.updatePreset(
+        id,
+        { name: revision.name, settings: revision.settings },
+        { authorId: req.user!.id, restoredFrom: revision.id },
+      );
+      if (!updated) {
+        return res.status(404).json({ error: "Preset not found" });
+      }
+      res.json(updated);
+    } catch (error) {
+      console.error("Error restoring preset revision:", error);
+      res.status(500).json({ error: "Failed to restore preset revision" });
+    }
+  });
+
+  // Render a preset to audio without the UI (batch rendering from build scripts,
+  // signed in via /api/login); length is capped in renderPresetToWav
+  app.post("/api/render", requireAuth, async (req, res) => {
+    try {
+      const parsed = RenderRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid render request", details: parsed.error });
+      }
+      const result = await renderPresetToWav(parsed.data);
+      if ("error" in result) {
+        return res.status(400).json({ error: result.error });
+      }
+      res.type("audio/wav").send(result.wav);
+    } catch (error) {
+      console.error("Error rendering preset:", error);
+      res.status(500).json({ error: "Failed to render preset" });
+    }
+  });
+
   return httpServer;
 }
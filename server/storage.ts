@@ -1,6 +1,85 @@
-import { users, presets, type User, type InsertUser, type DbPreset, type InsertPreset } from "@shared/schema";
+import {
+  users,
+  presets,
+  presetRevisions,
+  presetFavorites,
+  presetRatings,
+  presetPreviews,
+  presetUsage,
+  USAGE_WINDOW_MS,
+  type User,
+  type InsertUser,
+  type DbPreset,
+  type InsertPreset,
+  type PresetMetadata,
+  type PresetSearchQuery,
+  type PresetPage,
+  type PresetRevision,
+  type PresetRevisionSummary,
+  type PresetSort,
+  type PresetUsageKind,
+  type PresetRatingSummary,
+  type PresetPreview,
+} from "@shared/schema";
 import { db } from "./db";
-import { eq, desc } from "drizzle-orm";
+import { eq, asc, desc, and, lt, arrayContains, isNotNull, getTableColumns, sql, type SQL } from "drizzle-orm";
+
+export interface PresetUpdates extends PresetMetadata {
+  name?: string;
+  settings?: unknown;
+}
+
+// Who made a name/settings change, recorded on the new revision
+export interface RevisionAuthor {
+  authorId: number;
+  restoredFrom?: number;
+}
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+// Name, description, author and tags as one document. Not indexed: array_to_string
+// isn't immutable, and the library is small enough to scan
+const searchDocument = sql`to_tsvector('simple', ${presets.name} || ' ' || ${presets.description} || ' ' || ${presets.author} || ' ' || array_to_string(${presets.tags}, ' '))`;
+
+// "dark kick" -> "dark:* & kick:*", so partly typed words still match
+function toPrefixQuery(q: string): string | null {
+  const words = q
+    .toLowerCase()
+    .split(/\s+/)
+    .map(word => word.replace(/[&|!():*<>'"\\]/g, ""))
+    .filter(word => word.length > 0);
+  return words.length > 0 ? words.map(word => `${word}:*`).join(" & ") : null;
+}
+
+// Integer sort keys, highest first; ties fall back to the id. sortValue must
+// compute the same number in JS for the cursor.
+const sortKeys: Record<PresetSort, SQL> = {
+  newest: sql`${presets.createdAt}`,
+  mostUsed: sql`(${presets.loadCount} + ${presets.exportCount})`,
+  topRated: sql`(${presets.ratingTotal} * 1000 / greatest(${presets.ratingCount}, 1))`, // Average x1000
+};
+
+function sortValue(preset: DbPreset, sort: PresetSort): number {
+  switch (sort) {
+    case "newest": return preset.createdAt;
+    case "mostUsed": return preset.loadCount + preset.exportCount;
+    case "topRated": return Math.floor((preset.ratingTotal * 1000) / Math.max(preset.ratingCount, 1));
+  }
+}
+
+// Cursors encode the sort and the sort key of the last row: "sort:value:id"
+function encodeCursor(preset: DbPreset, sort: PresetSort): string {
+  return Buffer.from(`${sort}:${sortValue(preset, sort)}:${preset.id}`).toString("base64url");
+}
+
+function decodeCursor(cursor: string, sort: PresetSort): { value: number; id: number } | null {
+  const [cursorSort, value, id] = Buffer.from(cursor, "base64url").toString().split(":");
+  const parsed = { value: Number(value), id: Number(id) };
+  return cursorSort === sort && Number.isInteger(parsed.value) && Number.isInteger(parsed.id) ? parsed : null;
+}
 
 export interface IStorage {
   // User operations
@@ -10,10 +89,29 @@ export interface IStorage {
   
   // Preset operations
   getAllPresets(): Promise<DbPreset[]>;
+  // Undefined when the cursor is malformed. The viewer's favorites and ratings
+  // are included when a user id is given.
+  searchPresets(query: PresetSearchQuery, viewerId?: number): Promise<PresetPage | undefined>;
+  getPresetTags(): Promise<TagCount[]>;
   getPreset(id: number): Promise<DbPreset | undefined>;
-  createPreset(preset: InsertPreset): Promise<DbPreset>;
-  updatePreset(id: number, updates: { name?: string; settings?: unknown }): Promise<DbPreset | undefined>;
+  createPreset(preset: InsertPreset, ownerId: number): Promise<DbPreset>;
+  // Name or settings changes also record a revision
+  updatePreset(id: number, updates: PresetUpdates, author: RevisionAuthor): Promise<DbPreset | undefined>;
   deletePreset(id: number): Promise<boolean>;
+
+  // Audio previews; saving one stamps the preset's previewUpdatedAt
+  getPresetPreview(presetId: number): Promise<PresetPreview | undefined>;
+  savePresetPreview(presetId: number, mimeType: string, data: Uint8Array): Promise<number>;
+
+  // Favorites, ratings and usage counters
+  setFavorite(userId: number, presetId: number, favorite: boolean): Promise<void>;
+  setRating(userId: number, presetId: number, rating: number | null): Promise<PresetRatingSummary | undefined>;
+  // False when the preset doesn't exist; repeats within USAGE_WINDOW_MS aren't counted
+  recordUsage(userId: number, presetId: number, kind: PresetUsageKind): Promise<boolean>;
+
+  // Revision operations, oldest first
+  getPresetRevisions(presetId: number): Promise<PresetRevisionSummary[]>;
+  getPresetRevision(presetId: number, revisionId: number): Promise<PresetRevision | undefined>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -36,31 +134,228 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(presets).orderBy(desc(presets.createdAt));
   }
 
+  async searchPresets(query: PresetSearchQuery, viewerId?: number): Promise<PresetPage | undefined> {
+    const conditions: SQL[] = [];
+    const sortKey = sortKeys[query.sort];
+    const viewer = viewerId ?? 0; // Serial ids start at 1, so 0 joins nothing
+
+    const prefixQuery = query.q ? toPrefixQuery(query.q) : null;
+    if (prefixQuery) conditions.push(sql`${searchDocument} @@ to_tsquery('simple', ${prefixQuery})`);
+    if (query.tag) conditions.push(arrayContains(presets.tags, [query.tag]));
+    if (query.category) conditions.push(eq(presets.category, query.category));
+    if (query.favorites) conditions.push(isNotNull(presetFavorites.userId));
+    if (query.cursor) {
+      const cursor = decodeCursor(query.cursor, query.sort);
+      if (!cursor) return undefined;
+      conditions.push(sql`(${sortKey}, ${presets.id}) < (${cursor.value}, ${cursor.id})`);
+    }
+
+    // One extra row tells whether another page follows
+    const rows = await db
+      .select({
+        ...getTableColumns(presets),
+        isFavorite: sql<boolean>`${presetFavorites.userId} is not null`,
+        myRating: presetRatings.rating,
+      })
+      .from(presets)
+      .leftJoin(presetFavorites, and(eq(presetFavorites.presetId, presets.id), eq(presetFavorites.userId, viewer)))
+      .leftJoin(presetRatings, and(eq(presetRatings.presetId, presets.id), eq(presetRatings.userId, viewer)))
+      .where(and(...conditions))
+      .orderBy(desc(sortKey), desc(presets.id))
+      .limit(query.limit + 1);
+
+    const items = rows.slice(0, query.limit);
+    return {
+      items,
+      nextCursor: rows.length > query.limit ? encodeCursor(items[items.length - 1], query.sort) : null,
+    };
+  }
+
+  async getPresetTags(): Promise<TagCount[]> {
+    const unnested = db
+      .select({ tag: sql<string>`unnest(${presets.tags})`.as("tag") })
+      .from(presets)
+      .as("unnested");
+    return db
+      .select({ tag: unnested.tag, count: sql<number>`count(*)::int` })
+      .from(unnested)
+      .groupBy(unnested.tag)
+      .orderBy(desc(sql`count(*)`), unnested.tag)
+      .limit(100);
+  }
+
   async getPreset(id: number): Promise<DbPreset | undefined> {
     const [preset] = await db.select().from(presets).where(eq(presets.id, id));
     return preset || undefined;
   }
 
-  async createPreset(preset: InsertPreset): Promise<DbPreset> {
-    const [created] = await db.insert(presets).values(preset).returning();
-    return created;
+  async createPreset(preset: InsertPreset, ownerId: number): Promise<DbPreset> {
+    return db.transaction(async (tx) => {
+      const [created] = await tx.insert(presets).values({ ...preset, ownerId }).returning();
+      await tx.insert(presetRevisions).values({
+        presetId: created.id,
+        name: created.name,
+        settings: created.settings,
+        authorId: ownerId,
+        createdAt: Date.now(),
+      });
+      return created;
+    });
   }
 
-  async updatePreset(id: number, updates: { name?: string; settings?: unknown }): Promise<DbPreset | undefined> {
+  async updatePreset(id: number, updates: PresetUpdates, author: RevisionAuthor): Promise<DbPreset | undefined> {
     const updateData: Record<string, unknown> = {};
     if (updates.name !== undefined) updateData.name = updates.name;
     if (updates.settings !== undefined) updateData.settings = updates.settings;
+    if (updates.description !== undefined) updateData.description = updates.description;
+    if (updates.category !== undefined) updateData.category = updates.category;
+    if (updates.tags !== undefined) updateData.tags = updates.tags;
     
     if (Object.keys(updateData).length === 0) return undefined;
-    
-    const [updated] = await db.update(presets).set(updateData).where(eq(presets.id, id)).returning();
-    return updated || undefined;
+
+    // Metadata edits don't change the sound, so they aren't revisions
+    if (updates.name === undefined && updates.settings === undefined) {
+      const [updated] = await db.update(presets).set(updateData).where(eq(presets.id, id)).returning();
+      return updated || undefined;
+    }
+
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(presets).where(eq(presets.id, id)).for("update");
+      if (!existing) return undefined;
+
+      // Presets saved before revisions existed get their current state as a baseline
+      const [{ count }] = await tx
+        .select({ count: sql<number>`count(*)::int` })
+        .from(presetRevisions)
+        .where(eq(presetRevisions.presetId, id));
+      if (count === 0) {
+        await tx.insert(presetRevisions).values({
+          presetId: id,
+          name: existing.name,
+          settings: existing.settings,
+          authorId: existing.ownerId,
+          createdAt: existing.createdAt,
+        });
+      }
+
+      const [updated] = await tx.update(presets).set(updateData).where(eq(presets.id, id)).returning();
+      await tx.insert(presetRevisions).values({
+        presetId: id,
+        name: updated.name,
+        settings: updated.settings,
+        authorId: author.authorId,
+        createdAt: Date.now(),
+        restoredFrom: author.restoredFrom,
+      });
+      return updated;
+    });
   }
 
   async deletePreset(id: number): Promise<boolean> {
     const result = await db.delete(presets).where(eq(presets.id, id)).returning();
     return result.length > 0;
   }
+
+  async getPresetPreview(presetId: number): Promise<PresetPreview | undefined> {
+    const [preview] = await db.select().from(presetPreviews).where(eq(presetPreviews.presetId, presetId));
+    return preview || undefined;
+  }
+
+  async savePresetPreview(presetId: number, mimeType: string, data: Uint8Array): Promise<number> {
+    const updatedAt = Date.now();
+    await db.transaction(async (tx) => {
+      await tx
+        .insert(presetPreviews)
+        .values({ presetId, mimeType, data, updatedAt })
+        .onConflictDoUpdate({ target: presetPreviews.presetId, set: { mimeType, data, updatedAt } });
+      await tx.update(presets).set({ previewUpdatedAt: updatedAt }).where(eq(presets.id, presetId));
+    });
+    return updatedAt;
+  }
+
+  async setFavorite(userId: number, presetId: number, favorite: boolean): Promise<void> {
+    if (favorite) {
+      await db.insert(presetFavorites).values({ userId, presetId, createdAt: Date.now() }).onConflictDoNothing();
+    } else {
+      await db.delete(presetFavorites).where(and(eq(presetFavorites.userId, userId), eq(presetFavorites.presetId, presetId)));
+    }
+  }
+
+  // Replaces the user's rating (null clears it) and adjusts the preset's totals
+  async setRating(userId: number, presetId: number, rating: number | null): Promise<PresetRatingSummary | undefined> {
+    return db.transaction(async (tx) => {
+      const [preset] = await tx.select().from(presets).where(eq(presets.id, presetId)).for("update");
+      if (!preset) return undefined;
+
+      const match = and(eq(presetRatings.userId, userId), eq(presetRatings.presetId, presetId));
+      const [previous] = await tx.select().from(presetRatings).where(match);
+      let { ratingTotal, ratingCount } = preset;
+      if (previous) {
+        ratingTotal -= previous.rating;
+        ratingCount -= 1;
+        await tx.delete(presetRatings).where(match);
+      }
+      if (rating !== null) {
+        ratingTotal += rating;
+        ratingCount += 1;
+        await tx.insert(presetRatings).values({ userId, presetId, rating, updatedAt: Date.now() });
+      }
+
+      await tx.update(presets).set({ ratingTotal, ratingCount }).where(eq(presets.id, presetId));
+      return { ratingTotal, ratingCount, myRating: rating };
+    });
+  }
+
+  async recordUsage(userId: number, presetId: number, kind: PresetUsageKind): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [preset] = await tx.select({ id: presets.id }).from(presets).where(eq(presets.id, presetId));
+      if (!preset) return false;
+
+      // Only a first use, or one after the window has passed, returns a row
+      const now = Date.now();
+      const counted = await tx
+        .insert(presetUsage)
+        .values({ userId, presetId, kind, countedAt: now })
+        .onConflictDoUpdate({
+          target: [presetUsage.userId, presetUsage.presetId, presetUsage.kind],
+          set: { countedAt: now },
+          setWhere: lt(presetUsage.countedAt, now - USAGE_WINDOW_MS),
+        })
+        .returning({ presetId: presetUsage.presetId });
+      if (counted.length === 0) return true;
+
+      const counter = kind === "load" ? presets.loadCount : presets.exportCount;
+      await tx
+        .update(presets)
+        .set(kind === "load" ? { loadCount: sql`${counter} + 1` } : { exportCount: sql`${counter} + 1` })
+        .where(eq(presets.id, presetId));
+      return true;
+    });
+  }
+
+  async getPresetRevisions(presetId: number): Promise<PresetRevisionSummary[]> {
+    return db
+      .select({
+        id: presetRevisions.id,
+        presetId: presetRevisions.presetId,
+        name: presetRevisions.name,
+        author: users.username,
+        createdAt: presetRevisions.createdAt,
+        restoredFrom: presetRevisions.restoredFrom,
+      })
+      .from(presetRevisions)
+      .leftJoin(users, eq(presetRevisions.authorId, users.id))
+      .where(eq(presetRevisions.presetId, presetId))
+      .orderBy(asc(presetRevisions.createdAt), asc(presetRevisions.id));
+  }
+
+  async getPresetRevision(presetId: number, revisionId: number): Promise<PresetRevision | undefined> {
+    const [revision] = await db
+      .select()
+      .from(presetRevisions)
+      .where(and(eq(presetRevisions.presetId, presetId), eq(presetRevisions.id, revisionId)));
+    return revision || undefined;
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,7 @@
+// web-audio-engine ships without type declarations; it mirrors the Web Audio
+// API, so the DOM types describe it closely enough for the render engine.
+declare module "web-audio-engine" {
+  export const OfflineAudioContext: {
+    new (numberOfChannels: number, length: number, sampleRate: number): globalThis.OfflineAudioContext;
+  };
+}
@@ -1,5 +1,6 @@
 import { z } from "zod";
-import { pgTable, text, serial, jsonb, bigint } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+import { pgTable, text, serial, jsonb, bigint, integer, index, primaryKey, customType } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 
 export const WaveformType = z.enum(["sine", "triangle", "sawtooth", "square", "noise"]);
@@ -457,14 +458,49 @@ export type Preset = z.infer<typeof PresetSchema>;
 
 export const ExportSettingsSchema = z.object({
   sampleRate: z.enum(["44100", "48000", "96000"]),
-  format: z.enum(["wav", "mp3"]),
+  format: z.enum(["wav", "mp3", "flac", "ogg"]),
   channels: z.enum(["mono", "stereo"]),
+  bitDepth: z.enum(["16", "24", "32f"]), // 32f = 32-bit float (WAV only; FLAC writes 24)
+  dither: z.enum(["none", "tpdf", "noise-shaped"]), // 16-bit only
+  mp3Mode: z.enum(["cbr", "vbr"]),
+  mp3Bitrate: z.enum(["128", "192", "256", "320"]), // kbps, CBR
+  mp3Quality: z.number().int().min(0).max(9), // LAME V0 (best) to V9, VBR
   normalize: z.boolean(),
-  tailExtension: z.number().min(0).max(5000),
+  // Peak normalizes to a 0.95 sample peak; the LUFS modes hit loudnessTarget
+  // (BS.1770) without letting the 4x oversampled true peak pass truePeakCeiling
+  normalizeMode: z.enum(["peak", "integrated", "short-term"]),
+  loudnessTarget: z.number().min(-40).max(0), // LUFS
+  truePeakCeiling: z.number().min(-12).max(0), // dBTP
+  tailExtension: z.number().min(0).max(5000), // ms of silence, when autoTrim is off
+  // Auto trim cuts leading silence and ends the file where the tail decays
+  // below tailFloor, then fades out; levels are dB below the sound's peak
+  autoTrim: z.boolean(),
+  trimThreshold: z.number().min(-80).max(-20),
+  tailFloor: z.number().min(-100).max(-30),
+  fadeOut: z.number().min(0).max(1000), // ms
+  // Multi-sample mode renders every rangeStep-th note from rangeLow to rangeHigh
+  // (MIDI notes) and adds SFZ / Decent Sampler mappings
+  mode: z.enum(["oneshot", "multisample"]),
+  rangeLow: z.number().int().min(0).max(127),
+  rangeHigh: z.number().int().min(0).max(127),
+  rangeStep: z.number().int().min(1).max(12),
 });
 
 export type ExportSettings = z.infer<typeof ExportSettingsSchema>;
 
+// Headless render request (POST /api/render). Settings are a FullSynthSettings
+// payload; they're migrated and repaired server-side, so only the shape is checked here.
+export const RenderRequestSchema = z.object({
+  settings: z.object({}).passthrough(),
+  seed: z.number().int().optional(),
+  sampleRate: z.union([z.literal(44100), z.literal(48000), z.literal(96000)]).default(44100),
+  format: z.literal("wav").default("wav"),
+  bitDepth: z.enum(["16", "24", "32f"]).default("16"),
+  name: z.string().max(100).optional(), // Preset name written into the WAV metadata
+});
+
+export type RenderRequest = z.infer<typeof RenderRequestSchema>;
+
 const defaultOscillator: Oscillator = {
   enabled: false,
   waveform: "sine",
@@ -701,8 +737,24 @@ export const defaultExportSettings: ExportSettings = {
   sampleRate: "44100",
   format: "wav",
   channels: "mono",
+  bitDepth: "16",
+  dither: "tpdf",
+  mp3Mode: "cbr",
+  mp3Bitrate: "192",
+  mp3Quality: 2,
   normalize: true,
+  normalizeMode: "peak",
+  loudnessTarget: -14,
+  truePeakCeiling: -1,
   tailExtension: 500,
+  autoTrim: true,
+  trimThreshold: -50,
+  tailFloor: -70,
+  fadeOut: 30,
+  mode: "oneshot",
+  rangeLow: 36, // C2
+  rangeHigh: 84, // C6
+  rangeStep: 3,
 };
 
 const defaultFmOsc = { 
@@ -1698,23 +1750,214 @@ export const factoryPresets: Omit<Preset, "id" | "createdAt">[] = [
 ];
 
 // Database tables for Drizzle ORM
+export const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+  username: text("username").notNull().unique(),
+  password: text("password").notNull(), // scrypt hash, "hash.salt"
+});
+
+export const insertUserSchema = createInsertSchema(users).omit({ id: true });
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type User = typeof users.$inferSelect;
+export type PublicUser = Omit<User, "password">;
+
+// Credentials accepted by the register and login routes
+export const CredentialsSchema = z.object({
+  username: z.string().trim().min(3).max(32),
+  password: z.string().min(8).max(128),
+});
+
+export const PresetCategory = z.enum(["kick", "snare", "clap", "hat", "perc", "tom", "bass", "pluck", "lead", "pad", "riser", "fx", "other"]);
+export type PresetCategory = z.infer<typeof PresetCategory>;
+
+export const MAX_PRESET_TAGS = 12;
+const MAX_TAG_LENGTH = 24;
+
+// Lowercase and trimmed, inner whitespace as "-", cut to the length limit
+export function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase().replace(/\s+/g, "-").slice(0, MAX_TAG_LENGTH);
+}
+
+// Normalized, de-duplicated tags; anything past the limits is dropped
+export function normalizeTags(tags: string[]): string[] {
+  const cleaned = tags
+    .map(normalizeTag)
+    .filter(tag => tag.length > 0);
+  return Array.from(new Set(cleaned)).slice(0, MAX_PRESET_TAGS);
+}
+
 export const presets = pgTable("presets", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
   settings: jsonb("settings").notNull(),
   createdAt: bigint("created_at", { mode: "number" }).notNull(),
-});
+  // Null for presets shared before accounts existed; those are read-only
+  ownerId: integer("owner_id").references(() => users.id),
+  description: text("description").notNull().default(""),
+  category: text("category").$type<PresetCategory>(),
+  tags: text("tags").array().notNull().default(sql`'{}'::text[]`),
+  author: text("author").notNull().default(""), // Credit shown in the library; the owner's username unless given
+  // Usage and rating totals, kept in step with the tables below so the library can sort on them
+  loadCount: integer("load_count").notNull().default(0),
+  exportCount: integer("export_count").notNull().default(0),
+  ratingTotal: integer("rating_total").notNull().default(0),
+  ratingCount: integer("rating_count").notNull().default(0),
+  // When the stored preview was last uploaded; null when there is none. Doubles as a cache-buster.
+  previewUpdatedAt: bigint("preview_updated_at", { mode: "number" }),
+}, (table) => [
+  index("presets_tags_idx").using("gin", table.tags),
+  index("presets_created_idx").on(table.createdAt, table.id),
+]);
 
-export const insertPresetSchema = createInsertSchema(presets).omit({ id: true });
+// The owner always comes from the session, never from the request body
+export const insertPresetSchema = createInsertSchema(presets, {
+  description: z.string().max(500).optional(),
+  category: PresetCategory.nullable().optional(),
+  tags: z.array(z.string()).transform(normalizeTags).optional(),
+  author: z.string().trim().max(64).optional(),
+}).omit({ id: true, ownerId: true, loadCount: true, exportCount: true, ratingTotal: true, ratingCount: true, previewUpdatedAt: true });
 export type InsertPreset = z.infer<typeof insertPresetSchema>;
 export type DbPreset = typeof presets.$inferSelect;
 
-// Users table (for potential future use)
-export const users = pgTable("users", {
+// Every saved name/settings state of a preset, newest last. Restoring an old
+// revision records a new one, so history is never rewritten.
+export const presetRevisions = pgTable("preset_revisions", {
   id: serial("id").primaryKey(),
-  username: text("username").notNull().unique(),
+  presetId: integer("preset_id").notNull().references(() => presets.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  settings: jsonb("settings").notNull(),
+  authorId: integer("author_id").references(() => users.id), // Null for pre-account saves
+  createdAt: bigint("created_at", { mode: "number" }).notNull(),
+  restoredFrom: integer("restored_from"), // Revision id this one was restored from
+}, (table) => [
+  index("preset_revisions_preset_idx").on(table.presetId, table.createdAt),
+]);
+
+export type PresetRevision = typeof presetRevisions.$inferSelect;
+
+// Revision list entry; settings are fetched per revision
+export interface PresetRevisionSummary {
+  id: number;
+  presetId: number;
+  name: string;
+  author: string | null;
+  createdAt: number;
+  restoredFrom: number | null;
+}
+
+export interface SettingsChange {
+  path: string; // Dotted path into the settings, e.g. "params.filter.frequency"
+  before: unknown; // undefined when added
+  after: unknown; // undefined when removed
+}
+
+export interface PresetRevisionDiff {
+  from: number | "current"; // Revision id, or the preset as it is now
+  to: number;
+  nameChanged: boolean;
+  changes: SettingsChange[];
+}
+
+const bytea = customType<{ data: Uint8Array }>({
+  dataType() {
+    return "bytea";
+  },
 });
 
-export const insertUserSchema = createInsertSchema(users).omit({ id: true });
-export type InsertUser = z.infer<typeof insertUserSchema>;
-export type User = typeof users.$inferSelect;
+// Short compressed render per preset, kept out of the presets table so
+// library queries never load audio
+export const presetPreviews = pgTable("preset_previews", {
+  presetId: integer("preset_id").primaryKey().references(() => presets.id, { onDelete: "cascade" }),
+  mimeType: text("mime_type").notNull(),
+  data: bytea("data").notNull(),
+  updatedAt: bigint("updated_at", { mode: "number" }).notNull(),
+});
+
+export type PresetPreview = typeof presetPreviews.$inferSelect;
+
+export const PREVIEW_MIME_TYPES = ["audio/mpeg", "audio/ogg"];
+export const MAX_PREVIEW_BYTES = 512 * 1024;
+
+export const presetFavorites = pgTable("preset_favorites", {
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  presetId: integer("preset_id").notNull().references(() => presets.id, { onDelete: "cascade" }),
+  createdAt: bigint("created_at", { mode: "number" }).notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.userId, table.presetId] }),
+]);
+
+export const presetRatings = pgTable("preset_ratings", {
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  presetId: integer("preset_id").notNull().references(() => presets.id, { onDelete: "cascade" }),
+  rating: integer("rating").notNull(), // 1-5
+  updatedAt: bigint("updated_at", { mode: "number" }).notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.userId, table.presetId] }),
+]);
+
+export const PresetRatingSchema = z.object({
+  rating: z.number().int().min(1).max(5),
+});
+
+export const PresetUsageSchema = z.object({
+  kind: z.enum(["load", "export"]),
+});
+export type PresetUsageKind = z.infer<typeof PresetUsageSchema>["kind"];
+
+// When each user last bumped a preset's load or export counter; a user counts
+// at most once per preset and kind within USAGE_WINDOW_MS
+export const presetUsage = pgTable("preset_usage", {
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  presetId: integer("preset_id").notNull().references(() => presets.id, { onDelete: "cascade" }),
+  kind: text("kind").$type<PresetUsageKind>().notNull(),
+  countedAt: bigint("counted_at", { mode: "number" }).notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.userId, table.presetId, table.kind] }),
+]);
+
+export const USAGE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// The signed-in user's own favorite and rating for a preset
+export interface PresetViewerState {
+  isFavorite: boolean;
+  myRating: number | null;
+}
+
+export type PresetListItem = DbPreset & PresetViewerState;
+
+export interface PresetRatingSummary {
+  ratingTotal: number;
+  ratingCount: number;
+  myRating: number | null;
+}
+
+// Library metadata that can be edited after saving
+export const PresetMetadataSchema = z.object({
+  description: z.string().max(500),
+  category: PresetCategory.nullable(),
+  tags: z.array(z.string()).transform(normalizeTags),
+}).partial();
+export type PresetMetadata = z.infer<typeof PresetMetadataSchema>;
+
+export const PRESET_PAGE_SIZE = 50;
+const MAX_PRESET_PAGE_SIZE = 100;
+
+// Query string of GET /api/presets
+export const PresetSort = z.enum(["newest", "mostUsed", "topRated"]);
+export type PresetSort = z.infer<typeof PresetSort>;
+
+export const PresetSearchQuerySchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  tag: z.string().transform(tag => normalizeTag(tag) || undefined).optional(), // Matched as stored, so "Dark Kick" finds "dark-kick"
+  category: PresetCategory.optional(),
+  sort: PresetSort.default("newest"),
+  favorites: z.enum(["true", "false"]).transform(value => value === "true").optional(), // Signed-in user's favorites only
+  cursor: z.string().optional(), // Opaque; taken from a previous page's nextCursor
+  limit: z.coerce.number().int().min(1).max(MAX_PRESET_PAGE_SIZE).default(PRESET_PAGE_SIZE),
+});
+export type PresetSearchQuery = z.infer<typeof PresetSearchQuerySchema>;
+
+export interface PresetPage {
+  items: PresetListItem[];
+  nextCursor: string | null; // Null on the last page
+}